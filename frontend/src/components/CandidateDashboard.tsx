@@ -122,6 +122,7 @@ const CandidateDashboard: React.FC = () => {
       'interview': 'warning',
       'scoring': 'success',
       'completed': 'success',
+      'analysis-failed': 'error',
     };
     return variants[stage] || 'default';
   };
@@ -206,9 +207,16 @@ const CandidateDashboard: React.FC = () => {
       key: 'stage',
       header: 'Stage',
       render: (candidate: Candidate) => (
-        <Badge variant={getStageVariant(candidate.processingStage)} size="sm">
-          {candidate.processingStage}
-        </Badge>
+        <div className="flex flex-wrap gap-1">
+          <Badge variant={getStageVariant(candidate.processingStage)} size="sm">
+            {candidate.processingStage}
+          </Badge>
+          {candidate.promptInjectionSuspected && (
+            <Badge variant="error" size="sm">
+              Injection suspected
+            </Badge>
+          )}
+        </div>
       ),
     },
     {
@@ -296,6 +304,7 @@ const CandidateDashboard: React.FC = () => {
               <option value="interview">Interview</option>
               <option value="scoring">Scoring</option>
               <option value="completed">Completed</option>
+              <option value="analysis-failed">AI Analysis Failed</option>
             </Select>
 
             <Input
@@ -377,6 +386,26 @@ const CandidateDashboard: React.FC = () => {
               </CardContent>
             </Card>
 
+            {/* Prompt Injection Warning */}
+            {selectedCandidate.promptInjectionSuspected && (
+              <Alert variant="error">
+                <p className="font-medium">
+                  This candidate's resume or interview appears to try to influence the AI analysis.
+                  Check the AI scores against the documents.
+                </p>
+                {selectedCandidate.resumeData?.promptInjection?.findings.length ? (
+                  <ul className="mt-2 list-disc list-inside text-sm">
+                    {selectedCandidate.resumeData.promptInjection.findings.map((finding, index) => (
+                      <li key={index}>
+                        {finding.detail}
+                        {finding.excerpt && <span className="italic"> &mdash; {finding.excerpt}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </Alert>
+            )}
+
             {/* Scores */}
             {selectedCandidate.finalScore && (
               <Card>
@@ -50,9 +50,17 @@ const ResumeUploader: React.FC = () => {
     onDrop,
     accept: {
       'application/pdf': ['.pdf'],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+      'application/msword': ['.doc'],
+      'application/rtf': ['.rtf'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'text/html': ['.html', '.htm'],
+      'text/plain': ['.txt'],
+      'application/zip': ['.zip'],
+      'application/gzip': ['.tar.gz', '.tgz'],
     },
     multiple: true,
-    maxSize: 10 * 1024 * 1024, // 10MB
+    maxSize: 100 * 1024 * 1024, // 100MB archives; the server holds individual resumes to 10MB
   });
 
   const removeFile = (index: number) => {
@@ -194,11 +202,11 @@ const ResumeUploader: React.FC = () => {
             <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
               {isDragActive
-                ? 'Drop the PDF files here...'
-                : 'Drag & drop PDF files here, or click to select'}
+                ? 'Drop the resume files here...'
+                : 'Drag & drop resume files here, or click to select'}
             </h3>
             <p className="text-gray-500">
-              Supports PDF files up to 10MB each. You can upload multiple files at once.
+              Supports PDF, DOCX, DOC, RTF, ODT, HTML and TXT files up to 10MB each, or ZIP and TAR.GZ archives of them up to 100MB. You can upload multiple files at once.
             </p>
           </div>
         </CardContent>
@@ -282,8 +290,9 @@ const ResumeUploader: React.FC = () => {
             Upload Guidelines
           </h3>
           <ul className="text-sm text-gray-600 space-y-1">
-            <li>• Only PDF files are supported</li>
+            <li>• Supported formats: PDF, DOCX, DOC, RTF, ODT, HTML and TXT</li>
             <li>• Maximum file size: 10MB per file</li>
+            <li>• ZIP and TAR.GZ archives up to 100MB are expanded on the server</li>
             <li>• You can upload up to 10,000 resumes in a single batch</li>
             <li>• Make sure to select a job profile before uploading</li>
             <li>• Processing will begin automatically after upload</li>
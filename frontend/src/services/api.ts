@@ -47,6 +47,7 @@ export interface Candidate {
       githubUrl?: string;
       projectUrls: string[];
     };
+    promptInjection?: PromptInjectionScreening;
   };
   finalScore?: {
     compositeScore: number;
@@ -60,9 +61,19 @@ export interface Candidate {
     recommendation: string;
   };
   processingStage: string;
+  promptInjectionSuspected?: boolean;
   createdAt: string;
 }
 
+export interface PromptInjectionScreening {
+  suspected: boolean;
+  findings: Array<{
+    type: 'hidden-text' | 'instruction' | 'unicode';
+    detail: string;
+    excerpt?: string;
+  }>;
+}
+
 export interface ProcessingBatch {
   id: string;
   jobProfileId: string;
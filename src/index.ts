@@ -26,6 +26,8 @@ import { healthCheckService } from './services/healthCheckService';
 import { monitoringService } from './services/monitoringService';
 import { alertingService } from './services/alertingService';
 import { performanceInitializationService } from './services/performanceInitializationService';
+import { ocrService } from './services/ocrService';
+import { batchProcessingService } from './services/batchProcessingService';
 
 const app = express();
 
@@ -146,6 +148,14 @@ async function startApplication() {
       operation: 'startup'
     });
     
+    // Pick up batches interrupted by the previous shutdown
+    const resumedBatches = await batchProcessingService.resumeUnfinishedBatches();
+    logger.info('Unfinished batches resumed', {
+      service: 'application',
+      operation: 'startup',
+      resumedBatches
+    });
+    
     // Test models (only in development)
     if (process.env.NODE_ENV !== 'production') {
       await testModels();
@@ -195,6 +205,9 @@ async function startApplication() {
             operation: 'shutdown'
           });
           
+          // Stop the OCR worker, if one was started
+          await ocrService.shutdown();
+
           // Shutdown performance services (includes Redis and database)
           await performanceInitializationService.shutdown();
           logger.info('Performance services shutdown completed', {
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { CreateJobProfileRequest } from '../services/jobProfileService';
 import { logger } from '../utils/logger';
+import { isSupportedPhoneRegion } from '../utils/phoneNumber';
 
 /**
  * Sanitize string input - remove HTML tags and trim whitespace
@@ -46,6 +47,14 @@ export const sanitizeObject = (obj: any): any => {
   return obj;
 };
 
+/**
+ * Body fields kept verbatim. Prompt templates are sent to AI providers and never rendered as HTML;
+ * quotes and angle brackets are part of the answer format they describe.
+ */
+const RAW_TEXT_FIELDS: Array<{ path: RegExp; fields: string[] }> = [
+  { path: /^\/api\/prompt-templates(\/|$)/, fields: ['body', 'systemPrompt'] }
+];
+
 /**
  * General input sanitization middleware
  */
@@ -53,7 +62,14 @@ export const sanitizeInput = (req: Request, res: Response, next: NextFunction):
   try {
     // Sanitize request body
     if (req.body && typeof req.body === 'object') {
-      req.body = sanitizeObject(req.body);
+      const sanitized = sanitizeObject(req.body);
+      const rawFields = RAW_TEXT_FIELDS.find(route => route.path.test(req.path))?.fields || [];
+      for (const field of rawFields) {
+        if (typeof req.body[field] === 'string') {
+          sanitized[field] = req.body[field];
+        }
+      }
+      req.body = sanitized;
     }
     
     // Sanitize query parameters - only if they exist and are writable
@@ -174,11 +190,155 @@ export const validatePaginationQuery = [
   handleValidationErrors
 ];
 
+/**
+ * Validate a job profile's AI provider overrides. Provider names are checked when the analysis runs,
+ * since providers are registered at startup.
+ */
+function validateAIProviderSettings(settings: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return ['AI provider settings must be an object'];
+  }
+
+  const { fallbackOrder, maxRetries, timeout } = settings;
+
+  if (fallbackOrder !== undefined &&
+      (!Array.isArray(fallbackOrder) || fallbackOrder.some(name => typeof name !== 'string' || name.trim().length === 0))) {
+    errors.push('AI provider fallback order must be an array of provider names');
+  }
+
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 1 || maxRetries > 10)) {
+    errors.push('AI provider max retries must be an integer between 1 and 10');
+  }
+
+  if (timeout !== undefined && (!Number.isInteger(timeout) || timeout < 1000)) {
+    errors.push('AI provider timeout must be at least 1000 milliseconds');
+  }
+
+  if (settings.consensus !== undefined) {
+    errors.push(...validateConsensusSettings(settings.consensus));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate multi-provider consensus settings within AI provider settings
+ */
+function validateConsensusSettings(consensus: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof consensus !== 'object' || consensus === null || Array.isArray(consensus)) {
+    return ['AI consensus settings must be an object'];
+  }
+
+  const { enabled, providers, aggregation, weights, skillsMerge, maxSpread, minRelevanceScore } = consensus;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    errors.push('AI consensus enabled must be a boolean');
+  }
+
+  if (providers !== undefined &&
+      (!Array.isArray(providers) || providers.length < 2 ||
+       providers.some(name => typeof name !== 'string' || name.trim().length === 0))) {
+    errors.push('AI consensus providers must be an array of at least two provider names');
+  }
+
+  if (aggregation !== undefined && !['median', 'weighted-mean'].includes(aggregation)) {
+    errors.push('AI consensus aggregation must be median or weighted-mean');
+  }
+
+  if (weights !== undefined &&
+      (typeof weights !== 'object' || weights === null || Array.isArray(weights) ||
+       Object.values(weights).some(weight => typeof weight !== 'number' || weight < 0))) {
+    errors.push('AI consensus weights must map provider names to non-negative numbers');
+  }
+
+  if (skillsMerge !== undefined && !['union', 'intersection'].includes(skillsMerge)) {
+    errors.push('AI consensus skills merge must be union or intersection');
+  }
+
+  if (maxSpread !== undefined && (typeof maxSpread !== 'number' || maxSpread < 0 || maxSpread > 100)) {
+    errors.push('AI consensus max spread must be a number between 0 and 100');
+  }
+
+  if (minRelevanceScore !== undefined &&
+      (typeof minRelevanceScore !== 'number' || minRelevanceScore < 0 || minRelevanceScore > 100)) {
+    errors.push('AI consensus minimum relevance score must be a number between 0 and 100');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a job profile's prompt template choices. Template IDs are checked when the analysis runs.
+ */
+function validatePromptTemplateSelections(selections: any): string[] {
+  if (typeof selections !== 'object' || selections === null || Array.isArray(selections)) {
+    return ['Prompt templates must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const [key, selection] of Object.entries<any>(selections)) {
+    if (!['resumeAnalysis', 'interviewAnalysis'].includes(key)) {
+      errors.push(`Unknown prompt template analysis: ${key}`);
+    } else if (typeof selection !== 'object' || selection === null ||
+               typeof selection.templateId !== 'string' || selection.templateId.trim().length === 0) {
+      errors.push(`Prompt template for ${key} must have a templateId`);
+    } else if (selection.version !== undefined && (!Number.isInteger(selection.version) || selection.version < 1)) {
+      errors.push(`Prompt template version for ${key} must be a positive integer`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a job profile's company tier points and preferred industries
+ */
+function validateCompanyQualitySettings(settings: any): string[] {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return ['Company quality settings must be an object'];
+  }
+
+  const errors: string[] = [];
+  const { tierScores, preferredIndustries, preferredIndustryBonus } = settings;
+  const isPoints = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 15;
+
+  if (tierScores !== undefined) {
+    if (typeof tierScores !== 'object' || tierScores === null || Array.isArray(tierScores)) {
+      errors.push('Company tier scores must be an object');
+    } else {
+      for (const [tier, points] of Object.entries(tierScores)) {
+        if (!['top-tier', 'tech-focused', 'standard'].includes(tier)) {
+          errors.push(`Unknown company tier: ${tier}`);
+        } else if (!isPoints(points)) {
+          errors.push(`Company tier score for ${tier} must be a number between 0 and 15`);
+        }
+      }
+    }
+  }
+
+  if (preferredIndustries !== undefined &&
+      (!Array.isArray(preferredIndustries) ||
+       preferredIndustries.some(industry => typeof industry !== 'string' || industry.trim().length === 0))) {
+    errors.push('Preferred industries must be an array of industry names');
+  }
+
+  if (preferredIndustryBonus !== undefined && !isPoints(preferredIndustryBonus)) {
+    errors.push('Preferred industry bonus must be a number between 0 and 15');
+  }
+
+  return errors;
+}
+
 /**
  * Validate job profile creation request
  */
 export function validateCreateJobProfile(req: Request, res: Response, next: NextFunction): Response | void {
-  const { title, description, requiredSkills, experienceLevel, scoringWeights, interviewQuestions } = req.body;
+  const { title, description, requiredSkills, experienceLevel, phoneRegion, aiProviderSettings, promptTemplates, aiBatchBudgetUsd, companyQualitySettings, scoringWeights, interviewQuestions } = req.body;
   
   const errors: string[] = [];
   
@@ -224,6 +384,26 @@ export function validateCreateJobProfile(req: Request, res: Response, next: Next
     }
   }
   
+  if (phoneRegion !== undefined && (typeof phoneRegion !== 'string' || !isSupportedPhoneRegion(phoneRegion.toUpperCase()))) {
+    errors.push('Phone region must be an ISO 3166-1 alpha-2 country code (e.g. US, GB, IN)');
+  }
+  
+  if (aiProviderSettings !== undefined) {
+    errors.push(...validateAIProviderSettings(aiProviderSettings));
+  }
+
+  if (promptTemplates !== undefined) {
+    errors.push(...validatePromptTemplateSelections(promptTemplates));
+  }
+
+  if (aiBatchBudgetUsd !== undefined && (typeof aiBatchBudgetUsd !== 'number' || !Number.isFinite(aiBatchBudgetUsd) || aiBatchBudgetUsd < 0)) {
+    errors.push('AI batch budget must be a non-negative number of USD');
+  }
+
+  if (companyQualitySettings !== undefined) {
+    errors.push(...validateCompanyQualitySettings(companyQualitySettings));
+  }
+  
   if (!Array.isArray(interviewQuestions) || interviewQuestions.length === 0) {
     errors.push('Interview questions must be a non-empty array');
   } else {
@@ -249,7 +429,7 @@ export function validateCreateJobProfile(req: Request, res: Response, next: Next
  * Validate job profile update request
  */
 export function validateUpdateJobProfile(req: Request, res: Response, next: NextFunction): Response | void {
-  const { title, description, requiredSkills, experienceLevel, scoringWeights, interviewQuestions } = req.body;
+  const { title, description, requiredSkills, experienceLevel, phoneRegion, aiProviderSettings, promptTemplates, aiBatchBudgetUsd, companyQualitySettings, scoringWeights, interviewQuestions } = req.body;
   
   const errors: string[] = [];
   
@@ -303,6 +483,26 @@ export function validateUpdateJobProfile(req: Request, res: Response, next: Next
     }
   }
   
+  if (phoneRegion !== undefined && (typeof phoneRegion !== 'string' || !isSupportedPhoneRegion(phoneRegion.toUpperCase()))) {
+    errors.push('Phone region must be an ISO 3166-1 alpha-2 country code (e.g. US, GB, IN)');
+  }
+  
+  if (aiProviderSettings !== undefined) {
+    errors.push(...validateAIProviderSettings(aiProviderSettings));
+  }
+
+  if (promptTemplates !== undefined) {
+    errors.push(...validatePromptTemplateSelections(promptTemplates));
+  }
+
+  if (aiBatchBudgetUsd !== undefined && (typeof aiBatchBudgetUsd !== 'number' || !Number.isFinite(aiBatchBudgetUsd) || aiBatchBudgetUsd < 0)) {
+    errors.push('AI batch budget must be a non-negative number of USD');
+  }
+
+  if (companyQualitySettings !== undefined) {
+    errors.push(...validateCompanyQualitySettings(companyQualitySettings));
+  }
+  
   if (interviewQuestions !== undefined) {
     if (!Array.isArray(interviewQuestions) || interviewQuestions.length === 0) {
       errors.push('Interview questions must be a non-empty array if provided');
@@ -394,6 +594,33 @@ export function validateCandidateSearch(req: Request, res: Response, next: NextF
     }
   }
   
+  // Validate structured resume filters
+  if (req.query.minYearsExperience) {
+    const minYears = Number(req.query.minYearsExperience);
+    if (isNaN(minYears) || minYears < 0) {
+      errors.push('minYearsExperience must be a non-negative number');
+    }
+  }
+  
+  if (req.query.maxYearsExperience) {
+    const maxYears = Number(req.query.maxYearsExperience);
+    if (isNaN(maxYears) || maxYears < 0) {
+      errors.push('maxYearsExperience must be a non-negative number');
+    }
+  }
+  
+  if (req.query.minYearsExperience && req.query.maxYearsExperience &&
+      Number(req.query.minYearsExperience) > Number(req.query.maxYearsExperience)) {
+    errors.push('minYearsExperience cannot be greater than maxYearsExperience');
+  }
+  
+  if (req.query.degreeLevel) {
+    const validDegreeLevels = ['high-school', 'associate', 'bachelor', 'master', 'doctorate'];
+    if (!validDegreeLevels.includes(req.query.degreeLevel as string)) {
+      errors.push('degreeLevel must be one of: high-school, associate, bachelor, master, doctorate');
+    }
+  }
+  
   // Validate recommendation parameter
   if (req.query.recommendation) {
     const validRecommendations = ['strong-hire', 'hire', 'maybe', 'no-hire'];
@@ -404,9 +631,9 @@ export function validateCandidateSearch(req: Request, res: Response, next: NextF
   
   // Validate processing stage parameter
   if (req.query.processingStage) {
-    const validStages = ['resume', 'ai-analysis', 'linkedin', 'github', 'interview', 'scoring', 'completed'];
+    const validStages = ['resume', 'ai-analysis', 'linkedin', 'github', 'interview', 'scoring', 'completed', 'analysis-failed'];
     if (!validStages.includes(req.query.processingStage as string)) {
-      errors.push('processingStage must be one of: resume, ai-analysis, linkedin, github, interview, scoring, completed');
+      errors.push('processingStage must be one of: resume, ai-analysis, linkedin, github, interview, scoring, completed, analysis-failed');
     }
   }
   
@@ -453,6 +680,10 @@ export function validateCandidateSearch(req: Request, res: Response, next: NextF
     errors.push('interviewCompleted must be true or false');
   }
   
+  if (req.query.requiresManualReview && !['true', 'false'].includes(req.query.requiresManualReview as string)) {
+    errors.push('requiresManualReview must be true or false');
+  }
+  
   if (errors.length > 0) {
     return res.status(400).json({
       success: false,
@@ -506,4 +737,147 @@ export function validateExportParams(req: Request, res: Response, next: NextFunc
   }
   
   next();
-}
\ No newline at end of file
+}
+
+/**
+ * Validate prompt template creation request
+ */
+export function validateCreatePromptTemplate(req: Request, res: Response, next: NextFunction): Response | void {
+  const { kind, name, description, systemPrompt, body } = req.body;
+  
+  const errors: string[] = [];
+  
+  if (!['resume-analysis', 'interview-analysis'].includes(kind)) {
+    errors.push('Kind must be resume-analysis or interview-analysis');
+  }
+  
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    errors.push('Name is required and must be a non-empty string');
+  }
+  
+  if (!systemPrompt || typeof systemPrompt !== 'string' || systemPrompt.trim().length === 0) {
+    errors.push('System prompt is required and must be a non-empty string');
+  }
+  
+  errors.push(...validatePromptTemplateText(description, body));
+  
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors
+    });
+  }
+  
+  next();
+}
+
+/**
+ * Validate prompt template version request
+ */
+export function validateCreatePromptTemplateVersion(req: Request, res: Response, next: NextFunction): Response | void {
+  const { name, description, systemPrompt, body } = req.body;
+  
+  const errors: string[] = [];
+  
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+    errors.push('Name must be a non-empty string if provided');
+  }
+  
+  if (systemPrompt !== undefined && (typeof systemPrompt !== 'string' || systemPrompt.trim().length === 0)) {
+    errors.push('System prompt must be a non-empty string if provided');
+  }
+  
+  errors.push(...validatePromptTemplateText(description, body));
+  
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors
+    });
+  }
+  
+  next();
+}
+
+function validatePromptTemplateText(description: any, body: any): string[] {
+  const errors: string[] = [];
+
+  if (description !== undefined && typeof description !== 'string') {
+    errors.push('Description must be a string if provided');
+  }
+
+  if (!body || typeof body !== 'string' || body.trim().length === 0) {
+    errors.push('Body is required and must be a non-empty string');
+  } else if (body.length > 50000) {
+    errors.push('Body must be at most 50000 characters');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the fields of a company catalog entry; name and tier are required unless partial
+ */
+function validateCompanyCatalogFields(body: any, partial: boolean): string[] {
+  const { name, aliases, tier, industry, size } = body;
+  const errors: string[] = [];
+
+  if ((!partial || name !== undefined) && (!name || typeof name !== 'string' || name.trim().length === 0)) {
+    errors.push('Name is required and must be a non-empty string');
+  }
+
+  if ((!partial || tier !== undefined) && !['top-tier', 'tech-focused', 'standard'].includes(tier)) {
+    errors.push('Tier must be top-tier, tech-focused or standard');
+  }
+
+  if (aliases !== undefined &&
+      (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string' || alias.trim().length === 0))) {
+    errors.push('Aliases must be an array of non-empty strings');
+  }
+
+  if (industry !== undefined && (typeof industry !== 'string' || industry.trim().length === 0)) {
+    errors.push('Industry must be a non-empty string if provided');
+  }
+
+  if (size !== undefined && !['startup', 'small', 'medium', 'large', 'enterprise'].includes(size)) {
+    errors.push('Size must be startup, small, medium, large or enterprise');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate company catalog entry creation request
+ */
+export function validateCreateCompanyCatalogEntry(req: Request, res: Response, next: NextFunction): Response | void {
+  const errors = validateCompanyCatalogFields(req.body, false);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors
+    });
+  }
+
+  next();
+}
+
+/**
+ * Validate company catalog entry update request
+ */
+export function validateUpdateCompanyCatalogEntry(req: Request, res: Response, next: NextFunction): Response | void {
+  const errors = validateCompanyCatalogFields(req.body, true);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors
+    });
+  }
+
+  next();
+}
@@ -6,6 +6,14 @@ export interface JobProfile {
   description: string;
   requiredSkills: string[];
   experienceLevel: string;
+  phoneRegion?: string; // ISO 3166-1 alpha-2 region for applicant phone numbers written without a country code
+  aiProviderSettings?: AIProviderSettings; // Overrides the environment's AI provider fallback order, retries and timeout
+  promptTemplates?: { // Defaults to the active version of the built-in template for each analysis
+    resumeAnalysis?: PromptTemplateSelection;
+    interviewAnalysis?: PromptTemplateSelection;
+  };
+  aiBatchBudgetUsd?: number; // AI spend limit per batch; overrides AI_BATCH_BUDGET_USD
+  companyQualitySettings?: CompanyQualitySettings; // Weights employer tiers and industries in LinkedIn scoring
   scoringWeights: {
     resumeAnalysis: number;
     linkedInAnalysis: number;
@@ -17,24 +25,203 @@ export interface JobProfile {
   updatedAt: Date;
 }
 
+export interface AIProviderSettings {
+  fallbackOrder?: string[]; // Provider names registered in llmProviderRegistry, tried in order
+  maxRetries?: number; // Attempts per provider
+  timeout?: number; // Milliseconds per attempt
+  consensus?: Partial<ConsensusSettings>; // Unset fields come from AI_CONSENSUS_* environment settings
+}
+
+export type CompanyTier = 'top-tier' | 'tech-focused' | 'standard';
+
+export type CompanySize = 'startup' | 'small' | 'medium' | 'large' | 'enterprise';
+
+export interface CompanyQualitySettings {
+  tierScores?: Partial<Record<CompanyTier, number>>; // Points out of 15 for the best employer's tier; default 15, 10, 5
+  preferredIndustries?: string[]; // Catalog industries, compared case-insensitively
+  preferredIndustryBonus?: number; // Points when an employer is in a preferred industry; default 5
+}
+
+/**
+ * Employer in the admin-managed company catalog that LinkedIn experience is rated against
+ */
+export interface CompanyCatalogEntry {
+  id: string;
+  name: string;
+  aliases: string[]; // Other names the company is listed under, e.g. former names or subsidiaries
+  tier: CompanyTier;
+  industry?: string;
+  size?: CompanySize;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CompanyCatalogMatch {
+  company: string; // As listed on LinkedIn
+  catalogId: string;
+  catalogName: string;
+  matchedName: string; // Catalog name or alias the company matched
+  similarity: number; // 0-1; 1 when equal after normalization
+  tier: CompanyTier;
+  industry?: string;
+  preferredIndustry: boolean; // One of the job profile's preferred industries
+}
+
+export type PromptTemplateKind = 'resume-analysis' | 'interview-analysis';
+
+/**
+ * One version of a prompt template. Versions are never edited; a change is a new version.
+ */
+export interface PromptTemplate {
+  templateId: string; // Shared by all versions; the built-in templates use their kind as ID
+  version: number;
+  kind: PromptTemplateKind;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  body: string; // Prompt text with {{variable}} placeholders
+  active: boolean; // Used when a job profile selects the template without pinning a version
+  createdAt: Date;
+  activatedAt?: Date;
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+export interface PromptTemplateSelection {
+  templateId: string;
+  version?: number; // Pin a version; otherwise the active version is used
+}
+
+// Whether provider answers are recorded to fixture files, or replayed from them instead of calling the provider
+export type LLMFixtureMode = 'off' | 'record' | 'replay';
+
+export interface AIProviderPricing {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number; // USD per million output tokens
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIProviderUsage extends TokenUsage {
+  provider: string;
+  calls: number; // Completed provider calls, including retries and repairs
+  costUsd: number;
+}
+
+/**
+ * Tokens and cost of every provider call made for one analysis, including calls that failed validation
+ */
+export interface AIUsage extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  providers: AIProviderUsage[];
+}
+
+/**
+ * Spend of one provider on one analysis; rolled up for cost reports
+ */
+export interface AIUsageRecord extends AIProviderUsage {
+  candidateId: string;
+  jobProfileId: string;
+  batchId?: string;
+  analysisType: PromptTemplateKind;
+  day: string; // YYYY-MM-DD (UTC)
+  createdAt: Date;
+}
+
+export interface AIBatchBudget {
+  batchId: string;
+  jobProfileId: string;
+  limitUsd?: number; // Falls back to the job profile, then AI_BATCH_BUDGET_USD
+  spentUsd: number; // Running total of the batch's recorded AI spend
+  paused: boolean; // AI analysis jobs are waiting for the limit to be raised
+  pausedAt?: Date;
+  pausedJobs: JobData[];
+}
+
+export interface ConsensusSettings {
+  enabled: boolean;
+  providers: string[]; // Run in parallel; at least two must answer for a consensus
+  aggregation: 'median' | 'weighted-mean';
+  weights?: { [provider: string]: number }; // For weighted-mean; providers not listed weigh 1
+  skillsMerge: 'union' | 'intersection';
+  maxSpread: number; // Largest relevanceScore difference between providers before human review
+  minRelevanceScore: number; // Only candidates scoring at least this on the first analysis get a consensus
+}
+
+export type DegreeLevel = 'high-school' | 'associate' | 'bachelor' | 'master' | 'doctorate';
+
+export interface WorkExperience {
+  title: string;
+  company?: string;
+  startDate?: string; // YYYY-MM, or YYYY when the resume gives no month
+  endDate?: string; // Unset for current roles
+  isCurrent: boolean;
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  institution?: string;
+  degree?: string;
+  degreeLevel?: DegreeLevel;
+  fieldOfStudy?: string;
+  graduationYear?: number;
+}
+
+export interface ResumeSections {
+  workHistory: WorkExperience[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: string[];
+  totalYearsExperience: number; // Overlapping roles counted once
+  highestDegreeLevel?: DegreeLevel;
+}
+
 export interface ResumeData {
   id: string;
   fileName: string;
   extractedText: string;
   contactInfo: {
-    phone?: string;
+    phone?: string; // As written on the resume
+    phoneE164?: string; // e.g. +442079460958
+    phoneCountry?: string; // ISO 3166-1 alpha-2 region the number belongs to
     email?: string;
     linkedInUrl?: string;
     githubUrl?: string;
     projectUrls: string[];
   };
+  sections?: ResumeSections; // Structured work history, education and skills parsed from extractedText
   processingStatus: 'pending' | 'completed' | 'failed';
+  extractorUsed?: string; // Name of the text extractor that handled the file (pdf, docx, rtf, ...)
+  ocrUsed?: boolean; // Text was recognised from scanned page images
+  ocrConfidence?: number; // 0-100, set when ocrUsed
+  requiresManualReview?: boolean; // Extracted text is missing or unreliable; skipped by automatic scoring
+  manualReviewReason?: string;
   extractionErrors?: string[];
+  hiddenText?: string[]; // PDF text drawn invisibly (background colour, invisible render mode or tiny font); kept out of AI prompts
+  promptInjection?: PromptInjectionScreening;
+}
+
+export interface PromptInjectionFinding {
+  type: 'hidden-text' | 'instruction' | 'unicode';
+  detail: string;
+  excerpt?: string; // The offending text with some context
+}
+
+export interface PromptInjectionScreening {
+  suspected: boolean; // Any finding; the content may be trying to steer the AI analysis
+  findings: PromptInjectionFinding[];
 }
 
 export interface AIAnalysisResult {
   candidateId: string;
-  provider: 'gemini' | 'openai' | 'claude';
+  provider: string; // Name registered in llmProviderRegistry, or 'consensus'
   relevanceScore: number; // 0-100
   skillsMatch: {
     matched: string[];
@@ -43,22 +230,113 @@ export interface AIAnalysisResult {
   experienceAssessment: string;
   reasoning: string;
   confidence: number;
+  requiresManualReview?: boolean; // Consensus providers disagreed by more than the allowed spread
+  manualReviewReason?: string;
+  consensus?: AIConsensusDetails;
+  promptTemplate?: PromptTemplateRef; // Template version that produced the prompt
+  usage?: AIUsage;
+  cacheHit?: boolean; // Served from the analysis cache without calling a provider
+  chunking?: AIChunkingDetails; // Set when the resume was too long for one prompt
+  evidence?: AIAnalysisEvidence; // Resume quotes behind the matched skills and experience claims
+}
+
+export interface EvidenceQuote {
+  quote: string; // Verbatim text of the resume
+  start: number; // Offset of the quote in the candidate's extractedText
+  end: number; // Exclusive
+}
+
+export interface AIAnalysisEvidence {
+  skills: Array<{ skill: string; quotes: EvidenceQuote[] }>;
+  experienceClaims: Array<{ claim: string; quotes: EvidenceQuote[] }>;
+  rejectedQuotes: number; // Quotes returned by the provider that do not appear in the resume
+}
+
+export interface AIChunkingDetails {
+  chunks: number; // Extraction passes before the final scoring pass
+  estimatedTokens: number; // Estimated size of the full resume text
+}
+
+export type AIProviderResult = Pick<
+  AIAnalysisResult,
+  'provider' | 'relevanceScore' | 'skillsMatch' | 'experienceAssessment' | 'reasoning' | 'confidence'
+>;
+
+export interface AIConsensusDetails {
+  aggregation: ConsensusSettings['aggregation'];
+  skillsMerge: ConsensusSettings['skillsMerge'];
+  spread: number; // Highest minus lowest provider relevanceScore
+  providerResults: AIProviderResult[]; // Raw result from each provider that answered
+  failedProviders?: { [provider: string]: string }; // Error from each provider that did not
+}
+
+// Where a LinkedIn profile comes from: the scraper API, or a profile the candidate attached
+export type LinkedInDataSourceName = 'scraper' | 'pdf-export' | 'json';
+
+export interface LinkedInProfileAttachment {
+  format: 'pdf-export' | 'json'; // LinkedIn "Save to PDF" export, or JSON in the LinkedInProfileData format
+  fileName?: string;
+  content: Buffer;
+  uploadedAt: Date;
+}
+
+export type ProfileDiscrepancyType = 'missing-employer' | 'inflated-tenure' | 'title-mismatch';
+
+export interface ProfileDiscrepancy {
+  type: ProfileDiscrepancyType;
+  severity: 'low' | 'medium' | 'high';
+  company: string; // As written on the resume
+  resumeValue?: string; // Title or tenure on the resume
+  linkedInValue?: string; // Title or tenure on LinkedIn
+  detail: string;
+}
+
+export interface ProfileConsistency {
+  score: number; // 0-100; 100 when the resume and LinkedIn history agree
+  comparedEmployers: number; // Resume employers checked against LinkedIn
+  discrepancies: ProfileDiscrepancy[];
+}
+
+export type ProfileSnapshotSource = 'linkedin' | 'github';
+
+/**
+ * Raw profile data as fetched from an external API, kept so analyses can be rerun without fetching again
+ */
+export interface ProfileSnapshot {
+  id: string;
+  source: ProfileSnapshotSource;
+  profileKey: string; // Normalized LinkedIn URL or lowercase GitHub username
+  payload: unknown; // LinkedInProfileData or GitHubProfileData
+  fetchedAt: Date;
+}
+
+// Snapshot an analysis was computed from
+export interface ProfileSnapshotRef {
+  id: string;
+  fetchedAt: Date;
+  reused: boolean; // Taken from storage rather than fetched for this analysis
 }
 
 export interface LinkedInAnalysis {
   candidateId: string;
   profileAccessible: boolean;
+  dataSource?: LinkedInDataSourceName; // Source of the analyzed profile
+  snapshot?: ProfileSnapshotRef; // Set when the profile came from the scraper
   professionalScore: number; // 0-100
+  consistency?: ProfileConsistency; // Resume work history reconciled with LinkedIn; set when both list employers
   experience: {
     totalYears: number;
     relevantRoles: number;
     companyQuality: string;
+    companyMatches?: CompanyCatalogMatch[]; // Employers found in the company catalog
   };
   network: {
     connections: number;
     endorsements: number;
   };
   credibilityIndicators: string[];
+  analyzedAt?: Date; // Set on successful analyses only
+  reusedFromCandidateId?: string; // Copied from an earlier application by the same person
 }
 
 export interface GitHubAnalysis {
@@ -80,6 +358,9 @@ export interface GitHubAnalysis {
     }>;
   };
   skillsEvidence: string[];
+  snapshot?: ProfileSnapshotRef;
+  analyzedAt?: Date; // Set on successful analyses only
+  reusedFromCandidateId?: string; // Copied from an earlier application by the same person
 }
 
 export interface InterviewSession {
@@ -92,6 +373,7 @@ export interface InterviewSession {
   duration?: number;
   callQuality: 'excellent' | 'good' | 'poor';
   retryCount: number;
+  analysisResult?: InterviewAnalysisResult; // Attached from the interview analysis store, not persisted on the session
 }
 
 export interface CandidateScore {
@@ -115,15 +397,44 @@ export interface CandidateScore {
   reasoning: string;
 }
 
+export type DuplicateMatchField = 'email' | 'phone' | 'linkedin' | 'github' | 'text';
+
+/**
+ * Normalized identifiers used to recognise the same person across applications
+ */
+export interface CandidateIdentity {
+  email?: string;
+  phone?: string; // E.164
+  linkedInHandle?: string;
+  githubHandle?: string;
+  textFingerprint?: string; // 64-bit SimHash of extractedText, hex
+  fingerprintBands?: string[]; // "<band>:<bits>" slices of textFingerprint for indexed near-match lookup
+}
+
+export interface DuplicateLink {
+  candidateId: string; // Application this one was matched against
+  matchedOn: DuplicateMatchField[];
+  textSimilarity?: number; // 0-1, when the resume text fingerprints are close
+  linkedBy: 'ingestion' | 'recruiter';
+  linkedAt: Date;
+}
+
 export interface Candidate {
   id: string;
+  personId?: string; // Canonical person record: the id of the person's first application
+  batchId?: string; // Upload batch the resume was ingested with
+  identity?: CandidateIdentity;
+  duplicateOf?: DuplicateLink; // Set on later applications by the same person
   resumeData: ResumeData;
   aiAnalysis?: AIAnalysisResult;
   linkedInAnalysis?: LinkedInAnalysis;
+  linkedInProfileAttachment?: LinkedInProfileAttachment; // Not loaded unless selected
   githubAnalysis?: GitHubAnalysis;
   interviewSession?: InterviewSession;
   finalScore?: CandidateScore;
-  processingStage: 'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring' | 'completed';
+  processingStage: 'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring' | 'completed' | 'analysis-failed';
+  analysisFailureReason?: string; // Set with 'analysis-failed': why every AI provider failed
+  promptInjectionSuspected?: boolean; // The resume or interview transcript looks like it tries to steer the AI analysis
   createdAt: Date;
   updatedAt: Date;
 }
@@ -131,7 +442,7 @@ export interface Candidate {
 export interface InterviewAnalysisResult {
   candidateId: string;
   interviewSessionId: string;
-  provider: 'gemini' | 'openai' | 'claude';
+  provider: string; // Name registered in llmProviderRegistry
   performanceScore: number; // 0-100
   communicationScore: number; // 0-100
   technicalScore: number; // 0-100
@@ -154,6 +465,15 @@ export interface InterviewAnalysisResult {
   overallAssessment: string;
   confidence: number; // 0-100
   analysisTimestamp: Date;
+  promptTemplate?: PromptTemplateRef; // Template version that produced the prompt
+  usage?: AIUsage;
+  promptInjection?: PromptInjectionScreening; // Screening of the transcript
+}
+
+export interface StagedResumeFile {
+  fileName: string;
+  mimeType?: string;
+  path: string; // Location in the batch staging directory
 }
 
 export interface ProcessingBatch {
@@ -162,10 +482,14 @@ export interface ProcessingBatch {
   totalCandidates: number;
   processedCandidates: number;
   failedCandidates: number;
+  duplicateCandidates?: number; // Linked to an earlier application by the same person
   status: 'processing' | 'completed' | 'failed';
   startedAt: Date;
   completedAt?: Date;
   candidateIds: string[];
+  stagedFiles?: StagedResumeFile[]; // Uploaded files, in processing order
+  nextFileIndex?: number; // Index of the first staged file not yet processed
+  phoneRegion?: string; // Default region for phone numbers, from the job profile
 }
 
 // Job Queue Interfaces
@@ -175,6 +499,7 @@ export interface JobData {
   batchId: string;
   stage: 'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring';
   priority?: number;
+  pipelineStages?: Array<'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring'>; // Stages chained in this run; absent for standalone jobs
   metadata?: Record<string, any>;
 }
 
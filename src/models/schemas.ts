@@ -9,15 +9,90 @@ import {
   LinkedInAnalysis,
   GitHubAnalysis,
   InterviewSession,
-  CandidateScore
+  InterviewAnalysisResult,
+  CandidateScore,
+  PromptTemplate,
+  AIUsageRecord,
+  AIBatchBudget,
+  CompanyCatalogEntry,
+  ProfileSnapshot
 } from './interfaces';
 
+const aiProviderSettingsSchema = new Schema({
+  fallbackOrder: [{ type: String }],
+  maxRetries: { type: Number, min: 1, max: 10 },
+  timeout: { type: Number, min: 1000 },
+  consensus: {
+    enabled: { type: Boolean },
+    providers: { type: [{ type: String }], default: undefined },
+    aggregation: { type: String, enum: ['median', 'weighted-mean'] },
+    weights: { type: Schema.Types.Mixed }, // Provider name to weight
+    skillsMerge: { type: String, enum: ['union', 'intersection'] },
+    maxSpread: { type: Number, min: 0, max: 100 },
+    minRelevanceScore: { type: Number, min: 0, max: 100 }
+  }
+}, { _id: false });
+
+const promptTemplateSelectionSchema = new Schema({
+  templateId: { type: String, required: true },
+  version: { type: Number, min: 1 }
+}, { _id: false });
+
+// Template version that produced an analysis prompt
+const promptTemplateRefSchema = new Schema({
+  id: { type: String, required: true },
+  version: { type: Number, required: true }
+}, { _id: false });
+
+// Stored profile snapshot an analysis was computed from
+const profileSnapshotRefSchema = new Schema({
+  id: { type: String, required: true },
+  fetchedAt: { type: Date, required: true },
+  reused: { type: Boolean, default: false }
+}, { _id: false });
+
+// Tokens and cost of the provider calls behind an analysis
+const aiUsageSchema = new Schema({
+  inputTokens: { type: Number, required: true, min: 0 },
+  outputTokens: { type: Number, required: true, min: 0 },
+  calls: { type: Number, required: true, min: 0 },
+  costUsd: { type: Number, required: true, min: 0 },
+  providers: [{
+    _id: false,
+    provider: { type: String, required: true },
+    inputTokens: { type: Number, required: true, min: 0 },
+    outputTokens: { type: Number, required: true, min: 0 },
+    calls: { type: Number, required: true, min: 0 },
+    costUsd: { type: Number, required: true, min: 0 }
+  }]
+}, { _id: false });
+
 // JobProfile Schema
 const jobProfileSchema = new Schema<JobProfile & Document>({
   title: { type: String, required: true },
   description: { type: String, required: true },
   requiredSkills: [{ type: String, required: true }],
   experienceLevel: { type: String, required: true },
+  phoneRegion: { type: String, uppercase: true, match: /^[A-Z]{2}$/ },
+  aiProviderSettings: { type: aiProviderSettingsSchema },
+  promptTemplates: {
+    type: new Schema({
+      resumeAnalysis: { type: promptTemplateSelectionSchema },
+      interviewAnalysis: { type: promptTemplateSelectionSchema }
+    }, { _id: false })
+  },
+  aiBatchBudgetUsd: { type: Number, min: 0 },
+  companyQualitySettings: {
+    type: new Schema({
+      tierScores: {
+        'top-tier': { type: Number, min: 0, max: 15 },
+        'tech-focused': { type: Number, min: 0, max: 15 },
+        'standard': { type: Number, min: 0, max: 15 }
+      },
+      preferredIndustries: { type: [{ type: String }], default: undefined },
+      preferredIndustryBonus: { type: Number, min: 0, max: 15 }
+    }, { _id: false })
+  },
   scoringWeights: {
     resumeAnalysis: { type: Number, required: true, min: 0, max: 100 },
     linkedInAnalysis: { type: Number, required: true, min: 0, max: 100 },
@@ -43,33 +118,98 @@ jobProfileSchema.pre('save', function(next) {
   next();
 });
 
+// Structured resume section schemas
+const DEGREE_LEVELS = ['high-school', 'associate', 'bachelor', 'master', 'doctorate'];
+
+const workExperienceSchema = new Schema({
+  title: { type: String },
+  company: { type: String },
+  startDate: { type: String },
+  endDate: { type: String },
+  isCurrent: { type: Boolean, default: false },
+  bullets: [{ type: String }]
+}, { _id: false });
+
+const educationEntrySchema = new Schema({
+  institution: { type: String },
+  degree: { type: String },
+  degreeLevel: { type: String, enum: DEGREE_LEVELS },
+  fieldOfStudy: { type: String },
+  graduationYear: { type: Number }
+}, { _id: false });
+
+const resumeSectionsSchema = new Schema({
+  workHistory: [workExperienceSchema],
+  education: [educationEntrySchema],
+  skills: [{ type: String }],
+  certifications: [{ type: String }],
+  totalYearsExperience: { type: Number, min: 0, default: 0 },
+  highestDegreeLevel: { type: String, enum: DEGREE_LEVELS }
+}, { _id: false });
+
+// Signs that untrusted text tries to steer the AI analysis
+const promptInjectionScreeningSchema = new Schema({
+  suspected: { type: Boolean, required: true },
+  findings: [{
+    _id: false,
+    type: { type: String, enum: ['hidden-text', 'instruction', 'unicode'], required: true },
+    detail: { type: String, required: true },
+    excerpt: { type: String }
+  }]
+}, { _id: false });
+
 // ResumeData Schema
 const resumeDataSchema = new Schema({
   fileName: { type: String, required: true },
   extractedText: { type: String, required: true },
   contactInfo: {
     phone: { type: String },
+    phoneE164: { type: String },
+    phoneCountry: { type: String },
     email: { type: String },
     linkedInUrl: { type: String },
     githubUrl: { type: String },
     projectUrls: [{ type: String }]
   },
+  sections: { type: resumeSectionsSchema },
   processingStatus: { 
     type: String, 
     enum: ['pending', 'completed', 'failed'], 
     default: 'pending',
   },
-  extractionErrors: [{ type: String }]
+  extractorUsed: { type: String },
+  ocrUsed: { type: Boolean },
+  ocrConfidence: { type: Number, min: 0, max: 100 },
+  requiresManualReview: { type: Boolean, default: false },
+  manualReviewReason: { type: String },
+  extractionErrors: [{ type: String }],
+  hiddenText: [{ type: String }],
+  promptInjection: { type: promptInjectionScreeningSchema }
 });
 
 // AI Analysis Result Schema
+// Raw result from one provider of a consensus analysis
+const aiProviderResultSchema = new Schema({
+  provider: { type: String, required: true },
+  relevanceScore: { type: Number, required: true, min: 0, max: 100 },
+  skillsMatch: {
+    matched: [{ type: String }],
+    missing: [{ type: String }]
+  },
+  experienceAssessment: { type: String, required: true },
+  reasoning: { type: String, required: true },
+  confidence: { type: Number, required: true, min: 0, max: 100 }
+}, { _id: false });
+
+const evidenceQuoteSchema = new Schema({
+  quote: { type: String, required: true },
+  start: { type: Number, required: true, min: 0 },
+  end: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
 const aiAnalysisResultSchema = new Schema({
   candidateId: { type: String, required: true, index: true },
-  provider: { 
-    type: String, 
-    enum: ['gemini', 'openai', 'claude'], 
-    required: true 
-  },
+  provider: { type: String, required: true },
   relevanceScore: { type: Number, required: true, min: 0, max: 100 },
   skillsMatch: {
     matched: [{ type: String }],
@@ -77,26 +217,94 @@ const aiAnalysisResultSchema = new Schema({
   },
   experienceAssessment: { type: String, required: true },
   reasoning: { type: String, required: true },
-  confidence: { type: Number, required: true, min: 0, max: 1 }
+  confidence: { type: Number, required: true, min: 0, max: 100 },
+  requiresManualReview: { type: Boolean },
+  manualReviewReason: { type: String },
+  consensus: {
+    type: new Schema({
+      aggregation: { type: String, enum: ['median', 'weighted-mean'], required: true },
+      skillsMerge: { type: String, enum: ['union', 'intersection'], required: true },
+      spread: { type: Number, required: true, min: 0 },
+      providerResults: [aiProviderResultSchema],
+      failedProviders: { type: Schema.Types.Mixed } // Provider name to error message
+    }, { _id: false })
+  },
+  promptTemplate: { type: promptTemplateRefSchema },
+  usage: { type: aiUsageSchema },
+  cacheHit: { type: Boolean },
+  chunking: {
+    type: new Schema({
+      chunks: { type: Number, required: true, min: 1 },
+      estimatedTokens: { type: Number, required: true, min: 0 }
+    }, { _id: false })
+  },
+  evidence: {
+    type: new Schema({
+      skills: [{ _id: false, skill: { type: String, required: true }, quotes: [evidenceQuoteSchema] }],
+      experienceClaims: [{ _id: false, claim: { type: String, required: true }, quotes: [evidenceQuoteSchema] }],
+      rejectedQuotes: { type: Number, default: 0, min: 0 }
+    }, { _id: false })
+  }
 });
 
+const profileDiscrepancySchema = new Schema({
+  type: { type: String, enum: ['missing-employer', 'inflated-tenure', 'title-mismatch'], required: true },
+  severity: { type: String, enum: ['low', 'medium', 'high'], required: true },
+  company: { type: String, required: true },
+  resumeValue: { type: String },
+  linkedInValue: { type: String },
+  detail: { type: String, required: true }
+}, { _id: false });
+
 // LinkedIn Analysis Schema
 const linkedInAnalysisSchema = new Schema({
   candidateId: { type: String, required: true, index: true },
   profileAccessible: { type: Boolean, required: true },
+  dataSource: { type: String, enum: ['scraper', 'pdf-export', 'json'] },
   professionalScore: { type: Number, required: true, min: 0, max: 100 },
+  consistency: {
+    type: new Schema({
+      score: { type: Number, required: true, min: 0, max: 100 },
+      comparedEmployers: { type: Number, required: true, min: 0 },
+      discrepancies: [profileDiscrepancySchema]
+    }, { _id: false })
+  },
   experience: {
     totalYears: { type: Number, required: true, min: 0 },
     relevantRoles: { type: Number, required: true, min: 0 },
-    companyQuality: { type: String, required: true }
+    companyQuality: { type: String, required: true },
+    companyMatches: {
+      type: [{
+        _id: false,
+        company: { type: String, required: true },
+        catalogId: { type: String, required: true },
+        catalogName: { type: String, required: true },
+        matchedName: { type: String, required: true },
+        similarity: { type: Number, required: true, min: 0, max: 1 },
+        tier: { type: String, enum: ['top-tier', 'tech-focused', 'standard'], required: true },
+        industry: { type: String },
+        preferredIndustry: { type: Boolean, default: false }
+      }],
+      default: undefined
+    }
   },
   network: {
     connections: { type: Number, required: true, min: 0 },
     endorsements: { type: Number, required: true, min: 0 }
   },
-  credibilityIndicators: [{ type: String }]
+  credibilityIndicators: [{ type: String }],
+  snapshot: { type: profileSnapshotRefSchema },
+  analyzedAt: { type: Date },
+  reusedFromCandidateId: { type: String }
 });
 
+const linkedInProfileAttachmentSchema = new Schema({
+  format: { type: String, enum: ['pdf-export', 'json'], required: true },
+  fileName: { type: String },
+  content: { type: Buffer, required: true },
+  uploadedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 // GitHub Analysis Schema
 const gitHubAnalysisSchema = new Schema({
   candidateId: { type: String, required: true, index: true },
@@ -116,7 +324,10 @@ const gitHubAnalysisSchema = new Schema({
       codeQuality: { type: String, required: true }
     }]
   },
-  skillsEvidence: [{ type: String }]
+  skillsEvidence: [{ type: String }],
+  snapshot: { type: profileSnapshotRefSchema },
+  analyzedAt: { type: Date },
+  reusedFromCandidateId: { type: String }
 });
 
 // Interview Session Schema
@@ -140,6 +351,100 @@ const interviewSessionSchema = new Schema({
   retryCount: { type: Number, default: 0, min: 0, max: 3 }
 });
 
+// Interview Analysis Result Schema (stored separately, looked up by candidate and session)
+const interviewAnalysisResultSchema = new Schema<InterviewAnalysisResult & Document>({
+  candidateId: { type: String, required: true, index: true },
+  interviewSessionId: { type: String, required: true, index: true },
+  provider: { type: String, required: true },
+  performanceScore: { type: Number, required: true, min: 0, max: 100 },
+  communicationScore: { type: Number, required: true, min: 0, max: 100 },
+  technicalScore: { type: Number, required: true, min: 0, max: 100 },
+  competencyScores: { type: Map, of: Number, default: {} },
+  transcriptQuality: { 
+    type: String, 
+    enum: ['excellent', 'good', 'poor'], 
+    required: true 
+  },
+  needsManualReview: { type: Boolean, default: false, index: true },
+  detailedFeedback: {
+    strengths: [{ type: String }],
+    weaknesses: [{ type: String }],
+    recommendations: [{ type: String }]
+  },
+  responseAnalysis: [{
+    question: { type: String },
+    response: { type: String },
+    score: { type: Number, min: 0, max: 100 },
+    feedback: { type: String }
+  }],
+  overallAssessment: { type: String, required: true },
+  confidence: { type: Number, required: true, min: 0, max: 100 },
+  analysisTimestamp: { type: Date, default: Date.now, index: true },
+  promptTemplate: { type: promptTemplateRefSchema },
+  usage: { type: aiUsageSchema },
+  promptInjection: { type: promptInjectionScreeningSchema }
+});
+
+// Prompt Template Schema - one document per version
+const promptTemplateSchema = new Schema<PromptTemplate & Document>({
+  templateId: { type: String, required: true },
+  version: { type: Number, required: true, min: 1 },
+  kind: { type: String, required: true, enum: ['resume-analysis', 'interview-analysis'] },
+  name: { type: String, required: true },
+  description: { type: String },
+  systemPrompt: { type: String, required: true },
+  body: { type: String, required: true },
+  active: { type: Boolean, default: false },
+  createdAt: { type: Date, default: Date.now },
+  activatedAt: { type: Date }
+});
+
+// AI Usage Record Schema - spend of one provider on one analysis
+const aiUsageRecordSchema = new Schema<AIUsageRecord & Document>({
+  candidateId: { type: String, required: true },
+  jobProfileId: { type: String, required: true },
+  batchId: { type: String },
+  analysisType: { type: String, required: true, enum: ['resume-analysis', 'interview-analysis'] },
+  provider: { type: String, required: true },
+  inputTokens: { type: Number, required: true, min: 0 },
+  outputTokens: { type: Number, required: true, min: 0 },
+  calls: { type: Number, required: true, min: 0 },
+  costUsd: { type: Number, required: true, min: 0 },
+  day: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// AI Batch Budget Schema
+const aiBatchBudgetSchema = new Schema<AIBatchBudget & Document>({
+  batchId: { type: String, required: true, unique: true },
+  jobProfileId: { type: String, required: true },
+  limitUsd: { type: Number, min: 0 },
+  spentUsd: { type: Number, default: 0 }, // Incremented as usage is recorded, so budget checks need no aggregation
+  paused: { type: Boolean, default: false },
+  pausedAt: { type: Date },
+  pausedJobs: { type: Schema.Types.Mixed, default: [] } // JobData of AI analysis jobs to requeue
+});
+
+// Company Catalog Schema - employers LinkedIn experience is rated against
+const companyCatalogEntrySchema = new Schema({
+  name: { type: String, required: true, trim: true },
+  normalizedName: { type: String, required: true, unique: true }, // Import and duplicate key
+  aliases: [{ type: String, trim: true }],
+  tier: { type: String, required: true, enum: ['top-tier', 'tech-focused', 'standard'] },
+  industry: { type: String, trim: true },
+  size: { type: String, enum: ['startup', 'small', 'medium', 'large', 'enterprise'] },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// Profile Snapshot Schema - one document per fetch of a LinkedIn or GitHub profile
+const profileSnapshotSchema = new Schema<ProfileSnapshot & Document>({
+  source: { type: String, required: true, enum: ['linkedin', 'github'] },
+  profileKey: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  fetchedAt: { type: Date, required: true, default: Date.now }
+});
+
 // Candidate Score Schema
 const candidateScoreSchema = new Schema({
   candidateId: { type: String, required: true, index: true },
@@ -167,18 +472,43 @@ const candidateScoreSchema = new Schema({
 });
 
 // Candidate Schema (main entity)
+const candidateIdentitySchema = new Schema({
+  email: { type: String },
+  phone: { type: String },
+  linkedInHandle: { type: String },
+  githubHandle: { type: String },
+  textFingerprint: { type: String },
+  fingerprintBands: [{ type: String }]
+}, { _id: false });
+
+const duplicateLinkSchema = new Schema({
+  candidateId: { type: String, required: true },
+  matchedOn: [{ type: String, enum: ['email', 'phone', 'linkedin', 'github', 'text'] }],
+  textSimilarity: { type: Number, min: 0, max: 1 },
+  linkedBy: { type: String, enum: ['ingestion', 'recruiter'], required: true },
+  linkedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 const candidateSchema = new Schema<Candidate & Document>({
+  personId: { type: String, index: true },
+  batchId: { type: String, index: true },
+  identity: { type: candidateIdentitySchema },
+  duplicateOf: { type: duplicateLinkSchema },
   resumeData: { type: resumeDataSchema, required: true },
   aiAnalysis: { type: aiAnalysisResultSchema },
   linkedInAnalysis: { type: linkedInAnalysisSchema },
+  // Kept out of candidate queries; the LinkedIn analysis selects it
+  linkedInProfileAttachment: { type: linkedInProfileAttachmentSchema, select: false },
   githubAnalysis: { type: gitHubAnalysisSchema },
   interviewSession: { type: interviewSessionSchema },
   finalScore: { type: candidateScoreSchema },
   processingStage: { 
     type: String, 
-    enum: ['resume', 'ai-analysis', 'linkedin', 'github', 'interview', 'scoring', 'completed'], 
+    enum: ['resume', 'ai-analysis', 'linkedin', 'github', 'interview', 'scoring', 'completed', 'analysis-failed'], 
     default: 'resume',
   },
+  analysisFailureReason: { type: String },
+  promptInjectionSuspected: { type: Boolean },
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
 });
@@ -195,6 +525,7 @@ const processingBatchSchema = new Schema<ProcessingBatch & Document>({
   totalCandidates: { type: Number, required: true, min: 0 },
   processedCandidates: { type: Number, default: 0, min: 0 },
   failedCandidates: { type: Number, default: 0, min: 0 },
+  duplicateCandidates: { type: Number, default: 0, min: 0 },
   status: { 
     type: String, 
     enum: ['processing', 'completed', 'failed'], 
@@ -202,7 +533,15 @@ const processingBatchSchema = new Schema<ProcessingBatch & Document>({
   },
   startedAt: { type: Date, default: Date.now, index: true },
   completedAt: { type: Date },
-  candidateIds: [{ type: String, required: true }]
+  candidateIds: [{ type: String, required: true }],
+  stagedFiles: [{
+    _id: false,
+    fileName: { type: String, required: true },
+    mimeType: { type: String },
+    path: { type: String, required: true }
+  }],
+  nextFileIndex: { type: Number, default: 0, min: 0 },
+  phoneRegion: { type: String }
 });
 
 // Add validation to ensure processed + failed <= total
@@ -227,4 +566,10 @@ processingBatchSchema.pre('save', function(next) {
 // Export models
 export const JobProfileModel = model<JobProfile & Document>('JobProfile', jobProfileSchema);
 export const CandidateModel = model<Candidate & Document>('Candidate', candidateSchema);
-export const ProcessingBatchModel = model<ProcessingBatch & Document>('ProcessingBatch', processingBatchSchema);
\ No newline at end of file
+export const ProcessingBatchModel = model<ProcessingBatch & Document>('ProcessingBatch', processingBatchSchema);
+export const InterviewAnalysisResultModel = model<InterviewAnalysisResult & Document>('InterviewAnalysisResult', interviewAnalysisResultSchema);
+export const PromptTemplateModel = model<PromptTemplate & Document>('PromptTemplate', promptTemplateSchema);
+export const AIUsageRecordModel = model<AIUsageRecord & Document>('AIUsageRecord', aiUsageRecordSchema);
+export const AIBatchBudgetModel = model<AIBatchBudget & Document>('AIBatchBudget', aiBatchBudgetSchema);
+export const CompanyCatalogEntryModel = model<CompanyCatalogEntry & Document>('CompanyCatalogEntry', companyCatalogEntrySchema);
+export const ProfileSnapshotModel = model<ProfileSnapshot & Document>('ProfileSnapshot', profileSnapshotSchema);
\ No newline at end of file
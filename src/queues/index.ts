@@ -3,6 +3,16 @@ import { redisClient } from '../utils/redis';
 import { config } from '../utils/config';
 import { logger } from '../utils/logger';
 import { JobData, JobProgress, QueueStats, BatchProgress } from '../models/interfaces';
+import {
+  PipelineStage,
+  STAGE_PRIORITIES,
+  getJoinDependencies,
+  getSuccessorStages,
+  getPipelineJobId,
+  getJoinKey,
+  getPendingScoringKey,
+} from './pipeline';
+import { candidateService } from '../services/candidateService';
 
 // Import processors
 import { resumeProcessor } from './processors/resumeProcessor';
@@ -12,6 +22,12 @@ import { githubProcessor } from './processors/githubProcessor';
 import { interviewProcessor } from './processors/interviewProcessor';
 import { scoringProcessor } from './processors/scoringProcessor';
 
+// Join state only needs to outlive the slowest stage (interviews can take days to schedule)
+const PIPELINE_JOIN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Bull's typings leave out the check for job.discard()
+type DiscardableJob = Job & { isDiscarded(): boolean };
+
 export class QueueManager {
   private queues: Map<string, Queue> = new Map();
   private isInitialized = false;
@@ -76,6 +92,13 @@ export class QueueManager {
         queue: queue.name,
         duration: Date.now() - job.processedOn!,
       });
+
+      // Paused jobs are requeued when their batch resumes; successors wait for that run
+      if (result?.paused) {
+        return;
+      }
+
+      void this.advancePipeline(job, 'completed');
     });
 
     queue.on('failed', (job: Job, err: Error) => {
@@ -85,6 +108,11 @@ export class QueueManager {
         attempts: job.attemptsMade,
         data: job.data,
       });
+
+      // Only a final failure releases successors; earlier attempts will be retried unless the job was discarded
+      if (job.attemptsMade >= (job.opts.attempts || 1) || (job as DiscardableJob).isDiscarded()) {
+        void this.advancePipeline(job, 'failed');
+      }
     });
 
     queue.on('progress', (job: Job, progress: number) => {
@@ -107,6 +135,105 @@ export class QueueManager {
     });
   }
 
+  /**
+   * Enqueue the successors of a settled stage once all of their dependencies have settled.
+   * Failed predecessors release the join too, so later stages run on whatever data exists.
+   */
+  private async advancePipeline(job: Job<JobData>, outcome: 'completed' | 'failed'): Promise<void> {
+    const { candidateId, batchId, stage, pipelineStages } = job.data;
+
+    // Standalone jobs (e.g. single-stage retries) do not chain
+    if (!pipelineStages || !this.isInitialized) {
+      return;
+    }
+
+    try {
+      if (stage === 'scoring') {
+        await this.settleScoring(job.data);
+      }
+
+      for (const successor of getSuccessorStages(stage, pipelineStages)) {
+        const dependencies = getJoinDependencies(successor, pipelineStages);
+        const joinKey = getJoinKey(batchId, candidateId, successor);
+
+        await redisClient.sadd(joinKey, stage);
+        await redisClient.expire(joinKey, PIPELINE_JOIN_TTL_SECONDS);
+        const settledCount = await redisClient.scard(joinKey);
+
+        if (settledCount < dependencies.length) {
+          logger.debug(`Stage ${successor} waiting on ${dependencies.length - settledCount} more stage(s)`, {
+            candidateId,
+            batchId,
+            settledStage: stage,
+            outcome,
+          });
+          continue;
+        }
+
+        await this.addPipelineJob({ ...job.data, stage: successor, priority: STAGE_PRIORITIES[successor] });
+        await redisClient.del(joinKey);
+      }
+    } catch (error) {
+      logger.error(`Failed to advance pipeline after ${stage} ${outcome} for candidate ${candidateId}:`, error, {
+        jobId: job.id,
+        batchId,
+      });
+    }
+  }
+
+  /**
+   * Expect the given number of scoring jobs in a pipeline run. The job profile is re-ranked
+   * once after the last of them settles, instead of after every candidate.
+   */
+  async expectScoringJobs(batchId: string, count: number): Promise<void> {
+    await redisClient.set(getPendingScoringKey(batchId), String(count), PIPELINE_JOIN_TTL_SECONDS);
+  }
+
+  /**
+   * Re-rank the job profile when the run's last scoring job settles. Runs nothing was expected
+   * of, such as a single candidate's, count below zero and re-rank right away.
+   */
+  private async settleScoring(jobData: JobData): Promise<void> {
+    const pendingKey = getPendingScoringKey(jobData.batchId);
+    const pending = await redisClient.decr(pendingKey);
+    if (pending > 0) {
+      return;
+    }
+
+    await redisClient.del(pendingKey);
+    const reRankedCount = await candidateService.updateRankings(jobData.jobProfileId);
+
+    logger.info(`Re-ranked job profile ${jobData.jobProfileId} after scoring batch ${jobData.batchId}`, {
+      batchId: jobData.batchId,
+      jobProfileId: jobData.jobProfileId,
+      reRankedCount,
+    });
+  }
+
+  /**
+   * Add a stage job of a chained pipeline run. Bull ignores a second add with the same job ID,
+   * which keeps a stage from running twice when its last two dependencies settle at the same moment.
+   */
+  async addPipelineJob(jobData: JobData): Promise<Job> {
+    return this.addJob(STAGE_QUEUES[jobData.stage], jobData, {
+      jobId: getPipelineJobId(jobData.batchId, jobData.candidateId, jobData.stage),
+    });
+  }
+
+  /**
+   * Run a pipeline stage job again. The settled job with the same ID is removed first,
+   * since Bull would otherwise ignore the add.
+   */
+  async requeuePipelineJob(jobData: JobData): Promise<Job> {
+    const queue = this.queues.get(STAGE_QUEUES[jobData.stage]);
+    const existing = await queue?.getJob(getPipelineJobId(jobData.batchId, jobData.candidateId, jobData.stage));
+    if (existing) {
+      await existing.remove();
+    }
+
+    return this.addPipelineJob(jobData);
+  }
+
   async addJob(queueName: string, jobData: JobData, options?: JobOptions): Promise<Job> {
     if (!this.isInitialized) {
       throw new Error('Queue Manager not initialized');
@@ -497,4 +624,13 @@ export const QUEUE_NAMES = {
   SCORING: 'scoring',
 } as const;
 
-export type QueueName = typeof QUEUE_NAMES[keyof typeof QUEUE_NAMES];
\ No newline at end of file
+export type QueueName = typeof QUEUE_NAMES[keyof typeof QUEUE_NAMES];
+
+export const STAGE_QUEUES: Record<PipelineStage, QueueName> = {
+  'resume': QUEUE_NAMES.RESUME_PROCESSING,
+  'ai-analysis': QUEUE_NAMES.AI_ANALYSIS,
+  'linkedin': QUEUE_NAMES.LINKEDIN_ANALYSIS,
+  'github': QUEUE_NAMES.GITHUB_ANALYSIS,
+  'interview': QUEUE_NAMES.INTERVIEW_PROCESSING,
+  'scoring': QUEUE_NAMES.SCORING,
+};
\ No newline at end of file
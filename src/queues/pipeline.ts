@@ -0,0 +1,98 @@
+import { Candidate, JobData } from '../models/interfaces';
+
+export type PipelineStage = JobData['stage'];
+
+// Stages in the order a candidate moves through them
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'resume',
+  'ai-analysis',
+  'linkedin',
+  'github',
+  'interview',
+  'scoring',
+];
+
+// A stage is enqueued once every one of its dependencies has settled (completed or finally failed).
+// LinkedIn and GitHub fan out in parallel after AI analysis; interview and scoring join across both.
+export const STAGE_DEPENDENCIES: Record<PipelineStage, PipelineStage[]> = {
+  'resume': [],
+  'ai-analysis': ['resume'],
+  'linkedin': ['ai-analysis'],
+  'github': ['ai-analysis'],
+  'interview': ['linkedin', 'github'],
+  'scoring': ['linkedin', 'github', 'interview'],
+};
+
+export const STAGE_PRIORITIES: Record<PipelineStage, number> = {
+  'resume': 10,
+  'ai-analysis': 8,
+  'linkedin': 6,
+  'github': 6,
+  'interview': 4,
+  'scoring': 2,
+};
+
+/**
+ * Dependencies of a stage that take part in the given run.
+ * Stages left out of the run (e.g. when starting mid-pipeline) count as already settled.
+ */
+export function getJoinDependencies(stage: PipelineStage, stages: PipelineStage[]): PipelineStage[] {
+  const activeDependencies = new Set<PipelineStage>();
+
+  for (const dependency of STAGE_DEPENDENCIES[stage]) {
+    if (stages.includes(dependency)) {
+      activeDependencies.add(dependency);
+    } else {
+      // Skip over stages outside the run so the join still waits on their own active dependencies
+      getJoinDependencies(dependency, stages).forEach(d => activeDependencies.add(d));
+    }
+  }
+
+  return Array.from(activeDependencies);
+}
+
+/**
+ * Stages with nothing to wait for in the given run
+ */
+export function getRootStages(stages: PipelineStage[]): PipelineStage[] {
+  return stages.filter(stage => getJoinDependencies(stage, stages).length === 0);
+}
+
+/**
+ * Stages in the given run that wait on the settled stage
+ */
+export function getSuccessorStages(stage: PipelineStage, stages: PipelineStage[]): PipelineStage[] {
+  return stages.filter(candidate => getJoinDependencies(candidate, stages).includes(stage));
+}
+
+/**
+ * Stages of a run still needed by a candidate. LinkedIn and GitHub analyses copied from the
+ * same person's earlier application at ingestion are not run again.
+ */
+export function withoutReusedStages(
+  stages: PipelineStage[],
+  candidate: Pick<Candidate, 'linkedInAnalysis' | 'githubAnalysis'>
+): PipelineStage[] {
+  return stages.filter(stage =>
+    !(stage === 'linkedin' && candidate.linkedInAnalysis?.reusedFromCandidateId) &&
+    !(stage === 'github' && candidate.githubAnalysis?.reusedFromCandidateId)
+  );
+}
+
+/**
+ * Deterministic job ID so concurrent predecessors settling at once cannot enqueue a stage twice
+ */
+export function getPipelineJobId(batchId: string, candidateId: string, stage: PipelineStage): string {
+  return `${batchId}:${candidateId}:${stage}`;
+}
+
+export function getJoinKey(batchId: string, candidateId: string, stage: PipelineStage): string {
+  return `pipeline:join:${batchId}:${candidateId}:${stage}`;
+}
+
+/**
+ * Counts the candidates of a run whose scoring has not settled yet
+ */
+export function getPendingScoringKey(batchId: string): string {
+  return `pipeline:scoring:pending:${batchId}`;
+}
@@ -1,6 +1,9 @@
 import { Job } from 'bull';
 import { JobData } from '../../models/interfaces';
-import { aiAnalysisService } from '../../services/aiAnalysisService';
+import { aiAnalysisService, AIAnalysisFailedError } from '../../services/aiAnalysisService';
+import { aiCostService } from '../../services/aiCostService';
+import { candidateService } from '../../services/candidateService';
+import { jobProfileService } from '../../services/jobProfileService';
 import { logger } from '../../utils/logger';
 
 export async function aiAnalysisProcessor(job: Job<JobData>): Promise<any> {
@@ -17,19 +20,72 @@ export async function aiAnalysisProcessor(job: Job<JobData>): Promise<any> {
     // Update job progress
     await job.progress(10);
 
-    // Note: In a real implementation, we would fetch the resume data and job profile
-    // For now, we'll create a placeholder implementation
-    // TODO: Implement proper data fetching from database
-    throw new Error('AI analysis processor needs database integration to fetch resume data and job profile');
+    const candidate = await candidateService.getCandidateById(candidateId);
+    if (!candidate) {
+      throw new Error(`Candidate ${candidateId} not found`);
+    }
+
+    // Unreadable resumes would be analyzed from empty or garbled text; leave them for a reviewer
+    if (candidate.resumeData.requiresManualReview) {
+      logger.warn(`Skipping AI analysis for candidate ${candidateId}: resume requires manual review`, {
+        jobId: job.id,
+        candidateId,
+        reason: candidate.resumeData.manualReviewReason,
+      });
+      await job.progress(100);
+      return { skipped: true, reason: candidate.resumeData.manualReviewReason };
+    }
+
+    const jobProfile = await jobProfileService.getJobProfileById(jobProfileId);
+    if (!jobProfile) {
+      throw new Error(`Job profile ${jobProfileId} not found`);
+    }
+
+    // A batch that has spent its AI budget parks its remaining analyses until it is resumed
+    if (await aiCostService.isBatchOverBudget(batchId, jobProfile)) {
+      await aiCostService.pauseJob(job.data);
+      logger.warn(`Pausing AI analysis for candidate ${candidateId}: batch ${batchId} reached its AI budget`, {
+        jobId: job.id,
+        candidateId,
+        batchId,
+      });
+      await job.progress(100);
+      return { paused: true, reason: `Batch ${batchId} reached its AI budget` };
+    }
+
+    await job.progress(30);
+
+    let analysis;
+    try {
+      analysis = await aiAnalysisService.analyzeResume(candidateId, candidate.resumeData, jobProfile, {
+        batchId,
+        forceReanalysis: job.data.metadata?.forceReanalysis === true,
+      });
+    } catch (error) {
+      if (error instanceof AIAnalysisFailedError) {
+        // No provider produced a valid analysis; flag the candidate rather than scoring it as zero
+        await candidateService.markAIAnalysisFailed(candidateId, error.message);
+        // Every provider and its repair prompts were already tried; a retry would only spend that again
+        await job.discard();
+      }
+      throw error;
+    }
+
+    await job.progress(80);
+
+    await candidateService.saveAIAnalysis(candidateId, analysis);
 
     await job.progress(100);
 
     logger.info(`AI analysis completed for candidate ${candidateId}`, {
       jobId: job.id,
       candidateId,
+      provider: analysis.provider,
+      relevanceScore: analysis.relevanceScore,
+      cacheHit: analysis.cacheHit === true,
     });
 
-    return null;
+    return analysis;
   } catch (error) {
     logger.error(`AI analysis failed for candidate ${candidateId}:`, error, {
       jobId: job.id,
@@ -39,4 +95,4 @@ export async function aiAnalysisProcessor(job: Job<JobData>): Promise<any> {
     });
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,6 @@
 import { Job } from 'bull';
 import { JobData } from '../../models/interfaces';
-import { GitHubAnalysisService } from '../../services/githubAnalysisService';
-
-const githubAnalysisService = new GitHubAnalysisService();
+import { githubAnalysisService } from '../../services/githubAnalysisService';
 import { logger } from '../../utils/logger';
 
 export async function githubProcessor(job: Job<JobData>): Promise<any> {
@@ -1,8 +1,9 @@
 import { Job } from 'bull';
 import { JobData } from '../../models/interfaces';
-import { LinkedInAnalysisService } from '../../services/linkedInAnalysisService';
-
-const linkedInAnalysisService = new LinkedInAnalysisService();
+import { CandidateModel } from '../../models/schemas';
+import { candidateService } from '../../services/candidateService';
+import { jobProfileService } from '../../services/jobProfileService';
+import { linkedInAnalysisService } from '../../services/linkedInAnalysisService';
 import { logger } from '../../utils/logger';
 
 export async function linkedInProcessor(job: Job<JobData>): Promise<any> {
@@ -19,19 +20,42 @@ export async function linkedInProcessor(job: Job<JobData>): Promise<any> {
     // Update job progress
     await job.progress(10);
 
-    // Note: In a real implementation, we would fetch the candidate data
-    // For now, we'll create a placeholder implementation
-    // TODO: Implement proper data fetching and method call
-    throw new Error('LinkedIn analysis processor needs database integration to fetch candidate data');
+    // The attached profile export is not loaded by default
+    const candidate = await CandidateModel.findById(candidateId).select('+linkedInProfileAttachment');
+    if (!candidate) {
+      throw new Error(`Candidate ${candidateId} not found`);
+    }
+
+    const jobProfile = await jobProfileService.getJobProfileById(jobProfileId);
+    if (!jobProfile) {
+      throw new Error(`Job profile ${jobProfileId} not found`);
+    }
+
+    await job.progress(30);
+
+    // The resume's URL or the attached profile is used, whichever the data sources can serve
+    const analysis = await linkedInAnalysisService.analyzeLinkedInProfile(
+      candidateId,
+      candidate.resumeData.contactInfo.linkedInUrl,
+      jobProfile,
+      candidate.linkedInProfileAttachment,
+      candidate.resumeData
+    );
+
+    await job.progress(80);
+
+    await candidateService.saveLinkedInAnalysis(candidateId, analysis);
 
     await job.progress(100);
 
     logger.info(`LinkedIn analysis completed for candidate ${candidateId}`, {
       jobId: job.id,
       candidateId,
+      profileAccessible: analysis.profileAccessible,
+      professionalScore: analysis.professionalScore,
     });
 
-    return null;
+    return analysis;
   } catch (error) {
     logger.error(`LinkedIn analysis failed for candidate ${candidateId}:`, error, {
       jobId: job.id,
@@ -41,4 +65,4 @@ export async function linkedInProcessor(job: Job<JobData>): Promise<any> {
     });
     throw error;
   }
-}
\ No newline at end of file
+}
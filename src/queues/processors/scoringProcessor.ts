@@ -1,13 +1,17 @@
 import { Job } from 'bull';
 import { JobData } from '../../models/interfaces';
 import { ScoringService } from '../../services/scoringService';
+import { candidateService } from '../../services/candidateService';
+import { jobProfileService } from '../../services/jobProfileService';
+import { interviewAnalysisService } from '../../services/interviewAnalysisService';
+import { profileRefreshService } from '../../services/profileRefreshService';
 
 const scoringService = new ScoringService();
 import { logger } from '../../utils/logger';
 
 export async function scoringProcessor(job: Job<JobData>): Promise<any> {
   const { candidateId, jobProfileId, batchId } = job.data;
-  
+
   try {
     logger.info(`Processing scoring for candidate ${candidateId}`, {
       jobId: job.id,
@@ -19,19 +23,79 @@ export async function scoringProcessor(job: Job<JobData>): Promise<any> {
     // Update job progress
     await job.progress(10);
 
-    // Note: In a real implementation, we would fetch all analysis results
-    // For now, we'll create a placeholder implementation
-    // TODO: Implement proper scoring calculation
-    throw new Error('Scoring processor needs database integration to fetch analysis results');
+    let candidate = await candidateService.getCandidateById(candidateId);
+    if (!candidate) {
+      throw new Error(`Candidate ${candidateId} not found`);
+    }
+
+    // Unreadable resumes (e.g. low-confidence OCR) would score near zero; leave them for a reviewer
+    if (candidate.resumeData.requiresManualReview) {
+      logger.warn(`Skipping scoring for candidate ${candidateId}: resume requires manual review`, {
+        jobId: job.id,
+        candidateId,
+        reason: candidate.resumeData.manualReviewReason,
+      });
+      await job.progress(100);
+      return { skipped: true, reason: candidate.resumeData.manualReviewReason };
+    }
+
+    // Scoring without the resume analysis would rank the candidate on what is left; keep them flagged instead
+    if (candidate.processingStage === 'analysis-failed') {
+      logger.warn(`Skipping scoring for candidate ${candidateId}: AI analysis failed`, {
+        jobId: job.id,
+        candidateId,
+        reason: candidate.analysisFailureReason,
+      });
+      await job.progress(100);
+      return { skipped: true, reason: candidate.analysisFailureReason };
+    }
+
+    const jobProfile = await jobProfileService.getJobProfileById(jobProfileId);
+    if (!jobProfile) {
+      throw new Error(`Job profile ${jobProfileId} not found`);
+    }
+
+    // Re-scoring after a job profile change: bring the profile analyses in line with it first
+    if (job.data.metadata?.reanalyzeProfiles && await profileRefreshService.reanalyzeCandidate(candidateId, jobProfile)) {
+      candidate = await candidateService.getCandidateById(candidateId) ?? candidate;
+    }
+
+    // Interview analysis is stored on its own collection; attach it so it counts toward the score
+    if (candidate.interviewSession) {
+      const analysisResult = await interviewAnalysisService.getAnalysisResult(
+        candidateId,
+        candidate.interviewSession.vapiCallId
+      );
+      if (analysisResult) {
+        candidate.interviewSession.analysisResult = analysisResult;
+      }
+    }
+
+    await job.progress(30);
+
+    // Missing analysis stages are normalized out of the composite score
+    const candidateScore = await scoringService.calculateCandidateScore(candidate, jobProfile);
+
+    await job.progress(60);
+
+    await candidateService.saveCandidateScore(candidateId, candidateScore);
+
+    await job.progress(80);
+
+    // Pipeline runs re-rank once all of their candidates are scored; the score keeps a provisional rank until then
+    const reRankedCount = job.data.pipelineStages ? undefined : await candidateService.updateRankings(jobProfileId);
 
     await job.progress(100);
 
     logger.info(`Scoring completed for candidate ${candidateId}`, {
       jobId: job.id,
       candidateId,
+      compositeScore: candidateScore.compositeScore,
+      recommendation: candidateScore.recommendation,
+      reRankedCount,
     });
 
-    return null;
+    return candidateScore;
   } catch (error) {
     logger.error(`Scoring failed for candidate ${candidateId}:`, error, {
       jobId: job.id,
@@ -41,4 +105,4 @@ export async function scoringProcessor(job: Job<JobData>): Promise<any> {
     });
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { aiAnalysisService } from '../services/aiAnalysisService';
+import { aiAnalysisService, AIAnalysisFailedError } from '../services/aiAnalysisService';
 import { JobProfile, ResumeData } from '../models/interfaces';
 
 const router = Router();
@@ -10,7 +10,7 @@ const router = Router();
  */
 router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { candidateId, resumeData, jobProfile } = req.body;
+    const { candidateId, resumeData, jobProfile, consensus, forceReanalysis } = req.body;
 
     // Validate required fields
     if (!candidateId || !resumeData || !jobProfile) {
@@ -39,13 +39,30 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (consensus !== undefined && typeof consensus !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid consensus: must be a boolean'
+      });
+      return;
+    }
+
+    if (forceReanalysis !== undefined && typeof forceReanalysis !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid forceReanalysis: must be a boolean'
+      });
+      return;
+    }
+
     console.log(`Starting AI analysis for candidate ${candidateId}`);
 
     // Perform AI analysis
     const analysisResult = await aiAnalysisService.analyzeResume(
       candidateId,
       resumeData as ResumeData,
-      jobProfile as JobProfile
+      jobProfile as JobProfile,
+      { consensus: consensus === true, forceReanalysis: forceReanalysis === true }
     );
 
     console.log(`AI analysis completed for candidate ${candidateId} using ${analysisResult.provider}`);
@@ -57,6 +74,17 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
 
   } catch (error) {
     console.error('AI analysis failed:', error);
+
+    if (error instanceof AIAnalysisFailedError) {
+      res.status(502).json({
+        success: false,
+        error: 'AI analysis failed',
+        status: 'analysis-failed',
+        message: error.message,
+        providerErrors: error.providerErrors
+      });
+      return;
+    }
     
     res.status(500).json({
       success: false,
@@ -0,0 +1,174 @@
+// AI Cost Reporting and Batch Budget REST API Routes
+import { Router, Request, Response } from 'express';
+import { aiCostService, AICostFilters, AICostGroupBy } from '../services/aiCostService';
+import { queueOrchestrator } from '../services/queueOrchestrator';
+import { DatabaseError } from '../utils/database';
+
+const router = Router();
+
+const GROUP_BY_VALUES: AICostGroupBy[] = ['batch', 'jobProfile', 'day'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/ai-costs/summary
+ * Roll up AI token usage and cost per batch, job profile or day
+ */
+router.get('/summary', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const groupBy = (req.query.groupBy as AICostGroupBy | undefined) ?? 'day';
+
+    if (!GROUP_BY_VALUES.includes(groupBy)) {
+      return res.status(400).json({
+        success: false,
+        message: `groupBy must be one of: ${GROUP_BY_VALUES.join(', ')}`
+      });
+    }
+
+    const filters: AICostFilters = {};
+
+    if (req.query.jobProfileId) {
+      filters.jobProfileId = req.query.jobProfileId as string;
+    }
+
+    if (req.query.batchId) {
+      filters.batchId = req.query.batchId as string;
+    }
+
+    for (const bound of ['from', 'to'] as const) {
+      const value = req.query[bound] as string | undefined;
+      if (value === undefined) {
+        continue;
+      }
+      if (!DAY_PATTERN.test(value)) {
+        return res.status(400).json({
+          success: false,
+          message: `${bound} must be a date in YYYY-MM-DD format`
+        });
+      }
+      filters[bound] = value;
+    }
+
+    const summaries = await aiCostService.getCostSummary(groupBy, filters);
+
+    res.status(200).json({
+      success: true,
+      data: summaries,
+      meta: {
+        groupBy,
+        count: summaries.length,
+        totalCostUsd: Math.round(summaries.reduce((sum, s) => sum + s.costUsd, 0) * 1e6) / 1e6
+      },
+      message: 'AI cost summary retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * GET /api/ai-costs/batches/:batchId
+ * Spend of a batch against its budget
+ */
+router.get('/batches/:batchId', async (req: Request, res: Response) => {
+  try {
+    const status = await aiCostService.getBatchBudgetStatus(req.params.batchId!);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+      message: 'Batch AI budget retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * PUT /api/ai-costs/batches/:batchId/budget
+ * Set a batch's AI spend limit, or clear it with null to use the job profile's
+ */
+router.put('/batches/:batchId/budget', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { batchId } = req.params;
+    const { limitUsd } = req.body;
+
+    if (limitUsd !== null && (typeof limitUsd !== 'number' || !Number.isFinite(limitUsd) || limitUsd < 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'limitUsd must be a non-negative number or null'
+      });
+    }
+
+    const jobProfileId = req.body.jobProfileId ?? (await aiCostService.getBatchBudgetStatus(batchId!)).jobProfileId;
+
+    if (!jobProfileId || typeof jobProfileId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'jobProfileId is required for a batch without recorded AI usage'
+      });
+    }
+
+    await aiCostService.setBatchBudget(batchId!, jobProfileId, limitUsd);
+    const status = await aiCostService.getBatchBudgetStatus(batchId!);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+      message: 'Batch AI budget updated successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/ai-costs/batches/:batchId/resume
+ * Requeue the AI analysis jobs paused when the batch reached its budget
+ */
+router.post('/batches/:batchId/resume', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { batchId } = req.params;
+    const status = await aiCostService.getBatchBudgetStatus(batchId!);
+
+    if (status.exceeded) {
+      return res.status(409).json({
+        success: false,
+        data: status,
+        message: 'Batch is still over its AI budget; raise or clear the limit before resuming'
+      });
+    }
+
+    const resumedJobs = await queueOrchestrator.resumeBudgetPausedJobs(batchId!);
+
+    res.status(200).json({
+      success: true,
+      data: { batchId, resumedJobs },
+      message: 'Batch AI analysis resumed successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * Handle route errors consistently
+ */
+function handleRouteError(error: any, res: Response): void {
+  console.error('AI Cost Route Error:', error);
+
+  if (error instanceof DatabaseError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
+
+export default router;
@@ -1,6 +1,12 @@
 // Candidate REST API Routes
 import { Router, Request, Response } from 'express';
 import { candidateService, CandidateFilters, CandidateSearchOptions, CandidateExportOptions } from '../services/candidateService';
+import { duplicateDetectionService } from '../services/duplicateDetectionService';
+import { jobProfileService } from '../services/jobProfileService';
+import { PROFILE_SOURCES, profileRefreshService } from '../services/profileRefreshService';
+import { buildEvidenceHighlights } from '../services/resumeEvidence';
+import { DegreeLevel, ProfileSnapshotSource } from '../models/interfaces';
+import { authorize } from '../middleware/auth';
 import { validateObjectId, validateCandidateSearch, validateExportParams } from '../middleware/validation';
 
 const router = Router();
@@ -242,6 +248,22 @@ router.get('/', validateCandidateSearch, async (req: Request, res: Response) =>
     if (req.query.interviewCompleted) {
       filters.interviewCompleted = req.query.interviewCompleted === 'true';
     }
+    
+    if (req.query.requiresManualReview) {
+      filters.requiresManualReview = req.query.requiresManualReview === 'true';
+    }
+
+    if (req.query.minYearsExperience) {
+      filters.minYearsExperience = parseFloat(req.query.minYearsExperience as string);
+    }
+
+    if (req.query.maxYearsExperience) {
+      filters.maxYearsExperience = parseFloat(req.query.maxYearsExperience as string);
+    }
+
+    if (req.query.degreeLevel) {
+      filters.degreeLevel = req.query.degreeLevel as DegreeLevel;
+    }
 
     // Parse search options
     const options: CandidateSearchOptions = {};
@@ -353,6 +375,162 @@ router.get('/:id/status', validateObjectId, async (req: Request, res: Response):
   }
 });
 
+/**
+ * GET /api/candidates/:id/evidence
+ * Resume text with the AI analysis evidence quotes as highlights
+ */
+router.get('/:id/evidence', validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { id } = req.params;
+    
+    const candidate = await candidateService.getCandidateById(id!);
+    
+    if (!candidate) {
+      return res.status(404).json({
+        success: false,
+        message: 'Candidate not found'
+      });
+    }
+    
+    if (!candidate.aiAnalysis) {
+      return res.status(404).json({
+        success: false,
+        message: 'Candidate has no AI analysis'
+      });
+    }
+    
+    const evidence = candidate.aiAnalysis.evidence;
+    
+    res.status(200).json({
+      success: true,
+      data: {
+        candidateId: id,
+        extractedText: candidate.resumeData.extractedText,
+        evidence: evidence ?? null,
+        highlights: evidence ? buildEvidenceHighlights(evidence) : []
+      },
+      message: 'Candidate evidence retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * GET /api/candidates/:id/duplicates
+ * List applications linked to the same person, plus unlinked look-alikes for review
+ */
+router.get('/:id/duplicates', validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { id } = req.params;
+    
+    const duplicates = await duplicateDetectionService.getDuplicates(id!);
+    
+    if (!duplicates) {
+      return res.status(404).json({
+        success: false,
+        message: 'Candidate not found'
+      });
+    }
+    
+    res.status(200).json({
+      success: true,
+      data: duplicates,
+      message: 'Duplicate candidates retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/candidates/:id/duplicates/:duplicateId/merge
+ * Link a reviewed duplicate (and every application already linked to it) to this candidate's person
+ */
+router.post('/:id/duplicates/:duplicateId/merge', authorize(['admin', 'recruiter']), validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { id, duplicateId } = req.params;
+    
+    if (!duplicateId || !/^[0-9a-fA-F]{24}$/.test(duplicateId) || duplicateId === id) {
+      return res.status(400).json({
+        success: false,
+        message: 'duplicateId must be the ID of a different candidate'
+      });
+    }
+    
+    const duplicates = await duplicateDetectionService.mergeDuplicate(id!, duplicateId);
+    
+    if (!duplicates) {
+      return res.status(404).json({
+        success: false,
+        message: 'Candidate not found'
+      });
+    }
+    
+    res.status(200).json({
+      success: true,
+      data: duplicates,
+      message: 'Duplicate candidates merged successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/candidates/:id/profiles/refresh
+ * Fetch the candidate's LinkedIn and GitHub profiles again instead of using stored snapshots,
+ * and reanalyze them against the job profile in the body. "sources" limits the refresh to
+ * "linkedin" or "github".
+ */
+router.post('/:id/profiles/refresh', authorize(['admin', 'recruiter']), validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { id } = req.params;
+    const { jobProfileId, sources } = req.body;
+    
+    if (typeof jobProfileId !== 'string' || !jobProfileId) {
+      return res.status(400).json({
+        success: false,
+        message: 'jobProfileId is required'
+      });
+    }
+    
+    if (sources !== undefined &&
+        (!Array.isArray(sources) || sources.length === 0 || sources.some(source => !PROFILE_SOURCES.includes(source)))) {
+      return res.status(400).json({
+        success: false,
+        message: `sources must be a non-empty array of: ${PROFILE_SOURCES.join(', ')}`
+      });
+    }
+    
+    const jobProfile = await jobProfileService.getJobProfileById(jobProfileId);
+    
+    if (!jobProfile) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job profile not found'
+      });
+    }
+    
+    const result = await profileRefreshService.refreshCandidateProfiles(id!, jobProfile, sources as ProfileSnapshotSource[] | undefined);
+    
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Candidate not found'
+      });
+    }
+    
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Candidate profiles refreshed successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
 /**
  * Calculate overall progress percentage
  */
@@ -0,0 +1,221 @@
+// Company Catalog REST API Routes
+import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import {
+  companyCatalogService,
+  CompanyCatalogFilters,
+  CreateCompanyCatalogEntryRequest,
+  UpdateCompanyCatalogEntryRequest
+} from '../services/companyCatalogService';
+import { CompanyTier } from '../models/interfaces';
+import { DatabaseError } from '../utils/database';
+import { authorize } from '../middleware/auth';
+import {
+  validateCreateCompanyCatalogEntry,
+  validateObjectId,
+  validateUpdateCompanyCatalogEntry
+} from '../middleware/validation';
+
+const router = Router();
+
+const MAX_CATALOG_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const catalogUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CATALOG_FILE_SIZE, files: 1 },
+});
+
+/**
+ * GET /api/company-catalog
+ * List catalog entries, optionally filtered by tier, industry or a name search
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters: CompanyCatalogFilters = {};
+
+    if (req.query.tier) {
+      filters.tier = req.query.tier as CompanyTier;
+    }
+
+    if (req.query.industry) {
+      filters.industry = req.query.industry as string;
+    }
+
+    if (req.query.search) {
+      filters.search = req.query.search as string;
+    }
+
+    const companies = await companyCatalogService.listCompanies(filters);
+
+    res.status(200).json({
+      success: true,
+      data: companies,
+      meta: {
+        count: companies.length
+      },
+      message: 'Company catalog retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/company-catalog
+ * Add a company to the catalog
+ */
+router.post('/', authorize(['admin']), validateCreateCompanyCatalogEntry, async (req: Request, res: Response) => {
+  try {
+    const { name, aliases, tier, industry, size } = req.body;
+    const entryData: CreateCompanyCatalogEntryRequest = {
+      name,
+      tier,
+      ...(aliases && { aliases }),
+      ...(industry && { industry }),
+      ...(size && { size })
+    };
+
+    const company = await companyCatalogService.createCompany(entryData);
+
+    res.status(201).json({
+      success: true,
+      data: company,
+      message: 'Company added to the catalog successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/company-catalog/import
+ * Import a CSV file in the multipart field "file" with the columns name, tier, aliases
+ * (separated by ";"), industry and size. Rows for companies already in the catalog replace them.
+ */
+router.post('/import', authorize(['admin']), catalogUpload.single('file'), async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'A CSV file is required in the "file" field'
+      });
+    }
+
+    const result = await companyCatalogService.importCsv(req.file.buffer.toString('utf-8'));
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: `Imported ${result.created + result.updated} companies` +
+        (result.errors.length > 0 ? `; ${result.errors.length} rows skipped` : '')
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * GET /api/company-catalog/:id
+ * Get a catalog entry
+ */
+router.get('/:id', validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const company = await companyCatalogService.getCompany(req.params.id!);
+
+    if (!company) {
+      return res.status(404).json({
+        success: false,
+        message: 'Company not found in the catalog'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: company,
+      message: 'Company retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * PUT /api/company-catalog/:id
+ * Update a catalog entry; fields not given are kept
+ */
+router.put('/:id', authorize(['admin']), validateObjectId, validateUpdateCompanyCatalogEntry, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { name, aliases, tier, industry, size } = req.body;
+    const updateData: UpdateCompanyCatalogEntryRequest = {
+      ...(name !== undefined && { name }),
+      ...(aliases !== undefined && { aliases }),
+      ...(tier !== undefined && { tier }),
+      ...(industry !== undefined && { industry }),
+      ...(size !== undefined && { size })
+    };
+
+    const company = await companyCatalogService.updateCompany(req.params.id!, updateData);
+
+    if (!company) {
+      return res.status(404).json({
+        success: false,
+        message: 'Company not found in the catalog'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: company,
+      message: 'Company updated successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/company-catalog/:id
+ * Remove a company from the catalog; analyses already stored keep their matches
+ */
+router.delete('/:id', authorize(['admin']), validateObjectId, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const deleted = await companyCatalogService.deleteCompany(req.params.id!);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Company not found in the catalog'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Company removed from the catalog successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * Handle route errors consistently
+ */
+function handleRouteError(error: any, res: Response): void {
+  console.error('Company Catalog Route Error:', error);
+
+  if (error instanceof DatabaseError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
+
+export default router;
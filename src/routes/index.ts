@@ -3,9 +3,12 @@ import { Router } from 'express';
 import authRoutes from './authRoutes';
 import auditRoutes from './auditRoutes';
 import jobProfileRoutes from './jobProfileRoutes';
+import promptTemplateRoutes from './promptTemplateRoutes';
+import companyCatalogRoutes from './companyCatalogRoutes';
 import resumeRoutes from './resumeRoutes';
 import candidateRoutes from './candidateRoutes';
 import aiAnalysisRoutes from './aiAnalysisRoutes';
+import aiCostRoutes from './aiCostRoutes';
 import linkedInAnalysisRoutes from './linkedInAnalysisRoutes';
 import githubAnalysisRoutes from './githubAnalysisRoutes';
 import vapiInterviewRoutes from './vapiInterviewRoutes';
@@ -30,6 +33,12 @@ router.use('/audit', auditRoutes);
 // Job Profile routes
 router.use('/job-profiles', authenticate, jobProfileRoutes);
 
+// Prompt template routes
+router.use('/prompt-templates', authenticate, promptTemplateRoutes);
+
+// Company catalog routes
+router.use('/company-catalog', authenticate, companyCatalogRoutes);
+
 // Resume processing routes
 router.use('/resumes', authenticate, resumeRoutes);
 
@@ -39,6 +48,9 @@ router.use('/candidates', authenticate, candidateRoutes);
 // AI Analysis routes
 router.use('/ai-analysis', authenticate, aiAnalysisRoutes);
 
+// AI cost reporting and batch budget routes
+router.use('/ai-costs', authenticate, aiCostRoutes);
+
 // LinkedIn Analysis routes
 router.use('/linkedin', authenticate, linkedInAnalysisRoutes);
 
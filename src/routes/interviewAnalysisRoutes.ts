@@ -44,6 +44,8 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
       jobProfile as JobProfile
     );
 
+    await interviewAnalysisService.saveAnalysisResult(analysisResult);
+
     console.log(`Completed interview analysis for candidate ${candidateId}`);
 
     res.json({
@@ -99,6 +101,12 @@ router.post('/batch-analyze', async (req: Request, res: Response): Promise<void>
 
     const results = await interviewAnalysisService.batchAnalyzeTranscripts(analysisRequests);
 
+    for (const { result } of results) {
+      if (result) {
+        await interviewAnalysisService.saveAnalysisResult(result);
+      }
+    }
+
     const successCount = results.filter(r => r.result).length;
     const errorCount = results.filter(r => r.error).length;
 
@@ -127,12 +135,13 @@ router.post('/batch-analyze', async (req: Request, res: Response): Promise<void>
 });
 
 /**
- * Get analysis result by candidate ID
- * GET /api/interview-analysis/candidate/:candidateId
+ * Get analysis results by candidate ID, optionally for a single interview session
+ * GET /api/interview-analysis/candidate/:candidateId?sessionId=
  */
 router.get('/candidate/:candidateId', async (req: Request, res: Response): Promise<void> => {
   try {
     const { candidateId } = req.params;
+    const { sessionId } = req.query;
 
     if (!candidateId) {
       res.status(400).json({
@@ -141,12 +150,30 @@ router.get('/candidate/:candidateId', async (req: Request, res: Response): Promi
       return;
     }
 
-    // This would typically fetch from database
-    // For now, return a placeholder response
+    if (typeof sessionId === 'string' && sessionId) {
+      const analysisResult = await interviewAnalysisService.getAnalysisResult(candidateId, sessionId);
+
+      if (!analysisResult) {
+        res.status(404).json({
+          error: 'Interview analysis not found',
+          candidateId,
+          sessionId,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: analysisResult,
+      });
+      return;
+    }
+
+    const analysisResults = await interviewAnalysisService.getAnalysisResultsForCandidate(candidateId);
+
     res.json({
       success: true,
-      message: 'Analysis retrieval not yet implemented - requires database integration',
-      candidateId,
+      data: analysisResults,
     });
 
   } catch (error) {
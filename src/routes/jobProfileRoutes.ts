@@ -1,6 +1,7 @@
 // Job Profile REST API Routes
 import { Router, Request, Response } from 'express';
 import { jobProfileService, CreateJobProfileRequest, UpdateJobProfileRequest, JobProfileFilters } from '../services/jobProfileService';
+import { queueOrchestrator } from '../services/queueOrchestrator';
 import { DatabaseError } from '../utils/database';
 import { validateCreateJobProfile, validateUpdateJobProfile, validateObjectId } from '../middleware/validation';
 
@@ -104,7 +105,8 @@ router.get('/:id', validateObjectId, async (req: Request, res: Response): Promis
 
 /**
  * PUT /api/job-profiles/:id
- * Update job profile by ID
+ * Update job profile by ID. When a field scoring depends on changes, the candidates scored
+ * against it are re-analyzed from their stored profiles and re-scored in the background.
  */
 router.put('/:id', validateObjectId, validateUpdateJobProfile, async (req: Request, res: Response): Promise<Response | void> => {
   try {
@@ -119,6 +121,7 @@ router.put('/:id', validateObjectId, validateUpdateJobProfile, async (req: Reque
     
     const updateData: UpdateJobProfileRequest = { ...req.body, id };
     
+    const previous = await jobProfileService.getJobProfileById(id);
     const jobProfile = await jobProfileService.updateJobProfile(updateData);
     
     if (!jobProfile) {
@@ -128,9 +131,17 @@ router.put('/:id', validateObjectId, validateUpdateJobProfile, async (req: Reque
       });
     }
     
+    const scoringChanges = previous ? jobProfileService.getScoringChanges(previous, jobProfile) : [];
+    const rescore = scoringChanges.length > 0 ? await queueOrchestrator.rescoreJobProfile(jobProfile.id) : null;
+    
     res.status(200).json({
       success: true,
       data: jobProfile,
+      meta: {
+        scoringChanges,
+        rescoreBatchId: rescore?.batchId ?? null,
+        rescoredCandidates: rescore?.candidates ?? 0
+      },
       message: 'Job profile updated successfully'
     });
   } catch (error) {
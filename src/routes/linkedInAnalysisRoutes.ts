@@ -1,29 +1,51 @@
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
+import * as path from 'path';
 import { linkedInAnalysisService } from '../services/linkedInAnalysisService';
+import {
+  JsonLinkedInDataSource,
+  LinkedInProfileImportError,
+  PdfExportLinkedInDataSource
+} from '../services/linkedInDataSources';
 import { CandidateModel } from '../models/schemas';
-import { LinkedInAnalysis } from '../models/interfaces';
+import { LinkedInAnalysis, LinkedInProfileAttachment } from '../models/interfaces';
 
 const router = Router();
 
+const MAX_PROFILE_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+const profileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PROFILE_FILE_SIZE, files: 1 },
+});
+
+function getAttachmentFormat(fileName: string): LinkedInProfileAttachment['format'] | null {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.pdf': return 'pdf-export';
+    case '.json': return 'json';
+    default: return null;
+  }
+}
+
 /**
  * POST /api/linkedin/analyze
  * Analyze a LinkedIn profile for a candidate
  */
 router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { candidateId, linkedInUrl, jobProfileId } = req.body;
+    const { candidateId, jobProfileId } = req.body;
 
     // Validate required fields
-    if (!candidateId || !linkedInUrl || !jobProfileId) {
+    if (!candidateId || !jobProfileId) {
       res.status(400).json({
         success: false,
-        error: 'Missing required fields: candidateId, linkedInUrl, jobProfileId',
+        error: 'Missing required fields: candidateId, jobProfileId',
       });
       return;
     }
 
     // Find the candidate
-    const candidate = await CandidateModel.findById(candidateId);
+    const candidate = await CandidateModel.findById(candidateId).select('+linkedInProfileAttachment');
     if (!candidate) {
       res.status(404).json({
         success: false,
@@ -52,11 +74,13 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
       updatedAt: new Date(),
     };
 
-    // Perform LinkedIn analysis
+    // Perform LinkedIn analysis; without a URL in the request, the resume's URL or an attached profile is used
     const analysis = await linkedInAnalysisService.analyzeLinkedInProfile(
       candidateId,
-      linkedInUrl,
-      mockJobProfile
+      req.body.linkedInUrl || candidate.resumeData.contactInfo.linkedInUrl,
+      mockJobProfile,
+      candidate.linkedInProfileAttachment,
+      candidate.resumeData
     );
 
     // Update candidate with LinkedIn analysis
@@ -115,6 +139,81 @@ router.get('/candidate/:candidateId', async (req: Request, res: Response): Promi
   }
 });
 
+/**
+ * POST /api/linkedin/candidate/:candidateId/profile
+ * Attach a LinkedIn profile supplied by the candidate, in the multipart field "profile": the PDF
+ * from LinkedIn's "Save to PDF", or a .json profile. The file is read right away so that an
+ * unusable one is rejected at upload rather than at analysis.
+ */
+router.post('/candidate/:candidateId/profile', profileUpload.single('profile'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { candidateId } = req.params;
+    const file = req.file;
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        error: 'A LinkedIn profile file is required in the "profile" field',
+      });
+      return;
+    }
+
+    const format = getAttachmentFormat(file.originalname);
+    if (!format) {
+      res.status(400).json({
+        success: false,
+        error: 'Unsupported LinkedIn profile file: upload the PDF export (.pdf) or a JSON profile (.json)',
+      });
+      return;
+    }
+
+    const candidate = await CandidateModel.findById(candidateId);
+    if (!candidate) {
+      res.status(404).json({
+        success: false,
+        error: 'Candidate not found',
+      });
+      return;
+    }
+
+    const attachment: LinkedInProfileAttachment = {
+      format,
+      fileName: file.originalname,
+      content: file.buffer,
+      uploadedAt: new Date(),
+    };
+    const source = format === 'pdf-export' ? new PdfExportLinkedInDataSource() : new JsonLinkedInDataSource();
+    const profile = await source.fetchProfile({ attachment });
+
+    candidate.linkedInProfileAttachment = attachment;
+    await candidate.save();
+
+    res.status(201).json({
+      success: true,
+      data: {
+        format,
+        fileName: attachment.fileName,
+        uploadedAt: attachment.uploadedAt,
+        profile,
+      },
+    });
+  } catch (error) {
+    if (error instanceof LinkedInProfileImportError) {
+      res.status(400).json({
+        success: false,
+        error: error.message,
+        details: error.errors,
+      });
+      return;
+    }
+    console.error('LinkedIn profile upload API error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+});
+
 /**
  * POST /api/linkedin/batch-analyze
  * Analyze LinkedIn profiles for multiple candidates
@@ -139,16 +238,19 @@ router.post('/batch-analyze', async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Find candidates with LinkedIn URLs
+    // Find candidates with LinkedIn URLs or attached profiles
     const candidates = await CandidateModel.find({
       _id: { $in: candidateIds },
-      'resumeData.contactInfo.linkedInUrl': { $exists: true, $ne: null },
-    });
+      $or: [
+        { 'resumeData.contactInfo.linkedInUrl': { $exists: true, $ne: null } },
+        { linkedInProfileAttachment: { $exists: true } },
+      ],
+    }).select('+linkedInProfileAttachment');
 
     if (candidates.length === 0) {
       res.status(404).json({
         success: false,
-        error: 'No candidates found with LinkedIn URLs',
+        error: 'No candidates found with LinkedIn URLs or attached profiles',
       });
       return;
     }
@@ -181,20 +283,12 @@ router.post('/batch-analyze', async (req: Request, res: Response): Promise<void>
     // Process candidates sequentially to avoid rate limiting
     for (const candidate of candidates) {
       try {
-        const linkedInUrl = candidate.resumeData.contactInfo.linkedInUrl;
-        if (!linkedInUrl) {
-          results.push({
-            candidateId: candidate.id,
-            success: false,
-            error: 'No LinkedIn URL found',
-          });
-          continue;
-        }
-
         const analysis = await linkedInAnalysisService.analyzeLinkedInProfile(
           candidate.id,
-          linkedInUrl,
-          mockJobProfile
+          candidate.resumeData.contactInfo.linkedInUrl,
+          mockJobProfile,
+          candidate.linkedInProfileAttachment,
+          candidate.resumeData
         );
 
         // Update candidate
@@ -0,0 +1,198 @@
+// Prompt Template REST API Routes
+import { Router, Request, Response } from 'express';
+import {
+  promptTemplateService,
+  CreatePromptTemplateRequest,
+  CreatePromptTemplateVersionRequest,
+  PromptTemplateFilters,
+  PROMPT_TEMPLATE_VARIABLES
+} from '../services/promptTemplateService';
+import { PromptTemplateKind } from '../models/interfaces';
+import { DatabaseError } from '../utils/database';
+import { validateCreatePromptTemplate, validateCreatePromptTemplateVersion } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * GET /api/prompt-templates
+ * List template versions, optionally filtered by kind, template ID or active state
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const filters: PromptTemplateFilters = {};
+
+    if (req.query.kind) {
+      filters.kind = req.query.kind as PromptTemplateKind;
+    }
+
+    if (req.query.templateId) {
+      filters.templateId = req.query.templateId as string;
+    }
+
+    if (req.query.active) {
+      filters.active = req.query.active === 'true';
+    }
+
+    const templates = await promptTemplateService.listTemplates(filters);
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+      meta: {
+        count: templates.length,
+        variables: PROMPT_TEMPLATE_VARIABLES
+      },
+      message: 'Prompt templates retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/prompt-templates
+ * Create a template; its first version is active
+ */
+router.post('/', validateCreatePromptTemplate, async (req: Request, res: Response) => {
+  try {
+    const { kind, name, description, systemPrompt, body } = req.body;
+    const templateData: CreatePromptTemplateRequest = { kind, name, systemPrompt, body, ...(description && { description }) };
+
+    const template = await promptTemplateService.createTemplate(templateData);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Prompt template created successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * GET /api/prompt-templates/:templateId
+ * Get the active version of a template, or a specific one with ?version=
+ */
+router.get('/:templateId', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { templateId } = req.params;
+    const version = req.query.version ? Number(req.query.version) : undefined;
+
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Version must be a positive integer'
+      });
+    }
+
+    const template = await promptTemplateService.getTemplate(templateId!, version);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: 'Prompt template retrieved successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/prompt-templates/:templateId/versions
+ * Add an inactive version to a template
+ */
+router.post('/:templateId/versions', validateCreatePromptTemplateVersion, async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { templateId } = req.params;
+    const { name, description, systemPrompt, body } = req.body;
+    const versionData: CreatePromptTemplateVersionRequest = {
+      body,
+      ...(name && { name }),
+      ...(description && { description }),
+      ...(systemPrompt && { systemPrompt })
+    };
+
+    const template = await promptTemplateService.createVersion(templateId!, versionData);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template not found'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Prompt template version created successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * POST /api/prompt-templates/:templateId/versions/:version/activate
+ * Use this version for job profiles that do not pin one
+ */
+router.post('/:templateId/versions/:version/activate', async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const { templateId } = req.params;
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({
+        success: false,
+        message: 'Version must be a positive integer'
+      });
+    }
+
+    const template = await promptTemplateService.activateVersion(templateId!, version);
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Prompt template version not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: 'Prompt template version activated successfully'
+    });
+  } catch (error) {
+    handleRouteError(error, res);
+  }
+});
+
+/**
+ * Handle route errors consistently
+ */
+function handleRouteError(error: any, res: Response): void {
+  console.error('Prompt Template Route Error:', error);
+
+  if (error instanceof DatabaseError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code
+    });
+  } else {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+}
+
+export default router;
@@ -104,7 +104,7 @@ router.get('/job/:queueName/:jobId/progress', async (req, res) => {
 // Start batch processing
 router.post('/batch/process', async (req, res) => {
   try {
-    const { candidateIds, jobProfileId } = req.body;
+    const { candidateIds, jobProfileId, aiBudgetUsd, forceReanalysis } = req.body;
 
     if (!candidateIds || !Array.isArray(candidateIds) || candidateIds.length === 0) {
       return res.status(400).json({
@@ -120,7 +120,17 @@ router.post('/batch/process', async (req, res) => {
       });
     }
 
-    const batch = await queueOrchestrator.processCandidateBatch(candidateIds, jobProfileId);
+    if (aiBudgetUsd !== undefined && (typeof aiBudgetUsd !== 'number' || !Number.isFinite(aiBudgetUsd) || aiBudgetUsd < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'aiBudgetUsd must be a non-negative number',
+      });
+    }
+
+    const batch = await queueOrchestrator.processCandidateBatch(candidateIds, jobProfileId, {
+      aiBudgetUsd,
+      forceReanalysis: forceReanalysis === true,
+    });
 
     return res.json({
       success: true,
@@ -176,7 +186,7 @@ router.post('/candidate/process', async (req, res) => {
 // Retry failed candidate stage
 router.post('/candidate/retry', async (req, res) => {
   try {
-    const { candidateId, jobProfileId, stage } = req.body;
+    const { candidateId, jobProfileId, stage, forceReanalysis } = req.body;
 
     if (!candidateId || !jobProfileId || !stage) {
       return res.status(400).json({
@@ -188,7 +198,8 @@ router.post('/candidate/retry', async (req, res) => {
     const batchId = await queueOrchestrator.retryFailedCandidateStage(
       candidateId,
       jobProfileId,
-      stage
+      stage,
+      { forceReanalysis: forceReanalysis === true }
     );
 
     return res.json({
@@ -1,23 +1,41 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { BatchProcessingService, ResumeFile } from '../services/batchProcessingService';
+import { batchProcessingService } from '../services/batchProcessingService';
+import { batchStagingService } from '../services/batchStagingService';
 import { ResumeProcessingService } from '../services/resumeProcessingService';
+import { textExtractorRegistry } from '../services/textExtractionService';
+import { jobProfileService } from '../services/jobProfileService';
+import {
+  archiveExtractionService,
+  ArchiveExtractionError,
+  SkippedArchiveEntry,
+  UncompressedSizeBudget
+} from '../services/archiveExtractionService';
+import { StagedResumeFile } from '../models/interfaces';
+import { config } from '../utils/config';
 import { uploadRateLimit } from '../middleware/rateLimiting';
 import { authorize } from '../middleware/auth';
 
 const router = Router();
 
-// Configure multer for file uploads with enhanced validation
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB per file
-    files: 10000 // Maximum 10,000 files as per requirements
-  },
-  fileFilter: (req, file, cb) => {
-    // Validate file type
-    if (file.mimetype !== 'application/pdf') {
-      return cb(new Error(`Invalid file type: ${file.mimetype}. Only PDF files are allowed.`));
+const MAX_RESUME_FILE_SIZE = 10 * 1024 * 1024; // 10MB per file
+const MAX_BATCH_FILES = 10000; // Maximum 10,000 files as per requirements
+
+/**
+ * Build a multer file filter; batch uploads additionally accept .zip and .tar.gz archives
+ */
+function createFileFilter(allowArchives: boolean): multer.Options['fileFilter'] {
+  return (req, file, cb) => {
+    const isArchive = allowArchives && archiveExtractionService.isArchive(file.originalname || '');
+
+    // Validate file type against the registered text extractors
+    const acceptedMimeType = isArchive
+      ? archiveExtractionService.isAcceptedMimeType(file.mimetype)
+      : textExtractorRegistry.isAcceptedMimeType(file.mimetype);
+    if (!acceptedMimeType) {
+      const supportedExtensions = textExtractorRegistry.getSupportedExtensions()
+        .concat(allowArchives ? archiveExtractionService.getSupportedExtensions() : []);
+      return cb(new Error(`Invalid file type: ${file.mimetype}. Supported formats: ${supportedExtensions.join(', ')}`));
     }
     
     // Validate file name
@@ -25,9 +43,9 @@ const upload = multer({
       return cb(new Error('File name is required'));
     }
     
-    // Check for valid file extension
-    if (!file.originalname.toLowerCase().endsWith('.pdf')) {
-      return cb(new Error('File must have .pdf extension'));
+    // Check for a supported file extension
+    if (!isArchive && !textExtractorRegistry.isSupported(file.originalname, file.mimetype)) {
+      return cb(new Error(`Invalid file type: ${file.originalname} has an unsupported extension`));
     }
     
     // Validate file name length
@@ -42,10 +60,38 @@ const upload = multer({
     }
     
     cb(null, true);
-  }
+  };
+}
+
+// Configure multer for file uploads with enhanced validation
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_RESUME_FILE_SIZE,
+    files: MAX_BATCH_FILES
+  },
+  fileFilter: createFileFilter(false)
 });
 
-const batchProcessor = new BatchProcessingService();
+// Batch uploads may contain archives, so the per-file limit is the archive limit;
+// individual resumes are held to MAX_RESUME_FILE_SIZE in the route handler.
+// Files go to disk so an interrupted batch can be resumed after a restart.
+const batchUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      batchStagingService.getIncomingDir()
+        .then(dir => cb(null, dir))
+        .catch(error => cb(error, ''));
+    }
+  }),
+  limits: {
+    fileSize: Math.max(config.processing.maxArchiveSize, MAX_RESUME_FILE_SIZE),
+    files: MAX_BATCH_FILES
+  },
+  fileFilter: createFileFilter(true)
+});
+
+const batchProcessor = batchProcessingService;
 const resumeProcessor = new ResumeProcessingService();
 
 /**
@@ -58,7 +104,9 @@ function handleMulterError(error: any, req: Request, res: Response, next: any):
         res.status(400).json({
           success: false,
           error: 'File too large',
-          message: 'Each file must be smaller than 10MB'
+          message: req.path === '/upload-batch'
+            ? `Each file must be smaller than 10MB and each archive smaller than ${Math.round(config.processing.maxArchiveSize / (1024 * 1024))}MB`
+            : 'Each file must be smaller than 10MB'
         });
         return;
       case 'LIMIT_FILE_COUNT':
@@ -83,8 +131,7 @@ function handleMulterError(error: any, req: Request, res: Response, next: any):
         });
         return;
     }
-  } else if (error.message.includes('Only PDF files are allowed') || 
-             error.message.includes('Invalid file type') ||
+  } else if (error.message.includes('Invalid file type') ||
              error.message.includes('File name') ||
              error.message.includes('invalid characters')) {
     res.status(400).json({
@@ -100,16 +147,19 @@ function handleMulterError(error: any, req: Request, res: Response, next: any):
 
 /**
  * POST /api/resumes/upload-batch
- * Upload and process multiple PDF resumes
+ * Upload and process multiple resumes (PDF, DOCX, DOC, RTF, ODT, HTML, TXT),
+ * or .zip / .tar.gz archives of them
  */
 router.post('/upload-batch', 
   uploadRateLimit,
   authorize(['admin', 'recruiter']),
-  upload.array('resumes', 10000), 
+  batchUpload.array('resumes', MAX_BATCH_FILES), 
   handleMulterError, 
   async (req: Request, res: Response): Promise<void> => {
+  const files = req.files as Express.Multer.File[];
+  const batchId = batchProcessor.createBatchId();
+  let batchStarted = false;
   try {
-    const files = req.files as Express.Multer.File[];
     const { jobProfileId } = req.body;
 
     // Validate input
@@ -117,7 +167,7 @@ router.post('/upload-batch',
       res.status(400).json({
         success: false,
         error: 'No files uploaded',
-        message: 'Please upload at least one PDF file'
+        message: 'Please upload at least one resume file'
       });
       return;
     }
@@ -132,7 +182,7 @@ router.post('/upload-batch',
     }
 
     // Additional validation for file array
-    const validFiles = files.filter(file => file && file.buffer && file.originalname);
+    const validFiles = files.filter(file => file && file.path && file.originalname);
     if (validFiles.length !== files.length) {
       res.status(400).json({
         success: false,
@@ -154,14 +204,74 @@ router.post('/upload-batch',
       return;
     }
 
-    // Convert multer files to ResumeFile format
-    const resumeFiles: ResumeFile[] = validFiles.map(file => ({
-      buffer: file.buffer,
-      fileName: file.originalname
-    }));
+    // Archives are only size-limited as a whole; loose resumes keep the per-file limit
+    const oversizedFile = validFiles.find(file =>
+      !archiveExtractionService.isArchive(file.originalname) && file.size > MAX_RESUME_FILE_SIZE
+    );
+    if (oversizedFile) {
+      res.status(400).json({
+        success: false,
+        error: 'File too large',
+        message: `${oversizedFile.originalname} is larger than 10MB`
+      });
+      return;
+    }
+
+    // Stage every resume under the batch directory: loose resumes are moved where multer wrote
+    // them, archives are expanded entry by entry within one uncompressed size budget
+    const looseFiles = validFiles.filter(file => !archiveExtractionService.isArchive(file.originalname));
+    const archives = validFiles.filter(file => archiveExtractionService.isArchive(file.originalname));
+    const stagedFiles: StagedResumeFile[] = [];
+    for (const file of looseFiles) {
+      stagedFiles.push(await batchStagingService.stageUpload(batchId, stagedFiles.length, file));
+    }
+
+    const skippedFiles: SkippedArchiveEntry[] = [];
+    const sizeBudget = new UncompressedSizeBudget();
+    for (const file of archives) {
+      try {
+        const expanded = await batchStagingService.stageArchive(batchId, file, stagedFiles.length, sizeBudget);
+        stagedFiles.push(...expanded.files);
+        skippedFiles.push(...expanded.skipped);
+      } catch (error) {
+        if (error instanceof ArchiveExtractionError) {
+          res.status(400).json({
+            success: false,
+            error: 'Archive rejected',
+            message: error.message
+          });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    const totalFiles = stagedFiles.length;
+    if (totalFiles === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'No supported resumes',
+        message: 'The uploaded archives did not contain any supported resume files',
+        skippedFiles
+      });
+      return;
+    }
+
+    if (totalFiles > MAX_BATCH_FILES) {
+      res.status(400).json({
+        success: false,
+        error: 'Too many files',
+        message: `Maximum ${MAX_BATCH_FILES.toLocaleString('en-US')} files allowed per batch, including archive contents`
+      });
+      return;
+    }
+
+    // Phone numbers without a country code are read in the job profile's region
+    const jobProfile = await jobProfileService.getJobProfileById(jobProfileId);
 
     // Start batch processing (async)
-    const batch = await batchProcessor.processBatch(resumeFiles, jobProfileId);
+    const batch = await batchProcessor.startStagedBatch(batchId, stagedFiles, jobProfileId, jobProfile?.phoneRegion);
+    batchStarted = true;
 
     res.status(202).json({
       success: true,
@@ -170,7 +280,8 @@ router.post('/upload-batch',
         batchId: batch.id,
         totalFiles: batch.totalCandidates,
         status: batch.status,
-        startedAt: batch.startedAt
+        startedAt: batch.startedAt,
+        skippedFiles
       }
     });
 
@@ -198,12 +309,18 @@ router.post('/upload-batch',
         details: process.env.NODE_ENV === 'development' ? errorMessage : undefined
       });
     }
+  } finally {
+    // Staged uploads have been moved; anything left (archives, rejected uploads) is temporary
+    await batchStagingService.discardUploads(files || []).catch(() => undefined);
+    if (!batchStarted) {
+      await batchStagingService.removeBatch(batchId).catch(() => undefined);
+    }
   }
 });
 
 /**
  * POST /api/resumes/upload-single
- * Upload and process a single PDF resume
+ * Upload and process a single resume in any supported format
  */
 router.post('/upload-single', 
   uploadRateLimit,
@@ -218,7 +335,7 @@ router.post('/upload-single',
       res.status(400).json({
         success: false,
         error: 'No file uploaded',
-        message: 'Please upload a PDF file'
+        message: 'Please upload a resume file'
       });
       return;
     }
@@ -234,7 +351,7 @@ router.post('/upload-single',
     }
 
     // Process the single resume
-    const resumeData = await resumeProcessor.processSingleResume(file.buffer, file.originalname);
+    const resumeData = await resumeProcessor.processSingleResume(file.buffer, file.originalname, file.mimetype);
 
     res.status(200).json({
       success: true,
@@ -273,7 +390,7 @@ router.post('/upload-single',
  * GET /api/resumes/batch/:batchId/progress
  * Get progress for a specific batch
  */
-router.get('/batch/:batchId/progress', (req: Request, res: Response): void => {
+router.get('/batch/:batchId/progress', async (req: Request, res: Response): Promise<void> => {
   try {
     const { batchId } = req.params;
     
@@ -286,13 +403,13 @@ router.get('/batch/:batchId/progress', (req: Request, res: Response): void => {
       return;
     }
     
-    const progress = batchProcessor.getBatchProgress(batchId);
+    const progress = await batchProcessor.loadBatchProgress(batchId);
 
     if (!progress) {
       res.status(404).json({
         success: false,
         error: 'Batch not found',
-        message: `No active batch found with ID: ${batchId}`
+        message: `No batch found with ID: ${batchId}`
       });
       return;
     }
@@ -1,71 +1,287 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import {
+  AIAnalysisEvidence,
+  AIAnalysisResult,
+  AIProviderResult,
+  AIUsage,
+  ConsensusSettings,
+  JobProfile,
+  PromptTemplate,
+  ResumeData,
+  ResumeSections
+} from '../models/interfaces';
+import * as crypto from 'crypto';
 import { config } from '../utils/config';
-import { AIAnalysisResult, JobProfile, ResumeData } from '../models/interfaces';
 import { externalAPILimiter, EXTERNAL_API_LIMITS } from '../middleware/rateLimiting';
 import { logger } from '../utils/logger';
+import { redisClient } from '../utils/redis';
 import { monitoringService } from './monitoringService';
 import { errorRecoveryService } from './errorRecoveryService';
 import { cachingService } from './cachingService';
 import { connectionPoolService } from './connectionPoolService';
 import { memoryManagementService } from './memoryManagementService';
-
-export type AIProvider = 'gemini' | 'openai' | 'claude';
-
-export interface AIProviderConfig {
-  name: AIProvider;
-  maxRetries: number;
-  timeout: number;
+import {
+  AIProvider,
+  AIProviderConfig,
+  LLMProviderRegistry,
+  LLMRequest,
+  estimateTokens,
+  getDefaultProviderRegistry
+} from './llmProviderRegistry';
+import {
+  AIResponseValidationError,
+  RESUME_ANALYSIS_SCHEMA,
+  RESUME_CHUNK_SCHEMA,
+  buildRepairPrompt,
+  parseStructuredResponse
+} from './aiResponseSchema';
+import { BUILTIN_PROMPT_TEMPLATES, promptTemplateService, renderPromptTemplate } from './promptTemplateService';
+import { UsageMeter, aiCostService } from './aiCostService';
+import { ResumeChunkFindings, buildChunkExtractionPrompt, chunkResumeText, mergeChunkFindings } from './resumeChunking';
+import { EVIDENCE_INSTRUCTIONS, RawAnalysisEvidence, resolveEvidence } from './resumeEvidence';
+import { UNTRUSTED_CONTENT_FORMAT, sanitizeUntrustedText, wrapUntrustedContent } from './promptInjection';
+
+export { AIProvider, AIProviderConfig } from './llmProviderRegistry';
+
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Every provider in the fallback chain failed or answered with an invalid analysis
+ */
+export class AIAnalysisFailedError extends Error {
+  usage?: AIUsage; // Spent on the failed attempts
+
+  constructor(
+    message: string,
+    public readonly providerErrors: Record<AIProvider, string>
+  ) {
+    super(message);
+    this.name = 'AIAnalysisFailedError';
+  }
 }
 
 export interface AnalysisPromptData {
-  resumeText: string;
+  resumeText: string; // The candidate's extractedText; evidence offsets point into it
+  screenedText?: string | undefined; // Text sent to providers: hidden PDF text and invisible characters removed
   jobProfile: JobProfile;
+  sections?: ResumeSections | undefined;
+  template?: PromptTemplate | undefined; // Defaults to the built-in resume analysis template
+  chunks?: string[] | undefined; // Set when the resume is too long for one prompt
+}
+
+export interface AnalyzeResumeOptions {
+  consensus?: boolean; // Run the consensus providers whatever the job profile and first score
+  batchId?: string; // Attributes the spend to a processing batch
+  forceReanalysis?: boolean; // Skip cached results; fresh results replace them in the cache
+}
+
+/**
+ * State shared by the provider calls of one analysis
+ */
+interface AnalysisRun {
+  meter: UsageMeter;
+  forceReanalysis: boolean;
 }
 
 export class AIAnalysisService {
-  private geminiClient: GoogleGenerativeAI;
-  private openaiClient: OpenAI;
-  private claudeClient: Anthropic;
-  private providerConfigs: AIProviderConfig[];
-
-  constructor() {
-    // Initialize AI clients
-    this.geminiClient = new GoogleGenerativeAI(config.aiProviders.gemini.apiKey);
-    this.openaiClient = new OpenAI({
-      apiKey: config.aiProviders.openai.apiKey,
-    });
-    this.claudeClient = new Anthropic({
-      apiKey: config.aiProviders.claude.apiKey,
-    });
+  private registry: LLMProviderRegistry | undefined;
+  private defaultProviderConfigs: AIProviderConfig[] | undefined;
+
+  // Without a registry, the default one is used once the first provider is needed
+  constructor(providerRegistry?: LLMProviderRegistry) {
+    this.registry = providerRegistry;
+  }
+
+  private get providerRegistry(): LLMProviderRegistry {
+    if (!this.registry) {
+      this.registry = getDefaultProviderRegistry();
+    }
+    return this.registry;
+  }
 
-    // Configure provider fallback order with retry counts
-    this.providerConfigs = [
-      { name: 'gemini', maxRetries: 3, timeout: 30000 },
-      { name: 'openai', maxRetries: 2, timeout: 30000 },
-      { name: 'claude', maxRetries: 1, timeout: 30000 },
-    ];
+  // Default provider fallback order with retry counts; job profiles may override it
+  private get providerConfigs(): AIProviderConfig[] {
+    if (!this.defaultProviderConfigs) {
+      this.defaultProviderConfigs = this.providerRegistry.resolveProviderConfigs(DEFAULT_TIMEOUT);
+    }
+    return this.defaultProviderConfigs;
   }
 
   /**
-   * Analyze a resume against a job profile using AI providers with fallback
+   * Analyze a resume against a job profile using AI providers with fallback.
+   * When consensus is enabled, candidates scoring at least minRelevanceScore are re-analyzed by
+   * several providers in parallel and their results combined.
+   * The tokens and cost of every provider call are returned in usage and recorded for cost reports.
+   * Provider results are cached by resume, job profile content, prompt version and model, so
+   * identical analyses are not paid for twice unless forceReanalysis is set.
    */
   async analyzeResume(
     candidateId: string,
     resumeData: ResumeData,
-    jobProfile: JobProfile
+    jobProfile: JobProfile,
+    options: AnalyzeResumeOptions = {}
   ): Promise<AIAnalysisResult> {
-    const startTime = Date.now();
-    const promptData: AnalysisPromptData = {
-      resumeText: resumeData.extractedText,
-      jobProfile,
+    const meter = new UsageMeter();
+    const run: AnalysisRun = { meter, forceReanalysis: options.forceReanalysis === true };
+
+    try {
+      const result = await this.runAnalysis(candidateId, resumeData, jobProfile, options, run);
+      result.usage = meter.toUsage();
+      return result;
+    } catch (error) {
+      if (error instanceof AIAnalysisFailedError) {
+        error.usage = meter.toUsage();
+      }
+      throw error;
+    } finally {
+      await aiCostService.recordUsage(meter.toUsage(), {
+        candidateId,
+        jobProfileId: jobProfile.id,
+        batchId: options.batchId,
+        analysisType: 'resume-analysis',
+      });
+    }
+  }
+
+  private async runAnalysis(
+    candidateId: string,
+    resumeData: ResumeData,
+    jobProfile: JobProfile,
+    options: AnalyzeResumeOptions,
+    run: AnalysisRun
+  ): Promise<AIAnalysisResult> {
+    if (options.consensus) {
+      return this.analyzeWithConsensus(candidateId, resumeData, jobProfile, undefined, run);
+    }
+
+    const promptData = await this.buildPromptData(resumeData, jobProfile);
+    const result = await this.analyzeWithFallback(candidateId, promptData, jobProfile, run);
+    const consensus = this.resolveConsensusSettings(jobProfile);
+
+    if (consensus.enabled && result.relevanceScore >= consensus.minRelevanceScore) {
+      return this.analyzeWithConsensus(candidateId, resumeData, jobProfile, result, run);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the consensus providers in parallel and combine their results. A result the caller
+   * already has from one of them is reused rather than requested again.
+   */
+  async analyzeWithConsensus(
+    candidateId: string,
+    resumeData: ResumeData,
+    jobProfile: JobProfile,
+    existingResult?: AIAnalysisResult,
+    run: AnalysisRun = { meter: new UsageMeter(), forceReanalysis: false }
+  ): Promise<AIAnalysisResult> {
+    const settings = this.resolveConsensusSettings(jobProfile);
+    const promptData = await this.buildPromptData(resumeData, jobProfile);
+    const providerConfigs = this.providerRegistry.resolveProviderConfigs(DEFAULT_TIMEOUT, {
+      ...jobProfile.aiProviderSettings,
+      fallbackOrder: settings.providers,
+    });
+
+    const outcomes = await Promise.allSettled(providerConfigs.map(providerConfig =>
+      existingResult?.provider === providerConfig.name
+        ? Promise.resolve(existingResult)
+        : this.analyzeWithCache(candidateId, promptData, providerConfig, run)
+    ));
+
+    const results: AIAnalysisResult[] = [];
+    const failedProviders: Record<AIProvider, string> = {};
+    outcomes.forEach((outcome, index) => {
+      const provider = providerConfigs[index]!.name;
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else {
+        failedProviders[provider] = (outcome.reason as Error)?.message || String(outcome.reason);
+      }
+    });
+
+    if (existingResult && !results.includes(existingResult)) {
+      results.push(existingResult);
+    }
+
+    if (results.length < 2) {
+      logger.warn('Not enough AI providers answered for a consensus', {
+        service: 'aiAnalysis',
+        operation: 'analyzeWithConsensus',
+        candidateId,
+        jobProfileId: jobProfile.id,
+        failedProviders,
+      });
+
+      if (results.length === 1) {
+        return results[0]!;
+      }
+      throw new AIAnalysisFailedError(`All consensus AI providers failed for candidate ${candidateId}`, failedProviders);
+    }
+
+    const result = this.combineResults(candidateId, results, settings);
+    if (Object.keys(failedProviders).length > 0) {
+      result.consensus!.failedProviders = failedProviders;
+    }
+
+    logger.info('Combined AI analyses into a consensus', {
+      service: 'aiAnalysis',
+      operation: 'analyzeWithConsensus',
+      candidateId,
+      jobProfileId: jobProfile.id,
+      providers: results.map(r => r.provider),
+      relevanceScore: result.relevanceScore,
+      spread: result.consensus!.spread,
+      requiresManualReview: result.requiresManualReview === true,
+    });
+
+    return result;
+  }
+
+  /**
+   * Consensus settings for a job profile; unset fields come from the environment
+   */
+  resolveConsensusSettings(jobProfile: JobProfile): ConsensusSettings {
+    const defaults = config.aiProviders.consensus;
+    const overrides = jobProfile.aiProviderSettings?.consensus;
+    return {
+      enabled: overrides?.enabled ?? defaults.enabled,
+      providers: overrides?.providers?.length ? overrides.providers : defaults.providers,
+      aggregation: overrides?.aggregation ?? defaults.aggregation,
+      weights: { ...defaults.weights, ...overrides?.weights },
+      skillsMerge: overrides?.skillsMerge ?? defaults.skillsMerge,
+      maxSpread: overrides?.maxSpread ?? defaults.maxSpread,
+      minRelevanceScore: overrides?.minRelevanceScore ?? defaults.minRelevanceScore,
     };
+  }
 
+  /**
+   * Try each provider in the fallback chain until one returns a valid analysis
+   */
+  private async analyzeWithFallback(
+    candidateId: string,
+    promptData: AnalysisPromptData,
+    jobProfile: JobProfile,
+    run: AnalysisRun
+  ): Promise<AIAnalysisResult> {
+    const startTime = Date.now();
     let lastError: Error | null = null;
+    const providerErrors: Record<AIProvider, string> = {};
+    const providerConfigs = jobProfile.aiProviderSettings
+      ? this.providerRegistry.resolveProviderConfigs(DEFAULT_TIMEOUT, jobProfile.aiProviderSettings)
+      : this.providerConfigs;
+
+    // Any provider of the chain that already analyzed this resume for this profile will do
+    if (!run.forceReanalysis) {
+      for (const providerConfig of providerConfigs) {
+        const cached = await this.getCachedResult(candidateId, promptData, providerConfig.name);
+        if (cached) {
+          return cached;
+        }
+      }
+    }
 
     // Try each provider in order with retries
-    for (const providerConfig of this.providerConfigs) {
+    for (const providerConfig of providerConfigs) {
       const providerStartTime = Date.now();
       
       try {
@@ -80,8 +296,10 @@ export class AIAnalysisService {
         const result = await this.analyzeWithProvider(
           candidateId,
           promptData,
-          providerConfig
+          providerConfig,
+          run.meter
         );
+        await this.cacheResult(promptData, result);
         
         const duration = Date.now() - providerStartTime;
         const totalDuration = Date.now() - startTime;
@@ -117,6 +335,7 @@ export class AIAnalysisService {
         return result;
       } catch (error) {
         lastError = error as Error;
+        providerErrors[providerConfig.name] = lastError.message;
         const duration = Date.now() - providerStartTime;
         
         // Record failed API usage
@@ -166,14 +385,266 @@ export class AIAnalysisService {
         jobProfileId: jobProfile.id,
         totalDuration,
         lastError: lastError?.message,
-        providersAttempted: this.providerConfigs.map(p => p.name)
+        providersAttempted: providerConfigs.map(p => p.name)
       }
     );
 
     // If all providers failed, throw the last error
-    throw new Error(
-      `All AI providers failed for candidate ${candidateId}. Last error: ${lastError?.message}`
+    throw new AIAnalysisFailedError(
+      `All AI providers failed for candidate ${candidateId}. Last error: ${lastError?.message}`,
+      providerErrors
+    );
+  }
+
+  private async buildPromptData(resumeData: ResumeData, jobProfile: JobProfile): Promise<AnalysisPromptData> {
+    const { maxResumeTokens, chunkTokens } = config.aiProviders.chunking;
+    const screenedText = sanitizeUntrustedText(resumeData.extractedText, resumeData.hiddenText);
+
+    return {
+      resumeText: resumeData.extractedText,
+      screenedText,
+      jobProfile,
+      sections: resumeData.sections,
+      template: await promptTemplateService.resolveTemplate('resume-analysis', jobProfile.promptTemplates?.resumeAnalysis),
+      ...(estimateTokens(screenedText) > maxResumeTokens && {
+        chunks: chunkResumeText(screenedText, chunkTokens),
+      }),
+    };
+  }
+
+  /**
+   * Combine provider results: aggregate the scores, merge the matched skills and flag the
+   * candidate for human review when the scores are further apart than maxSpread
+   */
+  private combineResults(
+    candidateId: string,
+    results: AIAnalysisResult[],
+    settings: ConsensusSettings
+  ): AIAnalysisResult {
+    const scores = results.map(r => r.relevanceScore);
+    const relevanceScore = this.aggregate(results, r => r.relevanceScore, settings);
+    const spread = Math.max(...scores) - Math.min(...scores);
+    const skillsMatch = this.mergeSkills(results, settings.skillsMerge);
+
+    // Text fields come from the provider closest to the aggregate score
+    const representative = results.reduce((closest, r) =>
+      Math.abs(r.relevanceScore - relevanceScore) < Math.abs(closest.relevanceScore - relevanceScore) ? r : closest
     );
+
+    const providerResults: AIProviderResult[] = results.map(r => ({
+      provider: r.provider,
+      relevanceScore: r.relevanceScore,
+      skillsMatch: r.skillsMatch,
+      experienceAssessment: r.experienceAssessment,
+      reasoning: r.reasoning,
+      confidence: r.confidence,
+    }));
+
+    const result: AIAnalysisResult = {
+      candidateId,
+      provider: 'consensus',
+      relevanceScore,
+      skillsMatch,
+      experienceAssessment: representative.experienceAssessment,
+      reasoning: representative.reasoning,
+      confidence: this.aggregate(results, r => r.confidence, settings),
+      ...(representative.promptTemplate && { promptTemplate: representative.promptTemplate }),
+      ...(results.every(r => r.cacheHit) && { cacheHit: true }),
+      ...(representative.chunking && { chunking: representative.chunking }),
+      ...(results.some(r => r.evidence) && { evidence: this.mergeEvidence(results, representative, skillsMatch.matched) }),
+      consensus: {
+        aggregation: settings.aggregation,
+        skillsMerge: settings.skillsMerge,
+        spread,
+        providerResults,
+      },
+    };
+
+    if (spread > settings.maxSpread) {
+      const lowest = results.find(r => r.relevanceScore === Math.min(...scores))!;
+      const highest = results.find(r => r.relevanceScore === Math.max(...scores))!;
+      result.requiresManualReview = true;
+      result.manualReviewReason =
+        `AI providers disagree on relevance: ${lowest.provider} scored ${lowest.relevanceScore}, ` +
+        `${highest.provider} scored ${highest.relevanceScore} (allowed spread ${settings.maxSpread})`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Median or weighted mean of a score across provider results, rounded to one decimal
+   */
+  private aggregate(
+    results: AIAnalysisResult[],
+    score: (result: AIAnalysisResult) => number,
+    settings: ConsensusSettings
+  ): number {
+    let value: number;
+
+    const totalWeight = results.reduce((sum, r) => sum + (settings.weights?.[r.provider] ?? 1), 0);
+    if (settings.aggregation === 'weighted-mean' && totalWeight > 0) {
+      value = results.reduce((sum, r) => sum + score(r) * (settings.weights?.[r.provider] ?? 1), 0) / totalWeight;
+    } else {
+      const sorted = results.map(score).sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      value = sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+    }
+
+    return Math.round(value * 10) / 10;
+  }
+
+  /**
+   * Union keeps skills any provider matched; intersection only those all providers matched.
+   * Anything a provider mentioned that did not make the matched list is reported missing.
+   */
+  private mergeSkills(
+    results: AIAnalysisResult[],
+    mode: ConsensusSettings['skillsMerge']
+  ): AIAnalysisResult['skillsMatch'] {
+    // Keyed case-insensitively; the first spelling seen is kept, preferring matched lists
+    const spellings = new Map<string, string>();
+    const matchCounts = new Map<string, number>();
+    const remember = (skill: string): string => {
+      const key = skill.trim().toLowerCase();
+      if (!spellings.has(key)) spellings.set(key, skill.trim());
+      return key;
+    };
+
+    for (const result of results) {
+      new Set(result.skillsMatch.matched.map(remember))
+        .forEach(key => matchCounts.set(key, (matchCounts.get(key) || 0) + 1));
+    }
+    results.forEach(result => result.skillsMatch.missing.forEach(remember));
+
+    const isMatched = (key: string): boolean => {
+      const count = matchCounts.get(key) || 0;
+      return mode === 'union' ? count > 0 : count === results.length;
+    };
+
+    const matched: string[] = [];
+    const missing: string[] = [];
+    spellings.forEach((spelling, key) => (isMatched(key) ? matched : missing).push(spelling));
+
+    return { matched, missing };
+  }
+
+  /**
+   * Evidence for a consensus result: the representative's experience claims, and for each matched
+   * skill the quotes of every provider that cited it
+   */
+  private mergeEvidence(
+    results: AIAnalysisResult[],
+    representative: AIAnalysisResult,
+    matchedSkills: string[]
+  ): AIAnalysisEvidence {
+    const skills = matchedSkills.map(skill => {
+      const key = skill.toLowerCase();
+      const quotes = results
+        .flatMap(r => r.evidence?.skills ?? [])
+        .filter(entry => entry.skill.trim().toLowerCase() === key)
+        .flatMap(entry => entry.quotes)
+        .filter((quote, index, all) => all.findIndex(q => q.start === quote.start && q.end === quote.end) === index)
+        .sort((a, b) => a.start - b.start);
+      return { skill, quotes };
+    }).filter(entry => entry.quotes.length > 0);
+
+    return {
+      skills,
+      experienceClaims: representative.evidence?.experienceClaims ?? [],
+      rejectedQuotes: results.reduce((sum, r) => sum + (r.evidence?.rejectedQuotes ?? 0), 0),
+    };
+  }
+
+  /**
+   * Analyze with a specific provider, reusing its cached result for the same input
+   */
+  private async analyzeWithCache(
+    candidateId: string,
+    promptData: AnalysisPromptData,
+    providerConfig: AIProviderConfig,
+    run: AnalysisRun
+  ): Promise<AIAnalysisResult> {
+    if (!run.forceReanalysis) {
+      const cached = await this.getCachedResult(candidateId, promptData, providerConfig.name);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const result = await this.analyzeWithProvider(candidateId, promptData, providerConfig, run.meter);
+    await this.cacheResult(promptData, result);
+    return result;
+  }
+
+  private async getCachedResult(
+    candidateId: string,
+    promptData: AnalysisPromptData,
+    provider: AIProvider
+  ): Promise<AIAnalysisResult | null> {
+    if (!redisClient.isClientConnected()) {
+      return null;
+    }
+
+    const cached = await cachingService.get<AIAnalysisResult>('aiAnalysis', this.getCacheKey(promptData, provider));
+
+    monitoringService.recordBusinessMetric(cached ? 'aiAnalysis.cache.hit' : 'aiAnalysis.cache.miss', 1, 'count', { provider });
+
+    if (!cached) {
+      return null;
+    }
+
+    logger.info(`Using cached AI analysis from ${provider}`, {
+      service: 'aiAnalysis',
+      operation: 'analyzeResume',
+      candidateId,
+      provider,
+      jobProfileId: promptData.jobProfile.id,
+    });
+
+    // The same resume may have been analyzed for another candidate record, and the key ignores
+    // whitespace, so quotes are located again in this resume's text
+    const result: AIAnalysisResult = { ...cached, candidateId, cacheHit: true };
+    if (cached.evidence) {
+      const relocated = resolveEvidence({
+        skills: cached.evidence.skills.map(entry => ({ skill: entry.skill, quotes: entry.quotes.map(q => q.quote) })),
+        experienceClaims: cached.evidence.experienceClaims.map(entry => ({ claim: entry.claim, quotes: entry.quotes.map(q => q.quote) })),
+      }, promptData.resumeText);
+      result.evidence = { ...relocated, rejectedQuotes: relocated.rejectedQuotes + cached.evidence.rejectedQuotes };
+    }
+    return result;
+  }
+
+  private async cacheResult(promptData: AnalysisPromptData, result: AIAnalysisResult): Promise<void> {
+    if (!redisClient.isClientConnected()) {
+      return;
+    }
+
+    const { usage, cacheHit, ...cacheable } = result;
+    await cachingService.set('aiAnalysis', this.getCacheKey(promptData, result.provider), cacheable);
+  }
+
+  /**
+   * Hash of everything that determines a provider's answer: the normalized resume as sent, the job
+   * profile fields the prompt uses, the prompt template version, the prompt format, the expected
+   * response and the provider's model
+   */
+  private getCacheKey(promptData: AnalysisPromptData, provider: AIProvider): string {
+    const { jobProfile } = promptData;
+    const template = promptData.template ?? BUILTIN_PROMPT_TEMPLATES['resume-analysis'];
+    const sha256 = (value: unknown): string => crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+    return `resume:${sha256([
+      sha256([(promptData.screenedText ?? promptData.resumeText).replace(/\s+/g, ' ').trim(), promptData.sections ?? null]),
+      sha256([jobProfile.title, jobProfile.description, jobProfile.requiredSkills, jobProfile.experienceLevel]),
+      template.templateId,
+      template.version,
+      UNTRUSTED_CONTENT_FORMAT,
+      sha256(RESUME_ANALYSIS_SCHEMA.schema),
+      promptData.chunks?.length ?? 0,
+      provider,
+      this.providerRegistry.get(provider).model ?? provider,
+    ])}`;
   }
 
   /**
@@ -182,9 +653,12 @@ export class AIAnalysisService {
   private async analyzeWithProvider(
     candidateId: string,
     promptData: AnalysisPromptData,
-    providerConfig: AIProviderConfig
+    providerConfig: AIProviderConfig,
+    meter: UsageMeter
   ): Promise<AIAnalysisResult> {
     let lastError: Error | null = null;
+    // Chunk extraction passes run in parallel, then the scoring pass: two calls' worth of time
+    const timeout = promptData.chunks ? providerConfig.timeout * 2 : providerConfig.timeout;
 
     for (let attempt = 1; attempt <= providerConfig.maxRetries; attempt++) {
       try {
@@ -193,8 +667,8 @@ export class AIAnalysisService {
         );
 
         const result = await Promise.race([
-          this.callProvider(candidateId, promptData, providerConfig.name),
-          this.createTimeoutPromise(providerConfig.timeout),
+          this.callProvider(candidateId, promptData, providerConfig.name, meter),
+          this.createTimeoutPromise(timeout),
         ]);
 
         return result;
@@ -205,6 +679,11 @@ export class AIAnalysisService {
           error
         );
 
+        // The provider already had a chance to repair its answer; fall back to the next provider
+        if (error instanceof AIResponseValidationError) {
+          break;
+        }
+
         // Wait before retry (exponential backoff)
         if (attempt < providerConfig.maxRetries) {
           const delay = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s...
@@ -217,229 +696,212 @@ export class AIAnalysisService {
   }
 
   /**
-   * Call the specific AI provider
+   * Call the specific AI provider. A long resume is first passed through in chunks to extract its
+   * facts, and the merged findings are scored in place of the full text.
    */
   private async callProvider(
     candidateId: string,
     promptData: AnalysisPromptData,
-    provider: AIProvider
+    provider: AIProvider,
+    meter: UsageMeter
   ): Promise<AIAnalysisResult> {
-    const prompt = this.buildAnalysisPrompt(promptData);
-
-    switch (provider) {
-      case 'gemini':
-        return await this.analyzeWithGemini(candidateId, prompt);
-      case 'openai':
-        return await this.analyzeWithOpenAI(candidateId, prompt);
-      case 'claude':
-        return await this.analyzeWithClaude(candidateId, prompt);
-      default:
-        throw new Error(`Unknown AI provider: ${provider}`);
+    const template = promptData.template ?? BUILTIN_PROMPT_TEMPLATES['resume-analysis'];
+    const { chunks } = promptData;
+    let resumeText = promptData.screenedText ?? promptData.resumeText;
+    let chunkEvidence: RawAnalysisEvidence | undefined;
+
+    if (chunks) {
+      const findings = await Promise.all(chunks.map((chunk, index) =>
+        this.completeStructured(candidateId, provider, {
+          prompt: buildChunkExtractionPrompt(chunk, index, chunks.length, promptData.jobProfile),
+          systemPrompt: template.systemPrompt,
+          temperature: 0.1,
+          maxTokens: 1500,
+          responseSchema: RESUME_CHUNK_SCHEMA,
+        }, text => parseStructuredResponse<ResumeChunkFindings>(text, RESUME_CHUNK_SCHEMA), meter)
+      ));
+      ({ text: resumeText, evidence: chunkEvidence } = mergeChunkFindings(findings));
+
+      logger.info(`Extracted findings from ${chunks.length} resume chunks with ${provider}`, {
+        service: 'aiAnalysis',
+        operation: 'callProvider',
+        candidateId,
+        provider,
+        chunks: chunks.length,
+      });
     }
+
+    const result = await this.completeStructured(candidateId, provider, {
+      prompt: this.buildAnalysisPrompt({ ...promptData, resumeText }),
+      systemPrompt: template.systemPrompt,
+      temperature: 0.3,
+      maxTokens: 2000,
+      responseSchema: RESUME_ANALYSIS_SCHEMA,
+    }, text => this.parseAIResponse(candidateId, text, provider, chunks ? undefined : promptData.resumeText), meter);
+
+    // The chunks' quotes are located in the full resume, for the skills the scoring pass matched
+    const matched = new Set(result.skillsMatch.matched.map(skill => skill.toLowerCase()));
+    const evidence = chunkEvidence && this.resolveProviderEvidence(candidateId, provider, {
+      skills: chunkEvidence.skills.filter(entry => matched.has(entry.skill.toLowerCase())),
+      experienceClaims: chunkEvidence.experienceClaims,
+    }, promptData.resumeText);
+
+    return {
+      ...result,
+      ...(evidence && { evidence }),
+      promptTemplate: { id: template.templateId, version: template.version },
+      ...(chunks && { chunking: { chunks: chunks.length, estimatedTokens: estimateTokens(promptData.screenedText ?? promptData.resumeText) } }),
+    };
   }
 
   /**
-   * Analyze using Gemini API
+   * Make one metered completion and parse it, giving the provider one chance to repair an
+   * invalid answer
    */
-  private async analyzeWithGemini(
+  private async completeStructured<T>(
     candidateId: string,
-    prompt: string
-  ): Promise<AIAnalysisResult> {
-    // Check rate limit before making API call
-    const limits = EXTERNAL_API_LIMITS.gemini;
-    if (!externalAPILimiter.canMakeCall('gemini', limits.maxCalls, limits.windowMs)) {
-      const resetTime = externalAPILimiter.getResetTime('gemini');
-      logger.warn('Gemini API rate limit exceeded', { candidateId, resetTime });
-      throw new Error(`Gemini API rate limit exceeded. Reset time: ${resetTime?.toISOString()}`);
+    provider: AIProvider,
+    request: LLMRequest,
+    parse: (text: string) => T,
+    meter: UsageMeter
+  ): Promise<T> {
+    // Check rate limit before making API call; local and mock providers have none
+    const limits = EXTERNAL_API_LIMITS[provider as keyof typeof EXTERNAL_API_LIMITS];
+    if (limits && !externalAPILimiter.canMakeCall(provider, limits.maxCalls, limits.windowMs)) {
+      const resetTime = externalAPILimiter.getResetTime(provider);
+      logger.warn(`${provider} API rate limit exceeded`, { candidateId, resetTime });
+      throw new Error(`${provider} API rate limit exceeded. Reset time: ${resetTime?.toISOString()}`);
     }
 
-    const model = this.geminiClient.getGenerativeModel({ model: 'gemini-pro' });
-    
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const llmProvider = this.providerRegistry.get(provider);
+    const { text, usage } = await llmProvider.complete(request);
+    meter.add(provider, usage);
 
-    return this.parseAIResponse(candidateId, text, 'gemini');
-  }
-
-  /**
-   * Analyze using OpenAI GPT API
-   */
-  private async analyzeWithOpenAI(
-    candidateId: string,
-    prompt: string
-  ): Promise<AIAnalysisResult> {
-    // Check rate limit before making API call
-    const limits = EXTERNAL_API_LIMITS.openai;
-    if (!externalAPILimiter.canMakeCall('openai', limits.maxCalls, limits.windowMs)) {
-      const resetTime = externalAPILimiter.getResetTime('openai');
-      logger.warn('OpenAI API rate limit exceeded', { candidateId, resetTime });
-      throw new Error(`OpenAI API rate limit exceeded. Reset time: ${resetTime?.toISOString()}`);
-    }
+    try {
+      return parse(text);
+    } catch (error) {
+      if (!(error instanceof AIResponseValidationError)) {
+        throw error;
+      }
 
-    const completion = await this.openaiClient.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert HR analyst specializing in resume evaluation and candidate assessment.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 2000,
-    });
+      // Give the provider one chance to fix its answer before falling back
+      logger.warn(`Invalid AI response from ${provider}, requesting a repair`, {
+        service: 'aiAnalysis',
+        operation: 'callProvider',
+        candidateId,
+        provider,
+        responseSchema: request.responseSchema?.name,
+        validationErrors: error.errors,
+      });
 
-    const text = completion.choices[0]?.message?.content || '';
-    return this.parseAIResponse(candidateId, text, 'openai');
+      const repaired = await llmProvider.complete({ ...request, prompt: buildRepairPrompt(request.prompt, error) });
+      meter.add(provider, repaired.usage);
+      return parse(repaired.text);
+    }
   }
 
   /**
-   * Analyze using Claude API
+   * Render the prompt template with the job profile and resume, the resume enclosed as untrusted
+   * content. Evidence is asked for after any template, except for chunked resumes whose scoring
+   * pass never sees the verbatim text; their quotes come from the extraction pass instead.
    */
-  private async analyzeWithClaude(
-    candidateId: string,
-    prompt: string
-  ): Promise<AIAnalysisResult> {
-    // Check rate limit before making API call
-    const limits = EXTERNAL_API_LIMITS.claude;
-    if (!externalAPILimiter.canMakeCall('claude', limits.maxCalls, limits.windowMs)) {
-      const resetTime = externalAPILimiter.getResetTime('claude');
-      logger.warn('Claude API rate limit exceeded', { candidateId, resetTime });
-      throw new Error(`Claude API rate limit exceeded. Reset time: ${resetTime?.toISOString()}`);
-    }
-
-    const message = await this.claudeClient.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      temperature: 0.3,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+  private buildAnalysisPrompt(promptData: AnalysisPromptData): string {
+    const { resumeText, jobProfile, sections } = promptData;
+    const template = promptData.template ?? BUILTIN_PROMPT_TEMPLATES['resume-analysis'];
+
+    const prompt = renderPromptTemplate(template.body, {
+      jobProfile: {
+        title: jobProfile.title,
+        description: jobProfile.description,
+        requiredSkills: jobProfile.requiredSkills.join(', '),
+        experienceLevel: jobProfile.experienceLevel,
+      },
+      resumeText: wrapUntrustedContent(promptData.chunks ? 'resume-findings' : 'resume', resumeText),
+      resumeSummary: sections ? `\n${wrapUntrustedContent('resume-summary', this.buildSectionSummary(sections))}\n` : '',
     });
 
-    const text = message.content[0]?.type === 'text' ? message.content[0].text : '';
-    return this.parseAIResponse(candidateId, text, 'claude');
+    return promptData.chunks ? prompt : `${prompt}${EVIDENCE_INSTRUCTIONS}`;
   }
 
   /**
-   * Build structured prompt for AI analysis
+   * Summarize parsed resume sections so the model does not have to infer them from raw text
    */
-  private buildAnalysisPrompt(promptData: AnalysisPromptData): string {
-    const { resumeText, jobProfile } = promptData;
-
-    return `
-Please analyze the following resume against the job requirements and provide a structured assessment.
-
-JOB PROFILE:
-Title: ${jobProfile.title}
-Description: ${jobProfile.description}
-Required Skills: ${jobProfile.requiredSkills.join(', ')}
-Experience Level: ${jobProfile.experienceLevel}
-
-RESUME TEXT:
-${resumeText}
-
-Please provide your analysis in the following JSON format:
-{
-  "relevanceScore": <number between 0-100>,
-  "skillsMatch": {
-    "matched": ["skill1", "skill2", ...],
-    "missing": ["skill3", "skill4", ...]
-  },
-  "experienceAssessment": "<detailed assessment of candidate's experience relevance>",
-  "reasoning": "<detailed explanation of the score and assessment>",
-  "confidence": <number between 0-100 indicating confidence in the analysis>
-}
+  private buildSectionSummary(sections: ResumeSections): string {
+    const roles = sections.workHistory.slice(0, 5).map(role => {
+      const period = `${role.startDate || '?'} to ${role.isCurrent ? 'present' : role.endDate || '?'}`;
+      return `- ${role.title}${role.company ? ` at ${role.company}` : ''} (${period})`;
+    });
+    const education = sections.education.map(entry =>
+      `- ${[entry.degree, entry.institution, entry.graduationYear].filter(Boolean).join(', ')}`
+    );
 
-ANALYSIS GUIDELINES:
-1. Relevance Score (0-100): Overall match between candidate and job requirements
-2. Skills Match: Identify which required skills are demonstrated vs missing
-3. Experience Assessment: Evaluate years of experience, role progression, and relevance
-4. Reasoning: Provide clear justification for scores and recommendations
-5. Confidence: Rate your confidence in the analysis based on resume quality and clarity
-
-Focus on:
-- Technical skills alignment
-- Experience level appropriateness
-- Industry/domain relevance
-- Career progression indicators
-- Education alignment (if specified)
-
-Respond ONLY with the JSON object, no additional text.
-`;
+    return [
+      'STRUCTURED RESUME SUMMARY (parsed automatically; the resume text below is authoritative):',
+      `Total Experience: ${sections.totalYearsExperience} years`,
+      roles.length > 0 ? `Recent Roles:\n${roles.join('\n')}` : 'Recent Roles: none found',
+      education.length > 0 ? `Education:\n${education.join('\n')}` : 'Education: none found',
+      `Skills: ${sections.skills.length > 0 ? sections.skills.join(', ') : 'none found'}`,
+      sections.certifications.length > 0 ? `Certifications: ${sections.certifications.join(', ')}` : '',
+    ].filter(Boolean).join('\n');
   }
 
   /**
-   * Parse AI response into structured result
+   * Parse AI response into structured result.
+   * Throws AIResponseValidationError when the response does not match RESUME_ANALYSIS_SCHEMA.
+   * Evidence quotes are kept only when found in resumeText; without it evidence is ignored.
    */
   private parseAIResponse(
     candidateId: string,
     responseText: string,
-    provider: AIProvider
+    provider: AIProvider,
+    resumeText?: string
   ): AIAnalysisResult {
-    try {
-      // Clean the response text to extract JSON
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in AI response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Validate required fields
-      if (
-        typeof parsed.relevanceScore !== 'number' ||
-        !parsed.skillsMatch ||
-        !Array.isArray(parsed.skillsMatch.matched) ||
-        !Array.isArray(parsed.skillsMatch.missing) ||
-        typeof parsed.experienceAssessment !== 'string' ||
-        typeof parsed.reasoning !== 'string' ||
-        typeof parsed.confidence !== 'number'
-      ) {
-        throw new Error('Invalid AI response structure');
-      }
+    const parsed = parseStructuredResponse<
+      Omit<AIAnalysisResult, 'candidateId' | 'provider' | 'evidence'> & { evidence?: RawAnalysisEvidence }
+    >(
+      responseText,
+      RESUME_ANALYSIS_SCHEMA
+    );
 
-      // Ensure scores are within valid ranges
-      const relevanceScore = Math.max(0, Math.min(100, parsed.relevanceScore));
-      const confidence = Math.max(0, Math.min(100, parsed.confidence));
+    const evidence = parsed.evidence && resumeText !== undefined
+      ? this.resolveProviderEvidence(candidateId, provider, parsed.evidence, resumeText)
+      : undefined;
+
+    return {
+      candidateId,
+      provider,
+      relevanceScore: parsed.relevanceScore,
+      skillsMatch: {
+        matched: parsed.skillsMatch.matched,
+        missing: parsed.skillsMatch.missing,
+      },
+      experienceAssessment: parsed.experienceAssessment,
+      reasoning: parsed.reasoning,
+      confidence: parsed.confidence,
+      ...(evidence && { evidence }),
+    };
+  }
 
-      return {
-        candidateId,
-        provider,
-        relevanceScore,
-        skillsMatch: {
-          matched: parsed.skillsMatch.matched,
-          missing: parsed.skillsMatch.missing,
-        },
-        experienceAssessment: parsed.experienceAssessment,
-        reasoning: parsed.reasoning,
-        confidence,
-      };
-    } catch (error) {
-      console.error('Failed to parse AI response:', error);
-      console.error('Response text:', responseText);
-      
-      // Return a fallback result with low confidence
-      return {
+  /**
+   * Locate the provider's evidence quotes in the resume text, logging those that are not in it
+   */
+  private resolveProviderEvidence(
+    candidateId: string,
+    provider: AIProvider,
+    raw: RawAnalysisEvidence,
+    resumeText: string
+  ): AIAnalysisEvidence {
+    const evidence = resolveEvidence(raw, resumeText);
+    if (evidence.rejectedQuotes > 0) {
+      logger.warn(`Rejected ${evidence.rejectedQuotes} evidence quotes from ${provider} not found in the resume`, {
+        service: 'aiAnalysis',
+        operation: 'resolveEvidence',
         candidateId,
         provider,
-        relevanceScore: 0,
-        skillsMatch: {
-          matched: [],
-          missing: [],
-        },
-        experienceAssessment: 'Failed to analyze resume due to parsing error',
-        reasoning: `AI response parsing failed: ${error}`,
-        confidence: 0,
-      };
+        rejectedQuotes: evidence.rejectedQuotes,
+      });
     }
+    return evidence;
   }
 
   /**
@@ -457,54 +919,16 @@ Respond ONLY with the JSON object, no additional text.
    * Test AI provider connectivity
    */
   async testProviders(): Promise<Record<AIProvider, boolean>> {
-    const results: Record<AIProvider, boolean> = {
-      gemini: false,
-      openai: false,
-      claude: false,
-    };
-
-    const testPrompt = 'Test connection. Respond with: {"status": "ok"}';
-
-    // Test Gemini
-    try {
-      const model = this.geminiClient.getGenerativeModel({ model: 'gemini-pro' });
-      await model.generateContent(testPrompt);
-      results.gemini = true;
-    } catch (error) {
-      console.warn('Gemini test failed:', error);
-    }
-
-    // Test OpenAI
-    try {
-      await this.openaiClient.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: testPrompt }],
-        max_tokens: 10,
-      });
-      results.openai = true;
-    } catch (error) {
-      console.warn('OpenAI test failed:', error);
-    }
-
-    // Test Claude
-    try {
-      await this.claudeClient.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 10,
-        messages: [{ role: 'user', content: testPrompt }],
-      });
-      results.claude = true;
-    } catch (error) {
-      console.warn('Claude test failed:', error);
-    }
-
-    return results;
+    return this.providerRegistry.testProviders(this.providerConfigs.map(p => p.name));
   }
 
   /**
    * Classify error type for recovery purposes
    */
   private classifyError(error: any): string {
+    if (error instanceof AIResponseValidationError) {
+      return 'InvalidResponseError';
+    }
     if (error.message?.includes('rate limit') || error.status === 429) {
       return 'RateLimitError';
     }
@@ -530,6 +954,7 @@ Respond ONLY with the JSON object, no additional text.
    * Extract HTTP status code from error
    */
   private getErrorStatusCode(error: any): number {
+    if (error instanceof AIResponseValidationError) return 422;
     if (error.status) return error.status;
     if (error.response?.status) return error.response.status;
     if (error.message?.includes('rate limit')) return 429;
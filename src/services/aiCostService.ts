@@ -0,0 +1,290 @@
+// AI Token Usage and Cost Accounting Service
+import { AIBatchBudgetModel, AIUsageRecordModel } from '../models/schemas';
+import {
+  AIProviderUsage,
+  AIUsage,
+  JobData,
+  JobProfile,
+  PromptTemplateKind,
+  TokenUsage
+} from '../models/interfaces';
+import { config } from '../utils/config';
+import { database, DatabaseError, handleMongoError } from '../utils/database';
+import { logger } from '../utils/logger';
+import { jobProfileService } from './jobProfileService';
+
+export type AICostGroupBy = 'batch' | 'jobProfile' | 'day';
+
+export interface AICostFilters {
+  jobProfileId?: string;
+  batchId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AICostSummary extends AIUsage {
+  key: string; // Batch ID, job profile ID or day, depending on the grouping
+}
+
+export interface AIUsageContext {
+  candidateId: string;
+  jobProfileId: string;
+  batchId?: string | undefined;
+  analysisType: PromptTemplateKind;
+}
+
+export interface AIBatchBudgetStatus {
+  batchId: string;
+  jobProfileId?: string | undefined;
+  limitUsd?: number | undefined; // Unlimited when unset
+  spentUsd: number;
+  exceeded: boolean;
+  paused: boolean;
+  pausedJobCount: number;
+}
+
+const GROUP_FIELDS: Record<AICostGroupBy, string> = {
+  batch: '$batchId',
+  jobProfile: '$jobProfileId',
+  day: '$day',
+};
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Price token usage with the configured rate table; providers without a rate cost nothing
+ */
+export function priceTokens(provider: string, usage: TokenUsage): number {
+  const pricing = config.aiCosts.pricing[provider];
+  if (!pricing) {
+    return 0;
+  }
+  return roundUsd((usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1e6);
+}
+
+/**
+ * Adds up the provider calls made for one analysis
+ */
+export class UsageMeter {
+  private providers = new Map<string, AIProviderUsage>();
+
+  add(provider: string, usage?: TokenUsage): void {
+    const current = this.providers.get(provider) ?? { provider, inputTokens: 0, outputTokens: 0, calls: 0, costUsd: 0 };
+    current.calls++;
+    if (usage) {
+      current.inputTokens += usage.inputTokens || 0;
+      current.outputTokens += usage.outputTokens || 0;
+      current.costUsd = priceTokens(provider, current);
+    }
+    this.providers.set(provider, current);
+  }
+
+  toUsage(): AIUsage {
+    const providers = Array.from(this.providers.values(), usage => ({ ...usage }));
+    return {
+      inputTokens: providers.reduce((sum, p) => sum + p.inputTokens, 0),
+      outputTokens: providers.reduce((sum, p) => sum + p.outputTokens, 0),
+      calls: providers.reduce((sum, p) => sum + p.calls, 0),
+      costUsd: roundUsd(providers.reduce((sum, p) => sum + p.costUsd, 0)),
+      providers,
+    };
+  }
+}
+
+export class AICostService {
+  /**
+   * Store the spend of an analysis, one record per provider. Accounting never fails an analysis,
+   * so errors are logged rather than thrown.
+   */
+  async recordUsage(usage: AIUsage, context: AIUsageContext): Promise<void> {
+    if (!database.isDbConnected() || usage.providers.length === 0) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      await AIUsageRecordModel.insertMany(usage.providers.map(providerUsage => ({
+        ...providerUsage,
+        candidateId: context.candidateId,
+        jobProfileId: context.jobProfileId,
+        ...(context.batchId && { batchId: context.batchId }),
+        analysisType: context.analysisType,
+        day: now.toISOString().slice(0, 10),
+        createdAt: now,
+      })));
+
+      if (context.batchId) {
+        await AIBatchBudgetModel.updateOne(
+          { batchId: context.batchId },
+          { $inc: { spentUsd: usage.costUsd }, $setOnInsert: { jobProfileId: context.jobProfileId } },
+          { upsert: true }
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to record AI usage', error, {
+        service: 'aiCost',
+        operation: 'recordUsage',
+        ...context,
+      });
+    }
+  }
+
+  /**
+   * Roll up recorded spend per batch, job profile or day
+   */
+  async getCostSummary(groupBy: AICostGroupBy, filters: AICostFilters = {}): Promise<AICostSummary[]> {
+    try {
+      const match: any = {};
+      if (filters.jobProfileId) match.jobProfileId = filters.jobProfileId;
+      if (filters.batchId) match.batchId = filters.batchId;
+      if (filters.from || filters.to) {
+        match.day = {};
+        if (filters.from) match.day.$gte = filters.from;
+        if (filters.to) match.day.$lte = filters.to;
+      }
+      if (groupBy === 'batch' && !filters.batchId) {
+        match.batchId = { $exists: true };
+      }
+
+      const rows = await AIUsageRecordModel.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { key: GROUP_FIELDS[groupBy], provider: '$provider' },
+            inputTokens: { $sum: '$inputTokens' },
+            outputTokens: { $sum: '$outputTokens' },
+            calls: { $sum: '$calls' },
+            costUsd: { $sum: '$costUsd' },
+          },
+        },
+        { $sort: { '_id.key': 1, '_id.provider': 1 } },
+      ]);
+
+      const summaries = new Map<string, AICostSummary>();
+      for (const row of rows) {
+        const key = String(row._id.key);
+        const summary = summaries.get(key) ?? { key, inputTokens: 0, outputTokens: 0, calls: 0, costUsd: 0, providers: [] };
+        summary.inputTokens += row.inputTokens;
+        summary.outputTokens += row.outputTokens;
+        summary.calls += row.calls;
+        summary.costUsd = roundUsd(summary.costUsd + row.costUsd);
+        summary.providers.push({
+          provider: row._id.provider,
+          inputTokens: row.inputTokens,
+          outputTokens: row.outputTokens,
+          calls: row.calls,
+          costUsd: roundUsd(row.costUsd),
+        });
+        summaries.set(key, summary);
+      }
+
+      return Array.from(summaries.values());
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Set or clear the AI spend limit of a batch. A null limit falls back to the job profile's.
+   */
+  async setBatchBudget(batchId: string, jobProfileId: string, limitUsd: number | null): Promise<void> {
+    if (limitUsd !== null && (!Number.isFinite(limitUsd) || limitUsd < 0)) {
+      throw new DatabaseError('Budget limit must be a non-negative number', 'VALIDATION_ERROR', 400);
+    }
+
+    try {
+      await AIBatchBudgetModel.updateOne(
+        { batchId },
+        limitUsd === null
+          ? { $set: { jobProfileId }, $unset: { limitUsd: 1 } }
+          : { $set: { jobProfileId, limitUsd } },
+        { upsert: true }
+      );
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Spend of a batch against its limit. The limit is the batch's own, else the job profile's,
+   * else AI_BATCH_BUDGET_USD. The job profile is looked up when not given. Spend is the running
+   * total kept by recordUsage, so the check costs one lookup however many calls the batch made.
+   */
+  async getBatchBudgetStatus(batchId: string, jobProfile?: JobProfile): Promise<AIBatchBudgetStatus> {
+    try {
+      const budget = await AIBatchBudgetModel.findOne({ batchId }).lean();
+
+      const jobProfileId = jobProfile?.id ?? budget?.jobProfileId;
+      if (!jobProfile && jobProfileId) {
+        jobProfile = (await jobProfileService.getJobProfileById(jobProfileId)) ?? undefined;
+      }
+
+      const spentUsd = roundUsd(budget?.spentUsd ?? 0);
+      const limitUsd = budget?.limitUsd ?? jobProfile?.aiBatchBudgetUsd ?? config.aiCosts.batchBudgetUsd;
+
+      return {
+        batchId,
+        jobProfileId,
+        limitUsd,
+        spentUsd,
+        exceeded: limitUsd !== undefined && spentUsd >= limitUsd,
+        paused: budget?.paused ?? false,
+        pausedJobCount: budget?.pausedJobs?.length ?? 0,
+      };
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Whether a batch must stop making AI calls. Batches are never paused without a database,
+   * since their spend is not recorded.
+   */
+  async isBatchOverBudget(batchId: string, jobProfile: JobProfile): Promise<boolean> {
+    if (!database.isDbConnected()) {
+      return false;
+    }
+
+    const status = await this.getBatchBudgetStatus(batchId, jobProfile);
+    return status.paused || status.exceeded;
+  }
+
+  /**
+   * Park an AI analysis job of a batch that ran out of budget until the batch is resumed
+   */
+  async pauseJob(jobData: JobData): Promise<void> {
+    try {
+      await AIBatchBudgetModel.updateOne(
+        { batchId: jobData.batchId },
+        {
+          $set: { jobProfileId: jobData.jobProfileId, paused: true },
+          $min: { pausedAt: new Date() },
+          $push: { pausedJobs: jobData },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Clear the paused state of a batch and hand back the jobs that were parked
+   */
+  async takePausedJobs(batchId: string): Promise<JobData[]> {
+    try {
+      const budget = await AIBatchBudgetModel.findOneAndUpdate(
+        { batchId },
+        { $set: { paused: false, pausedJobs: [] }, $unset: { pausedAt: 1 } }
+      ).lean();
+
+      return (budget?.pausedJobs as JobData[] | undefined) ?? [];
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+}
+
+export const aiCostService = new AICostService();
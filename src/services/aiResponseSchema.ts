@@ -0,0 +1,165 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { StructuredOutputSchema } from './llmProviderRegistry';
+
+/**
+ * An evidence entry: a skill or claim with the resume quotes that support it
+ */
+function evidenceEntry(labelKey: string): Record<string, unknown> {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    required: [labelKey, 'quotes'],
+    properties: {
+      [labelKey]: { type: 'string', minLength: 1 },
+      quotes: { type: 'array', items: { type: 'string' } },
+    },
+  };
+}
+
+/**
+ * Expected answer to the resume analysis prompt. Providers with tool support are asked to fill it in
+ * directly; every response is validated against it whatever the provider.
+ */
+export const RESUME_ANALYSIS_SCHEMA: StructuredOutputSchema = {
+  name: 'submit_resume_analysis',
+  description: 'Submit the assessment of the resume against the job profile',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['relevanceScore', 'skillsMatch', 'experienceAssessment', 'reasoning', 'confidence'],
+    properties: {
+      relevanceScore: { type: 'number', minimum: 0, maximum: 100 },
+      skillsMatch: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['matched', 'missing'],
+        properties: {
+          matched: { type: 'array', items: { type: 'string' } },
+          missing: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      experienceAssessment: { type: 'string', minLength: 1 },
+      reasoning: { type: 'string', minLength: 1 },
+      confidence: { type: 'number', minimum: 0, maximum: 100 },
+      evidence: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['skills', 'experienceClaims'],
+        properties: {
+          skills: { type: 'array', items: evidenceEntry('skill') },
+          experienceClaims: { type: 'array', items: evidenceEntry('claim') },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Expected answer to the extraction pass over one chunk of a long resume
+ */
+export const RESUME_CHUNK_SCHEMA: StructuredOutputSchema = {
+  name: 'submit_resume_findings',
+  description: 'Submit the facts found in this part of the resume',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['skills', 'experience', 'education', 'certifications', 'other'],
+    properties: {
+      skills: { type: 'array', items: { type: 'string' } },
+      experience: { type: 'array', items: { type: 'string' } },
+      education: { type: 'array', items: { type: 'string' } },
+      certifications: { type: 'array', items: { type: 'string' } },
+      other: { type: 'array', items: { type: 'string' } },
+      evidence: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['skills', 'experienceClaims'],
+        properties: {
+          skills: { type: 'array', items: evidenceEntry('skill') },
+          experienceClaims: { type: 'array', items: evidenceEntry('claim') },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * The provider answered, but not with a valid instance of the expected schema
+ */
+export class AIResponseValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[],
+    public readonly responseText: string
+  ) {
+    super(message);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, strict: true });
+const validators: Map<string, ValidateFunction> = new Map();
+
+function getValidator(schema: StructuredOutputSchema): ValidateFunction {
+  let validate = validators.get(schema.name);
+  if (!validate) {
+    validate = ajv.compile(schema.schema);
+    validators.set(schema.name, validate);
+  }
+  return validate;
+}
+
+/**
+ * Find the JSON value in a response: the whole text, a fenced code block, or the outermost object
+ */
+function extractJson(responseText: string): unknown {
+  const candidates = [
+    responseText.trim(),
+    responseText.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1]?.trim(),
+    responseText.match(/\{[\s\S]*\}/)?.[0],
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next way of locating the JSON
+    }
+  }
+
+  throw new AIResponseValidationError('No JSON found in AI response', ['response is not valid JSON'], responseText);
+}
+
+/**
+ * Parse a provider response and validate it against the schema
+ */
+export function parseStructuredResponse<T>(responseText: string, schema: StructuredOutputSchema): T {
+  const parsed = extractJson(responseText);
+  const validate = getValidator(schema);
+
+  if (!validate(parsed)) {
+    const errors = (validate.errors || []).map(error =>
+      `${error.instancePath || 'response'} ${error.message}${error.params && 'additionalProperty' in error.params ? ` '${error.params.additionalProperty}'` : ''}`
+    );
+    throw new AIResponseValidationError('Invalid AI response structure', errors, responseText);
+  }
+
+  return parsed as T;
+}
+
+/**
+ * Ask the provider to correct a response that failed validation
+ */
+export function buildRepairPrompt(originalPrompt: string, error: AIResponseValidationError): string {
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${error.responseText}
+
+It had these problems:
+${error.errors.map(problem => `- ${problem}`).join('\n')}
+
+Respond again with ONLY a JSON object that fixes these problems, no additional text.
+`;
+}
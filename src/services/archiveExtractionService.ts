@@ -0,0 +1,350 @@
+import { createReadStream } from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import * as zlib from 'zlib';
+import * as yauzl from 'yauzl';
+import * as tar from 'tar-stream';
+import { textExtractorRegistry, TextExtractorRegistry } from './textExtractionService';
+import { config } from '../utils/config';
+
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxUncompressedSize: number; // Bytes across all entries of one archive
+  maxEntrySize: number; // Bytes per extracted resume
+}
+
+export interface SkippedArchiveEntry {
+  archiveName: string;
+  entryName: string;
+  reason: string;
+}
+
+export interface ArchiveExtractionResult<T> {
+  files: T[]; // What the sink returned for each extracted resume
+  skipped: SkippedArchiveEntry[];
+}
+
+/**
+ * Stores one extracted resume, e.g. by writing it to disk. The content must be read to the end;
+ * it fails once the entry turns out larger than the per-file limit.
+ */
+export type ArchiveEntrySink<T> = (fileName: string, content: Readable) => Promise<T>;
+
+/**
+ * Raised when an archive as a whole is rejected: corrupt, or over the entry count or size limits
+ */
+export class ArchiveExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveExtractionError';
+  }
+}
+
+type ArchiveFormat = 'zip' | 'tar.gz';
+
+const ARCHIVE_MIME_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'multipart/x-zip',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-gtar',
+  'application/x-tar',
+  'application/x-compressed-tar',
+  'application/octet-stream',
+  'binary/octet-stream',
+];
+
+// Metadata written by archiving tools; ignored without being reported
+const IGNORED_ENTRY_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)|(^|\/)\._/;
+
+function getArchiveFormat(fileName: string): ArchiveFormat | null {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.zip')) {
+    return 'zip';
+  }
+  if (lowerName.endsWith('.tar.gz') || lowerName.endsWith('.tgz')) {
+    return 'tar.gz';
+  }
+  return null;
+}
+
+/**
+ * Normalize an entry path, returning null when it could escape the archive root
+ */
+function normalizeEntryPath(entryName: string): string | null {
+  const entryPath = entryName.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+  if (!entryPath || entryPath.includes('\0')) {
+    return null;
+  }
+  if (entryPath.startsWith('/') || /^[a-zA-Z]:/.test(entryPath)) {
+    return null;
+  }
+  if (entryPath.split('/').includes('..')) {
+    return null;
+  }
+  return entryPath;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${Math.round(bytes / (1024 * 1024))}MB`
+    : `${Math.round(bytes / 1024)}KB`;
+}
+
+/**
+ * Uncompressed bytes shared by all archives of one upload, on top of each archive's own limit
+ */
+export class UncompressedSizeBudget {
+  private used = 0;
+
+  constructor(private readonly limit: number = config.processing.maxUploadUncompressedSize) {}
+
+  consume(bytes: number): void {
+    this.used += bytes;
+    if (this.used > this.limit) {
+      throw new ArchiveExtractionError(
+        `The uploaded archives exceed the ${formatBytes(this.limit)} combined uncompressed size limit`
+      );
+    }
+  }
+}
+
+export class ArchiveExtractionService {
+  private limits: ArchiveLimits;
+  private registry: TextExtractorRegistry;
+
+  constructor(limits: Partial<ArchiveLimits> = {}, registry: TextExtractorRegistry = textExtractorRegistry) {
+    this.limits = {
+      maxEntries: config.processing.maxArchiveEntries,
+      maxUncompressedSize: config.processing.maxArchiveUncompressedSize,
+      maxEntrySize: 10 * 1024 * 1024,
+      ...limits,
+    };
+    this.registry = registry;
+  }
+
+  isArchive(fileName: string): boolean {
+    return getArchiveFormat(fileName) !== null;
+  }
+
+  isAcceptedMimeType(mimeType: string): boolean {
+    const normalizedMimeType = mimeType.split(';')[0]?.trim().toLowerCase() || '';
+    return ARCHIVE_MIME_TYPES.includes(normalizedMimeType);
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.tar.gz', '.tgz', '.zip'];
+  }
+
+  /**
+   * Expand a .zip or .tar.gz archive, read from a file path or a buffer, streaming each resume
+   * entry to the sink. Entries that are not resumes are skipped and reported; limit breaches
+   * reject the whole archive. Uncompressed sizes are also charged to the budget when given.
+   */
+  async extract<T>(
+    source: string | Buffer,
+    archiveName: string,
+    sink: ArchiveEntrySink<T>,
+    budget?: UncompressedSizeBudget
+  ): Promise<ArchiveExtractionResult<T>> {
+    const format = getArchiveFormat(archiveName);
+    if (!format) {
+      throw new ArchiveExtractionError(`Unsupported archive type for ${archiveName}`);
+    }
+
+    try {
+      return format === 'zip'
+        ? await this.extractZip(source, archiveName, sink, budget)
+        : await this.extractTarGz(source, archiveName, sink, budget);
+    } catch (error) {
+      if (error instanceof ArchiveExtractionError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new ArchiveExtractionError(`Failed to read archive ${archiveName}: ${errorMessage}`);
+    }
+  }
+
+  private async extractZip<T>(
+    source: string | Buffer,
+    archiveName: string,
+    sink: ArchiveEntrySink<T>,
+    budget?: UncompressedSizeBudget
+  ): Promise<ArchiveExtractionResult<T>> {
+    // Names are decoded manually so unsafe paths can be skipped instead of aborting the archive
+    const options = { autoClose: false, decodeStrings: false };
+    const zipFile = typeof source === 'string'
+      ? await yauzl.openPromise(source, options)
+      : await yauzl.fromBufferPromise(source, options);
+    const result: ArchiveExtractionResult<T> = { files: [], skipped: [] };
+    let uncompressedSize = 0;
+
+    try {
+      if (zipFile.entryCount > this.limits.maxEntries) {
+        throw new ArchiveExtractionError(
+          `Archive ${archiveName} has ${zipFile.entryCount} entries (limit ${this.limits.maxEntries})`
+        );
+      }
+
+      for await (const entry of zipFile.eachEntry()) {
+        const entryName = yauzl.getFileNameLowLevel(
+          entry.generalPurposeBitFlag,
+          entry.fileNameRaw,
+          entry.extraFields,
+          false
+        );
+        if (entryName.endsWith('/')) {
+          continue;
+        }
+
+        const entryPath = this.checkEntry(result, archiveName, entryName, entry.uncompressedSize);
+        if (entryPath) {
+          // yauzl verifies the declared size while inflating, so it can be trusted here
+          uncompressedSize += entry.uncompressedSize;
+          this.checkUncompressedSize(archiveName, uncompressedSize);
+          budget?.consume(entry.uncompressedSize);
+
+          const stream = await zipFile.openReadStreamPromise(entry);
+          await this.storeEntry(result, sink, stream, archiveName, entryName, entryPath);
+        }
+      }
+    } finally {
+      zipFile.close();
+    }
+
+    return result;
+  }
+
+  private async extractTarGz<T>(
+    source: string | Buffer,
+    archiveName: string,
+    sink: ArchiveEntrySink<T>,
+    budget?: UncompressedSizeBudget
+  ): Promise<ArchiveExtractionResult<T>> {
+    const result: ArchiveExtractionResult<T> = { files: [], skipped: [] };
+    const input = typeof source === 'string' ? createReadStream(source) : Readable.from([source]);
+    const gunzip = zlib.createGunzip();
+    const extractor = tar.extract();
+    let entryCount = 0;
+    let uncompressedSize = 0;
+
+    input.on('error', (error: Error) => extractor.destroy(error));
+    gunzip.on('error', error => extractor.destroy(error));
+    input.pipe(gunzip).pipe(extractor);
+
+    try {
+      for await (const entry of extractor) {
+        const { name: entryName, type, size } = entry.header;
+
+        entryCount++;
+        if (entryCount > this.limits.maxEntries) {
+          throw new ArchiveExtractionError(
+            `Archive ${archiveName} has more than ${this.limits.maxEntries} entries`
+          );
+        }
+
+        // Every entry is decompressed to reach the next one, so all of them count toward the limit
+        uncompressedSize += size;
+        this.checkUncompressedSize(archiveName, uncompressedSize);
+        budget?.consume(size);
+
+        let entryPath: string | null = null;
+        if (type === 'file' || type === 'contiguous-file') {
+          entryPath = this.checkEntry(result, archiveName, entryName, size);
+        } else if (type !== 'directory') {
+          result.skipped.push({ archiveName, entryName, reason: 'Links and special files are not supported' });
+        }
+
+        if (entryPath) {
+          await this.storeEntry(result, sink, entry, archiveName, entryName, entryPath);
+        } else {
+          // The tar stream only moves on once the current entry has been drained
+          entry.resume();
+        }
+      }
+    } finally {
+      input.destroy();
+      gunzip.destroy();
+    }
+
+    return result;
+  }
+
+  /**
+   * Decide whether a file entry should be extracted, recording the reason when it is skipped
+   */
+  private checkEntry(
+    result: ArchiveExtractionResult<unknown>,
+    archiveName: string,
+    entryName: string,
+    size: number
+  ): string | null {
+    const entryPath = normalizeEntryPath(entryName);
+    const skip = (reason: string): null => {
+      result.skipped.push({ archiveName, entryName, reason });
+      return null;
+    };
+
+    if (!entryPath) {
+      return skip('Unsafe path outside the archive root');
+    }
+    if (IGNORED_ENTRY_PATTERN.test(entryPath)) {
+      return null;
+    }
+    if (this.isArchive(entryPath)) {
+      return skip('Nested archives are not supported');
+    }
+    if (!this.registry.isSupported(entryPath)) {
+      return skip(`Unsupported file type ${path.extname(entryPath) || '(no extension)'}`);
+    }
+    if (size === 0) {
+      return skip('Empty file');
+    }
+    if (size > this.limits.maxEntrySize) {
+      return skip(`File exceeds the ${formatBytes(this.limits.maxEntrySize)} per-file limit`);
+    }
+    return entryPath;
+  }
+
+  private checkUncompressedSize(archiveName: string, uncompressedSize: number): void {
+    if (uncompressedSize > this.limits.maxUncompressedSize) {
+      throw new ArchiveExtractionError(
+        `Archive ${archiveName} exceeds the ${formatBytes(this.limits.maxUncompressedSize)} uncompressed size limit`
+      );
+    }
+  }
+
+  /**
+   * Hand an entry to the sink, prefixed with the archive name so entries stay unique across
+   * archives and folders
+   */
+  private async storeEntry<T>(
+    result: ArchiveExtractionResult<T>,
+    sink: ArchiveEntrySink<T>,
+    entry: AsyncIterable<unknown>,
+    archiveName: string,
+    entryName: string,
+    entryPath: string
+  ): Promise<void> {
+    const maxEntrySize = this.limits.maxEntrySize;
+    let size = 0;
+    const limited = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        // Declared sizes are checked up front; this guards against headers that understate them
+        if (size > maxEntrySize) {
+          callback(new ArchiveExtractionError(`Entry ${entryName} in ${archiveName} is larger than its declared size`));
+        } else {
+          callback(null, chunk);
+        }
+      }
+    });
+    const stream = Readable.from(entry, { objectMode: false });
+    stream.on('error', error => limited.destroy(error));
+
+    result.files.push(await sink(`${archiveName}/${entryPath}`, stream.pipe(limited)));
+  }
+}
+
+export const archiveExtractionService = new ArchiveExtractionService();
@@ -1,7 +1,13 @@
 import { ResumeProcessingService } from './resumeProcessingService';
-import { ProcessingBatch, ResumeData, Candidate } from '../models/interfaces';
+import { DuplicateDetectionService, duplicateDetectionService } from './duplicateDetectionService';
+import { BatchStagingService, batchStagingService } from './batchStagingService';
+import { CandidateModel, ProcessingBatchModel } from '../models/schemas';
+import { ProcessingBatch, ResumeData, Candidate, StagedResumeFile } from '../models/interfaces';
 import { v4 as uuidv4 } from 'uuid';
+import { Types, UpdateQuery } from 'mongoose';
 import { EventEmitter } from 'events';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
 
 export interface BatchProcessingProgress {
   batchId: string;
@@ -16,124 +22,288 @@ export interface BatchProcessingProgress {
 export interface ResumeFile {
   buffer: Buffer;
   fileName: string;
+  mimeType?: string;
 }
 
 export class BatchProcessingService extends EventEmitter {
   private resumeProcessor: ResumeProcessingService;
+  private duplicateDetector: DuplicateDetectionService;
+  private staging: BatchStagingService;
   private activeBatches: Map<string, BatchProcessingProgress>;
 
-  constructor() {
+  constructor(
+    duplicateDetector: DuplicateDetectionService = duplicateDetectionService,
+    staging: BatchStagingService = batchStagingService
+  ) {
     super();
     this.resumeProcessor = new ResumeProcessingService();
+    this.duplicateDetector = duplicateDetector;
+    this.staging = staging;
     this.activeBatches = new Map();
   }
 
   /**
-   * Process multiple resume files in batch
+   * Batch IDs double as ProcessingBatchModel _ids
+   */
+  createBatchId(): string {
+    return new Types.ObjectId().toString();
+  }
+
+  /**
+   * Process multiple resume files in batch and wait for it to finish.
+   * defaultPhoneRegion is the job profile's region for phone numbers written without a country code.
    */
   async processBatch(
     files: ResumeFile[],
     jobProfileId: string,
-    batchId?: string
+    batchId?: string,
+    defaultPhoneRegion?: string
+  ): Promise<ProcessingBatch> {
+    const id = batchId || this.createBatchId();
+    const stagedFiles = await this.staging.stageFiles(id, files);
+    const batch = await this.createBatch(id, stagedFiles, jobProfileId, defaultPhoneRegion);
+    return this.runBatch(batch);
+  }
+
+  /**
+   * Start processing files already staged with BatchStagingService and return without waiting.
+   * Progress is reported through events and getBatchProgress; failures through the 'error' event.
+   */
+  async startStagedBatch(
+    batchId: string,
+    stagedFiles: StagedResumeFile[],
+    jobProfileId: string,
+    defaultPhoneRegion?: string
+  ): Promise<ProcessingBatch> {
+    const batch = await this.createBatch(batchId, stagedFiles, jobProfileId, defaultPhoneRegion);
+    this.runBatch(batch).catch(() => undefined);
+    return { ...batch };
+  }
+
+  /**
+   * Continue a persisted batch from its first unprocessed file
+   */
+  async resumeBatch(batch: ProcessingBatch): Promise<ProcessingBatch> {
+    logger.info(`Resuming batch ${batch.id} at file ${(batch.nextFileIndex || 0) + 1} of ${batch.totalCandidates}`, {
+      service: 'batchProcessing',
+      operation: 'resumeBatch',
+      batchId: batch.id,
+    });
+    return this.runBatch(batch, true);
+  }
+
+  /**
+   * Resume every batch left in 'processing' by a previous run of the server, oldest first.
+   * Batches are processed one at a time in the background; returns how many were found.
+   */
+  async resumeUnfinishedBatches(): Promise<number> {
+    if (!database.isDbConnected()) {
+      return 0;
+    }
+
+    const docs = await ProcessingBatchModel.find({ status: 'processing' }).sort({ startedAt: 1 }).lean();
+    const resumable: ProcessingBatch[] = [];
+
+    for (const doc of docs) {
+      const batch = this.toProcessingBatch(doc);
+      if (this.activeBatches.has(batch.id)) {
+        continue;
+      }
+
+      if (!batch.stagedFiles || batch.stagedFiles.length !== batch.totalCandidates) {
+        // Started before files were staged; the uploads are gone
+        logger.warn(`Batch ${batch.id} cannot be resumed: its files were not staged`, {
+          service: 'batchProcessing',
+          operation: 'resumeUnfinishedBatches',
+          batchId: batch.id,
+        });
+        batch.status = 'failed';
+        batch.completedAt = new Date();
+        await this.saveBatchState(batch);
+        continue;
+      }
+
+      resumable.push(batch);
+    }
+
+    if (resumable.length > 0) {
+      (async () => {
+        for (const batch of resumable) {
+          await this.resumeBatch(batch).catch(() => undefined);
+        }
+      })();
+    }
+
+    return resumable.length;
+  }
+
+  private async createBatch(
+    batchId: string,
+    stagedFiles: StagedResumeFile[],
+    jobProfileId: string,
+    defaultPhoneRegion?: string
   ): Promise<ProcessingBatch> {
     const batch: ProcessingBatch = {
-      id: batchId || uuidv4(),
+      id: batchId,
       jobProfileId,
-      totalCandidates: files.length,
+      totalCandidates: stagedFiles.length,
       processedCandidates: 0,
       failedCandidates: 0,
+      duplicateCandidates: 0,
       status: 'processing',
       startedAt: new Date(),
-      candidateIds: []
+      candidateIds: [],
+      stagedFiles,
+      nextFileIndex: 0,
+      ...(defaultPhoneRegion && { phoneRegion: defaultPhoneRegion })
     };
 
-    // Initialize progress tracking
+    if (database.isDbConnected()) {
+      const { id, ...fields } = batch;
+      await ProcessingBatchModel.create({ _id: id, ...fields });
+    }
+
+    return batch;
+  }
+
+  private async runBatch(batch: ProcessingBatch, resumed = false): Promise<ProcessingBatch> {
+    const files = batch.stagedFiles || [];
+    const startIndex = batch.nextFileIndex || 0;
+
+    // Initialize progress tracking, carrying over counts from before a restart
     const progress: BatchProcessingProgress = {
       batchId: batch.id,
       totalFiles: files.length,
-      processedFiles: 0,
-      failedFiles: 0,
-      progress: 0,
+      processedFiles: startIndex,
+      failedFiles: batch.failedCandidates,
+      progress: files.length > 0 ? Math.round((startIndex / files.length) * 100) : 0,
       status: 'processing'
     };
 
     this.activeBatches.set(batch.id, progress);
 
     try {
-      const processedCandidates: Candidate[] = [];
+      // Candidates from before a restart are reported on completion and matched as duplicates along with new ones
+      const processedCandidates: Candidate[] = await this.loadBatchCandidates(batch);
 
       // Process files sequentially to avoid overwhelming the system
-      for (let i = 0; i < files.length; i++) {
+      for (let i = startIndex; i < files.length; i++) {
         const file = files[i];
         
         if (!file) continue;
+
+        // cancelBatch marks the progress record as failed
+        if (progress.status !== 'processing') {
+          break;
+        }
         
         // Update progress
         progress.currentFile = file.fileName;
         this.emit('progress', { ...progress });
 
-        try {
-          // Process the resume
-          const resumeData = await this.resumeProcessor.processSingleResume(
-            file.buffer,
-            file.fileName
-          );
-
-          // Create candidate record
-          const candidate: Candidate = {
-            id: uuidv4(),
-            resumeData,
-            processingStage: 'resume',
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-
-          processedCandidates.push(candidate);
-          batch.candidateIds.push(candidate.id);
-          batch.processedCandidates++;
-
-          if (resumeData.processingStatus === 'failed') {
+        // A restart between storing the candidate and recording the file leaves the file to do again
+        const recovered = resumed && i === startIndex ? await this.findUnrecordedCandidate(batch, file.fileName) : null;
+        if (recovered) {
+          this.recordRecoveredCandidate(batch, progress, recovered);
+          processedCandidates.push(recovered);
+        } else {
+          try {
+            // Process the resume
+            const resumeData = await this.resumeProcessor.processSingleResume(
+              await this.staging.readFile(file),
+              file.fileName,
+              file.mimeType,
+              batch.phoneRegion
+            );
+
+            // Create candidate record
+            const candidate: Candidate = {
+              id: this.createCandidateId(),
+              batchId: batch.id,
+              resumeData,
+              processingStage: 'resume',
+              ...(resumeData.promptInjection?.suspected && { promptInjectionSuspected: true }),
+              createdAt: new Date(),
+              updatedAt: new Date()
+            };
+
+            const isDuplicate = resumeData.processingStatus === 'completed' && await this.linkDuplicate(candidate, processedCandidates);
+
+            // Stored before the next file so it is found as a duplicate, with its identity and person link
+            await this.saveCandidate(candidate);
+            if (isDuplicate) {
+              batch.duplicateCandidates = (batch.duplicateCandidates || 0) + 1;
+            }
+
+            processedCandidates.push(candidate);
+            batch.candidateIds.push(candidate.id);
+            batch.processedCandidates++;
+
+            if (resumeData.processingStatus === 'failed') {
+              batch.failedCandidates++;
+              progress.failedFiles++;
+            }
+
+          } catch (error) {
             batch.failedCandidates++;
             progress.failedFiles++;
-          }
-
-        } catch (error) {
-          batch.failedCandidates++;
-          progress.failedFiles++;
           
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           
-          // Create failed candidate record
-          const failedCandidate: Candidate = {
-            id: uuidv4(),
-            resumeData: {
-              id: uuidv4(),
-              fileName: file.fileName,
-              extractedText: '',
-              contactInfo: { projectUrls: [] },
-              processingStatus: 'failed',
-              extractionErrors: [errorMessage]
-            },
-            processingStage: 'resume',
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-
-          processedCandidates.push(failedCandidate);
-          batch.candidateIds.push(failedCandidate.id);
+            // Create failed candidate record
+            const failedCandidate: Candidate = {
+              id: this.createCandidateId(),
+              batchId: batch.id,
+              resumeData: {
+                id: uuidv4(),
+                fileName: file.fileName,
+                extractedText: '',
+                contactInfo: { projectUrls: [] },
+                processingStatus: 'failed',
+                extractionErrors: [errorMessage]
+              },
+              processingStage: 'resume',
+              createdAt: new Date(),
+              updatedAt: new Date()
+            };
+
+            await this.saveCandidate(failedCandidate).catch(saveError => {
+              logger.warn(`Failed to store failed candidate for ${file.fileName}`, {
+                service: 'batchProcessing',
+                operation: 'saveCandidate',
+                batchId: batch.id,
+                error: saveError instanceof Error ? saveError.message : 'Unknown error',
+              });
+            });
+            processedCandidates.push(failedCandidate);
+            batch.candidateIds.push(failedCandidate.id);
+          }
         }
 
+        // Record where to pick up after a restart
+        batch.nextFileIndex = i + 1;
+        await this.saveFileProgress(batch, batch.candidateIds[batch.candidateIds.length - 1]!);
+
         // Update progress
         progress.processedFiles++;
         progress.progress = Math.round((progress.processedFiles / progress.totalFiles) * 100);
         this.emit('progress', { ...progress });
       }
 
+      delete progress.currentFile;
+      batch.completedAt = new Date();
+
+      if (progress.status !== 'processing') {
+        // Cancelled
+        batch.status = 'failed';
+        await this.finishBatch(batch);
+        return batch;
+      }
+
       // Complete the batch
       batch.status = 'completed';
-      batch.completedAt = new Date();
       progress.status = 'completed';
-      delete progress.currentFile;
+      await this.finishBatch(batch);
 
       this.emit('completed', { batch, candidates: processedCandidates });
       this.activeBatches.delete(batch.id);
@@ -144,6 +314,7 @@ export class BatchProcessingService extends EventEmitter {
       batch.status = 'failed';
       batch.completedAt = new Date();
       progress.status = 'failed';
+      await this.finishBatch(batch).catch(() => undefined);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.emit('error', { batch, error: errorMessage });
@@ -153,6 +324,152 @@ export class BatchProcessingService extends EventEmitter {
     }
   }
 
+  /**
+   * Persist the final state and drop the staged files, which are no longer needed for a resume
+   */
+  private async finishBatch(batch: ProcessingBatch): Promise<void> {
+    await this.saveBatchState(batch);
+    await this.staging.removeBatch(batch.id);
+  }
+
+  /**
+   * Candidate IDs double as CandidateModel _ids, as duplicate lookups expect
+   */
+  private createCandidateId(): string {
+    return new Types.ObjectId().toString();
+  }
+
+  /**
+   * Store an ingested candidate. Without a database, candidates only reach the 'completed' event.
+   */
+  private async saveCandidate(candidate: Candidate): Promise<void> {
+    if (!database.isDbConnected()) {
+      return;
+    }
+
+    const { id, ...fields } = candidate;
+    await CandidateModel.create({ _id: id, ...fields });
+  }
+
+  /**
+   * Persist the batch's counts and status. Without a database, batches are in-memory only.
+   */
+  private async saveBatchState(batch: ProcessingBatch): Promise<void> {
+    await this.updateBatch(batch, 'saveBatchState', {
+      $set: {
+        ...this.getBatchCounts(batch),
+        status: batch.status,
+        ...(batch.completedAt && { completedAt: batch.completedAt })
+      }
+    });
+  }
+
+  /**
+   * Persist a processed file so the batch survives a restart. Only the file's candidate ID is appended.
+   */
+  private async saveFileProgress(batch: ProcessingBatch, candidateId: string): Promise<void> {
+    await this.updateBatch(batch, 'saveFileProgress', {
+      $push: { candidateIds: candidateId },
+      $set: this.getBatchCounts(batch)
+    });
+  }
+
+  private getBatchCounts(batch: ProcessingBatch) {
+    return {
+      processedCandidates: batch.processedCandidates,
+      failedCandidates: batch.failedCandidates,
+      duplicateCandidates: batch.duplicateCandidates || 0,
+      nextFileIndex: batch.nextFileIndex || 0
+    };
+  }
+
+  private async updateBatch(batch: ProcessingBatch, operation: string, update: UpdateQuery<ProcessingBatch>): Promise<void> {
+    if (!database.isDbConnected()) {
+      return;
+    }
+
+    try {
+      await ProcessingBatchModel.updateOne({ _id: batch.id }, update);
+    } catch (error) {
+      logger.warn(`Failed to save progress for batch ${batch.id}`, {
+        service: 'batchProcessing',
+        operation,
+        batchId: batch.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * A candidate stored for the file before a restart, which the batch did not record as done yet.
+   * Earlier files of the same name are recorded, so they are not mistaken for it.
+   */
+  private async findUnrecordedCandidate(batch: ProcessingBatch, fileName: string): Promise<Candidate | null> {
+    if (!database.isDbConnected()) {
+      return null;
+    }
+
+    const doc = await CandidateModel.findOne({
+      batchId: batch.id,
+      'resumeData.fileName': fileName,
+      _id: { $nin: batch.candidateIds.filter(id => Types.ObjectId.isValid(id)) }
+    }).lean();
+    return doc ? { ...doc, id: doc._id.toString() } as Candidate : null;
+  }
+
+  /**
+   * Count a recovered candidate as its file was counted when it was first stored
+   */
+  private recordRecoveredCandidate(batch: ProcessingBatch, progress: BatchProcessingProgress, candidate: Candidate): void {
+    batch.candidateIds.push(candidate.id);
+    batch.processedCandidates++;
+    if (candidate.duplicateOf) {
+      batch.duplicateCandidates = (batch.duplicateCandidates || 0) + 1;
+    }
+    if (candidate.resumeData.processingStatus === 'failed') {
+      batch.failedCandidates++;
+      progress.failedFiles++;
+    }
+  }
+
+  /**
+   * Candidates stored for the files a batch processed before a restart, in file order
+   */
+  private async loadBatchCandidates(batch: ProcessingBatch): Promise<Candidate[]> {
+    const candidateIds = batch.candidateIds.filter(id => Types.ObjectId.isValid(id));
+    if (candidateIds.length === 0 || !database.isDbConnected()) {
+      return [];
+    }
+
+    const docs = await CandidateModel.find({ _id: { $in: candidateIds } }).lean();
+    const candidates = new Map(docs.map(doc => [doc._id.toString(), { ...doc, id: doc._id.toString() } as Candidate]));
+    return batch.candidateIds.flatMap(id => candidates.get(id) || []);
+  }
+
+  private toProcessingBatch(doc: any): ProcessingBatch {
+    const { _id, __v, ...fields } = doc;
+    return { ...fields, id: _id.toString() };
+  }
+
+  /**
+   * Link a candidate to an earlier application by the same person.
+   * A failed lookup never fails the resume; the candidate is processed as a new applicant.
+   */
+  private async linkDuplicate(candidate: Candidate, batchCandidates: Candidate[]): Promise<boolean> {
+    try {
+      return (await this.duplicateDetector.linkAtIngestion(candidate, batchCandidates)) !== null;
+    } catch (error) {
+      logger.warn(`Duplicate check failed for ${candidate.resumeData.fileName}`, {
+        service: 'batchProcessing',
+        operation: 'linkDuplicate',
+        candidateId: candidate.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      candidate.personId = candidate.id;
+      return false;
+    }
+  }
+
   /**
    * Get progress for a specific batch
    */
@@ -160,6 +477,33 @@ export class BatchProcessingService extends EventEmitter {
     return this.activeBatches.get(batchId) || null;
   }
 
+  /**
+   * Get progress for a batch, falling back to the persisted record for batches
+   * that finished or were started before a restart
+   */
+  async loadBatchProgress(batchId: string): Promise<BatchProcessingProgress | null> {
+    const active = this.getBatchProgress(batchId);
+    if (active || !database.isDbConnected() || !Types.ObjectId.isValid(batchId)) {
+      return active;
+    }
+
+    const doc = await ProcessingBatchModel.findById(batchId).lean();
+    if (!doc) {
+      return null;
+    }
+
+    const batch = this.toProcessingBatch(doc);
+    const processedFiles = batch.nextFileIndex || 0;
+    return {
+      batchId: batch.id,
+      totalFiles: batch.totalCandidates,
+      processedFiles,
+      failedFiles: batch.failedCandidates,
+      progress: batch.totalCandidates > 0 ? Math.round((processedFiles / batch.totalCandidates) * 100) : 0,
+      status: batch.status
+    };
+  }
+
   /**
    * Get all active batches
    */
@@ -202,7 +546,7 @@ Batch Processing Summary:
 - Total Files: ${batch.totalCandidates}
 - Successfully Processed: ${batch.processedCandidates - batch.failedCandidates}
 - Failed: ${batch.failedCandidates}
-- Success Rate: ${successRate.toFixed(1)}%
+${batch.duplicateCandidates ? `- Repeat Applicants: ${batch.duplicateCandidates}\n` : ''}- Success Rate: ${successRate.toFixed(1)}%
 - Status: ${batch.status}
 ${processingTime ? `- Processing Time: ${Math.round(processingTime / 1000)}s` : ''}
     `.trim();
@@ -222,4 +566,6 @@ ${processingTime ? `- Processing Time: ${Math.round(processingTime / 1000)}s` :
 
     return result;
   }
-}
\ No newline at end of file
+}
+
+export const batchProcessingService = new BatchProcessingService();
@@ -0,0 +1,107 @@
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { StagedResumeFile } from '../models/interfaces';
+import { ResumeFile } from './batchProcessingService';
+import { archiveExtractionService, ArchiveExtractionResult, UncompressedSizeBudget } from './archiveExtractionService';
+import { config } from '../utils/config';
+
+// Multer writes uploads here before they are assigned to a batch
+const INCOMING_DIR = 'incoming';
+
+/**
+ * Keeps batch resumes on disk until they are processed, so a restart can pick a batch up where it stopped.
+ * Files are stored under <stagingDir>/<batchId>/<index>; original names are kept only in the batch record.
+ */
+export class BatchStagingService {
+  private baseDir: string;
+
+  constructor(baseDir: string = config.processing.batchStagingDir) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  async getIncomingDir(): Promise<string> {
+    const dir = path.join(this.baseDir, INCOMING_DIR);
+    await fs.mkdir(dir, { recursive: true });
+    return dir;
+  }
+
+  /**
+   * Write in-memory resumes (e.g. archive entries) to the batch directory
+   */
+  async stageFiles(batchId: string, files: ResumeFile[], firstIndex: number = 0): Promise<StagedResumeFile[]> {
+    const dir = await this.getBatchDir(batchId);
+    const staged: StagedResumeFile[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i]!;
+      const filePath = path.join(dir, String(firstIndex + i));
+      await fs.writeFile(filePath, file.buffer);
+      staged.push(this.toStagedFile(file.fileName, file.mimeType, filePath));
+    }
+
+    return staged;
+  }
+
+  /**
+   * Extract an uploaded archive's resumes into the batch directory, numbered from firstIndex,
+   * without holding the archive or its entries in memory. Rejects with an ArchiveExtractionError
+   * when a limit is exceeded; entries written until then are left to removeBatch.
+   */
+  async stageArchive(
+    batchId: string,
+    archive: Express.Multer.File,
+    firstIndex: number,
+    budget?: UncompressedSizeBudget
+  ): Promise<ArchiveExtractionResult<StagedResumeFile>> {
+    const dir = await this.getBatchDir(batchId);
+    let index = firstIndex;
+
+    return archiveExtractionService.extract(archive.path, archive.originalname, async (fileName, content) => {
+      const filePath = path.join(dir, String(index++));
+      await pipeline(content, createWriteStream(filePath));
+      return this.toStagedFile(fileName, undefined, filePath);
+    }, budget);
+  }
+
+  /**
+   * Move a file multer already wrote to disk into the batch directory
+   */
+  async stageUpload(batchId: string, index: number, file: Express.Multer.File): Promise<StagedResumeFile> {
+    const filePath = path.join(await this.getBatchDir(batchId), String(index));
+    await fs.rename(file.path, filePath);
+    return this.toStagedFile(file.originalname, file.mimetype, filePath);
+  }
+
+  async readFile(file: StagedResumeFile): Promise<Buffer> {
+    return fs.readFile(file.path);
+  }
+
+  /**
+   * Delete multer temp files that were not staged, e.g. when the upload is rejected
+   */
+  async discardUploads(files: Express.Multer.File[]): Promise<void> {
+    await Promise.all(files
+      .filter(file => file.path)
+      .map(file => fs.rm(file.path, { force: true })));
+  }
+
+  async removeBatch(batchId: string): Promise<void> {
+    await fs.rm(path.join(this.baseDir, batchId), { recursive: true, force: true });
+  }
+
+  private async getBatchDir(batchId: string): Promise<string> {
+    if (!/^[\w-]+$/.test(batchId)) {
+      throw new Error(`Invalid batch ID: ${batchId}`);
+    }
+    const dir = path.join(this.baseDir, batchId);
+    await fs.mkdir(dir, { recursive: true });
+    return dir;
+  }
+
+  private toStagedFile(fileName: string, mimeType: string | undefined, filePath: string): StagedResumeFile {
+    return mimeType ? { fileName, mimeType, path: filePath } : { fileName, path: filePath };
+  }
+}
+
+export const batchStagingService = new BatchStagingService();
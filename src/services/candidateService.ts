@@ -1,6 +1,7 @@
 // Candidate management service
 import { CandidateModel, ProcessingBatchModel } from '../models/schemas';
-import { Candidate, CandidateScore, ProcessingBatch } from '../models/interfaces';
+import { AIAnalysisResult, Candidate, CandidateScore, DegreeLevel, LinkedInAnalysis, ProcessingBatch } from '../models/interfaces';
+import { resumeSectionParser } from './resumeSectionParser';
 
 export interface CandidateFilters {
   jobProfileId?: string;
@@ -13,6 +14,10 @@ export interface CandidateFilters {
   hasLinkedIn?: boolean;
   hasGitHub?: boolean;
   interviewCompleted?: boolean;
+  requiresManualReview?: boolean;
+  minYearsExperience?: number;
+  maxYearsExperience?: number;
+  degreeLevel?: DegreeLevel; // Minimum highest degree
 }
 
 export interface CandidateSearchOptions {
@@ -122,6 +127,35 @@ export class CandidateService {
         }
       }
 
+      if (filters.minYearsExperience !== undefined || filters.maxYearsExperience !== undefined) {
+        query['resumeData.sections.totalYearsExperience'] = {};
+        if (filters.minYearsExperience !== undefined) {
+          query['resumeData.sections.totalYearsExperience'].$gte = filters.minYearsExperience;
+        }
+        if (filters.maxYearsExperience !== undefined) {
+          query['resumeData.sections.totalYearsExperience'].$lte = filters.maxYearsExperience;
+        }
+      }
+
+      if (filters.degreeLevel) {
+        query['resumeData.sections.highestDegreeLevel'] = {
+          $in: resumeSectionParser.getDegreeLevelsAtLeast(filters.degreeLevel)
+        };
+      }
+
+      // Flagged either at extraction or by disagreeing consensus providers
+      if (filters.requiresManualReview !== undefined) {
+        if (filters.requiresManualReview) {
+          query.$or = [
+            { 'resumeData.requiresManualReview': true },
+            { 'aiAnalysis.requiresManualReview': true }
+          ];
+        } else {
+          query['resumeData.requiresManualReview'] = { $ne: true };
+          query['aiAnalysis.requiresManualReview'] = { $ne: true };
+        }
+      }
+
       // Build sort criteria
       const sort: any = {};
       switch (sortBy) {
@@ -325,6 +359,133 @@ export class CandidateService {
     }
   }
 
+  /**
+   * Persist a candidate's resume analysis, clearing any earlier analysis failure
+   */
+  async saveAIAnalysis(candidateId: string, analysis: AIAnalysisResult): Promise<void> {
+    try {
+      const result = await CandidateModel.updateOne(
+        { _id: candidateId },
+        {
+          $set: { aiAnalysis: analysis, processingStage: 'linkedin', updatedAt: new Date() },
+          $unset: { analysisFailureReason: 1 }
+        }
+      );
+
+      if (result.matchedCount === 0) {
+        throw new Error(`Candidate ${candidateId} not found`);
+      }
+    } catch (error) {
+      console.error('Error saving AI analysis:', error);
+      throw new Error('Failed to save AI analysis');
+    }
+  }
+
+  /**
+   * Flag a candidate whose resume no AI provider could analyze, instead of storing a made-up score
+   */
+  async markAIAnalysisFailed(candidateId: string, reason: string): Promise<void> {
+    try {
+      const result = await CandidateModel.updateOne(
+        { _id: candidateId },
+        {
+          $set: { processingStage: 'analysis-failed', analysisFailureReason: reason, updatedAt: new Date() }
+        }
+      );
+
+      if (result.matchedCount === 0) {
+        throw new Error(`Candidate ${candidateId} not found`);
+      }
+    } catch (error) {
+      console.error('Error marking AI analysis failed:', error);
+      throw new Error('Failed to mark AI analysis failed');
+    }
+  }
+
+  /**
+   * Persist a candidate's LinkedIn analysis. GitHub is analyzed alongside, so the stage is left as it is.
+   */
+  async saveLinkedInAnalysis(candidateId: string, analysis: LinkedInAnalysis): Promise<void> {
+    try {
+      const result = await CandidateModel.updateOne(
+        { _id: candidateId },
+        { $set: { linkedInAnalysis: analysis, updatedAt: new Date() } }
+      );
+
+      if (result.matchedCount === 0) {
+        throw new Error(`Candidate ${candidateId} not found`);
+      }
+    } catch (error) {
+      console.error('Error saving LinkedIn analysis:', error);
+      throw new Error('Failed to save LinkedIn analysis');
+    }
+  }
+
+  /**
+   * Persist a candidate's final score and mark processing as completed
+   */
+  async saveCandidateScore(candidateId: string, score: CandidateScore): Promise<void> {
+    try {
+      // Provisional rank until the job profile is re-ranked
+      const higherScoredCount = await CandidateModel.countDocuments({
+        _id: { $ne: candidateId },
+        'finalScore.jobProfileId': score.jobProfileId,
+        'finalScore.compositeScore': { $gt: score.compositeScore }
+      });
+
+      const result = await CandidateModel.updateOne(
+        { _id: candidateId },
+        {
+          $set: {
+            finalScore: { ...score, rank: higherScoredCount + 1 },
+            processingStage: 'completed',
+            updatedAt: new Date()
+          }
+        }
+      );
+
+      if (result.matchedCount === 0) {
+        throw new Error(`Candidate ${candidateId} not found`);
+      }
+    } catch (error) {
+      console.error('Error saving candidate score:', error);
+      throw new Error('Failed to save candidate score');
+    }
+  }
+
+  /**
+   * Re-rank all scored candidates of a job profile by composite score.
+   * Returns the number of candidates whose rank changed.
+   */
+  async updateRankings(jobProfileId: string): Promise<number> {
+    try {
+      const scoredCandidates = await CandidateModel
+        .find({ 'finalScore.jobProfileId': jobProfileId })
+        .select({ 'finalScore.compositeScore': 1, 'finalScore.rank': 1, createdAt: 1 })
+        .sort({ 'finalScore.compositeScore': -1, createdAt: 1 })
+        .lean();
+
+      const updates = scoredCandidates
+        .map((candidate: any, index: number) => ({ candidate, rank: index + 1 }))
+        .filter(({ candidate, rank }) => candidate.finalScore?.rank !== rank)
+        .map(({ candidate, rank }) => ({
+          updateOne: {
+            filter: { _id: candidate._id },
+            update: { $set: { 'finalScore.rank': rank } }
+          }
+        }));
+
+      if (updates.length > 0) {
+        await CandidateModel.bulkWrite(updates);
+      }
+
+      return updates.length;
+    } catch (error) {
+      console.error('Error updating candidate rankings:', error);
+      throw new Error('Failed to update candidate rankings');
+    }
+  }
+
   /**
    * Check if a processing stage is completed for a candidate
    */
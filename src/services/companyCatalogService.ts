@@ -0,0 +1,352 @@
+// Company Catalog Management Service
+import { CompanyCatalogEntryModel } from '../models/schemas';
+import { CompanyCatalogEntry, CompanySize, CompanyTier } from '../models/interfaces';
+import { database, DatabaseError, handleMongoError } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export interface CreateCompanyCatalogEntryRequest {
+  name: string;
+  aliases?: string[];
+  tier: CompanyTier;
+  industry?: string;
+  size?: CompanySize;
+}
+
+export type UpdateCompanyCatalogEntryRequest = Partial<CreateCompanyCatalogEntryRequest>;
+
+export interface CompanyCatalogFilters {
+  tier?: CompanyTier;
+  industry?: string;
+  search?: string; // Part of the name or an alias
+}
+
+export interface CompanyCatalogImportResult {
+  created: number;
+  updated: number;
+  errors: Array<{ line: number; message: string }>; // Rows that were skipped
+}
+
+export const COMPANY_TIERS: CompanyTier[] = ['top-tier', 'tech-focused', 'standard'];
+export const COMPANY_SIZES: CompanySize[] = ['startup', 'small', 'medium', 'large', 'enterprise'];
+
+// Names at least this similar (1 - edit distance / length) match, e.g. "Microsft" for "Microsoft"
+const MIN_NAME_SIMILARITY = 0.85;
+// Similarity of a name that extends a catalog name by whole words, e.g. "Google Cloud" for "Google"
+const WORD_PREFIX_SIMILARITY = 0.9;
+
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|sa|bv|group|holdings)\b/g;
+
+/**
+ * Lowercase a company name and drop punctuation and legal suffixes, so "Acme, Inc." equals "ACME"
+ */
+export function normalizeCompanyName(company: string): string {
+  return company
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (longer.startsWith(`${shorter} `)) {
+    return WORD_PREFIX_SIMILARITY;
+  }
+  return 1 - editDistance(a, b) / longer.length;
+}
+
+/**
+ * Catalog entry whose name or an alias is most similar to the company, if any is similar enough
+ */
+export function matchCompany(
+  company: string,
+  entries: CompanyCatalogEntry[]
+): { entry: CompanyCatalogEntry; matchedName: string; similarity: number } | null {
+  const normalized = normalizeCompanyName(company);
+  if (!normalized) {
+    return null;
+  }
+
+  let best: { entry: CompanyCatalogEntry; matchedName: string; similarity: number } | null = null;
+  for (const entry of entries) {
+    for (const name of [entry.name, ...entry.aliases]) {
+      const candidate = normalizeCompanyName(name);
+      const similarity = candidate ? nameSimilarity(normalized, candidate) : 0;
+      if (similarity >= MIN_NAME_SIMILARITY && similarity > (best?.similarity ?? 0)) {
+        best = { entry, matchedName: name, similarity: Math.round(similarity * 100) / 100 };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas, quotes and newlines
+ */
+function parseCsvRows(text: string): Array<{ line: number; fields: string[] }> {
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n') line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  rows.push({ line: rowLine, fields });
+
+  return rows.filter(row => row.fields.some(value => value.trim().length > 0));
+}
+
+/**
+ * Read catalog entries from CSV with a header row naming the columns name, tier (required),
+ * aliases (separated by ";"), industry and size. Invalid rows are reported, not returned.
+ */
+export function parseCompanyCatalogCsv(text: string): {
+  entries: Array<{ line: number; entry: CreateCompanyCatalogEntryRequest }>;
+  errors: CompanyCatalogImportResult['errors'];
+} {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header?.fields ?? []).map(column => column.trim().toLowerCase());
+  const missing = ['name', 'tier'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return { entries: [], errors: [{ line: 1, message: `Missing required columns: ${missing.join(', ')}` }] };
+  }
+
+  const entries: Array<{ line: number; entry: CreateCompanyCatalogEntryRequest }> = [];
+  const errors: CompanyCatalogImportResult['errors'] = [];
+
+  for (const row of rows) {
+    const value = (column: string) => row.fields[columns.indexOf(column)]?.trim() ?? '';
+    const name = value('name');
+    const tier = value('tier').toLowerCase() as CompanyTier;
+    const size = value('size').toLowerCase() as CompanySize;
+    const industry = value('industry');
+    const aliases = value('aliases').split(';').map(alias => alias.trim()).filter(Boolean);
+
+    if (!name) {
+      errors.push({ line: row.line, message: 'Name is required' });
+    } else if (!COMPANY_TIERS.includes(tier)) {
+      errors.push({ line: row.line, message: `Tier must be one of ${COMPANY_TIERS.join(', ')}` });
+    } else if (size && !COMPANY_SIZES.includes(size)) {
+      errors.push({ line: row.line, message: `Size must be one of ${COMPANY_SIZES.join(', ')}` });
+    } else {
+      entries.push({
+        line: row.line,
+        entry: { name, tier, aliases, ...(industry && { industry }), ...(size && { size }) },
+      });
+    }
+  }
+
+  return { entries, errors };
+}
+
+export class CompanyCatalogService {
+  /**
+   * List catalog entries by name
+   */
+  async listCompanies(filters: CompanyCatalogFilters = {}): Promise<CompanyCatalogEntry[]> {
+    try {
+      const query: any = {};
+      if (filters.tier) query.tier = filters.tier;
+      if (filters.industry) query.industry = { $regex: `^${this.escapeRegex(filters.industry)}$`, $options: 'i' };
+      if (filters.search) {
+        const search = { $regex: this.escapeRegex(filters.search), $options: 'i' };
+        query.$or = [{ name: search }, { aliases: search }];
+      }
+
+      const docs = await CompanyCatalogEntryModel.find(query).sort({ name: 1 }).lean();
+      return docs.map(doc => this.toCatalogEntry(doc));
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  async getCompany(id: string): Promise<CompanyCatalogEntry | null> {
+    try {
+      const doc = await CompanyCatalogEntryModel.findById(id).lean();
+      return doc ? this.toCatalogEntry(doc) : null;
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Add a company; its normalized name must not already be in the catalog
+   */
+  async createCompany(data: CreateCompanyCatalogEntryRequest): Promise<CompanyCatalogEntry> {
+    try {
+      const doc = new CompanyCatalogEntryModel({
+        ...data,
+        aliases: data.aliases ?? [],
+        normalizedName: this.requireNormalizedName(data.name),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      return this.toCatalogEntry((await doc.save()).toObject());
+    } catch (error) {
+      throw error instanceof DatabaseError ? error : handleMongoError(error);
+    }
+  }
+
+  async updateCompany(id: string, data: UpdateCompanyCatalogEntryRequest): Promise<CompanyCatalogEntry | null> {
+    try {
+      const update: any = { ...data, updatedAt: new Date() };
+      if (data.name !== undefined) {
+        update.normalizedName = this.requireNormalizedName(data.name);
+      }
+
+      const doc = await CompanyCatalogEntryModel.findByIdAndUpdate(id, { $set: update }, { new: true, runValidators: true }).lean();
+      return doc ? this.toCatalogEntry(doc) : null;
+    } catch (error) {
+      throw error instanceof DatabaseError ? error : handleMongoError(error);
+    }
+  }
+
+  async deleteCompany(id: string): Promise<boolean> {
+    try {
+      const result = await CompanyCatalogEntryModel.findByIdAndDelete(id);
+      return !!result;
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Import catalog CSV. Rows whose normalized name is already in the catalog replace that entry;
+   * invalid rows are skipped and reported with their line number.
+   */
+  async importCsv(text: string): Promise<CompanyCatalogImportResult> {
+    const { entries, errors } = parseCompanyCatalogCsv(text);
+    const result: CompanyCatalogImportResult = { created: 0, updated: 0, errors };
+
+    for (const { line, entry } of entries) {
+      const normalizedName = normalizeCompanyName(entry.name);
+      if (!normalizedName) {
+        errors.push({ line, message: 'Name has no letters or digits' });
+        continue;
+      }
+
+      try {
+        // Columns left empty clear the stored value
+        const cleared = ['industry', 'size'].filter(field => !entry[field as 'industry' | 'size']);
+        const { lastErrorObject } = await CompanyCatalogEntryModel.findOneAndUpdate(
+          { normalizedName },
+          {
+            $set: { ...entry, updatedAt: new Date() },
+            ...(cleared.length > 0 && { $unset: Object.fromEntries(cleared.map(field => [field, 1])) }),
+            $setOnInsert: { createdAt: new Date() }
+          },
+          { upsert: true, runValidators: true, includeResultMetadata: true }
+        );
+        if (lastErrorObject?.updatedExisting) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      } catch (error) {
+        errors.push({ line, message: handleMongoError(error).message });
+      }
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return result;
+  }
+
+  /**
+   * Whole catalog for matching employers. Empty when the database is unavailable, so analyses
+   * fall back to the built-in company heuristics.
+   */
+  async getCatalogEntries(): Promise<CompanyCatalogEntry[]> {
+    if (!database.isDbConnected()) {
+      return [];
+    }
+
+    try {
+      return (await CompanyCatalogEntryModel.find().lean()).map(doc => this.toCatalogEntry(doc));
+    } catch (error) {
+      logger.warn('Company catalog unavailable; using built-in company heuristics', {
+        service: 'companyCatalog',
+        operation: 'getCatalogEntries',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [];
+    }
+  }
+
+  private requireNormalizedName(name: string): string {
+    const normalizedName = normalizeCompanyName(name);
+    if (!normalizedName) {
+      throw new DatabaseError('Company name must contain letters or digits', 'VALIDATION_ERROR', 400);
+    }
+    return normalizedName;
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Convert MongoDB document to CompanyCatalogEntry interface
+   */
+  private toCatalogEntry(doc: any): CompanyCatalogEntry {
+    return {
+      id: doc._id.toString(),
+      name: doc.name,
+      aliases: doc.aliases ?? [],
+      tier: doc.tier,
+      ...(doc.industry && { industry: doc.industry }),
+      ...(doc.size && { size: doc.size }),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const companyCatalogService = new CompanyCatalogService();
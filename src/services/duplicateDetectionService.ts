@@ -0,0 +1,378 @@
+import * as crypto from 'crypto';
+import { CandidateModel } from '../models/schemas';
+import {
+  Candidate,
+  CandidateIdentity,
+  DuplicateMatchField,
+  GitHubAnalysis,
+  LinkedInAnalysis,
+  ResumeData
+} from '../models/interfaces';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+
+export interface DuplicateMatch {
+  candidate: Candidate;
+  matchedOn: DuplicateMatchField[];
+  textSimilarity?: number; // 0-1
+}
+
+export interface CandidateDuplicates {
+  personId: string;
+  linked: Candidate[]; // Applications already linked to the same person
+  suggested: DuplicateMatch[]; // Matching applications linked to a different person
+}
+
+// 64-bit SimHash split into four 16-bit bands: fingerprints within 3 bits share at least one band
+const FINGERPRINT_BANDS = 4;
+const BAND_HEX_LENGTH = 4;
+const MAX_FINGERPRINT_DISTANCE = 3;
+// Below this many words the fingerprint is too noisy to compare
+const MIN_FINGERPRINT_WORDS = 50;
+const SHINGLE_SIZE = 3;
+const MAX_LOOKUP_RESULTS = 50;
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+function normalizeEmail(email?: string): string | undefined {
+  if (!email) {
+    return undefined;
+  }
+
+  const [localPart, domain] = email.trim().toLowerCase().split('@');
+  if (!localPart || !domain) {
+    return undefined;
+  }
+
+  // Sub-addresses (jane+jobs@) reach the same inbox; Gmail also ignores dots
+  let local = localPart.split('+')[0] || localPart;
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.replace(/\./g, '');
+  }
+  return `${local}@${GMAIL_DOMAINS.includes(domain) ? 'gmail.com' : domain}`;
+}
+
+function extractHandle(url: string | undefined, pattern: RegExp): string | undefined {
+  const handle = url?.match(pattern)?.[1];
+  if (!handle) {
+    return undefined;
+  }
+
+  try {
+    return decodeURIComponent(handle).toLowerCase();
+  } catch {
+    return handle.toLowerCase();
+  }
+}
+
+/**
+ * 64-bit SimHash over word shingles, as 16 hex characters.
+ * Resumes that differ only by small edits produce fingerprints a few bits apart.
+ */
+export function computeTextFingerprint(text: string): string | undefined {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  if (words.length < MIN_FINGERPRINT_WORDS) {
+    return undefined;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    const hash = crypto.createHash('md5').update(shingle).digest().readBigUInt64BE(0);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit]! += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let fingerprint = 0n;
+  weights.forEach((weight, bit) => {
+    if (weight > 0) {
+      fingerprint |= 1n << BigInt(bit);
+    }
+  });
+  return fingerprint.toString(16).padStart(16, '0');
+}
+
+export function fingerprintDistance(a: string, b: string): number {
+  let difference = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (difference > 0n) {
+    distance += Number(difference & 1n);
+    difference >>= 1n;
+  }
+  return distance;
+}
+
+function getFingerprintBands(fingerprint: string): string[] {
+  return Array.from({ length: FINGERPRINT_BANDS }, (_, band) =>
+    `${band}:${fingerprint.slice(band * BAND_HEX_LENGTH, (band + 1) * BAND_HEX_LENGTH)}`
+  );
+}
+
+function toCandidate(doc: any): Candidate {
+  return { ...doc, id: doc._id.toString() };
+}
+
+export class DuplicateDetectionService {
+  /**
+   * Normalized identifiers for a resume
+   */
+  buildIdentity(resumeData: ResumeData): CandidateIdentity {
+    const { contactInfo } = resumeData;
+    const identity: CandidateIdentity = {};
+
+    const email = normalizeEmail(contactInfo.email);
+    const phone = contactInfo.phoneE164 || (contactInfo.phone && normalizePhoneNumber(contactInfo.phone)?.e164);
+    const linkedInHandle = extractHandle(contactInfo.linkedInUrl, /linkedin\.com\/in\/([^/?#\s]+)/i);
+    const githubHandle = extractHandle(contactInfo.githubUrl, /github\.com\/([^/?#\s]+)/i);
+    const textFingerprint = computeTextFingerprint(resumeData.extractedText || '');
+
+    if (email) identity.email = email;
+    if (phone) identity.phone = phone;
+    if (linkedInHandle) identity.linkedInHandle = linkedInHandle;
+    if (githubHandle) identity.githubHandle = githubHandle;
+    if (textFingerprint) {
+      identity.textFingerprint = textFingerprint;
+      identity.fingerprintBands = getFingerprintBands(textFingerprint);
+    }
+
+    return identity;
+  }
+
+  /**
+   * Compare two identities. Returns null when nothing matches.
+   */
+  matchIdentities(a: CandidateIdentity, b: CandidateIdentity): Omit<DuplicateMatch, 'candidate'> | null {
+    const matchedOn: DuplicateMatchField[] = [];
+    if (a.email && a.email === b.email) matchedOn.push('email');
+    if (a.phone && a.phone === b.phone) matchedOn.push('phone');
+    if (a.linkedInHandle && a.linkedInHandle === b.linkedInHandle) matchedOn.push('linkedin');
+    if (a.githubHandle && a.githubHandle === b.githubHandle) matchedOn.push('github');
+
+    let textSimilarity: number | undefined;
+    if (a.textFingerprint && b.textFingerprint) {
+      const distance = fingerprintDistance(a.textFingerprint, b.textFingerprint);
+      if (distance <= MAX_FINGERPRINT_DISTANCE) {
+        matchedOn.push('text');
+        textSimilarity = Math.round((1 - distance / 64) * 1000) / 1000;
+      }
+    }
+
+    if (matchedOn.length === 0) {
+      return null;
+    }
+    return textSimilarity !== undefined ? { matchedOn, textSimilarity } : { matchedOn };
+  }
+
+  /**
+   * Find earlier applications by the same person, strongest match first.
+   * knownCandidates covers applications not yet persisted, such as earlier files in the same batch.
+   */
+  async findDuplicates(candidate: Candidate, knownCandidates: Candidate[] = []): Promise<DuplicateMatch[]> {
+    const identity = candidate.identity || this.buildIdentity(candidate.resumeData);
+    const pool = new Map<string, Candidate>();
+
+    knownCandidates.forEach(known => pool.set(known.id, known));
+    (await this.findStoredMatches(identity)).forEach(stored => pool.set(stored.id, stored));
+    pool.delete(candidate.id);
+
+    const matches: DuplicateMatch[] = [];
+    for (const other of pool.values()) {
+      const match = this.matchIdentities(identity, other.identity || this.buildIdentity(other.resumeData));
+      if (match) {
+        matches.push({ candidate: other, ...match });
+      }
+    }
+
+    // More matching identifiers first; the earliest application is the canonical one
+    return matches.sort((a, b) =>
+      b.matchedOn.length - a.matchedOn.length ||
+      new Date(a.candidate.createdAt).getTime() - new Date(b.candidate.createdAt).getTime()
+    );
+  }
+
+  /**
+   * Identify a newly ingested candidate and link it to an existing person when it is a duplicate.
+   * Fresh LinkedIn and GitHub analyses from that person's earlier applications are copied over.
+   */
+  async linkAtIngestion(candidate: Candidate, knownCandidates: Candidate[] = []): Promise<DuplicateMatch | null> {
+    candidate.identity = this.buildIdentity(candidate.resumeData);
+
+    const [bestMatch] = await this.findDuplicates(candidate, knownCandidates);
+    if (!bestMatch) {
+      candidate.personId = candidate.id;
+      return null;
+    }
+
+    candidate.personId = bestMatch.candidate.personId || bestMatch.candidate.id;
+    candidate.duplicateOf = {
+      candidateId: bestMatch.candidate.id,
+      matchedOn: bestMatch.matchedOn,
+      ...(bestMatch.textSimilarity !== undefined && { textSimilarity: bestMatch.textSimilarity }),
+      linkedBy: 'ingestion',
+      linkedAt: new Date()
+    };
+
+    const sources = [...knownCandidates, ...await this.findPersonCandidates(candidate.personId)]
+      .filter(source => source.id !== candidate.id && (source.personId || source.id) === candidate.personId);
+    this.reuseFreshAnalyses(candidate, sources);
+
+    logger.info(`Linked ${candidate.resumeData.fileName} to existing applicant ${candidate.personId}`, {
+      service: 'duplicateDetection',
+      operation: 'linkAtIngestion',
+      candidateId: candidate.id,
+      matchedOn: bestMatch.matchedOn.join(','),
+    });
+
+    return bestMatch;
+  }
+
+  /**
+   * Copy LinkedIn and GitHub analyses that are still fresh and belong to the same profile handle
+   */
+  reuseFreshAnalyses(candidate: Candidate, sources: Candidate[]): void {
+    const maxAgeMs = config.processing.analysisReuseMaxAgeDays * 24 * 60 * 60 * 1000;
+    const isFresh = (analysis?: LinkedInAnalysis | GitHubAnalysis): boolean =>
+      !!analysis?.analyzedAt && Date.now() - new Date(analysis.analyzedAt).getTime() <= maxAgeMs;
+    const handles = (source: Candidate): CandidateIdentity => source.identity || this.buildIdentity(source.resumeData);
+    const newest = <T extends LinkedInAnalysis | GitHubAnalysis>(analyses: Array<{ source: Candidate; analysis: T }>) =>
+      analyses.sort((a, b) => new Date(b.analysis.analyzedAt!).getTime() - new Date(a.analysis.analyzedAt!).getTime())[0];
+
+    const linkedInHandle = candidate.identity?.linkedInHandle;
+    if (linkedInHandle && !candidate.linkedInAnalysis) {
+      const reusable = newest(sources
+        .filter(source => handles(source).linkedInHandle === linkedInHandle && isFresh(source.linkedInAnalysis))
+        .map(source => ({ source, analysis: source.linkedInAnalysis! })));
+      if (reusable) {
+        candidate.linkedInAnalysis = { ...reusable.analysis, candidateId: candidate.id, reusedFromCandidateId: reusable.source.id };
+      }
+    }
+
+    const githubHandle = candidate.identity?.githubHandle;
+    if (githubHandle && !candidate.githubAnalysis) {
+      const reusable = newest(sources
+        .filter(source => handles(source).githubHandle === githubHandle && isFresh(source.githubAnalysis))
+        .map(source => ({ source, analysis: source.githubAnalysis! })));
+      if (reusable) {
+        candidate.githubAnalysis = { ...reusable.analysis, candidateId: candidate.id, reusedFromCandidateId: reusable.source.id };
+      }
+    }
+  }
+
+  /**
+   * Applications linked to the same person, and unlinked applications that look like the same person
+   */
+  async getDuplicates(candidateId: string): Promise<CandidateDuplicates | null> {
+    const doc = await CandidateModel.findOne({ _id: candidateId }).lean();
+    if (!doc) {
+      return null;
+    }
+
+    const candidate = toCandidate(doc);
+    const personId = candidate.personId || candidate.id;
+    const linked = (await this.findPersonCandidates(personId)).filter(other => other.id !== candidate.id);
+    const suggested = (await this.findDuplicates(candidate))
+      .filter(match => (match.candidate.personId || match.candidate.id) !== personId);
+
+    return { personId, linked, suggested };
+  }
+
+  /**
+   * Merge the duplicate's person into the candidate's person after recruiter review.
+   * Every application already linked to the duplicate moves with it.
+   */
+  async mergeDuplicate(candidateId: string, duplicateId: string): Promise<CandidateDuplicates | null> {
+    const [targetDoc, duplicateDoc] = await Promise.all([
+      CandidateModel.findOne({ _id: candidateId }).lean(),
+      CandidateModel.findOne({ _id: duplicateId }).lean()
+    ]);
+    if (!targetDoc || !duplicateDoc) {
+      return null;
+    }
+
+    const target = toCandidate(targetDoc);
+    const duplicate = toCandidate(duplicateDoc);
+    const personId = target.personId || target.id;
+    const previousPersonId = duplicate.personId || duplicate.id;
+    const match = this.matchIdentities(
+      target.identity || this.buildIdentity(target.resumeData),
+      duplicate.identity || this.buildIdentity(duplicate.resumeData)
+    );
+
+    await CandidateModel.bulkWrite([
+      { updateOne: { filter: { _id: candidateId }, update: { $set: { personId } } } },
+      {
+        updateMany: {
+          filter: { $or: [{ personId: previousPersonId }, { _id: duplicateId }] },
+          update: { $set: { personId, updatedAt: new Date() } }
+        }
+      },
+      {
+        updateOne: {
+          filter: { _id: duplicateId },
+          update: {
+            $set: {
+              duplicateOf: {
+                candidateId: target.id,
+                matchedOn: match?.matchedOn || [],
+                ...(match?.textSimilarity !== undefined && { textSimilarity: match.textSimilarity }),
+                linkedBy: 'recruiter',
+                linkedAt: new Date()
+              }
+            }
+          }
+        }
+      }
+    ]);
+
+    logger.info(`Merged applicant ${previousPersonId} into ${personId}`, {
+      service: 'duplicateDetection',
+      operation: 'mergeDuplicate',
+      candidateId,
+      duplicateId,
+    });
+
+    return this.getDuplicates(candidateId);
+  }
+
+  private async findStoredMatches(identity: CandidateIdentity): Promise<Candidate[]> {
+    if (!database.isDbConnected()) {
+      return [];
+    }
+
+    const conditions: object[] = [];
+    if (identity.email) conditions.push({ 'identity.email': identity.email });
+    if (identity.phone) conditions.push({ 'identity.phone': identity.phone });
+    if (identity.linkedInHandle) conditions.push({ 'identity.linkedInHandle': identity.linkedInHandle });
+    if (identity.githubHandle) conditions.push({ 'identity.githubHandle': identity.githubHandle });
+    if (identity.fingerprintBands?.length) conditions.push({ 'identity.fingerprintBands': { $in: identity.fingerprintBands } });
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    const docs = await CandidateModel.find({ $or: conditions })
+      .sort({ createdAt: 1 })
+      .limit(MAX_LOOKUP_RESULTS)
+      .lean();
+    return docs.map(toCandidate);
+  }
+
+  private async findPersonCandidates(personId: string): Promise<Candidate[]> {
+    if (!database.isDbConnected()) {
+      return [];
+    }
+
+    const conditions: object[] = [{ personId }];
+    if (/^[0-9a-fA-F]{24}$/.test(personId)) {
+      // The canonical application may predate person linking
+      conditions.push({ _id: personId });
+    }
+
+    const docs = await CandidateModel.find({ $or: conditions }).sort({ createdAt: 1 }).lean();
+    return docs.map(toCandidate);
+  }
+}
+
+export const duplicateDetectionService = new DuplicateDetectionService();
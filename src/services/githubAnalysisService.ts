@@ -1,9 +1,11 @@
 import axios, { AxiosResponse } from 'axios';
 import { config } from '../utils/config';
-import { GitHubAnalysis, JobProfile } from '../models/interfaces';
+import { GitHubAnalysis, JobProfile, ProfileSnapshotRef } from '../models/interfaces';
 import { logger } from '../utils/logger';
 import { monitoringService } from './monitoringService';
 import { errorRecoveryService } from './errorRecoveryService';
+import { ProfileFetchOptions, profileSnapshotService, toSnapshotRef } from './profileSnapshotService';
+import { GitHubGraphQLError, GitHubGraphQLFetcher } from './githubGraphQLFetcher';
 
 export interface GitHubProfileData {
   profile: {
@@ -31,6 +33,7 @@ export interface GitHubProfileData {
     html_url: string;
     clone_url: string;
     language?: string;
+    languages?: string[]; // All languages by size, largest first; GraphQL only
     size: number;
     stargazers_count: number;
     watchers_count: number;
@@ -48,6 +51,29 @@ export interface GitHubProfileData {
       name: string;
     };
   }>;
+  repositoryActivity?: {
+    [repository: string]: GitHubRepositoryActivity; // Resume projects, by lowercase "owner/repo"
+  };
+  pinnedRepositories?: string[]; // "owner/repo" of the repositories pinned to the profile; GraphQL only
+  contributions?: GitHubContributions; // GraphQL only; events is empty then
+  fetchedVia?: 'graphql' | 'rest';
+}
+
+/**
+ * Contributions of the past year from the profile's contribution calendar
+ */
+export interface GitHubContributions {
+  totalContributions: number;
+  totalCommitContributions: number;
+  calendar: Array<{ date: string; count: number }>; // One entry per day, oldest first
+}
+
+/**
+ * Commits and branches of a resume project; unset when they could not be fetched
+ */
+export interface GitHubRepositoryActivity {
+  commits?: GitHubCommitData[];
+  branches?: GitHubBranchData[];
 }
 
 export interface GitHubCommitData {
@@ -87,7 +113,12 @@ export class GitHubAnalysisService {
   private readonly maxRetries: number = 3;
   private readonly retryDelay: number = 2000; // 2 seconds
 
-  constructor() {
+  /**
+   * @param graphQLFetcher Fetches profiles through the GraphQL API before trying REST; null uses REST only
+   */
+  constructor(
+    private readonly graphQLFetcher: GitHubGraphQLFetcher | null = config.github.useGraphQL ? new GitHubGraphQLFetcher() : null
+  ) {
     this.token = config.github.token;
 
     if (!this.token) {
@@ -96,13 +127,16 @@ export class GitHubAnalysisService {
   }
 
   /**
-   * Analyze a GitHub profile for a candidate
+   * Analyze a GitHub profile for a candidate. A fetched profile is reused while its snapshot is
+   * fresh, unless options.refresh is set; with options.snapshotId, that stored snapshot is
+   * analyzed and nothing is fetched.
    */
   async analyzeGitHubProfile(
     candidateId: string,
     githubUrl: string,
     jobProfile: JobProfile,
-    resumeProjectUrls: string[] = []
+    resumeProjectUrls: string[] = [],
+    options: ProfileFetchOptions = {}
   ): Promise<GitHubAnalysis> {
     const startTime = Date.now();
     
@@ -112,9 +146,14 @@ export class GitHubAnalysisService {
       candidateId,
       jobProfileId: jobProfile.id,
       githubUrl: githubUrl.substring(0, 50) + '...',
-      resumeProjectCount: resumeProjectUrls.length
+      resumeProjectCount: resumeProjectUrls.length,
+      snapshotId: options.snapshotId
     });
 
+    if (options.snapshotId) {
+      return this.analyzeStoredSnapshot(candidateId, options.snapshotId, jobProfile, resumeProjectUrls);
+    }
+
     if (!this.token) {
       const error = 'GitHub token not configured';
       logger.error(error, undefined, {
@@ -149,7 +188,7 @@ export class GitHubAnalysisService {
         return this.createFailedAnalysis(candidateId, error);
       }
 
-      const profileData = await this.fetchGitHubProfileData(username);
+      const { profileData, snapshot } = await this.loadProfileData(username, resumeProjectUrls, options.refresh === true);
       
       if (!profileData) {
         const error = 'Failed to retrieve GitHub profile data';
@@ -162,17 +201,19 @@ export class GitHubAnalysisService {
         return this.createFailedAnalysis(candidateId, error);
       }
 
-      const analysis = await this.analyzeProfileData(candidateId, profileData, jobProfile, resumeProjectUrls);
+      const analysis = this.analyzeProfileData(candidateId, profileData, jobProfile, resumeProjectUrls, snapshot);
       const duration = Date.now() - startTime;
       
       // Record successful analysis
-      monitoringService.recordApiUsage({
-        service: 'github',
-        endpoint: '/user',
-        method: 'GET',
-        statusCode: 200,
-        responseTime: duration
-      });
+      if (!snapshot?.reused) {
+        monitoringService.recordApiUsage({
+          service: 'github',
+          endpoint: '/user',
+          method: 'GET',
+          statusCode: 200,
+          responseTime: duration
+        });
+      }
       
       logger.performance('GitHub profile analysis', duration, true, {
         service: 'githubAnalysis',
@@ -191,6 +232,7 @@ export class GitHubAnalysisService {
         duration,
         technicalScore: analysis.technicalScore,
         publicRepos: analysis.profileStats.publicRepos,
+        snapshotReused: snapshot?.reused,
         username
       });
       
@@ -237,9 +279,82 @@ export class GitHubAnalysisService {
   }
 
   /**
-   * Fetch comprehensive GitHub profile data
+   * Get the profile data, with the activity of the resume projects found among its repositories.
+   * A stored snapshot younger than GITHUB_SNAPSHOT_MAX_AGE_HOURS is used instead of fetching
+   * unless refreshing; only activity it lacks is fetched, and added to it.
+   */
+  private async loadProfileData(
+    username: string,
+    resumeProjectUrls: string[],
+    refresh: boolean
+  ): Promise<{ profileData: GitHubProfileData | null; snapshot?: ProfileSnapshotRef }> {
+    const profileKey = username.toLowerCase();
+    const stored = refresh ? null : await profileSnapshotService.getFreshSnapshot('github', profileKey);
+
+    if (stored) {
+      const profileData = stored.payload as GitHubProfileData;
+      if (await this.fetchMissingRepositoryActivity(profileData, resumeProjectUrls)) {
+        await profileSnapshotService.extendSnapshot(stored.id, profileData);
+      }
+      return { profileData, snapshot: toSnapshotRef(stored, true) };
+    }
+
+    const profileData = await this.fetchGitHubProfileData(username);
+    if (!profileData) {
+      return { profileData };
+    }
+
+    await this.fetchMissingRepositoryActivity(profileData, resumeProjectUrls);
+    const saved = await profileSnapshotService.saveSnapshot('github', profileKey, profileData);
+    return { profileData, ...(saved && { snapshot: toSnapshotRef(saved, false) }) };
+  }
+
+  /**
+   * Analyze a stored snapshot again, e.g. for a changed job profile, without calling GitHub.
+   * Resume projects whose activity is not in the snapshot are rated as if it could not be fetched.
+   */
+  private async analyzeStoredSnapshot(
+    candidateId: string,
+    snapshotId: string,
+    jobProfile: JobProfile,
+    resumeProjectUrls: string[]
+  ): Promise<GitHubAnalysis> {
+    const snapshot = await profileSnapshotService.getSnapshot(snapshotId);
+    if (!snapshot || snapshot.source !== 'github') {
+      return this.createFailedAnalysis(candidateId, 'GitHub profile snapshot not found');
+    }
+
+    return this.analyzeProfileData(
+      candidateId,
+      snapshot.payload as GitHubProfileData,
+      jobProfile,
+      resumeProjectUrls,
+      toSnapshotRef(snapshot, true)
+    );
+  }
+
+  /**
+   * Fetch comprehensive GitHub profile data, through GraphQL when enabled and over REST if
+   * that fails or the GraphQL rate limit is used up. A user GraphQL reports as not found is
+   * not looked up over REST, which would not find them either.
    */
   private async fetchGitHubProfileData(username: string): Promise<GitHubProfileData | null> {
+    if (this.graphQLFetcher) {
+      try {
+        return await this.graphQLFetcher.fetchProfile(username);
+      } catch (error) {
+        if (error instanceof GitHubGraphQLError && error.type === 'NOT_FOUND') {
+          throw error;
+        }
+        logger.warn('GitHub GraphQL profile fetch failed, falling back to REST', {
+          service: 'githubAnalysis',
+          operation: 'fetchGitHubProfileData',
+          username,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
     try {
       console.log(`Fetching GitHub data for username: ${username}`);
 
@@ -256,6 +371,7 @@ export class GitHubAnalysisService {
         profile,
         repositories: repositories || [],
         events: events || [],
+        fetchedVia: 'rest',
       };
     } catch (error) {
       console.error(`Failed to fetch GitHub profile data for ${username}:`, error);
@@ -263,6 +379,83 @@ export class GitHubAnalysisService {
     }
   }
 
+  /**
+   * Fetch commits and branches of the resume projects found among the profile's repositories
+   * whose activity is not in profileData yet, in one GraphQL request when enabled or with two
+   * REST requests per project. Returns whether any was added.
+   */
+  private async fetchMissingRepositoryActivity(profileData: GitHubProfileData, resumeProjectUrls: string[]): Promise<boolean> {
+    const missing = new Map<string, { owner: string; repo: string }>();
+
+    for (const projectUrl of resumeProjectUrls) {
+      const repoInfo = this.isValidGitHubUrl(projectUrl) ? this.extractRepoInfoFromUrl(projectUrl) : null;
+      if (!repoInfo || !this.findUserRepository(profileData, repoInfo.owner, repoInfo.repo)) {
+        continue;
+      }
+
+      const key = `${repoInfo.owner}/${repoInfo.repo}`.toLowerCase();
+      const activity = profileData.repositoryActivity?.[key];
+      if (!activity?.commits || !activity.branches) {
+        missing.set(key, repoInfo);
+      }
+    }
+
+    if (missing.size === 0) {
+      return false;
+    }
+
+    const fetched = await this.fetchRepositoryActivityWithGraphQL([...missing.values()]);
+
+    for (const [key, { owner, repo }] of missing) {
+      const activity: GitHubRepositoryActivity = { ...profileData.repositoryActivity?.[key], ...fetched?.[key] };
+
+      // GraphQL leaves out repositories it cannot read, which REST could not read either
+      if (!fetched && !activity.commits) {
+        try {
+          // Fetch recent commits (up to 100)
+          activity.commits = await this.makeGitHubRequest(`/repos/${owner}/${repo}/commits?per_page=100`) || [];
+        } catch (error) {
+          console.warn(`Failed to fetch commits for ${owner}/${repo}:`, error);
+        }
+      }
+
+      if (!fetched && !activity.branches) {
+        try {
+          activity.branches = await this.makeGitHubRequest(`/repos/${owner}/${repo}/branches`) || [];
+        } catch (error) {
+          console.warn(`Failed to fetch branches for ${owner}/${repo}:`, error);
+        }
+      }
+
+      profileData.repositoryActivity = { ...profileData.repositoryActivity, [key]: activity };
+    }
+
+    return true;
+  }
+
+  /**
+   * Activity of the repositories from one GraphQL request, or null to fetch it over REST
+   */
+  private async fetchRepositoryActivityWithGraphQL(
+    repositories: Array<{ owner: string; repo: string }>
+  ): Promise<{ [repository: string]: GitHubRepositoryActivity } | null> {
+    if (!this.graphQLFetcher) {
+      return null;
+    }
+
+    try {
+      return await this.graphQLFetcher.fetchRepositoryActivity(repositories);
+    } catch (error) {
+      logger.warn('GitHub GraphQL repository activity fetch failed, falling back to REST', {
+        service: 'githubAnalysis',
+        operation: 'fetchMissingRepositoryActivity',
+        repositories: repositories.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
   /**
    * Make authenticated GitHub API request with retry logic
    */
@@ -323,15 +516,16 @@ export class GitHubAnalysisService {
   /**
    * Analyze GitHub profile data and generate technical score
    */
-  private async analyzeProfileData(
+  private analyzeProfileData(
     candidateId: string,
     profileData: GitHubProfileData,
     jobProfile: JobProfile,
-    resumeProjectUrls: string[]
-  ): Promise<GitHubAnalysis> {
+    resumeProjectUrls: string[],
+    snapshot?: ProfileSnapshotRef
+  ): GitHubAnalysis {
     const profileStats = this.calculateProfileStats(profileData);
     const skillsEvidence = this.extractSkillsEvidence(profileData, jobProfile);
-    const projectAuthenticity = await this.analyzeProjectAuthenticity(profileData, resumeProjectUrls);
+    const projectAuthenticity = this.analyzeProjectAuthenticity(profileData, resumeProjectUrls);
     
     // Calculate technical score based on multiple factors
     const technicalScore = this.calculateTechnicalScore(
@@ -347,6 +541,8 @@ export class GitHubAnalysisService {
       technicalScore,
       projectAuthenticity,
       skillsEvidence,
+      ...(snapshot && { snapshot }),
+      analyzedAt: new Date(),
     };
   }
 
@@ -358,11 +554,13 @@ export class GitHubAnalysisService {
     const repositories = profileData.repositories;
     const events = profileData.events;
 
-    // Calculate contribution streak from events
-    const contributionStreak = this.calculateContributionStreak(events);
+    // The contribution calendar counts every day; the events feed only covers the last 90 days
+    const contributionStreak = profileData.contributions
+      ? this.calculateCalendarStreak(profileData.contributions.calendar)
+      : this.calculateContributionStreak(events);
     
     // Estimate total commits from events and repositories
-    const totalCommits = this.estimateTotalCommits(events, repositories);
+    const totalCommits = this.estimateTotalCommits(events, repositories, profileData.contributions);
 
     return {
       publicRepos: profile.public_repos,
@@ -412,11 +610,30 @@ export class GitHubAnalysisService {
   }
 
   /**
-   * Estimate total commits from events and repository data
+   * Days in a row with contributions up to the calendar's last day. The last day may still be
+   * under way, so a streak that ended the day before counts too.
+   */
+  private calculateCalendarStreak(calendar: GitHubContributions['calendar']): number {
+    const days = [...calendar].sort((a, b) => a.date.localeCompare(b.date));
+    if (days.length > 0 && days[days.length - 1]!.count === 0) {
+      days.pop();
+    }
+
+    let streak = 0;
+    for (let i = days.length - 1; i >= 0 && days[i]!.count > 0; i--) {
+      streak++;
+    }
+
+    return streak;
+  }
+
+  /**
+   * Estimate total commits from events or contributions, and repository data
    */
-  private estimateTotalCommits(events: any[], repositories: any[]): number {
-    // Count push events as a proxy for commits
+  private estimateTotalCommits(events: any[], repositories: any[], contributions?: GitHubContributions): number {
+    // Count the past year's commit contributions, or push events as a proxy for commits
     const pushEvents = events.filter(event => event.type === 'PushEvent');
+    const recentCommits = contributions ? contributions.totalCommitContributions : pushEvents.length * 2; // Assume 2 commits per push event on average
     
     // Add estimated commits from repository sizes and activity
     const repoCommitEstimate = repositories.reduce((total, repo) => {
@@ -428,7 +645,7 @@ export class GitHubAnalysisService {
       return total + Math.floor((ageInDays / 30) * sizeScore * Math.max(1, activityScore / 10));
     }, 0);
 
-    return pushEvents.length * 2 + repoCommitEstimate; // Assume 2 commits per push event on average
+    return recentCommits + repoCommitEstimate;
   }
 
   /**
@@ -439,13 +656,14 @@ export class GitHubAnalysisService {
     const repositories = profileData.repositories;
     const requiredSkills = jobProfile.requiredSkills.map(skill => skill.toLowerCase());
 
-    // Analyze programming languages
+    // Analyze programming languages, all of each repository's when known
+    const repositoryLanguages = (repo: GitHubProfileData['repositories'][number]): string[] =>
+      (repo.languages ?? (repo.language ? [repo.language] : [])).map(language => language.toLowerCase());
     const languages = new Map<string, number>();
     repositories.forEach(repo => {
-      if (repo.language) {
-        const lang = repo.language.toLowerCase();
+      repositoryLanguages(repo).forEach(lang => {
         languages.set(lang, (languages.get(lang) || 0) + 1);
-      }
+      });
     });
 
     // Check for required skills in languages
@@ -456,6 +674,16 @@ export class GitHubAnalysisService {
       }
     });
 
+    // Repositories the candidate chose to showcase
+    const pinned = repositories.filter(repo =>
+      profileData.pinnedRepositories?.some(name => name.toLowerCase() === repo.full_name.toLowerCase()));
+    requiredSkills.forEach(skill => {
+      const names = pinned.filter(repo => repositoryLanguages(repo).includes(skill)).map(repo => repo.name);
+      if (names.length > 0) {
+        evidence.push(`Pinned ${skill} repositories: ${names.join(', ')}`);
+      }
+    });
+
     // Analyze repository names and descriptions for technology keywords
     const techKeywords = this.extractTechKeywords(repositories, requiredSkills);
     techKeywords.forEach(keyword => {
@@ -518,10 +746,10 @@ export class GitHubAnalysisService {
   /**
    * Analyze project authenticity by examining commit history and patterns
    */
-  private async analyzeProjectAuthenticity(
+  private analyzeProjectAuthenticity(
     profileData: GitHubProfileData,
     resumeProjectUrls: string[]
-  ): Promise<GitHubAnalysis['projectAuthenticity']> {
+  ): GitHubAnalysis['projectAuthenticity'] {
     const resumeProjects: GitHubAnalysis['projectAuthenticity']['resumeProjects'] = [];
 
     for (const projectUrl of resumeProjectUrls) {
@@ -536,10 +764,7 @@ export class GitHubAnalysisService {
         const { owner, repo } = repoInfo;
         
         // Find the repository in the user's repositories
-        const userRepo = profileData.repositories.find(r => 
-          r.name.toLowerCase() === repo.toLowerCase() && 
-          r.full_name.toLowerCase().includes(owner.toLowerCase())
-        );
+        const userRepo = this.findUserRepository(profileData, owner, repo);
 
         if (!userRepo) {
           // Repository not found in user's profile - might be forked or not owned
@@ -554,8 +779,9 @@ export class GitHubAnalysisService {
         }
 
         // Analyze commit history and branching patterns
-        const commitAnalysis = await this.analyzeRepositoryCommits(owner, repo);
-        const branchAnalysis = await this.analyzeRepositoryBranches(owner, repo);
+        const activity = profileData.repositoryActivity?.[`${owner}/${repo}`.toLowerCase()];
+        const commitAnalysis = this.analyzeRepositoryCommits(activity?.commits);
+        const branchAnalysis = this.analyzeRepositoryBranches(activity?.branches);
         const codeQuality = this.assessCodeQuality(userRepo, commitAnalysis);
 
         resumeProjects.push({
@@ -581,20 +807,22 @@ export class GitHubAnalysisService {
     return { resumeProjects };
   }
 
+  private findUserRepository(profileData: GitHubProfileData, owner: string, repo: string): GitHubProfileData['repositories'][number] | undefined {
+    return profileData.repositories.find(r =>
+      r.name.toLowerCase() === repo.toLowerCase() &&
+      r.full_name.toLowerCase().includes(owner.toLowerCase())
+    );
+  }
+
   /**
-   * Analyze repository commits for authenticity
+   * Analyze repository commits for authenticity; commits that could not be fetched count as none
    */
-  private async analyzeRepositoryCommits(owner: string, repo: string): Promise<{
+  private analyzeRepositoryCommits(commits: GitHubCommitData[] | undefined): {
     isAuthentic: boolean;
     commitCount: number;
     authorDiversity: number;
-  }> {
+  } {
     try {
-      // Fetch recent commits (up to 100)
-      const commits: GitHubCommitData[] = await this.makeGitHubRequest(
-        `/repos/${owner}/${repo}/commits?per_page=100`
-      );
-
       if (!commits || commits.length === 0) {
         return { isAuthentic: false, commitCount: 0, authorDiversity: 0 };
       }
@@ -638,7 +866,7 @@ export class GitHubAnalysisService {
       };
 
     } catch (error) {
-      console.warn(`Failed to analyze commits for ${owner}/${repo}:`, error);
+      console.warn('Failed to analyze commits:', error);
       return { isAuthentic: false, commitCount: 0, authorDiversity: 0 };
     }
   }
@@ -667,16 +895,16 @@ export class GitHubAnalysisService {
   /**
    * Analyze repository branching patterns
    */
-  private async analyzeRepositoryBranches(owner: string, repo: string): Promise<{
+  private analyzeRepositoryBranches(branches: GitHubBranchData[] | undefined): {
     pattern: string;
     branchCount: number;
-  }> {
-    try {
-      const branches: GitHubBranchData[] = await this.makeGitHubRequest(
-        `/repos/${owner}/${repo}/branches`
-      );
+  } {
+    if (!branches) {
+      return { pattern: 'analysis-failed', branchCount: 0 };
+    }
 
-      if (!branches || branches.length === 0) {
+    try {
+      if (branches.length === 0) {
         return { pattern: 'no-branches', branchCount: 0 };
       }
 
@@ -697,7 +925,7 @@ export class GitHubAnalysisService {
       }
 
     } catch (error) {
-      console.warn(`Failed to analyze branches for ${owner}/${repo}:`, error);
+      console.warn('Failed to analyze branches:', error);
       return { pattern: 'analysis-failed', branchCount: 0 };
     }
   }
@@ -0,0 +1,353 @@
+import axios, { AxiosResponse } from 'axios';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import type {
+  GitHubBranchData,
+  GitHubCommitData,
+  GitHubProfileData,
+  GitHubRepositoryActivity
+} from './githubAnalysisService';
+
+/**
+ * A GraphQL request that failed or was not sent; the caller falls back to the REST API
+ */
+export class GitHubGraphQLError extends Error {
+  constructor(message: string, public readonly type?: string) {
+    super(message);
+    this.name = 'GitHubGraphQLError';
+  }
+}
+
+interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: Array<{ type?: string; message: string; path?: Array<string | number> }>;
+}
+
+interface GraphQLRateLimit {
+  cost: number;
+  remaining: number;
+  resetAt: string;
+}
+
+interface GraphQLCommit {
+  oid: string;
+  message: string;
+  author: GraphQLGitActor | null;
+  committer: GraphQLGitActor | null;
+}
+
+interface GraphQLGitActor {
+  name: string | null;
+  email: string | null;
+  date: string | null;
+  user: { login: string } | null;
+}
+
+interface GraphQLRepositoryActivity {
+  refs: { nodes: Array<{ name: string; target: { oid: string } | null; branchProtectionRule: { id: string } | null }> } | null;
+  defaultBranchRef: { target: { history?: { nodes: GraphQLCommit[] } } | null } | null;
+}
+
+const PROFILE_QUERY = `
+query Profile($login: String!) {
+  user(login: $login) {
+    login
+    databaseId
+    name
+    company
+    websiteUrl
+    location
+    email
+    bio
+    createdAt
+    updatedAt
+    followers { totalCount }
+    following { totalCount }
+    gists(privacy: PUBLIC) { totalCount }
+    repositories(first: 100, ownerAffiliations: OWNER, privacy: PUBLIC, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      totalCount
+      nodes {
+        databaseId
+        name
+        nameWithOwner
+        description
+        isPrivate
+        url
+        diskUsage
+        stargazerCount
+        forkCount
+        createdAt
+        updatedAt
+        pushedAt
+        watchers { totalCount }
+        issues(states: OPEN) { totalCount }
+        primaryLanguage { name }
+        languages(first: 10, orderBy: { field: SIZE, direction: DESC }) { nodes { name } }
+        defaultBranchRef { name }
+      }
+    }
+    pinnedItems(first: 6, types: REPOSITORY) {
+      nodes { ... on Repository { nameWithOwner } }
+    }
+    contributionsCollection {
+      totalCommitContributions
+      contributionCalendar {
+        totalContributions
+        weeks { contributionDays { date contributionCount } }
+      }
+    }
+  }
+  rateLimit { cost remaining resetAt }
+}`;
+
+const REPOSITORY_ACTIVITY_FRAGMENT = `
+fragment RepositoryActivity on Repository {
+  refs(refPrefix: "refs/heads/", first: 100) {
+    nodes { name target { oid } branchProtectionRule { id } }
+  }
+  defaultBranchRef {
+    target {
+      ... on Commit {
+        history(first: 100) {
+          nodes {
+            oid
+            message
+            author { name email date user { login } }
+            committer { name email date user { login } }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+/**
+ * Fetches GitHub profiles through the GraphQL API: the profile, its repositories with their
+ * languages, pinned repositories and the contribution calendar in one request, and the recent
+ * commits and branches of any number of repositories in another. Returns the same
+ * GitHubProfileData as the REST calls, without the public events feed.
+ *
+ * GraphQL requests are charged in points rather than calls. The remaining points and the cost
+ * of each kind of query are tracked from the responses, per repository for repository activity
+ * since its cost grows with the number of repositories asked for, and a query that would not
+ * fit into what is left before the reset is not sent.
+ */
+export class GitHubGraphQLFetcher {
+  private readonly queryCosts = new Map<string, number>(); // Points per unit, e.g. per repository
+  private rateLimit: { remaining: number; resetAt: Date } | null = null;
+
+  constructor(
+    private readonly token: string = config.github.token,
+    private readonly endpoint: string = 'https://api.github.com/graphql'
+  ) {}
+
+  async fetchProfile(username: string): Promise<GitHubProfileData> {
+    const { data } = await this.query<{ user: any }>('profile', PROFILE_QUERY, { login: username });
+    const user = data.user;
+    if (!user) {
+      throw new GitHubGraphQLError('GitHub profile not found or is private', 'NOT_FOUND');
+    }
+
+    const repositories = (user.repositories.nodes || []).filter(Boolean);
+    const calendar = user.contributionsCollection.contributionCalendar;
+
+    return {
+      profile: {
+        login: user.login,
+        id: user.databaseId,
+        name: user.name || undefined,
+        company: user.company || undefined,
+        blog: user.websiteUrl || undefined,
+        location: user.location || undefined,
+        email: user.email || undefined,
+        bio: user.bio || undefined,
+        public_repos: user.repositories.totalCount,
+        public_gists: user.gists.totalCount,
+        followers: user.followers.totalCount,
+        following: user.following.totalCount,
+        created_at: user.createdAt,
+        updated_at: user.updatedAt,
+      },
+      repositories: repositories.map((repo: any) => ({
+        id: repo.databaseId,
+        name: repo.name,
+        full_name: repo.nameWithOwner,
+        description: repo.description || undefined,
+        private: repo.isPrivate,
+        html_url: repo.url,
+        clone_url: `${repo.url}.git`,
+        language: repo.primaryLanguage?.name,
+        languages: (repo.languages?.nodes || []).map((language: { name: string }) => language.name),
+        size: repo.diskUsage || 0,
+        stargazers_count: repo.stargazerCount,
+        watchers_count: repo.watchers.totalCount,
+        forks_count: repo.forkCount,
+        open_issues_count: repo.issues.totalCount,
+        created_at: repo.createdAt,
+        updated_at: repo.updatedAt,
+        pushed_at: repo.pushedAt,
+        default_branch: repo.defaultBranchRef?.name || 'main',
+      })),
+      // The events feed has no GraphQL equivalent; the contribution calendar replaces it
+      events: [],
+      pinnedRepositories: (user.pinnedItems.nodes || [])
+        .filter((item: any) => item?.nameWithOwner)
+        .map((item: { nameWithOwner: string }) => item.nameWithOwner),
+      contributions: {
+        totalContributions: calendar.totalContributions,
+        totalCommitContributions: user.contributionsCollection.totalCommitContributions,
+        calendar: calendar.weeks.flatMap((week: any) => week.contributionDays.map((day: any) => ({
+          date: day.date,
+          count: day.contributionCount,
+        }))),
+      },
+      fetchedVia: 'graphql',
+    };
+  }
+
+  /**
+   * Recent commits on the default branch and the branches of each repository, keyed by
+   * lowercase "owner/repo". Repositories that do not exist or are private are left out.
+   */
+  async fetchRepositoryActivity(
+    repositories: Array<{ owner: string; repo: string }>
+  ): Promise<{ [repository: string]: GitHubRepositoryActivity }> {
+    if (repositories.length === 0) {
+      return {};
+    }
+
+    const variables: Record<string, string> = {};
+    const parameters: string[] = [];
+    const fields: string[] = [];
+    repositories.forEach(({ owner, repo }, index) => {
+      variables[`owner${index}`] = owner;
+      variables[`name${index}`] = repo;
+      parameters.push(`$owner${index}: String!`, `$name${index}: String!`);
+      fields.push(`r${index}: repository(owner: $owner${index}, name: $name${index}) { ...RepositoryActivity }`);
+    });
+
+    const query = `
+query RepositoryActivity(${parameters.join(', ')}) {
+  ${fields.join('\n  ')}
+  rateLimit { cost remaining resetAt }
+}
+${REPOSITORY_ACTIVITY_FRAGMENT}`;
+
+    const { data } = await this.query<Record<string, GraphQLRepositoryActivity | null>>(
+      'repositoryActivity',
+      query,
+      variables,
+      repositories.length
+    );
+
+    const activity: { [repository: string]: GitHubRepositoryActivity } = {};
+    repositories.forEach(({ owner, repo }, index) => {
+      const repository = data[`r${index}`];
+      if (repository) {
+        activity[`${owner}/${repo}`.toLowerCase()] = {
+          commits: (repository.defaultBranchRef?.target?.history?.nodes || []).map(commit => this.toCommitData(commit)),
+          branches: (repository.refs?.nodes || []).map((ref): GitHubBranchData => ({
+            name: ref.name,
+            commit: { sha: ref.target?.oid || '' },
+            protected: !!ref.branchProtectionRule,
+          })),
+        };
+      }
+    });
+
+    return activity;
+  }
+
+  /**
+   * Send a query unless the rate limit cannot cover it; units is what its cost scales with, such
+   * as the number of repositories. Errors that come with data, such as a repository not found,
+   * leave those fields null; without data the query fails.
+   */
+  private async query<T>(
+    name: string,
+    query: string,
+    variables: Record<string, unknown>,
+    units: number = 1
+  ): Promise<{ data: T }> {
+    if (!this.token) {
+      throw new GitHubGraphQLError('GitHub token not configured');
+    }
+
+    const expectedCost = Math.max(1, Math.ceil((this.queryCosts.get(name) ?? 0) * units));
+    if (this.rateLimit && this.rateLimit.resetAt.getTime() > Date.now() && this.rateLimit.remaining < expectedCost) {
+      throw new GitHubGraphQLError(
+        `GitHub GraphQL rate limit too low for ${name} query (${this.rateLimit.remaining} of ${expectedCost} points left). ` +
+        `Resets at ${this.rateLimit.resetAt.toISOString()}`,
+        'RATE_LIMITED'
+      );
+    }
+
+    const response: AxiosResponse<GraphQLResponse<T & { rateLimit?: GraphQLRateLimit }>> = await axios.post(
+      this.endpoint,
+      { query, variables },
+      {
+        headers: {
+          'Authorization': `bearer ${this.token}`,
+          'Content-Type': 'application/json',
+          'User-Agent': 'JobFilteringFunnel/1.0',
+        },
+        timeout: 30000, // 30 second timeout
+      }
+    );
+
+    const { data, errors } = response.data;
+    if (data?.rateLimit) {
+      this.recordRateLimit(name, data.rateLimit, units);
+    }
+
+    const rateLimited = errors?.find(error => error.type === 'RATE_LIMITED');
+    if (rateLimited || !data) {
+      const message = (errors || []).map(error => error.message).join('; ') || 'Empty GraphQL response';
+      throw new GitHubGraphQLError(`GitHub GraphQL ${name} query failed: ${message}`, rateLimited?.type ?? errors?.[0]?.type);
+    }
+
+    if (errors?.length) {
+      logger.debug('GitHub GraphQL query returned partial data', {
+        service: 'githubAnalysis',
+        operation: 'graphQLQuery',
+        query: name,
+        errors: errors.map(error => error.message)
+      });
+    }
+
+    return { data };
+  }
+
+  private recordRateLimit(name: string, rateLimit: GraphQLRateLimit, units: number): void {
+    this.queryCosts.set(name, rateLimit.cost / units);
+    this.rateLimit = { remaining: rateLimit.remaining, resetAt: new Date(rateLimit.resetAt) };
+
+    if (rateLimit.remaining < 100) {
+      logger.warn('GitHub GraphQL rate limit low', {
+        service: 'githubAnalysis',
+        operation: 'graphQLQuery',
+        remaining: rateLimit.remaining,
+        resetAt: rateLimit.resetAt
+      });
+    }
+  }
+
+  private toCommitData(commit: GraphQLCommit): GitHubCommitData {
+    const actor = (person: GraphQLGitActor | null) => ({
+      name: person?.name || '',
+      email: person?.email || '',
+      date: person?.date || '',
+    });
+
+    return {
+      sha: commit.oid,
+      commit: {
+        author: actor(commit.author),
+        committer: actor(commit.committer),
+        message: commit.message,
+      },
+      ...(commit.author?.user && { author: { login: commit.author.user.login } }),
+      ...(commit.committer?.user && { committer: { login: commit.committer.user.login } }),
+    };
+  }
+}
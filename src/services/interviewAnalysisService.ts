@@ -1,72 +1,119 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../utils/config';
-import { InterviewAnalysisResult, JobProfile, InterviewSession } from '../models/interfaces';
-
-export type AIProvider = 'gemini' | 'openai' | 'claude';
-
-export interface AIProviderConfig {
-  name: AIProvider;
-  maxRetries: number;
-  timeout: number;
-}
+import { InterviewAnalysisResult, JobProfile, InterviewSession, PromptTemplate } from '../models/interfaces';
+import { CandidateModel, InterviewAnalysisResultModel } from '../models/schemas';
+import { handleMongoError } from '../utils/database';
+import { AIProvider, AIProviderConfig, LLMProviderRegistry, getDefaultProviderRegistry } from './llmProviderRegistry';
+import { BUILTIN_PROMPT_TEMPLATES, promptTemplateService, renderPromptTemplate } from './promptTemplateService';
+import { UsageMeter, aiCostService } from './aiCostService';
+import { sanitizeUntrustedText, screenUntrustedText, wrapUntrustedContent } from './promptInjection';
+
+export { AIProvider, AIProviderConfig } from './llmProviderRegistry';
+
+const DEFAULT_TIMEOUT = 45000;
 
 export interface TranscriptAnalysisData {
   transcript: string;
   jobProfile: JobProfile;
   interviewSession: InterviewSession;
+  template?: PromptTemplate | undefined; // Defaults to the built-in interview analysis template
+}
+
+export interface AnalyzeTranscriptOptions {
+  batchId?: string; // Attributes the spend to a processing batch
 }
 
 export class InterviewAnalysisService {
-  private geminiClient: GoogleGenerativeAI;
-  private openaiClient: OpenAI;
-  private claudeClient: Anthropic;
-  private providerConfigs: AIProviderConfig[];
-
-  constructor() {
-    // Initialize AI clients
-    this.geminiClient = new GoogleGenerativeAI(config.aiProviders.gemini.apiKey);
-    this.openaiClient = new OpenAI({
-      apiKey: config.aiProviders.openai.apiKey,
-    });
-    this.claudeClient = new Anthropic({
-      apiKey: config.aiProviders.claude.apiKey,
-    });
+  private registry: LLMProviderRegistry | undefined;
+  private defaultProviderConfigs: AIProviderConfig[] | undefined;
 
-    // Configure provider fallback order with retry counts
-    this.providerConfigs = [
-      { name: 'gemini', maxRetries: 3, timeout: 45000 },
-      { name: 'openai', maxRetries: 2, timeout: 45000 },
-      { name: 'claude', maxRetries: 1, timeout: 45000 },
-    ];
+  // Without a registry, the default one is used once the first provider is needed
+  constructor(providerRegistry?: LLMProviderRegistry) {
+    this.registry = providerRegistry;
+  }
+
+  private get providerRegistry(): LLMProviderRegistry {
+    if (!this.registry) {
+      this.registry = getDefaultProviderRegistry();
+    }
+    return this.registry;
+  }
+
+  // Default provider fallback order with retry counts; job profiles may override it
+  private get providerConfigs(): AIProviderConfig[] {
+    if (!this.defaultProviderConfigs) {
+      this.defaultProviderConfigs = this.providerRegistry.resolveProviderConfigs(DEFAULT_TIMEOUT);
+    }
+    return this.defaultProviderConfigs;
   }
 
   /**
-   * Analyze interview transcript against job requirements using AI providers with fallback
+   * Analyze interview transcript against job requirements using AI providers with fallback.
+   * The tokens and cost of every provider call are returned in usage and recorded for cost reports.
+   * The transcript is screened for attempts to steer the analysis; a suspicious one is sent for manual review.
    */
   async analyzeTranscript(
     candidateId: string,
     interviewSession: InterviewSession,
-    jobProfile: JobProfile
+    jobProfile: JobProfile,
+    options: AnalyzeTranscriptOptions = {}
   ): Promise<InterviewAnalysisResult> {
     if (!interviewSession.transcript) {
       throw new Error('No transcript available for analysis');
     }
 
+    const meter = new UsageMeter();
+    const screening = screenUntrustedText(interviewSession.transcript);
+
+    try {
+      const result = await this.analyzeWithFallback(
+        candidateId,
+        sanitizeUntrustedText(interviewSession.transcript),
+        interviewSession,
+        jobProfile,
+        meter
+      );
+      result.usage = meter.toUsage();
+      result.promptInjection = screening;
+      if (screening.suspected) {
+        result.needsManualReview = true;
+      }
+      return result;
+    } finally {
+      await aiCostService.recordUsage(meter.toUsage(), {
+        candidateId,
+        jobProfileId: jobProfile.id,
+        batchId: options.batchId,
+        analysisType: 'interview-analysis',
+      });
+    }
+  }
+
+  private async analyzeWithFallback(
+    candidateId: string,
+    transcript: string,
+    interviewSession: InterviewSession,
+    jobProfile: JobProfile,
+    meter: UsageMeter
+  ): Promise<InterviewAnalysisResult> {
     // Validate transcript quality first
-    const transcriptQuality = this.assessTranscriptQuality(interviewSession.transcript);
+    const transcriptQuality = this.assessTranscriptQuality(transcript);
     
     const analysisData: TranscriptAnalysisData = {
-      transcript: interviewSession.transcript,
+      transcript,
       jobProfile,
       interviewSession,
+      template: await promptTemplateService.resolveTemplate(
+        'interview-analysis',
+        jobProfile.promptTemplates?.interviewAnalysis
+      ),
     };
 
     let lastError: Error | null = null;
+    const providerConfigs = jobProfile.aiProviderSettings
+      ? this.providerRegistry.resolveProviderConfigs(DEFAULT_TIMEOUT, jobProfile.aiProviderSettings)
+      : this.providerConfigs;
 
     // Try each provider in order with retries
-    for (const providerConfig of this.providerConfigs) {
+    for (const providerConfig of providerConfigs) {
       try {
         console.log(`Attempting interview analysis with ${providerConfig.name} for candidate ${candidateId}`);
         
@@ -74,7 +121,8 @@ export class InterviewAnalysisService {
           candidateId,
           analysisData,
           providerConfig,
-          transcriptQuality
+          transcriptQuality,
+          meter
         );
         
         console.log(`Successfully analyzed interview for candidate ${candidateId} with ${providerConfig.name}`);
@@ -97,6 +145,78 @@ export class InterviewAnalysisService {
     );
   }
 
+  /**
+   * Persist an analysis result, replacing any earlier analysis of the same interview session.
+   * A suspicious transcript flags the candidate.
+   */
+  async saveAnalysisResult(result: InterviewAnalysisResult): Promise<InterviewAnalysisResult> {
+    try {
+      const saved = await InterviewAnalysisResultModel.findOneAndUpdate(
+        { candidateId: result.candidateId, interviewSessionId: result.interviewSessionId },
+        { $set: result },
+        { upsert: true, new: true, runValidators: true }
+      ).lean();
+
+      if (result.promptInjection?.suspected) {
+        await CandidateModel.updateOne(
+          { _id: result.candidateId },
+          { $set: { promptInjectionSuspected: true, updatedAt: new Date() } }
+        );
+      }
+
+      return this.toAnalysisResult(saved);
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Look up the stored analysis for a candidate, optionally for a specific interview session.
+   * Without a session ID the most recent analysis is returned.
+   */
+  async getAnalysisResult(
+    candidateId: string,
+    interviewSessionId?: string
+  ): Promise<InterviewAnalysisResult | null> {
+    try {
+      const query: Record<string, string> = { candidateId };
+      if (interviewSessionId) {
+        query.interviewSessionId = interviewSessionId;
+      }
+
+      const result = await InterviewAnalysisResultModel.findOne(query)
+        .sort({ analysisTimestamp: -1 })
+        .lean();
+
+      return result ? this.toAnalysisResult(result) : null;
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Get all stored analyses for a candidate, newest first
+   */
+  async getAnalysisResultsForCandidate(candidateId: string): Promise<InterviewAnalysisResult[]> {
+    try {
+      const results = await InterviewAnalysisResultModel.find({ candidateId })
+        .sort({ analysisTimestamp: -1 })
+        .lean();
+
+      return results.map(result => this.toAnalysisResult(result));
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Strip MongoDB bookkeeping fields from a stored analysis
+   */
+  private toAnalysisResult(doc: any): InterviewAnalysisResult {
+    const { _id, __v, ...result } = doc;
+    return result as InterviewAnalysisResult;
+  }
+
   /**
    * Analyze with a specific provider with retry logic
    */
@@ -104,7 +224,8 @@ export class InterviewAnalysisService {
     candidateId: string,
     analysisData: TranscriptAnalysisData,
     providerConfig: AIProviderConfig,
-    transcriptQuality: InterviewAnalysisResult['transcriptQuality']
+    transcriptQuality: InterviewAnalysisResult['transcriptQuality'],
+    meter: UsageMeter
   ): Promise<InterviewAnalysisResult> {
     let lastError: Error | null = null;
 
@@ -115,7 +236,7 @@ export class InterviewAnalysisService {
         );
 
         const result = await Promise.race([
-          this.callProvider(candidateId, analysisData, providerConfig.name, transcriptQuality),
+          this.callProvider(candidateId, analysisData, providerConfig.name, transcriptQuality, meter),
           this.createTimeoutPromise(providerConfig.timeout),
         ]);
 
@@ -139,168 +260,52 @@ export class InterviewAnalysisService {
   }
 
   /**
-   * Call the specific AI provider
+   * Call the specific AI provider, metering the completion
    */
   private async callProvider(
     candidateId: string,
     analysisData: TranscriptAnalysisData,
     provider: AIProvider,
-    transcriptQuality: InterviewAnalysisResult['transcriptQuality']
-  ): Promise<InterviewAnalysisResult> {
-    const prompt = this.buildAnalysisPrompt(analysisData);
-
-    switch (provider) {
-      case 'gemini':
-        return await this.analyzeWithGemini(candidateId, analysisData, prompt, transcriptQuality);
-      case 'openai':
-        return await this.analyzeWithOpenAI(candidateId, analysisData, prompt, transcriptQuality);
-      case 'claude':
-        return await this.analyzeWithClaude(candidateId, analysisData, prompt, transcriptQuality);
-      default:
-        throw new Error(`Unknown AI provider: ${provider}`);
-    }
-  }
-
-  /**
-   * Analyze using Gemini API
-   */
-  private async analyzeWithGemini(
-    candidateId: string,
-    analysisData: TranscriptAnalysisData,
-    prompt: string,
-    transcriptQuality: InterviewAnalysisResult['transcriptQuality']
-  ): Promise<InterviewAnalysisResult> {
-    const model = this.geminiClient.getGenerativeModel({ model: 'gemini-pro' });
-    
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parseAIResponse(candidateId, analysisData, text, 'gemini', transcriptQuality);
-  }
-
-  /**
-   * Analyze using OpenAI GPT API
-   */
-  private async analyzeWithOpenAI(
-    candidateId: string,
-    analysisData: TranscriptAnalysisData,
-    prompt: string,
-    transcriptQuality: InterviewAnalysisResult['transcriptQuality']
-  ): Promise<InterviewAnalysisResult> {
-    const completion = await this.openaiClient.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert HR analyst specializing in interview evaluation and candidate assessment. You analyze interview transcripts to evaluate candidates against job requirements.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 3000,
-    });
-
-    const text = completion.choices[0]?.message?.content || '';
-    return this.parseAIResponse(candidateId, analysisData, text, 'openai', transcriptQuality);
-  }
-
-  /**
-   * Analyze using Claude API
-   */
-  private async analyzeWithClaude(
-    candidateId: string,
-    analysisData: TranscriptAnalysisData,
-    prompt: string,
-    transcriptQuality: InterviewAnalysisResult['transcriptQuality']
+    transcriptQuality: InterviewAnalysisResult['transcriptQuality'],
+    meter: UsageMeter
   ): Promise<InterviewAnalysisResult> {
-    const message = await this.claudeClient.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 3000,
+    const template = analysisData.template ?? BUILTIN_PROMPT_TEMPLATES['interview-analysis'];
+    const { text, usage } = await this.providerRegistry.get(provider).complete({
+      prompt: this.buildAnalysisPrompt(analysisData),
+      systemPrompt: template.systemPrompt,
       temperature: 0.3,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+      maxTokens: 3000,
     });
+    meter.add(provider, usage);
 
-    const text = message.content[0]?.type === 'text' ? message.content[0].text : '';
-    return this.parseAIResponse(candidateId, analysisData, text, 'claude', transcriptQuality);
+    return {
+      ...this.parseAIResponse(candidateId, analysisData, text, provider, transcriptQuality),
+      promptTemplate: { id: template.templateId, version: template.version },
+    };
   }
 
   /**
-   * Build analysis prompt for AI providers
+   * Render the prompt template with the job profile, interview details and transcript, the
+   * transcript enclosed as untrusted content
    */
   private buildAnalysisPrompt(analysisData: TranscriptAnalysisData): string {
     const { transcript, jobProfile, interviewSession } = analysisData;
-
-    return `
-INTERVIEW TRANSCRIPT ANALYSIS REQUEST
-
-JOB PROFILE:
-- Title: ${jobProfile.title}
-- Required Skills: ${jobProfile.requiredSkills.join(', ')}
-- Experience Level: ${jobProfile.experienceLevel}
-- Description: ${jobProfile.description}
-
-INTERVIEW DETAILS:
-- Duration: ${interviewSession.duration ? `${Math.round(interviewSession.duration / 60)} minutes` : 'Unknown'}
-- Call Quality: ${interviewSession.callQuality}
-- Interview Questions: ${jobProfile.interviewQuestions.join('\n')}
-
-TRANSCRIPT:
-${transcript}
-
-ANALYSIS REQUIREMENTS:
-Please analyze this interview transcript and provide a comprehensive evaluation in the following JSON format:
-
-{
-  "performanceScore": [0-100 overall interview performance],
-  "communicationScore": [0-100 communication clarity and professionalism],
-  "technicalScore": [0-100 technical knowledge and competency],
-  "competencyScores": {
-    [For each required skill, provide a score 0-100]
-  },
-  "needsManualReview": [true/false - flag if transcript quality is poor or responses are unclear],
-  "detailedFeedback": {
-    "strengths": ["List of candidate strengths observed"],
-    "weaknesses": ["List of areas for improvement"],
-    "recommendations": ["Specific recommendations for hiring decision"]
-  },
-  "responseAnalysis": [
-    {
-      "question": "Question asked",
-      "response": "Candidate's response summary",
-      "score": [0-100],
-      "feedback": "Specific feedback on this response"
-    }
-  ],
-  "overallAssessment": "Comprehensive summary of the candidate's interview performance",
-  "confidence": [0-100 confidence in this analysis based on transcript quality and response clarity]
-}
-
-EVALUATION CRITERIA:
-1. Technical Accuracy: How well does the candidate demonstrate knowledge of required skills?
-2. Communication Skills: Clarity, professionalism, and ability to articulate thoughts
-3. Problem-Solving: Approach to challenges and technical questions
-4. Experience Relevance: How well their experience aligns with job requirements
-5. Cultural Fit: Professional demeanor and communication style
-6. Response Quality: Depth and thoughtfulness of answers
-
-SCORING GUIDELINES:
-- 90-100: Exceptional performance, strong hire recommendation
-- 80-89: Good performance, hire recommendation
-- 70-79: Adequate performance, maybe hire
-- 60-69: Below expectations, likely no hire
-- 0-59: Poor performance, no hire
-
-Please ensure your response is valid JSON format and includes all required fields.
-`;
+    const template = analysisData.template ?? BUILTIN_PROMPT_TEMPLATES['interview-analysis'];
+
+    return renderPromptTemplate(template.body, {
+      jobProfile: {
+        title: jobProfile.title,
+        description: jobProfile.description,
+        requiredSkills: jobProfile.requiredSkills.join(', '),
+        experienceLevel: jobProfile.experienceLevel,
+        interviewQuestions: jobProfile.interviewQuestions.join('\n'),
+      },
+      interviewSession: {
+        duration: interviewSession.duration ? `${Math.round(interviewSession.duration / 60)} minutes` : 'Unknown',
+        callQuality: interviewSession.callQuality,
+      },
+      transcript: wrapUntrustedContent('transcript', transcript),
+    });
   }
 
   /**
@@ -542,44 +547,7 @@ Please ensure your response is valid JSON format and includes all required field
    * Test AI provider connectivity
    */
   async testProviders(): Promise<{ [provider: string]: boolean }> {
-    const results: { [provider: string]: boolean } = {};
-
-    for (const providerConfig of this.providerConfigs) {
-      try {
-        const testPrompt = 'Test connection. Please respond with "OK".';
-        
-        switch (providerConfig.name) {
-          case 'gemini':
-            const geminiModel = this.geminiClient.getGenerativeModel({ model: 'gemini-pro' });
-            await geminiModel.generateContent(testPrompt);
-            results[providerConfig.name] = true;
-            break;
-            
-          case 'openai':
-            await this.openaiClient.chat.completions.create({
-              model: 'gpt-4',
-              messages: [{ role: 'user', content: testPrompt }],
-              max_tokens: 10,
-            });
-            results[providerConfig.name] = true;
-            break;
-            
-          case 'claude':
-            await this.claudeClient.messages.create({
-              model: 'claude-3-sonnet-20240229',
-              max_tokens: 10,
-              messages: [{ role: 'user', content: testPrompt }],
-            });
-            results[providerConfig.name] = true;
-            break;
-        }
-      } catch (error) {
-        console.warn(`Provider ${providerConfig.name} test failed:`, error);
-        results[providerConfig.name] = false;
-      }
-    }
-
-    return results;
+    return this.providerRegistry.testProviders(this.providerConfigs.map(p => p.name));
   }
 }
 
@@ -1,6 +1,6 @@
 // Job Profile Management Service
 import { JobProfileModel } from '../models/schemas';
-import { JobProfile } from '../models/interfaces';
+import { AIProviderSettings, CompanyQualitySettings, JobProfile, PromptTemplateSelection } from '../models/interfaces';
 import { DatabaseError, handleMongoError } from '../utils/database';
 import { Types } from 'mongoose';
 
@@ -9,6 +9,14 @@ export interface CreateJobProfileRequest {
   description: string;
   requiredSkills: string[];
   experienceLevel: string;
+  phoneRegion?: string;
+  aiProviderSettings?: AIProviderSettings;
+  promptTemplates?: {
+    resumeAnalysis?: PromptTemplateSelection;
+    interviewAnalysis?: PromptTemplateSelection;
+  };
+  aiBatchBudgetUsd?: number;
+  companyQualitySettings?: CompanyQualitySettings;
   scoringWeights: {
     resumeAnalysis: number;
     linkedInAnalysis: number;
@@ -22,6 +30,9 @@ export interface UpdateJobProfileRequest extends Partial<CreateJobProfileRequest
   id: string;
 }
 
+// Fields the LinkedIn and GitHub analyses or the composite score depend on
+export const SCORING_FIELDS: Array<keyof JobProfile> = ['title', 'requiredSkills', 'companyQualitySettings', 'scoringWeights'];
+
 export interface JobProfileFilters {
   title?: string;
   experienceLevel?: string;
@@ -143,6 +154,13 @@ export class JobProfileService {
     }
   }
 
+  /**
+   * The scoring fields that differ between two versions of a job profile
+   */
+  getScoringChanges(before: JobProfile, after: JobProfile): Array<keyof JobProfile> {
+    return SCORING_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+  }
+
   /**
    * Check if job profile exists
    */
@@ -261,6 +279,11 @@ export class JobProfileService {
       description: doc.description,
       requiredSkills: doc.requiredSkills,
       experienceLevel: doc.experienceLevel,
+      ...(doc.phoneRegion && { phoneRegion: doc.phoneRegion }),
+      ...(doc.aiProviderSettings && { aiProviderSettings: doc.aiProviderSettings }),
+      ...(doc.promptTemplates && { promptTemplates: doc.promptTemplates }),
+      ...(doc.aiBatchBudgetUsd !== undefined && doc.aiBatchBudgetUsd !== null && { aiBatchBudgetUsd: doc.aiBatchBudgetUsd }),
+      ...(doc.companyQualitySettings && { companyQualitySettings: doc.companyQualitySettings }),
       scoringWeights: doc.scoringWeights,
       interviewQuestions: doc.interviewQuestions,
       createdAt: doc.createdAt,
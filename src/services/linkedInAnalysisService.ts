@@ -1,9 +1,38 @@
-import axios, { AxiosResponse } from 'axios';
+import axios from 'axios';
 import { config } from '../utils/config';
-import { LinkedInAnalysis, JobProfile } from '../models/interfaces';
+import {
+  CompanyCatalogEntry,
+  CompanyCatalogMatch,
+  CompanyQualitySettings,
+  CompanyTier,
+  LinkedInAnalysis,
+  JobProfile,
+  LinkedInDataSourceName,
+  LinkedInProfileAttachment,
+  ProfileConsistency,
+  ProfileSnapshotRef,
+  ResumeData,
+} from '../models/interfaces';
 import { logger } from '../utils/logger';
 import { monitoringService } from './monitoringService';
 import { errorRecoveryService } from './errorRecoveryService';
+import { createDefaultLinkedInDataSources, LinkedInDataSource, LinkedInProfileInput } from './linkedInDataSources';
+import { companyCatalogService, matchCompany } from './companyCatalogService';
+import { checkProfileConsistency } from './profileConsistency';
+import { normalizeLinkedInProfileKey, ProfileFetchOptions, profileSnapshotService, toSnapshotRef } from './profileSnapshotService';
+import { resumeSectionParser } from './resumeSectionParser';
+
+// Points deducted from the professional score when the resume consistency sub-score is 0
+const MAX_CONSISTENCY_DEDUCTION = 20;
+
+// Company quality points for the best employer's tier, unless the job profile sets its own
+const DEFAULT_TIER_SCORES: Record<CompanyTier, number> = {
+  'top-tier': 15,
+  'tech-focused': 10,
+  'standard': 5,
+};
+const DEFAULT_PREFERRED_INDUSTRY_BONUS = 5;
+const MAX_COMPANY_QUALITY_SCORE = 15;
 
 export interface LinkedInProfileData {
   profile: {
@@ -57,25 +86,30 @@ export interface LinkedInScraperResponse {
 export class LinkedInAnalysisService {
   private readonly baseUrl: string;
   private readonly apiKey: string;
-  private readonly maxRetries: number = 3;
-  private readonly retryDelay: number = 2000; // 2 seconds
 
-  constructor() {
+  constructor(private readonly dataSources: LinkedInDataSource[] = createDefaultLinkedInDataSources()) {
     this.baseUrl = config.linkedIn.baseUrl;
     this.apiKey = config.linkedIn.scraperApiKey;
 
     if (!this.apiKey) {
-      console.warn('LinkedIn scraper API key not configured. LinkedIn analysis will be disabled.');
+      console.warn('LinkedIn scraper API key not configured. Only profiles attached by candidates can be analyzed.');
     }
   }
 
   /**
-   * Analyze a LinkedIn profile for a candidate
+   * Analyze a LinkedIn profile for a candidate. The data sources are tried in order, skipping
+   * those that cannot serve the candidate, until one provides the profile. With the candidate's
+   * resume, its work history is reconciled with the profile's. A scraped profile is reused while
+   * its snapshot is fresh, unless options.refresh is set; with options.snapshotId, that stored
+   * snapshot is analyzed and nothing is fetched.
    */
   async analyzeLinkedInProfile(
     candidateId: string,
-    linkedInUrl: string,
-    jobProfile: JobProfile
+    linkedInUrl: string | undefined,
+    jobProfile: JobProfile,
+    attachment?: LinkedInProfileAttachment,
+    resumeData?: ResumeData,
+    options: ProfileFetchOptions = {}
   ): Promise<LinkedInAnalysis> {
     const startTime = Date.now();
     
@@ -84,21 +118,21 @@ export class LinkedInAnalysisService {
       operation: 'analyzeLinkedInProfile',
       candidateId,
       jobProfileId: jobProfile.id,
-      linkedInUrl: linkedInUrl.substring(0, 50) + '...' // Truncate for privacy
+      linkedInUrl: linkedInUrl ? linkedInUrl.substring(0, 50) + '...' : undefined, // Truncate for privacy
+      attachment: attachment?.format,
+      snapshotId: options.snapshotId
     });
 
-    if (!this.apiKey) {
-      const error = 'LinkedIn scraper API key not configured';
-      logger.error(error, undefined, {
-        service: 'linkedInAnalysis',
-        operation: 'analyzeLinkedInProfile',
-        candidateId
-      });
-      return this.createFailedAnalysis(candidateId, error);
+    if (options.snapshotId) {
+      return this.analyzeStoredSnapshot(candidateId, options.snapshotId, jobProfile, resumeData);
     }
 
-    if (!linkedInUrl || !this.isValidLinkedInUrl(linkedInUrl)) {
-      const error = 'Invalid or missing LinkedIn URL';
+    const input: LinkedInProfileInput = { linkedInUrl, attachment };
+    const unavailable = this.dataSources.map(source => source.unavailableReason(input));
+    const available = this.dataSources.filter((_, index) => unavailable[index] === null);
+
+    if (available.length === 0) {
+      const error = unavailable.join('; ') || 'No LinkedIn data sources configured';
       logger.warn(error, {
         service: 'linkedInAnalysis',
         operation: 'analyzeLinkedInProfile',
@@ -108,56 +142,124 @@ export class LinkedInAnalysisService {
       return this.createFailedAnalysis(candidateId, error);
     }
 
-    try {
-      const profileData = await this.scrapeLinkedInProfile(linkedInUrl);
-      
-      if (!profileData) {
-        const error = 'Failed to retrieve LinkedIn profile data';
-        logger.error(error, undefined, {
+    const catalog = await companyCatalogService.getCatalogEntries();
+    let firstError: unknown;
+    for (const source of available) {
+      const sourceStartTime = Date.now();
+      try {
+        const { profileData, snapshot } = await this.fetchFromSource(source, input, options.refresh === true);
+        const analysis = this.analyzeProfileData(candidateId, profileData, jobProfile, source.name, catalog, resumeData, snapshot);
+        const duration = Date.now() - startTime;
+
+        // Record successful analysis
+        if (source.name === 'scraper' && !snapshot?.reused) {
+          monitoringService.recordApiUsage({
+            service: 'linkedin',
+            endpoint: '/profile',
+            method: 'POST',
+            statusCode: 200,
+            responseTime: Date.now() - sourceStartTime
+          });
+        }
+
+        logger.performance('LinkedIn profile analysis', duration, true, {
+          service: 'linkedInAnalysis',
+          operation: 'analyzeLinkedInProfile',
+          candidateId,
+          jobProfileId: jobProfile.id,
+          professionalScore: analysis.professionalScore
+        });
+
+        logger.info(`Successfully analyzed LinkedIn profile`, {
           service: 'linkedInAnalysis',
           operation: 'analyzeLinkedInProfile',
           candidateId,
-          linkedInUrl
+          jobProfileId: jobProfile.id,
+          duration,
+          dataSource: source.name,
+          snapshotReused: snapshot?.reused,
+          professionalScore: analysis.professionalScore,
+          profileAccessible: analysis.profileAccessible
         });
-        return this.createFailedAnalysis(candidateId, error);
+
+        return analysis;
+      } catch (error) {
+        firstError = firstError ?? error;
+        this.recordSourceFailure(candidateId, jobProfile, source, error, Date.now() - sourceStartTime);
       }
+    }
 
-      const analysis = this.analyzeProfileData(candidateId, profileData, jobProfile);
-      const duration = Date.now() - startTime;
-      
-      // Record successful analysis
-      monitoringService.recordApiUsage({
-        service: 'linkedin',
-        endpoint: '/profile',
-        method: 'POST',
-        statusCode: 200,
-        responseTime: duration
-      });
-      
-      logger.performance('LinkedIn profile analysis', duration, true, {
-        service: 'linkedInAnalysis',
-        operation: 'analyzeLinkedInProfile',
-        candidateId,
-        jobProfileId: jobProfile.id,
-        professionalScore: analysis.professionalScore
-      });
-      
-      logger.info(`Successfully analyzed LinkedIn profile`, {
-        service: 'linkedInAnalysis',
-        operation: 'analyzeLinkedInProfile',
-        candidateId,
-        jobProfileId: jobProfile.id,
-        duration,
-        professionalScore: analysis.professionalScore,
-        profileAccessible: analysis.profileAccessible
-      });
-      
-      return analysis;
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const statusCode = this.getErrorStatusCode(error);
-      const errorType = this.classifyError(error);
-      
+    if (firstError instanceof Error) {
+      return this.createFailedAnalysis(candidateId, firstError.message);
+    }
+
+    return this.createFailedAnalysis(candidateId, 'Unknown error during LinkedIn analysis');
+  }
+
+  /**
+   * Get the profile from a data source. Scraped profiles are stored, and a stored one younger
+   * than LINKEDIN_SNAPSHOT_MAX_AGE_HOURS is used instead of scraping again unless refreshing.
+   */
+  private async fetchFromSource(
+    source: LinkedInDataSource,
+    input: LinkedInProfileInput,
+    refresh: boolean
+  ): Promise<{ profileData: LinkedInProfileData; snapshot?: ProfileSnapshotRef }> {
+    if (source.name !== 'scraper') {
+      return { profileData: await source.fetchProfile(input) };
+    }
+
+    const profileKey = normalizeLinkedInProfileKey(input.linkedInUrl!);
+    const stored = refresh ? null : await profileSnapshotService.getFreshSnapshot('linkedin', profileKey);
+    if (stored) {
+      return { profileData: stored.payload as LinkedInProfileData, snapshot: toSnapshotRef(stored, true) };
+    }
+
+    const profileData = await source.fetchProfile(input);
+    const saved = await profileSnapshotService.saveSnapshot('linkedin', profileKey, profileData);
+    return { profileData, ...(saved && { snapshot: toSnapshotRef(saved, false) }) };
+  }
+
+  /**
+   * Analyze a stored snapshot again, e.g. for a changed job profile, without scraping
+   */
+  private async analyzeStoredSnapshot(
+    candidateId: string,
+    snapshotId: string,
+    jobProfile: JobProfile,
+    resumeData?: ResumeData
+  ): Promise<LinkedInAnalysis> {
+    const snapshot = await profileSnapshotService.getSnapshot(snapshotId);
+    if (!snapshot || snapshot.source !== 'linkedin') {
+      return this.createFailedAnalysis(candidateId, 'LinkedIn profile snapshot not found');
+    }
+
+    const catalog = await companyCatalogService.getCatalogEntries();
+    return this.analyzeProfileData(
+      candidateId,
+      snapshot.payload as LinkedInProfileData,
+      jobProfile,
+      'scraper',
+      catalog,
+      resumeData,
+      toSnapshotRef(snapshot, true)
+    );
+  }
+
+  /**
+   * Log a data source that could not provide the profile; scraper failures also count against the API
+   */
+  private recordSourceFailure(
+    candidateId: string,
+    jobProfile: JobProfile,
+    source: LinkedInDataSource,
+    error: unknown,
+    duration: number
+  ): void {
+    const statusCode = this.getErrorStatusCode(error);
+    const errorType = this.classifyError(error);
+
+    if (source.name === 'scraper') {
       // Record failed API usage
       monitoringService.recordApiUsage({
         service: 'linkedin',
@@ -166,7 +268,7 @@ export class LinkedInAnalysisService {
         statusCode,
         responseTime: duration
       });
-      
+
       // Record failure for error recovery
       errorRecoveryService.recordFailure(
         'linkedInAnalysis',
@@ -174,106 +276,18 @@ export class LinkedInAnalysisService {
         errorType,
         error
       );
-      
-      logger.error(`LinkedIn analysis failed`, error, {
-        service: 'linkedInAnalysis',
-        operation: 'analyzeLinkedInProfile',
-        candidateId,
-        jobProfileId: jobProfile.id,
-        duration,
-        statusCode,
-        errorType,
-        linkedInUrl
-      });
-      
-      if (error instanceof Error) {
-        return this.createFailedAnalysis(candidateId, error.message);
-      }
-      
-      return this.createFailedAnalysis(candidateId, 'Unknown error during LinkedIn analysis');
-    }
-  }
-
-  /**
-   * Scrape LinkedIn profile using third-party API
-   */
-  private async scrapeLinkedInProfile(linkedInUrl: string): Promise<LinkedInProfileData | null> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      const attemptStartTime = Date.now();
-      
-      try {
-        logger.debug(`LinkedIn scraping attempt ${attempt}/${this.maxRetries}`, {
-          service: 'linkedInAnalysis',
-          operation: 'scrapeLinkedInProfile',
-          attempt,
-          maxRetries: this.maxRetries,
-          linkedInUrl: linkedInUrl.substring(0, 50) + '...'
-        });
-
-        const response: AxiosResponse<LinkedInScraperResponse> = await axios.post(
-          `${this.baseUrl}/v1/profile`,
-          {
-            url: linkedInUrl,
-            include_skills: true,
-            include_experience: true,
-            include_education: true,
-            include_endorsements: true,
-            include_recommendations: true,
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-              'User-Agent': 'JobFilteringFunnel/1.0',
-            },
-            timeout: 30000, // 30 second timeout
-          }
-        );
-
-        const result = response.data;
-
-        if (!result.success) {
-          throw new Error(result.error || result.message || 'LinkedIn scraping failed');
-        }
-
-        if (!result.data) {
-          throw new Error('No profile data returned from LinkedIn scraper');
-        }
-
-        // Check rate limits
-        if (result.rateLimitRemaining !== undefined && result.rateLimitRemaining < 10) {
-          console.warn(`LinkedIn API rate limit low: ${result.rateLimitRemaining} requests remaining`);
-        }
-
-        return result.data;
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(`LinkedIn scraping attempt ${attempt} failed:`, error);
-
-        // Handle specific error types
-        if (axios.isAxiosError(error)) {
-          if (error.response?.status === 404) {
-            throw new Error('LinkedIn profile not found or is private');
-          } else if (error.response?.status === 429) {
-            console.warn('LinkedIn API rate limit exceeded, waiting before retry...');
-            await this.delay(this.retryDelay * attempt);
-            continue;
-          } else if (error.response?.status === 403) {
-            throw new Error('LinkedIn profile is private or access denied');
-          }
-        }
-
-        // Wait before retry (exponential backoff)
-        if (attempt < this.maxRetries) {
-          const delay = this.retryDelay * Math.pow(2, attempt - 1);
-          await this.delay(delay);
-        }
-      }
     }
 
-    throw lastError || new Error('All LinkedIn scraping attempts failed');
+    logger.error(`LinkedIn data source ${source.name} failed`, error, {
+      service: 'linkedInAnalysis',
+      operation: 'analyzeLinkedInProfile',
+      candidateId,
+      jobProfileId: jobProfile.id,
+      dataSource: source.name,
+      duration,
+      statusCode,
+      errorType
+    });
   }
 
   /**
@@ -282,43 +296,74 @@ export class LinkedInAnalysisService {
   private analyzeProfileData(
     candidateId: string,
     profileData: LinkedInProfileData,
-    jobProfile: JobProfile
+    jobProfile: JobProfile,
+    dataSource: LinkedInDataSourceName,
+    catalog: CompanyCatalogEntry[],
+    resumeData?: ResumeData,
+    snapshot?: ProfileSnapshotRef
   ): LinkedInAnalysis {
-    const experience = this.analyzeExperience(profileData, jobProfile);
+    const experience = this.analyzeExperience(profileData, jobProfile, catalog);
     const network = this.analyzeNetwork(profileData);
     const credibilityIndicators = this.assessCredibility(profileData, jobProfile);
+    const consistency = this.checkResumeConsistency(profileData, resumeData);
     
     // Calculate professional score based on multiple factors
     const professionalScore = this.calculateProfessionalScore(
       profileData,
       experience,
       network,
-      credibilityIndicators
+      credibilityIndicators,
+      jobProfile.companyQualitySettings,
+      consistency
     );
 
     return {
       candidateId,
       profileAccessible: true,
+      dataSource,
+      ...(snapshot && { snapshot }),
       professionalScore,
+      ...(consistency && { consistency }),
       experience,
       network,
       credibilityIndicators,
+      analyzedAt: new Date(),
     };
   }
 
   /**
-   * Analyze professional experience against job requirements
+   * Reconcile the resume's work history with the profile's; resumes parsed before sections were
+   * stored are parsed here
+   */
+  private checkResumeConsistency(
+    profileData: LinkedInProfileData,
+    resumeData?: ResumeData
+  ): ProfileConsistency | undefined {
+    if (!resumeData?.sections && !resumeData?.extractedText) {
+      return undefined;
+    }
+    const sections = resumeData.sections ?? resumeSectionParser.parse(resumeData.extractedText);
+    return checkProfileConsistency(sections.workHistory, profileData.experience || []);
+  }
+
+  /**
+   * Analyze professional experience against job requirements. Employers in the company catalog
+   * take their tier from it; others are rated by the built-in heuristics.
    */
   private analyzeExperience(
     profileData: LinkedInProfileData,
-    jobProfile: JobProfile
+    jobProfile: JobProfile,
+    catalog: CompanyCatalogEntry[] = []
   ): LinkedInAnalysis['experience'] {
     const experiences = profileData.experience || [];
+    const preferredIndustries = (jobProfile.companyQualitySettings?.preferredIndustries || [])
+      .map(industry => industry.trim().toLowerCase());
     
     // Calculate total years of experience
     let totalYears = 0;
     let relevantRoles = 0;
     const companyQualities: string[] = [];
+    const companyMatches: CompanyCatalogMatch[] = [];
 
     for (const exp of experiences) {
       // Estimate duration in years (simplified calculation)
@@ -330,6 +375,24 @@ export class LinkedInAnalysisService {
         relevantRoles++;
       }
 
+      const match = exp.company ? matchCompany(exp.company, catalog) : null;
+      if (match) {
+        companyQualities.push(match.entry.tier);
+        if (!companyMatches.some(existing => existing.company === exp.company)) {
+          companyMatches.push({
+            company: exp.company,
+            catalogId: match.entry.id,
+            catalogName: match.entry.name,
+            matchedName: match.matchedName,
+            similarity: match.similarity,
+            tier: match.entry.tier,
+            ...(match.entry.industry && { industry: match.entry.industry }),
+            preferredIndustry: !!match.entry.industry && preferredIndustries.includes(match.entry.industry.toLowerCase()),
+          });
+        }
+        continue;
+      }
+
       // Assess company quality based on title and description
       const quality = this.assessCompanyQuality(exp);
       if (quality) {
@@ -344,6 +407,7 @@ export class LinkedInAnalysisService {
       totalYears: Math.round(totalYears * 10) / 10, // Round to 1 decimal place
       relevantRoles,
       companyQuality,
+      ...(companyMatches.length > 0 && { companyMatches }),
     };
   }
 
@@ -441,7 +505,9 @@ export class LinkedInAnalysisService {
     profileData: LinkedInProfileData,
     experience: LinkedInAnalysis['experience'],
     network: LinkedInAnalysis['network'],
-    credibilityIndicators: string[]
+    credibilityIndicators: string[],
+    companyQualitySettings?: CompanyQualitySettings,
+    consistency?: ProfileConsistency
   ): number {
     let score = 0;
 
@@ -459,20 +525,20 @@ export class LinkedInAnalysisService {
     score += completenessScore;
 
     // Company quality bonus (15% of total)
-    const companyQualityScore = this.getCompanyQualityScore(experience.companyQuality);
+    const companyQualityScore = this.getCompanyQualityScore(experience, companyQualitySettings);
     score += companyQualityScore;
 
-    return Math.min(100, Math.round(score));
+    // Discrepancies with the resume deduct up to 20 points
+    if (consistency) {
+      score = Math.min(100, score) - ((100 - consistency.score) / 100) * MAX_CONSISTENCY_DEDUCTION;
+    }
+
+    return Math.max(0, Math.min(100, Math.round(score)));
   }
 
   /**
    * Helper methods
    */
-  private isValidLinkedInUrl(url: string): boolean {
-    const linkedInRegex = /^https?:\/\/(www\.)?linkedin\.com\/in\/[a-zA-Z0-9-]+\/?$/;
-    return linkedInRegex.test(url);
-  }
-
   private parseDuration(duration: string): number {
     if (!duration) return 0;
 
@@ -546,13 +612,24 @@ export class LinkedInAnalysisService {
     );
   }
 
-  private getCompanyQualityScore(quality: string): number {
-    switch (quality) {
-      case 'top-tier': return 15;
-      case 'tech-focused': return 10;
-      case 'standard': return 5;
-      default: return 0;
+  /**
+   * Points for the best employer's tier, plus a bonus when a catalog employer is in one of the
+   * job profile's preferred industries
+   */
+  private getCompanyQualityScore(
+    experience: LinkedInAnalysis['experience'],
+    settings?: CompanyQualitySettings
+  ): number {
+    const tier = experience.companyQuality as CompanyTier;
+    if (!(tier in DEFAULT_TIER_SCORES)) {
+      return 0;
     }
+
+    const tierScore = settings?.tierScores?.[tier] ?? DEFAULT_TIER_SCORES[tier];
+    const industryBonus = experience.companyMatches?.some(match => match.preferredIndustry)
+      ? settings?.preferredIndustryBonus ?? DEFAULT_PREFERRED_INDUSTRY_BONUS
+      : 0;
+    return Math.min(MAX_COMPANY_QUALITY_SCORE, tierScore + industryBonus);
   }
 
   private createFailedAnalysis(candidateId: string, reason: string): LinkedInAnalysis {
@@ -575,10 +652,6 @@ export class LinkedInAnalysisService {
     };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Test LinkedIn scraper API connectivity
    */
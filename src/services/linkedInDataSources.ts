@@ -0,0 +1,432 @@
+import axios, { AxiosResponse } from 'axios';
+import Ajv from 'ajv';
+import { config } from '../utils/config';
+import { LinkedInDataSourceName, LinkedInProfileAttachment } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { pdfExtractor } from './textExtractionService';
+import type { LinkedInProfileData, LinkedInScraperResponse } from './linkedInAnalysisService';
+
+/**
+ * What is known about a candidate's LinkedIn profile: the URL from the resume and any
+ * profile the candidate attached
+ */
+export interface LinkedInProfileInput {
+  linkedInUrl?: string | undefined;
+  attachment?: LinkedInProfileAttachment | undefined;
+}
+
+/**
+ * A way of obtaining a candidate's LinkedIn profile. Every source returns the same
+ * LinkedInProfileData, so the analysis does not depend on where the profile came from.
+ */
+export interface LinkedInDataSource {
+  readonly name: LinkedInDataSourceName;
+  /** Why this source cannot provide a profile for the input, or null when it can */
+  unavailableReason(input: LinkedInProfileInput): string | null;
+  fetchProfile(input: LinkedInProfileInput): Promise<LinkedInProfileData>;
+}
+
+/**
+ * An attached profile that cannot be read
+ */
+export class LinkedInProfileImportError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'LinkedInProfileImportError';
+  }
+}
+
+const LINKEDIN_URL = /^https?:\/\/(www\.)?linkedin\.com\/in\/[a-zA-Z0-9-]+\/?$/;
+
+/**
+ * The third-party scraper's /v1/profile API
+ */
+export class ScraperLinkedInDataSource implements LinkedInDataSource {
+  readonly name = 'scraper';
+  private readonly maxRetries: number = 3;
+  private readonly retryDelay: number = 2000; // 2 seconds
+
+  constructor(
+    private readonly baseUrl: string = config.linkedIn.baseUrl,
+    private readonly apiKey: string = config.linkedIn.scraperApiKey
+  ) {}
+
+  unavailableReason(input: LinkedInProfileInput): string | null {
+    if (!this.apiKey) {
+      return 'LinkedIn scraper API key not configured';
+    }
+    if (!input.linkedInUrl || !LINKEDIN_URL.test(input.linkedInUrl)) {
+      return 'Invalid or missing LinkedIn URL';
+    }
+    return null;
+  }
+
+  async fetchProfile(input: LinkedInProfileInput): Promise<LinkedInProfileData> {
+    const linkedInUrl = input.linkedInUrl!;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        logger.debug(`LinkedIn scraping attempt ${attempt}/${this.maxRetries}`, {
+          service: 'linkedInAnalysis',
+          operation: 'scrapeLinkedInProfile',
+          attempt,
+          maxRetries: this.maxRetries,
+          linkedInUrl: linkedInUrl.substring(0, 50) + '...'
+        });
+
+        const response: AxiosResponse<LinkedInScraperResponse> = await axios.post(
+          `${this.baseUrl}/v1/profile`,
+          {
+            url: linkedInUrl,
+            include_skills: true,
+            include_experience: true,
+            include_education: true,
+            include_endorsements: true,
+            include_recommendations: true,
+          },
+          {
+            headers: {
+              'Authorization': `Bearer ${this.apiKey}`,
+              'Content-Type': 'application/json',
+              'User-Agent': 'JobFilteringFunnel/1.0',
+            },
+            timeout: 30000, // 30 second timeout
+          }
+        );
+
+        const result = response.data;
+
+        if (!result.success) {
+          throw new Error(result.error || result.message || 'LinkedIn scraping failed');
+        }
+
+        if (!result.data) {
+          throw new Error('No profile data returned from LinkedIn scraper');
+        }
+
+        // Check rate limits
+        if (result.rateLimitRemaining !== undefined && result.rateLimitRemaining < 10) {
+          console.warn(`LinkedIn API rate limit low: ${result.rateLimitRemaining} requests remaining`);
+        }
+
+        return result.data;
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(`LinkedIn scraping attempt ${attempt} failed:`, error);
+
+        // Handle specific error types
+        if (axios.isAxiosError(error)) {
+          if (error.response?.status === 404) {
+            throw new Error('LinkedIn profile not found or is private');
+          } else if (error.response?.status === 429) {
+            console.warn('LinkedIn API rate limit exceeded, waiting before retry...');
+            await this.delay(this.retryDelay * attempt);
+            continue;
+          } else if (error.response?.status === 403) {
+            throw new Error('LinkedIn profile is private or access denied');
+          }
+        }
+
+        // Wait before retry (exponential backoff)
+        if (attempt < this.maxRetries) {
+          const delay = this.retryDelay * Math.pow(2, attempt - 1);
+          await this.delay(delay);
+        }
+      }
+    }
+
+    throw lastError || new Error('All LinkedIn scraping attempts failed');
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// Headings of the sidebar of a LinkedIn "Save to PDF" export, which comes first in the extracted text
+const EXPORT_SIDEBAR_HEADINGS = ['Contact', 'Top Skills', 'Languages', 'Certifications', 'Honors-Awards', 'Publications', 'Patents'];
+const EXPORT_MAIN_HEADINGS = ['Summary', 'Experience', 'Education'];
+// "January 2020 - Present (4 years 3 months)" or "2016 - 2019 (3 years)"
+const EXPORT_DATE_RANGE = /^((?:[A-Z][a-z]+ )?\d{4}) - (Present|(?:[A-Z][a-z]+ )?\d{4})(?:\s*\(([^)]*)\))?$/;
+// Total time at a company listed above its roles: "5 years 2 months"
+const EXPORT_DURATION = /^(?:\d+ years?)?\s*(?:\d+ months?)?$/;
+// Rounding slack between a company's total time and the sum of its roles
+const MONTHS_TOLERANCE = 2;
+
+/**
+ * Read the text of a LinkedIn "Save to PDF" profile export. The export has a fixed layout: a
+ * sidebar (contact, top skills, certifications), then name, headline and location above the
+ * Summary, Experience and Education sections. Roles are recognised by their date range line,
+ * with the title above it and the company above that.
+ */
+export function parseLinkedInPdfExport(text: string): LinkedInProfileData {
+  const lines = text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !/^Page \d+ of \d+$/.test(line));
+
+  const mainStart = lines.findIndex(line => EXPORT_MAIN_HEADINGS.includes(line));
+  if (mainStart < 3 || !lines.includes('Experience')) {
+    throw new LinkedInProfileImportError('The PDF is not a LinkedIn profile export', [
+      'expected the name, headline and location followed by an Experience section',
+    ]);
+  }
+
+  const section = (heading: string): string[] => {
+    const start = lines.indexOf(heading);
+    if (start === -1) {
+      return [];
+    }
+    const end = lines.findIndex((line, index) => index > start && EXPORT_MAIN_HEADINGS.includes(line));
+    return lines.slice(start + 1, end === -1 ? lines.length : end);
+  };
+  const sidebarSection = (heading: string): string[] => {
+    const start = lines.indexOf(heading);
+    if (start === -1 || start >= mainStart) {
+      return [];
+    }
+    const end = lines.findIndex((line, index) => index > start && EXPORT_SIDEBAR_HEADINGS.includes(line));
+    // The last sidebar section runs into the name, headline and location
+    return lines.slice(start + 1, end === -1 || end > mainStart - 3 ? mainStart - 3 : end);
+  };
+
+  const [firstName, ...lastNames] = lines[mainStart - 3]!.split(' ');
+  const summary = section('Summary').join(' ');
+  const profileUrl = lines.find(line => /linkedin\.com\/in\//.test(line))?.replace(/\s*\(LinkedIn\)$/, '');
+
+  return {
+    profile: {
+      ...(firstName && { firstName }),
+      ...(lastNames.length > 0 && { lastName: lastNames.join(' ') }),
+      headline: lines[mainStart - 2]!,
+      location: lines[mainStart - 1]!,
+      ...(summary && { summary }),
+      ...(profileUrl && { profileUrl: profileUrl.startsWith('http') ? profileUrl : `https://${profileUrl}` }),
+    },
+    experience: parseExportExperience(section('Experience')),
+    education: parseExportEducation(section('Education')),
+    skills: sidebarSection('Top Skills').map(name => ({ name })),
+  };
+}
+
+function durationInMonths(duration: string): number {
+  const years = /(\d+) years?/.exec(duration)?.[1];
+  const months = /(\d+) months?/.exec(duration)?.[1];
+  return parseInt(years || '0', 10) * 12 + parseInt(months || '0', 10);
+}
+
+/**
+ * Roles in the Experience section. A company with several roles shows its total time under its
+ * name and no name above its later roles; those roles belong to it until their durations add up
+ * to the total.
+ */
+function parseExportExperience(lines: string[]): NonNullable<LinkedInProfileData['experience']> {
+  const dateLines = lines.flatMap((line, index) => EXPORT_DATE_RANGE.test(line) && index > 0 ? [index] : []);
+  const roles: Array<{ dateIndex: number; headerStart: number; company: string }> = [];
+  let company = '';
+  let groupMonthsLeft = 0;
+
+  for (const dateIndex of dateLines) {
+    const duration = EXPORT_DATE_RANGE.exec(lines[dateIndex]!)![3] || '';
+    let headerStart = dateIndex - 1;
+    const above = lines[dateIndex - 2];
+    const previousDateIndex = roles[roles.length - 1]?.dateIndex ?? -1;
+
+    if (above !== undefined && EXPORT_DURATION.test(above) && dateIndex >= 3) {
+      company = lines[dateIndex - 3]!;
+      groupMonthsLeft = durationInMonths(above);
+      headerStart = dateIndex - 3;
+    } else if (groupMonthsLeft <= MONTHS_TOLERANCE && above !== undefined && dateIndex - 2 > previousDateIndex) {
+      company = above;
+      groupMonthsLeft = 0;
+      headerStart = dateIndex - 2;
+    }
+    groupMonthsLeft -= durationInMonths(duration);
+    roles.push({ dateIndex, headerStart, company });
+  }
+
+  return roles.map((role, index) => {
+    const [, startDate, endDate, duration] = EXPORT_DATE_RANGE.exec(lines[role.dateIndex]!)!;
+    const description = lines.slice(role.dateIndex + 1, roles[index + 1]?.headerStart ?? lines.length).join(' ');
+
+    return {
+      title: lines[role.dateIndex - 1]!,
+      company: role.company,
+      duration: duration || '',
+      ...(description && { description }),
+      startDate: startDate!,
+      endDate: endDate!,
+    };
+  });
+}
+
+function parseExportEducation(lines: string[]): NonNullable<LinkedInProfileData['education']> {
+  const education: NonNullable<LinkedInProfileData['education']> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const next = lines[i + 1];
+    const years = next?.match(/\((?:[A-Z][a-z]+ )?(\d{4})\s*-\s*(?:[A-Z][a-z]+ )?(\d{4})\)\s*$/);
+    if (!next || !years) {
+      continue;
+    }
+    const [degree, field] = next.replace(/\s*·?\s*\([^)]*\)\s*$/, '').split(/,\s*/);
+    education.push({
+      school: lines[i]!,
+      ...(degree && { degree }),
+      ...(field && { field }),
+      startYear: parseInt(years[1]!, 10),
+      endYear: parseInt(years[2]!, 10),
+    });
+    i++;
+  }
+
+  return education;
+}
+
+/**
+ * The PDF a candidate saved from their LinkedIn profile with "More > Save to PDF"
+ */
+export class PdfExportLinkedInDataSource implements LinkedInDataSource {
+  readonly name = 'pdf-export';
+
+  unavailableReason(input: LinkedInProfileInput): string | null {
+    return input.attachment?.format === 'pdf-export' ? null : 'No LinkedIn PDF export attached';
+  }
+
+  async fetchProfile(input: LinkedInProfileInput): Promise<LinkedInProfileData> {
+    let extracted;
+    try {
+      extracted = await pdfExtractor.extract(input.attachment!.content, input.attachment!.fileName || 'profile.pdf');
+    } catch (error) {
+      throw new LinkedInProfileImportError('The LinkedIn PDF export could not be read', [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+    return parseLinkedInPdfExport(typeof extracted === 'string' ? extracted : extracted.text);
+  }
+}
+
+const LINKEDIN_PROFILE_JSON_SCHEMA = {
+  type: 'object',
+  required: ['profile'],
+  properties: {
+    profile: {
+      type: 'object',
+      properties: {
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        headline: { type: 'string' },
+        summary: { type: 'string' },
+        location: { type: 'string' },
+        connections: { type: 'number', minimum: 0 },
+        followers: { type: 'number', minimum: 0 },
+        profileUrl: { type: 'string' },
+      },
+    },
+    experience: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'company', 'duration'],
+        properties: {
+          title: { type: 'string' },
+          company: { type: 'string' },
+          duration: { type: 'string' },
+          description: { type: 'string' },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+        },
+      },
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['school'],
+        properties: {
+          school: { type: 'string' },
+          degree: { type: 'string' },
+          field: { type: 'string' },
+          startYear: { type: 'integer' },
+          endYear: { type: 'integer' },
+        },
+      },
+    },
+    skills: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, endorsements: { type: 'number', minimum: 0 } },
+      },
+    },
+    endorsements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['skill', 'count'],
+        properties: { skill: { type: 'string' }, count: { type: 'number', minimum: 0 } },
+      },
+    },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['text', 'recommender'],
+        properties: { text: { type: 'string' }, recommender: { type: 'string' } },
+      },
+    },
+  },
+};
+
+const validateProfileJson = new Ajv({ allErrors: true }).compile<LinkedInProfileData>(LINKEDIN_PROFILE_JSON_SCHEMA);
+
+/**
+ * Read a JSON profile in the LinkedInProfileData format. Unknown fields are ignored.
+ */
+export function parseLinkedInProfileJson(json: string): LinkedInProfileData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new LinkedInProfileImportError('The LinkedIn profile is not valid JSON');
+  }
+
+  if (!validateProfileJson(parsed)) {
+    throw new LinkedInProfileImportError(
+      'The LinkedIn profile JSON does not match the expected format',
+      (validateProfileJson.errors || []).map(error => `${error.instancePath || 'profile'} ${error.message}`)
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * A JSON profile the candidate supplied
+ */
+export class JsonLinkedInDataSource implements LinkedInDataSource {
+  readonly name = 'json';
+
+  unavailableReason(input: LinkedInProfileInput): string | null {
+    return input.attachment?.format === 'json' ? null : 'No LinkedIn JSON profile attached';
+  }
+
+  async fetchProfile(input: LinkedInProfileInput): Promise<LinkedInProfileData> {
+    return parseLinkedInProfileJson(input.attachment!.content.toString('utf8'));
+  }
+}
+
+/**
+ * The built-in sources in the order of LINKEDIN_DATA_SOURCES
+ */
+export function createDefaultLinkedInDataSources(
+  order: LinkedInDataSourceName[] = config.linkedIn.dataSources
+): LinkedInDataSource[] {
+  const sources: Record<LinkedInDataSourceName, () => LinkedInDataSource> = {
+    'scraper': () => new ScraperLinkedInDataSource(),
+    'pdf-export': () => new PdfExportLinkedInDataSource(),
+    'json': () => new JsonLinkedInDataSource(),
+  };
+  return order.map(name => sources[name]());
+}
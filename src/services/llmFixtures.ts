@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { LLMFixtureMode } from '../models/interfaces';
+import { AIProvider, LLMProvider, LLMProviderRegistry, LLMRequest, LLMResponse } from './llmProviderRegistry';
+
+/**
+ * A recorded provider answer, stored as <fixturesDir>/<provider>/<key>.json
+ */
+export interface LLMFixture {
+  key: string;
+  provider: AIProvider;
+  model?: string | undefined;
+  request: {
+    prompt: string;
+    systemPrompt?: string | undefined;
+    responseSchema?: string | undefined; // Schema name
+  };
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+/**
+ * Replay found no recording of the request; the analysis services fall back to the next provider
+ */
+export class MissingLLMFixtureError extends Error {
+  constructor(public readonly provider: AIProvider, public readonly fixturePath: string) {
+    super(`No recorded response of ${provider} for this prompt (${fixturePath}); record one with AI_FIXTURE_MODE=record`);
+    this.name = 'MissingLLMFixtureError';
+  }
+}
+
+/**
+ * Hash of what the provider answers to: the prompt, system prompt and requested schema.
+ * Sampling settings are left out so that tuning them does not invalidate recordings.
+ */
+export function getFixtureKey(request: LLMRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([request.prompt, request.systemPrompt ?? null, request.responseSchema?.name ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Provider answers on disk, one file per provider and request
+ */
+export class LLMFixtureStore {
+  private baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = path.resolve(baseDir);
+  }
+
+  getFixturePath(provider: AIProvider, request: LLMRequest): string {
+    if (!/^[\w-]+$/.test(provider)) {
+      throw new Error(`Invalid AI provider name for fixtures: ${provider}`);
+    }
+    return path.join(this.baseDir, provider, `${getFixtureKey(request)}.json`);
+  }
+
+  async read(provider: AIProvider, request: LLMRequest): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getFixturePath(provider, request), 'utf8')) as LLMFixture;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(provider: LLMProvider, request: LLMRequest, response: LLMResponse): Promise<LLMFixture> {
+    const fixturePath = this.getFixturePath(provider.name, request);
+    const fixture: LLMFixture = {
+      key: path.basename(fixturePath, '.json'),
+      provider: provider.name,
+      model: provider.model,
+      request: {
+        prompt: request.prompt,
+        systemPrompt: request.systemPrompt,
+        responseSchema: request.responseSchema?.name,
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+    return fixture;
+  }
+}
+
+/**
+ * Passes requests to the real provider and saves each answer as a fixture
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  constructor(private provider: LLMProvider, private store: LLMFixtureStore) {}
+
+  get name(): AIProvider {
+    return this.provider.name;
+  }
+
+  get model(): string | undefined {
+    return this.provider.model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.provider.complete(request);
+    await this.store.write(this.provider, request, response);
+    return response;
+  }
+}
+
+/**
+ * Answers from fixtures only, never calling the provider it stands in for. Keeps that provider's
+ * name and model, so cache keys and cost tracking see the same provider as when recording.
+ */
+export class ReplayingLLMProvider implements LLMProvider {
+  constructor(private provider: LLMProvider, private store: LLMFixtureStore) {}
+
+  get name(): AIProvider {
+    return this.provider.name;
+  }
+
+  get model(): string | undefined {
+    return this.provider.model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const fixture = await this.store.read(this.provider.name, request);
+    if (!fixture) {
+      throw new MissingLLMFixtureError(this.provider.name, this.store.getFixturePath(this.provider.name, request));
+    }
+    return fixture.response;
+  }
+}
+
+/**
+ * Record or replay the answers of the named providers. 'off' leaves the registry unchanged.
+ */
+export function applyLLMFixtureMode(
+  registry: LLMProviderRegistry,
+  mode: LLMFixtureMode,
+  store: LLMFixtureStore,
+  providers: AIProvider[] = registry.getProviderNames()
+): LLMProviderRegistry {
+  if (mode === 'off') {
+    return registry;
+  }
+
+  for (const name of providers.filter(provider => registry.has(provider))) {
+    registry.wrap(name, provider => mode === 'record'
+      ? new RecordingLLMProvider(provider, store)
+      : new ReplayingLLMProvider(provider, store));
+  }
+  return registry;
+}
@@ -0,0 +1,387 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '../utils/config';
+import { AIProviderSettings, TokenUsage } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { applyLLMFixtureMode, LLMFixtureStore } from './llmFixtures';
+import { ruleBasedResponse } from './ruleBasedLLMResponse';
+
+export type AIProvider = string;
+
+export interface AIProviderConfig {
+  name: AIProvider;
+  maxRetries: number;
+  timeout: number;
+}
+
+/**
+ * JSON schema for a structured answer. Sent as a forced tool call to providers that support it.
+ */
+export interface StructuredOutputSchema {
+  name: string; // Tool name: letters, digits and underscores
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  systemPrompt?: string | undefined;
+  maxTokens: number;
+  temperature: number;
+  responseSchema?: StructuredOutputSchema | undefined;
+}
+
+export interface LLMResponse {
+  text: string; // With a responseSchema, the tool call arguments as JSON when the provider made one
+  usage?: TokenUsage | undefined; // As reported by the provider
+}
+
+/**
+ * A text completion backend. Providers only make the call; retries, timeouts and
+ * fallback to the next provider are left to the analysis services.
+ */
+export interface LLMProvider {
+  readonly name: AIProvider;
+  readonly model?: string; // Part of analysis cache keys, so a model change is not served stale results
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface LLMProviderRegistration {
+  create: () => LLMProvider;
+  maxRetries: number; // Attempts before falling back, unless overridden by environment or job profile
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // gemini-pro supports neither system instructions nor response schemas; the prompt describes the format
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: { temperature: request.temperature, maxOutputTokens: request.maxTokens },
+    });
+
+    const result = await model.generateContent(request.prompt);
+    const response = await result.response;
+    const usage = response.usageMetadata;
+    return {
+      text: response.text(),
+      usage: usage && { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount },
+    };
+  }
+}
+
+/**
+ * OpenAI chat completions. Also serves OpenAI-compatible local servers (Ollama, llama.cpp) via baseUrl;
+ * not every local model supports tool calls, so structured output can be turned off.
+ */
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: AIProvider,
+    apiKey: string,
+    readonly model: string,
+    baseUrl?: string,
+    private structuredOutput: boolean = true
+  ) {
+    this.client = new OpenAI({
+      apiKey,
+      ...(baseUrl && { baseURL: baseUrl }),
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const tool = this.structuredOutput ? request.responseSchema : undefined;
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+        { role: 'user' as const, content: request.prompt },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(tool && {
+        tools: [{
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.schema },
+        }],
+        tool_choice: { type: 'function' as const, function: { name: tool.name } },
+      }),
+    });
+
+    const message = completion.choices[0]?.message;
+    const usage = completion.usage && {
+      inputTokens: completion.usage.prompt_tokens,
+      outputTokens: completion.usage.completion_tokens,
+    };
+    const toolCall = message?.tool_calls?.find(call => call.type === 'function');
+    if (toolCall?.type === 'function') {
+      return { text: toolCall.function.arguments, usage };
+    }
+    return { text: message?.content || '', usage };
+  }
+}
+
+export class ClaudeProvider implements LLMProvider {
+  readonly name = 'claude';
+  private client: Anthropic;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const tool = request.responseSchema;
+    const message = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.systemPrompt && { system: request.systemPrompt }),
+      ...(tool && {
+        tools: [{
+          name: tool.name,
+          description: tool.description,
+          input_schema: { type: 'object' as const, ...tool.schema },
+        }],
+        tool_choice: { type: 'tool' as const, name: tool.name },
+      }),
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+
+    const usage = { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens };
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    if (toolUse?.type === 'tool_use') {
+      return { text: JSON.stringify(toolUse.input), usage };
+    }
+    return { text: message.content[0]?.type === 'text' ? message.content[0].text : '', usage };
+  }
+}
+
+// Neutral answer containing the fields of both the resume and interview analysis formats
+const MOCK_RESPONSE = JSON.stringify({
+  relevanceScore: 50,
+  skillsMatch: { matched: [], missing: [] },
+  experienceAssessment: 'Not assessed: response generated by the mock AI provider',
+  reasoning: 'Deterministic response from the mock AI provider',
+  performanceScore: 50,
+  communicationScore: 50,
+  technicalScore: 50,
+  competencyScores: {},
+  needsManualReview: true,
+  detailedFeedback: { strengths: [], weaknesses: [], recommendations: ['Mock analysis - manual review required'] },
+  responseAnalysis: [],
+  overallAssessment: 'Not assessed: response generated by the mock AI provider',
+  confidence: 0,
+});
+
+/**
+ * Smallest valid instance of a JSON schema: required properties only, numbers at their minimum
+ */
+function neutralInstance(schema: any): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries((schema.required || []).map((key: string) => [key, neutralInstance(schema.properties[key])]));
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return 'Not assessed: response generated by the mock AI provider';
+  }
+}
+
+function mockResponse(request: LLMRequest): string {
+  return request.responseSchema ? JSON.stringify(neutralInstance(request.responseSchema.schema)) : MOCK_RESPONSE;
+}
+
+/**
+ * Rough token count for text that was not really tokenized, at about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline provider that never makes a network call. Returns the same answer for the same request,
+ * with token usage estimated from the text length.
+ */
+export class MockLLMProvider implements LLMProvider {
+  constructor(
+    readonly name: AIProvider = 'mock',
+    private respond: (request: LLMRequest) => string = mockResponse
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const text = this.respond(request);
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens((request.systemPrompt || '') + request.prompt),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+}
+
+/**
+ * Named AI providers shared by resume and interview analysis, and the fallback chain between them.
+ * Provider clients are created on first use.
+ */
+export class LLMProviderRegistry {
+  private registrations: Map<AIProvider, LLMProviderRegistration> = new Map();
+  private providers: Map<AIProvider, LLMProvider> = new Map();
+
+  register(name: AIProvider, create: () => LLMProvider, options: { maxRetries?: number } = {}): void {
+    this.registrations.set(name, { create, maxRetries: options.maxRetries ?? 1 });
+    this.providers.delete(name);
+  }
+
+  /**
+   * Replace a registered provider with a wrapper around it, keeping its retry default
+   */
+  wrap(name: AIProvider, wrapper: (provider: LLMProvider) => LLMProvider): void {
+    const registration = this.registrations.get(name);
+    if (!registration) {
+      throw new Error(`Unknown AI provider: ${name}`);
+    }
+    const { create, maxRetries } = registration;
+    this.register(name, () => wrapper(create()), { maxRetries });
+  }
+
+  unregister(name: AIProvider): void {
+    this.registrations.delete(name);
+    this.providers.delete(name);
+  }
+
+  has(name: AIProvider): boolean {
+    return this.registrations.has(name);
+  }
+
+  getProviderNames(): AIProvider[] {
+    return Array.from(this.registrations.keys());
+  }
+
+  get(name: AIProvider): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      const registration = this.registrations.get(name);
+      if (!registration) {
+        throw new Error(`Unknown AI provider: ${name}`);
+      }
+      provider = registration.create();
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Build the fallback chain for an analysis. Job profile settings take precedence over
+   * AI_PROVIDER_* environment settings, which take precedence over provider and service defaults.
+   */
+  resolveProviderConfigs(defaultTimeout: number, settings?: AIProviderSettings): AIProviderConfig[] {
+    const order = settings?.fallbackOrder?.length ? settings.fallbackOrder : config.aiProviders.fallbackOrder;
+    const providerConfigs: AIProviderConfig[] = [];
+
+    for (const name of order) {
+      const registration = this.registrations.get(name);
+      if (!registration) {
+        logger.warn(`Skipping unregistered AI provider ${name}`, {
+          service: 'llmProviderRegistry',
+          operation: 'resolveProviderConfigs',
+          provider: name,
+        });
+        continue;
+      }
+
+      providerConfigs.push({
+        name,
+        maxRetries: settings?.maxRetries ?? config.aiProviders.maxRetries ?? registration.maxRetries,
+        timeout: settings?.timeout ?? config.aiProviders.timeout ?? defaultTimeout,
+      });
+    }
+
+    if (providerConfigs.length === 0) {
+      throw new Error(`None of the configured AI providers are registered: ${order.join(', ')}`);
+    }
+
+    return providerConfigs;
+  }
+
+  /**
+   * Send a minimal request to each provider to check connectivity
+   */
+  async testProviders(names: AIProvider[]): Promise<Record<AIProvider, boolean>> {
+    const results: Record<AIProvider, boolean> = {};
+
+    for (const name of names) {
+      try {
+        await this.get(name).complete({
+          prompt: 'Test connection. Respond with: {"status": "ok"}',
+          maxTokens: 10,
+          temperature: 0,
+        });
+        results[name] = true;
+      } catch (error) {
+        console.warn(`Provider ${name} test failed:`, error);
+        results[name] = false;
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Register the built-in providers. 'local' is only available when LOCAL_LLM_BASE_URL is set.
+ * AI_FIXTURE_MODE records or replays the answers of the networked providers.
+ */
+export function createDefaultProviderRegistry(): LLMProviderRegistry {
+  const registry = new LLMProviderRegistry();
+  const { gemini, openai, claude, local } = config.aiProviders;
+
+  registry.register('gemini', () => new GeminiProvider(gemini.apiKey, gemini.model), { maxRetries: 3 });
+  registry.register('openai', () => new OpenAIProvider('openai', openai.apiKey, openai.model), { maxRetries: 2 });
+  registry.register('claude', () => new ClaudeProvider(claude.apiKey, claude.model), { maxRetries: 1 });
+
+  if (local.baseUrl) {
+    const baseUrl = local.baseUrl;
+    registry.register(
+      'local',
+      () => new OpenAIProvider('local', local.apiKey, local.model, baseUrl, local.structuredOutput),
+      { maxRetries: 2 }
+    );
+  }
+
+  registry.register('mock', () => new MockLLMProvider(), { maxRetries: 1 });
+  registry.register('rule-based', () => new MockLLMProvider('rule-based', ruleBasedResponse), { maxRetries: 1 });
+
+  // Settings without fixtures, such as a partial test configuration, leave the providers unwrapped
+  const fixtures = config.aiProviders.fixtures;
+  if (!fixtures) {
+    return registry;
+  }
+  return applyLLMFixtureMode(registry, fixtures.mode, new LLMFixtureStore(fixtures.dir), ['gemini', 'openai', 'claude', 'local']);
+}
+
+let defaultProviderRegistry: LLMProviderRegistry | null = null;
+
+/**
+ * The registry of the built-in providers, created on first use so that importing the services
+ * does not read the provider settings. Tests can change the settings until a provider is needed.
+ */
+export function getDefaultProviderRegistry(): LLMProviderRegistry {
+  if (!defaultProviderRegistry) {
+    defaultProviderRegistry = createDefaultProviderRegistry();
+  }
+  return defaultProviderRegistry;
+}
@@ -0,0 +1,525 @@
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export interface OcrPageResult {
+  text: string;
+  confidence: number; // 0-100
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, weighted by recognised text length
+  pagesProcessed: number;
+}
+
+/**
+ * Recognises text in a single page image (JPEG or PNM)
+ */
+export interface OcrEngine {
+  recognize(image: Buffer): Promise<OcrPageResult>;
+  terminate(): Promise<void>;
+}
+
+// Smaller images are logos and icons rather than scanned pages
+const MIN_PAGE_IMAGE_PIXELS = 200 * 200;
+
+// Decompressed image data allowed per document; a 300 dpi RGB scan of a letter page is about 25 MB
+const MAX_DECODED_IMAGE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Local tesseract engine. Language data ships with @tesseract.js-data/eng, so no network access is needed.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  private worker: Promise<Worker> | null = null;
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const langPath = config.processing.ocrLangPath ||
+        path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0');
+      this.worker = createWorker('eng', OEM.LSTM_ONLY, { langPath, gzip: true, cacheMethod: 'none' });
+      // Let the next call retry if the worker could not start
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  async recognize(image: Buffer): Promise<OcrPageResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, confidence: data.confidence };
+  }
+
+  async terminate(): Promise<void> {
+    if (this.worker) {
+      const worker = await this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+  }
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  bitsPerComponent: number;
+  components: number; // Colour components per pixel; 4, the most decoded, when the colour space is not known
+  filter?: string;
+  predictor: number;
+  inverted: boolean;
+  data: Buffer;
+}
+
+function readNumber(dictionary: string, key: string): number | undefined {
+  const match = dictionary.match(new RegExp(`/${key}\\s+(\\d+)`));
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+function readName(dictionary: string, key: string): string | undefined {
+  // Accept a single name or a one-element array of names
+  return dictionary.match(new RegExp(`/${key}\\s*\\[?\\s*/(\\w+)\\s*\\]?`))?.[1];
+}
+
+/**
+ * Undo PNG row predictors (Predictor >= 10) applied before Flate compression
+ */
+function removePngPredictor(data: Buffer, bytesPerPixel: number, rowLength: number): Buffer {
+  const output = Buffer.alloc(Math.floor(data.length / (rowLength + 1)) * rowLength);
+  let previous = Buffer.alloc(rowLength);
+
+  for (let row = 0; (row + 1) * (rowLength + 1) <= data.length; row++) {
+    const offset = row * (rowLength + 1);
+    const filterType = data[offset];
+    const current = Buffer.from(data.subarray(offset + 1, offset + 1 + rowLength));
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel]! : 0;
+      const up = previous[i]!;
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel]! : 0;
+      let predicted = 0;
+
+      if (filterType === 1) {
+        predicted = left;
+      } else if (filterType === 2) {
+        predicted = up;
+      } else if (filterType === 3) {
+        predicted = Math.floor((left + up) / 2);
+      } else if (filterType === 4) {
+        const estimate = left + up - upLeft;
+        const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+        predicted = distances[0]! <= distances[1]! && distances[0]! <= distances[2]!
+          ? left
+          : distances[1]! <= distances[2]! ? up : upLeft;
+      }
+
+      current[i] = (current[i]! + predicted) & 0xff;
+    }
+
+    current.copy(output, row * rowLength);
+    previous = current;
+  }
+
+  return output;
+}
+
+/**
+ * Convert raw image samples into a PNM image that tesseract can read
+ */
+function toPnm(image: PdfImage, samples: Buffer): Buffer | null {
+  const { width, height, bitsPerComponent } = image;
+  const pixelCount = width * height;
+
+  if (bitsPerComponent === 1) {
+    const rowLength = Math.ceil(width / 8);
+    if (samples.length < rowLength * height) {
+      return null;
+    }
+    // PDF paints 0 as black while PBM uses 1 for black, unless /Decode already flips it
+    const bits = Buffer.from(samples.subarray(0, rowLength * height));
+    if (!image.inverted) {
+      for (let i = 0; i < bits.length; i++) {
+        bits[i] = ~bits[i]! & 0xff;
+      }
+    }
+    return Buffer.concat([Buffer.from(`P4\n${width} ${height}\n`), bits]);
+  }
+
+  if (bitsPerComponent !== 8) {
+    return null;
+  }
+
+  const components = Math.floor(samples.length / pixelCount);
+  if (components === 1) {
+    return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), samples.subarray(0, pixelCount)]);
+  }
+  if (components === 3) {
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), samples.subarray(0, pixelCount * 3)]);
+  }
+  if (components === 4) {
+    // DeviceCMYK: approximate RGB is enough for text recognition
+    const rgb = Buffer.alloc(pixelCount * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      const black = samples[i * 4 + 3]!;
+      for (let channel = 0; channel < 3; channel++) {
+        rgb[i * 3 + channel] = Math.max(0, 255 - samples[i * 4 + channel]! - black);
+      }
+    }
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), rgb]);
+  }
+
+  return null;
+}
+
+/**
+ * What is left of a document's MAX_DECODED_IMAGE_BYTES
+ */
+interface DecodeBudget {
+  remainingBytes: number;
+}
+
+function toOcrImage(image: PdfImage, budget: DecodeBudget): Buffer | null {
+  if (image.filter === 'DCTDecode') {
+    return image.data;
+  }
+
+  let samples: Buffer;
+  if (image.filter === 'FlateDecode') {
+    // The size of the samples the dictionary declares bounds the output, so a crafted stream cannot inflate beyond it
+    const rowLength = Math.ceil(image.width * image.components * image.bitsPerComponent / 8);
+    const maxOutputLength = image.height * (rowLength + (image.predictor >= 10 ? 1 : 0));
+    if (maxOutputLength > budget.remainingBytes) {
+      logger.warn('Skipping PDF image: decoded image data would exceed the limit per document', {
+        service: 'ocr',
+        operation: 'decodeImage',
+        width: image.width,
+        height: image.height,
+        remainingBytes: budget.remainingBytes,
+      });
+      return null;
+    }
+
+    try {
+      samples = zlib.inflateSync(image.data, { maxOutputLength });
+    } catch {
+      return null;
+    }
+    budget.remainingBytes -= samples.length;
+    if (image.predictor >= 10) {
+      // Each row carries a leading filter-type byte
+      const rowLength = Math.floor(samples.length / image.height) - 1;
+      const bytesPerPixel = Math.max(1, Math.floor(rowLength / image.width));
+      samples = removePngPredictor(samples, bytesPerPixel, rowLength);
+    }
+  } else if (!image.filter) {
+    samples = image.data;
+  } else {
+    // CCITT, JBIG2 and JPEG 2000 scans are not decoded
+    return null;
+  }
+
+  return toPnm(image, samples);
+}
+
+interface PdfObject {
+  dictionary: string;
+  stream?: Buffer;
+}
+
+/**
+ * Index the objects of a PDF by object number, in document order. Objects packed into
+ * compressed object streams are not seen.
+ */
+function readPdfObjects(pdfBuffer: Buffer): Map<number, PdfObject> {
+  const source = pdfBuffer.toString('latin1');
+  const headerPattern = /(\d+)\s+\d+\s+obj\b/g;
+  const objects = new Map<number, PdfObject>();
+  let match: RegExpExecArray | null;
+
+  while ((match = headerPattern.exec(source)) !== null) {
+    const bodyStart = match.index + match[0].length;
+    const objectEnd = source.indexOf('endobj', bodyStart);
+    const streamStart = source.indexOf('stream', bodyStart);
+
+    if (streamStart === -1 || (objectEnd !== -1 && objectEnd < streamStart)) {
+      objects.set(Number(match[1]), { dictionary: source.slice(bodyStart, objectEnd === -1 ? undefined : objectEnd) });
+      if (objectEnd === -1) {
+        break;
+      }
+      headerPattern.lastIndex = objectEnd;
+      continue;
+    }
+
+    // Stream data starts after the end-of-line marker and is followed by another before "endstream"
+    let dataStart = streamStart + 'stream'.length;
+    if (source[dataStart] === '\r') {
+      dataStart++;
+    }
+    if (source[dataStart] === '\n') {
+      dataStart++;
+    }
+    const dataEnd = source.indexOf('endstream', dataStart);
+    if (dataEnd === -1) {
+      break;
+    }
+    headerPattern.lastIndex = dataEnd;
+
+    let streamEnd = dataEnd;
+    if (source[streamEnd - 1] === '\n') {
+      streamEnd--;
+    }
+    if (source[streamEnd - 1] === '\r') {
+      streamEnd--;
+    }
+
+    objects.set(Number(match[1]), {
+      dictionary: source.slice(bodyStart, streamStart),
+      stream: pdfBuffer.subarray(dataStart, streamEnd),
+    });
+  }
+
+  return objects;
+}
+
+function readComponents(dictionary: string): number {
+  const colorSpace = readName(dictionary, 'ColorSpace');
+  if (colorSpace === 'DeviceGray' || colorSpace === 'CalGray') {
+    return 1;
+  }
+  if (colorSpace === 'DeviceRGB' || colorSpace === 'CalRGB') {
+    return 3;
+  }
+  return 4;
+}
+
+/**
+ * Decode an image XObject into an OCR-ready image, or null for logo-sized and undecodable images
+ * and once the document's decode budget is spent
+ */
+function readPageImage(object: PdfObject, budget: DecodeBudget): Buffer | null {
+  const { dictionary, stream } = object;
+  if (!stream || !/\/Subtype\s*\/Image/.test(dictionary)) {
+    return null;
+  }
+
+  const width = readNumber(dictionary, 'Width') || 0;
+  const height = readNumber(dictionary, 'Height') || 0;
+  if (width * height < MIN_PAGE_IMAGE_PIXELS) {
+    return null;
+  }
+
+  const imageMask = /\/ImageMask\s+true/.test(dictionary);
+  return toOcrImage({
+    width,
+    height,
+    bitsPerComponent: imageMask ? 1 : readNumber(dictionary, 'BitsPerComponent') || 8,
+    components: imageMask ? 1 : readComponents(dictionary),
+    filter: readName(dictionary, 'Filter'),
+    predictor: readNumber(dictionary, 'Predictor') || 1,
+    inverted: /\/Decode\s*\[\s*1(\.0)?\s+0(\.0)?\s*\]/.test(dictionary),
+    data: stream,
+  }, budget);
+}
+
+/**
+ * Pull page-sized image XObjects out of a PDF as OCR-ready images, in document order
+ */
+export function extractPdfImages(pdfBuffer: Buffer): Buffer[] {
+  const images: Buffer[] = [];
+  const budget: DecodeBudget = { remainingBytes: MAX_DECODED_IMAGE_BYTES };
+  for (const object of readPdfObjects(pdfBuffer).values()) {
+    const image = readPageImage(object, budget);
+    if (image) {
+      images.push(image);
+    }
+  }
+  return images;
+}
+
+function readReferences(text: string): number[] {
+  return Array.from(text.matchAll(/(\d+)\s+\d+\s+R\b/g), match => Number(match[1]));
+}
+
+/**
+ * Value of a dictionary entry that is itself a dictionary, given inline or as a reference
+ */
+function readDictionary(dictionary: string, key: string, objects: Map<number, PdfObject>): string | undefined {
+  const keyMatch = new RegExp(`/${key}(?![\\w#])\\s*`).exec(dictionary);
+  if (!keyMatch) {
+    return undefined;
+  }
+
+  const valueStart = keyMatch.index + keyMatch[0].length;
+  const reference = /^(\d+)\s+\d+\s+R\b/.exec(dictionary.slice(valueStart));
+  if (reference) {
+    return objects.get(Number(reference[1]))?.dictionary;
+  }
+  if (!dictionary.startsWith('<<', valueStart)) {
+    return undefined;
+  }
+
+  let depth = 0;
+  for (let i = valueStart; i < dictionary.length - 1; i++) {
+    if (dictionary.startsWith('<<', i)) {
+      depth++;
+      i++;
+    } else if (dictionary.startsWith('>>', i)) {
+      depth--;
+      i++;
+      if (depth === 0) {
+        return dictionary.slice(valueStart, i + 1);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Page-sized images drawn on each page of a PDF, by page index. Images inside form XObjects
+ * are included. Only the images of pageIndexes (0-based) are decoded when given; other pages
+ * come back empty. Returns null when the page tree cannot be read, e.g. when it sits in a
+ * compressed object stream.
+ */
+export function extractPdfPageImages(pdfBuffer: Buffer, pageIndexes?: number[]): Buffer[][] | null {
+  const objects = readPdfObjects(pdfBuffer);
+  const wanted = pageIndexes && new Set(pageIndexes);
+  const budget: DecodeBudget = { remainingBytes: MAX_DECODED_IMAGE_BYTES };
+  const catalog = Array.from(objects.values()).find(object => /\/Type\s*\/Catalog\b/.test(object.dictionary));
+  const root = catalog?.dictionary.match(/\/Pages\s+(\d+)\s+\d+\s+R\b/)?.[1];
+  if (!root) {
+    return null;
+  }
+
+  const pages: Buffer[][] = [];
+  const visited = new Set<number>();
+
+  const collectImages = (resources: string | undefined, images: Buffer[], forms: Set<number>): void => {
+    const xObjects = resources && readDictionary(resources, 'XObject', objects);
+    for (const objectNumber of xObjects ? readReferences(xObjects) : []) {
+      const object = objects.get(objectNumber);
+      if (!object || forms.has(objectNumber)) {
+        continue;
+      }
+      if (/\/Subtype\s*\/Form\b/.test(object.dictionary)) {
+        forms.add(objectNumber);
+        collectImages(readDictionary(object.dictionary, 'Resources', objects), images, forms);
+        continue;
+      }
+      const image = readPageImage(object, budget);
+      if (image) {
+        images.push(image);
+      }
+    }
+  };
+
+  const visit = (objectNumber: number, inheritedResources: string | undefined): boolean => {
+    const node = objects.get(objectNumber);
+    if (!node || visited.has(objectNumber)) {
+      return false;
+    }
+    visited.add(objectNumber);
+
+    // Resources are inherited from the parent node unless the page has its own
+    const resources = readDictionary(node.dictionary, 'Resources', objects) ?? inheritedResources;
+    if (/\/Type\s*\/Pages\b/.test(node.dictionary)) {
+      const kids = node.dictionary.match(/\/Kids\s*\[([^\]]*)\]/)?.[1];
+      return kids !== undefined && readReferences(kids).every(kid => visit(kid, resources));
+    }
+
+    const images: Buffer[] = [];
+    if (!wanted || wanted.has(pages.length)) {
+      collectImages(resources, images, new Set());
+    }
+    pages.push(images);
+    return true;
+  };
+
+  return visit(Number(root), undefined) ? pages : null;
+}
+
+export class OcrService {
+  private engine: OcrEngine;
+
+  constructor(engine: OcrEngine = new TesseractOcrEngine()) {
+    this.engine = engine;
+  }
+
+  /**
+   * Recognise text in the scanned pages of an image-only PDF.
+   * Returns null when the PDF has no page images that can be decoded.
+   */
+  async recognizePdf(pdfBuffer: Buffer, fileName: string): Promise<OcrResult | null> {
+    const images = extractPdfImages(pdfBuffer);
+    if (images.length === 0) {
+      return null;
+    }
+
+    const pages: OcrPageResult[] = [];
+    for (const image of images) {
+      pages.push(await this.engine.recognize(image));
+    }
+
+    return this.combine(pages, fileName, 'recognizePdf');
+  }
+
+  /**
+   * Recognise text in the page images of the given pages (0-based) only, for PDFs that mix
+   * text pages with scanned ones. Images drawn on the same page are read as one page.
+   * Returns null when the page tree cannot be read; pages without decodable images are left out.
+   */
+  async recognizePdfPages(
+    pdfBuffer: Buffer,
+    fileName: string,
+    pageIndexes: number[]
+  ): Promise<{ pages: Map<number, OcrPageResult>; pagesProcessed: number } | null> {
+    const pageImages = extractPdfPageImages(pdfBuffer, pageIndexes);
+    if (!pageImages) {
+      return null;
+    }
+
+    const pages = new Map<number, OcrPageResult>();
+    for (const pageIndex of pageIndexes) {
+      const images = pageImages[pageIndex] || [];
+      if (images.length === 0) {
+        continue;
+      }
+
+      const results: OcrPageResult[] = [];
+      for (const image of images) {
+        results.push(await this.engine.recognize(image));
+      }
+      const { text, confidence } = this.combine(results, fileName, 'recognizePdfPages');
+      pages.set(pageIndex, { text, confidence });
+    }
+
+    return { pages, pagesProcessed: pages.size };
+  }
+
+  /**
+   * Join page results, weighting confidence by the length of the text recognised on each page
+   */
+  private combine(pages: OcrPageResult[], fileName: string, operation: string): OcrResult {
+    const text = pages.map(page => page.text.trim()).filter(Boolean).join('\n\n');
+    const textLength = pages.reduce((sum, page) => sum + page.text.trim().length, 0);
+    const confidence = textLength > 0
+      ? pages.reduce((sum, page) => sum + page.confidence * page.text.trim().length, 0) / textLength
+      : 0;
+
+    logger.info(`OCR processed ${pages.length} page image(s) for ${fileName}`, {
+      service: 'ocr',
+      operation,
+      confidence: Math.round(confidence),
+    });
+
+    return { text, confidence: Math.round(confidence * 10) / 10, pagesProcessed: pages.length };
+  }
+
+  async shutdown(): Promise<void> {
+    await this.engine.terminate();
+  }
+}
+
+export const ocrService = new OcrService();
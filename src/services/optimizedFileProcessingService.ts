@@ -2,10 +2,10 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as stream from 'stream';
 import { promisify } from 'util';
-import pdfParse from 'pdf-parse';
 import { logger } from '../utils/logger';
 import { memoryManagementService } from './memoryManagementService';
 import { cachingService } from './cachingService';
+import { textExtractorRegistry, TextExtractionResult } from './textExtractionService';
 
 const pipeline = promisify(stream.pipeline);
 
@@ -21,6 +21,7 @@ export interface ProcessingResult {
   fileName: string;
   success: boolean;
   extractedText?: string;
+  extractorUsed?: string;
   contactInfo?: {
     phone?: string;
     email?: string;
@@ -85,7 +86,7 @@ export class OptimizedFileProcessingService {
   /**
    * Process a batch of files with optimized memory usage
    */
-  async processBatch(files: Array<{ name: string; buffer: Buffer }>): Promise<{
+  async processBatch(files: Array<{ name: string; buffer: Buffer; mimeType?: string }>): Promise<{
     results: ProcessingResult[];
     stats: BatchProcessingStats;
   }> {
@@ -170,15 +171,15 @@ export class OptimizedFileProcessingService {
   /**
    * Process a chunk of files concurrently
    */
-  private async processChunk(files: Array<{ name: string; buffer: Buffer }>): Promise<ProcessingResult[]> {
-    const promises = files.map(file => this.processFile(file.name, file.buffer));
+  private async processChunk(files: Array<{ name: string; buffer: Buffer; mimeType?: string }>): Promise<ProcessingResult[]> {
+    const promises = files.map(file => this.processFile(file.name, file.buffer, file.mimeType));
     return Promise.all(promises);
   }
 
   /**
    * Process a single file with optimizations
    */
-  async processFile(fileName: string, buffer: Buffer): Promise<ProcessingResult> {
+  async processFile(fileName: string, buffer: Buffer, mimeType?: string): Promise<ProcessingResult> {
     const startTime = Date.now();
     const fileSize = buffer.length;
 
@@ -208,20 +209,22 @@ export class OptimizedFileProcessingService {
     }
 
     try {
-      let extractedText: string;
+      let extraction: TextExtractionResult;
 
       if (this.options.useStreaming && fileSize > this.options.chunkSize) {
-        extractedText = await this.processFileStreaming(fileName, buffer);
+        extraction = await this.processFileStreaming(fileName, buffer, mimeType);
       } else {
-        extractedText = await this.processFileInMemory(buffer);
+        extraction = await this.processFileInMemory(fileName, buffer, mimeType);
       }
 
+      const extractedText = extraction.text;
       const contactInfo = this.extractContactInformation(extractedText);
       
       const result: ProcessingResult = {
         fileName,
         success: true,
         extractedText,
+        extractorUsed: extraction.extractor,
         contactInfo,
         fileSize,
         processingTime: Date.now() - startTime
@@ -252,7 +255,7 @@ export class OptimizedFileProcessingService {
   /**
    * Process file using streaming for large files
    */
-  private async processFileStreaming(fileName: string, buffer: Buffer): Promise<string> {
+  private async processFileStreaming(fileName: string, buffer: Buffer, mimeType?: string): Promise<TextExtractionResult> {
     const tempFilePath = path.join(this.options.tempDirectory, `temp_${Date.now()}_${fileName}`);
     
     try {
@@ -282,9 +285,7 @@ export class OptimizedFileProcessingService {
       
       // Combine chunks and parse
       const combinedBuffer = Buffer.concat(chunks);
-      const pdfData = await pdfParse(combinedBuffer);
-      
-      return pdfData.text;
+      return await textExtractorRegistry.extract(combinedBuffer, fileName, mimeType);
       
     } finally {
       // Clean up temp file
@@ -299,9 +300,8 @@ export class OptimizedFileProcessingService {
   /**
    * Process file in memory for smaller files
    */
-  private async processFileInMemory(buffer: Buffer): Promise<string> {
-    const pdfData = await pdfParse(buffer);
-    return pdfData.text;
+  private async processFileInMemory(fileName: string, buffer: Buffer, mimeType?: string): Promise<TextExtractionResult> {
+    return textExtractorRegistry.extract(buffer, fileName, mimeType);
   }
 
   /**
@@ -0,0 +1,226 @@
+import { ProfileConsistency, ProfileDiscrepancy, WorkExperience } from '../models/interfaces';
+import { normalizeCompanyName } from './companyCatalogService';
+import { LinkedInProfileData } from './linkedInAnalysisService';
+import { countCoveredMonths, parseResumeDate, toEmploymentInterval } from './resumeSectionParser';
+
+type LinkedInRole = NonNullable<LinkedInProfileData['experience']>[number];
+
+// Resume tenure may exceed LinkedIn's by this many months before it counts as inflated
+const TENURE_TOLERANCE_MONTHS = 3;
+// Extra slack when either side gives only years, so "2018 - 2020" and "Jan 2018 - Dec 2020" agree
+const YEAR_PRECISION_TOLERANCE_MONTHS = 11;
+
+const SEVERITY_PENALTY: { [severity in ProfileDiscrepancy['severity']]: number } = {
+  high: 30,
+  medium: 15,
+  low: 5,
+};
+
+// Seniority implied by a title; roles without any of these words rank 2
+const SENIORITY_LEVELS: Array<{ rank: number; pattern: RegExp }> = [
+  { rank: 6, pattern: /\b(vp|vice president|chief|cto|ceo|cio|coo|cfo|founder|co-founder)\b/ },
+  { rank: 5, pattern: /\b(director|head)\b/ },
+  { rank: 4, pattern: /\b(lead|staff|principal|architect)\b/ },
+  { rank: 3, pattern: /\b(senior|sr)\b/ },
+  { rank: 1, pattern: /\b(junior|jr|associate|graduate|entry)\b/ },
+  { rank: 0, pattern: /\b(intern|internship|trainee|apprentice|student)\b/ },
+];
+const TITLE_NOISE_WORDS = new Set([
+  'senior', 'sr', 'junior', 'jr', 'lead', 'staff', 'principal', 'associate', 'graduate', 'entry', 'level',
+  'i', 'ii', 'iii', 'iv', 'of', 'and', 'the', 'for', 'in', 'at', 'a',
+]);
+
+function isSameCompany(a: string, b: string): boolean {
+  if (!a || !b) {
+    return false;
+  }
+  // "Acme" matches "Acme Cloud Services" but "Meta" does not match "Metaview"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return longer === shorter || longer.startsWith(`${shorter} `);
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\bsr\.?(?=\s)/g, 'senior').replace(/[^a-z0-9 -]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function seniorityRank(title: string): number {
+  return SENIORITY_LEVELS.find(level => level.pattern.test(title))?.rank ?? 2;
+}
+
+function titleWords(title: string): string[] {
+  return title.split(/[\s-]+/).filter(word => word.length > 0 && !TITLE_NOISE_WORDS.has(word));
+}
+
+/**
+ * Titles name the same role when their words, seniority aside, mostly overlap
+ */
+function isSimilarTitle(a: string, b: string): boolean {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) {
+    return wordsA.length === wordsB.length;
+  }
+  const shared = wordsA.filter(word => wordsB.includes(word)).length;
+  return shared >= Math.ceil(Math.min(wordsA.length, wordsB.length) / 2);
+}
+
+function formatMonths(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [
+    years > 0 ? `${years} year${years === 1 ? '' : 's'}` : '',
+    rest > 0 || years === 0 ? `${rest} month${rest === 1 ? '' : 's'}` : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+interface Tenure {
+  months: number;
+  yearPrecision: boolean; // Some date gave only a year
+}
+
+function resumeTenure(roles: WorkExperience[], referenceMonth: number): Tenure | undefined {
+  const dated = roles.filter(role => role.startDate && (role.endDate || role.isCurrent));
+  if (dated.length === 0) {
+    return undefined;
+  }
+  return {
+    months: countCoveredMonths(dated.map(role =>
+      toEmploymentInterval(role.startDate!, role.isCurrent ? undefined : role.endDate, referenceMonth))),
+    yearPrecision: dated.some(role => !role.startDate!.includes('-') || (role.endDate && !role.endDate.includes('-'))),
+  };
+}
+
+/**
+ * Time at a company on LinkedIn, from the roles' dates, or else their durations ("2 yrs 3 mos")
+ */
+function linkedInTenure(roles: LinkedInRole[], referenceMonth: number): Tenure | undefined {
+  const intervals: Array<{ start: number; end: number }> = [];
+  let durationMonths = 0;
+  let yearPrecision = false;
+
+  for (const role of roles) {
+    const startDate = role.startDate ? parseResumeDate(role.startDate) : undefined;
+    const isCurrent = !role.endDate || /^(present|current|now)$/i.test(role.endDate.trim());
+    const endDate = role.endDate && !isCurrent ? parseResumeDate(role.endDate) : undefined;
+
+    if (startDate && (isCurrent || endDate)) {
+      intervals.push(toEmploymentInterval(startDate, endDate, referenceMonth));
+      yearPrecision = yearPrecision || !startDate.includes('-') || (!!endDate && !endDate.includes('-'));
+      continue;
+    }
+
+    const years = /(\d+)\s*(?:years?|yrs?)\b/i.exec(role.duration || '')?.[1];
+    const months = /(\d+)\s*(?:months?|mos?)\b/i.exec(role.duration || '')?.[1];
+    if (!years && !months) {
+      return undefined;
+    }
+    durationMonths += parseInt(years || '0', 10) * 12 + parseInt(months || '0', 10);
+  }
+
+  return { months: countCoveredMonths(intervals) + durationMonths, yearPrecision };
+}
+
+function missingEmployerSeverity(tenure: Tenure | undefined): ProfileDiscrepancy['severity'] {
+  if (!tenure) {
+    return 'medium';
+  }
+  return tenure.months >= 24 ? 'high' : tenure.months >= 6 ? 'medium' : 'low';
+}
+
+/**
+ * Reconcile the work history parsed from a resume with the LinkedIn experience. Each resume
+ * employer is looked up on LinkedIn and flagged when it is missing, when the resume claims more
+ * time there, or when a resume title matches no LinkedIn title at that employer. Employers only
+ * on LinkedIn are not flagged, since resumes are often shortened.
+ *
+ * Returns undefined when either side lists no employers, as there is nothing to compare.
+ */
+export function checkProfileConsistency(
+  workHistory: WorkExperience[],
+  linkedInExperience: LinkedInRole[],
+  referenceDate: Date = new Date()
+): ProfileConsistency | undefined {
+  const referenceMonth = referenceDate.getFullYear() * 12 + referenceDate.getMonth();
+  const linkedInRoles = linkedInExperience
+    .map(role => ({ role, company: normalizeCompanyName(role.company || '') }))
+    .filter(entry => entry.company);
+
+  // Roles at the same employer are compared together, so a promotion is not read as a gap
+  const employers = new Map<string, WorkExperience[]>();
+  for (const role of workHistory) {
+    const company = role.company ? normalizeCompanyName(role.company) : '';
+    if (company) {
+      employers.set(company, [...(employers.get(company) || []), role]);
+    }
+  }
+  if (employers.size === 0 || linkedInRoles.length === 0) {
+    return undefined;
+  }
+
+  const discrepancies: ProfileDiscrepancy[] = [];
+  for (const [company, roles] of employers) {
+    const companyName = roles[0]!.company!;
+    const matches = linkedInRoles.filter(entry => isSameCompany(company, entry.company)).map(entry => entry.role);
+    const tenure = resumeTenure(roles, referenceMonth);
+
+    if (matches.length === 0) {
+      discrepancies.push({
+        type: 'missing-employer',
+        severity: missingEmployerSeverity(tenure),
+        company: companyName,
+        ...(tenure && { resumeValue: formatMonths(tenure.months) }),
+        detail: `${companyName} is on the resume${tenure ? ` for ${formatMonths(tenure.months)}` : ''} but not on LinkedIn`,
+      });
+      continue;
+    }
+
+    const onLinkedIn = linkedInTenure(matches, referenceMonth);
+    if (tenure && onLinkedIn) {
+      const excess = tenure.months - onLinkedIn.months;
+      const tolerance = TENURE_TOLERANCE_MONTHS +
+        (tenure.yearPrecision || onLinkedIn.yearPrecision ? YEAR_PRECISION_TOLERANCE_MONTHS : 0);
+      if (excess > tolerance) {
+        discrepancies.push({
+          type: 'inflated-tenure',
+          severity: excess >= 12 + tolerance ? 'high' : excess >= 6 + tolerance ? 'medium' : 'low',
+          company: companyName,
+          resumeValue: formatMonths(tenure.months),
+          linkedInValue: formatMonths(onLinkedIn.months),
+          detail: `The resume claims ${formatMonths(tenure.months)} at ${companyName}; LinkedIn shows ${formatMonths(onLinkedIn.months)}`,
+        });
+      }
+    }
+
+    const linkedInTitles = matches.map(role => normalizeTitle(role.title || ''));
+    const highestLinkedInRank = Math.max(...linkedInTitles.map(seniorityRank));
+    for (const role of roles.filter(role => role.title)) {
+      const title = normalizeTitle(role.title);
+      const rank = seniorityRank(title);
+      const similar = linkedInTitles.some(linkedInTitle => isSimilarTitle(title, linkedInTitle));
+      if (similar && rank <= highestLinkedInRank) {
+        continue;
+      }
+
+      const linkedInValue = matches.map(match => match.title).filter(Boolean).join(', ');
+      discrepancies.push({
+        type: 'title-mismatch',
+        // A more senior title than any held there on LinkedIn matters more than different wording
+        severity: rank > highestLinkedInRank ? 'high' : 'low',
+        company: companyName,
+        resumeValue: role.title,
+        ...(linkedInValue && { linkedInValue }),
+        detail: rank > highestLinkedInRank
+          ? `The resume title "${role.title}" at ${companyName} is more senior than LinkedIn's "${linkedInValue}"`
+          : `The resume title "${role.title}" at ${companyName} does not match LinkedIn's "${linkedInValue}"`,
+      });
+    }
+  }
+
+  const penalty = discrepancies.reduce((sum, discrepancy) => sum + SEVERITY_PENALTY[discrepancy.severity], 0);
+  return {
+    score: Math.max(0, 100 - penalty),
+    comparedEmployers: employers.size,
+    discrepancies,
+  };
+}
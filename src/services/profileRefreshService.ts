@@ -0,0 +1,151 @@
+// Refetching and reanalysis of candidates' LinkedIn and GitHub profiles
+import { CandidateModel } from '../models/schemas';
+import { GitHubAnalysis, JobProfile, LinkedInAnalysis, ProfileSnapshotSource } from '../models/interfaces';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+
+export const PROFILE_SOURCES: ProfileSnapshotSource[] = ['linkedin', 'github'];
+
+export interface ProfileRefreshResult {
+  linkedInAnalysis?: LinkedInAnalysis;
+  githubAnalysis?: GitHubAnalysis;
+}
+
+export class ProfileRefreshService {
+
+  /**
+   * Fetch the candidate's profiles again, ignoring stored snapshots, and store the new analyses.
+   * Sources the candidate has no profile for are skipped. Returns null when the candidate does not exist.
+   */
+  async refreshCandidateProfiles(
+    candidateId: string,
+    jobProfile: JobProfile,
+    sources: ProfileSnapshotSource[] = PROFILE_SOURCES
+  ): Promise<ProfileRefreshResult | null> {
+    const candidate = await CandidateModel.findById(candidateId).select('+linkedInProfileAttachment');
+    if (!candidate) {
+      return null;
+    }
+
+    const { contactInfo } = candidate.resumeData;
+    const { linkedInAnalysisService, githubAnalysisService } = await this.loadAnalysisServices();
+    const result: ProfileRefreshResult = {};
+
+    if (sources.includes('linkedin') && (contactInfo.linkedInUrl || candidate.linkedInProfileAttachment)) {
+      result.linkedInAnalysis = await linkedInAnalysisService.analyzeLinkedInProfile(
+        candidate.id,
+        contactInfo.linkedInUrl,
+        jobProfile,
+        candidate.linkedInProfileAttachment,
+        candidate.resumeData,
+        { refresh: true }
+      );
+      candidate.linkedInAnalysis = result.linkedInAnalysis;
+    }
+
+    if (sources.includes('github') && contactInfo.githubUrl) {
+      result.githubAnalysis = await githubAnalysisService.analyzeGitHubProfile(
+        candidate.id,
+        contactInfo.githubUrl,
+        jobProfile,
+        contactInfo.projectUrls,
+        { refresh: true }
+      );
+      candidate.githubAnalysis = result.githubAnalysis;
+    }
+
+    await candidate.save();
+    return result;
+  }
+
+  /**
+   * The candidates scored against a job profile, whose scores a change to it affects
+   */
+  async getScoredCandidateIds(jobProfileId: string): Promise<string[]> {
+    if (!database.isDbConnected()) {
+      return [];
+    }
+
+    const candidates = await CandidateModel.find({ 'finalScore.jobProfileId': jobProfileId }).select('_id').lean();
+    return candidates.map(candidate => candidate._id.toString());
+  }
+
+  /**
+   * Recompute a candidate's LinkedIn and GitHub analyses for a changed job profile, from their
+   * stored snapshots or attached LinkedIn profile; nothing is fetched. Analyses that cannot be
+   * recomputed, e.g. because their snapshot is gone, are kept. Returns whether any was updated.
+   */
+  async reanalyzeCandidate(candidateId: string, jobProfile: JobProfile): Promise<boolean> {
+    const candidate = await CandidateModel.findById(candidateId).select('+linkedInProfileAttachment');
+    if (!candidate) {
+      return false;
+    }
+
+    const linkedInAnalysis = await this.reanalyzeLinkedIn(candidate, jobProfile);
+    const githubAnalysis = await this.reanalyzeGitHub(candidate, jobProfile);
+
+    if (linkedInAnalysis?.profileAccessible) {
+      candidate.linkedInAnalysis = linkedInAnalysis;
+    }
+    if (githubAnalysis?.analyzedAt) {
+      candidate.githubAnalysis = githubAnalysis;
+    }
+    if (!linkedInAnalysis?.profileAccessible && !githubAnalysis?.analyzedAt) {
+      return false;
+    }
+
+    await candidate.save();
+
+    logger.info('Reanalyzed candidate profiles for job profile', {
+      service: 'profileRefresh',
+      operation: 'reanalyzeCandidate',
+      candidateId,
+      jobProfileId: jobProfile.id,
+      linkedIn: linkedInAnalysis?.profileAccessible === true,
+      github: githubAnalysis?.analyzedAt !== undefined
+    });
+
+    return true;
+  }
+
+  private async reanalyzeLinkedIn(candidate: any, jobProfile: JobProfile): Promise<LinkedInAnalysis | undefined> {
+    const previous: LinkedInAnalysis | undefined = candidate.linkedInAnalysis;
+    const { linkedInAnalysisService } = await this.loadAnalysisServices();
+
+    if (previous?.snapshot) {
+      return linkedInAnalysisService.analyzeLinkedInProfile(
+        candidate.id, undefined, jobProfile, undefined, candidate.resumeData, { snapshotId: previous.snapshot.id });
+    }
+
+    // An attached profile is read again; without a URL the scraper is not tried
+    if (previous?.dataSource && previous.dataSource !== 'scraper' && candidate.linkedInProfileAttachment) {
+      return linkedInAnalysisService.analyzeLinkedInProfile(
+        candidate.id, undefined, jobProfile, candidate.linkedInProfileAttachment, candidate.resumeData);
+    }
+
+    return undefined;
+  }
+
+  private async reanalyzeGitHub(candidate: any, jobProfile: JobProfile): Promise<GitHubAnalysis | undefined> {
+    const previous: GitHubAnalysis | undefined = candidate.githubAnalysis;
+    if (!previous?.snapshot) {
+      return undefined;
+    }
+
+    const { contactInfo } = candidate.resumeData;
+    const { githubAnalysisService } = await this.loadAnalysisServices();
+    return githubAnalysisService.analyzeGitHubProfile(
+      candidate.id, contactInfo.githubUrl || '', jobProfile, contactInfo.projectUrls, { snapshotId: previous.snapshot.id });
+  }
+
+  private async loadAnalysisServices() {
+    // Import the analysis services dynamically to avoid circular dependency through the queue processors
+    const [{ linkedInAnalysisService }, { githubAnalysisService }] = await Promise.all([
+      import('./linkedInAnalysisService'),
+      import('./githubAnalysisService'),
+    ]);
+    return { linkedInAnalysisService, githubAnalysisService };
+  }
+}
+
+export const profileRefreshService = new ProfileRefreshService();
@@ -0,0 +1,138 @@
+// Stored LinkedIn and GitHub profile payloads
+import { ProfileSnapshotModel } from '../models/schemas';
+import { ProfileSnapshot, ProfileSnapshotRef, ProfileSnapshotSource } from '../models/interfaces';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Whether an analysis may use a stored profile snapshot
+ */
+export interface ProfileFetchOptions {
+  refresh?: boolean; // Fetch the profile even when a fresh snapshot is stored
+  snapshotId?: string; // Analyze this stored snapshot and never fetch
+}
+
+/**
+ * Key a LinkedIn profile by its URL without scheme, "www.", query or trailing slash
+ */
+export function normalizeLinkedInProfileKey(linkedInUrl: string): string {
+  return linkedInUrl.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+}
+
+export function toSnapshotRef(snapshot: ProfileSnapshot, reused: boolean): ProfileSnapshotRef {
+  return { id: snapshot.id, fetchedAt: snapshot.fetchedAt, reused };
+}
+
+/**
+ * Keeps every fetch of an external profile, so that repeat analyses within the source's max age
+ * reuse the latest one and each analysis can point at the exact data it was computed from.
+ * Without a database nothing is stored and profiles are always fetched.
+ */
+export class ProfileSnapshotService {
+
+  /**
+   * Hours a snapshot of the source is reused for; 0 turns reuse off
+   */
+  getMaxAgeHours(source: ProfileSnapshotSource): number {
+    return source === 'linkedin' ? config.linkedIn.snapshotMaxAgeHours : config.github.snapshotMaxAgeHours;
+  }
+
+  /**
+   * Latest snapshot of the profile if it is younger than the source's max age
+   */
+  async getFreshSnapshot(source: ProfileSnapshotSource, profileKey: string, now: Date = new Date()): Promise<ProfileSnapshot | null> {
+    const maxAgeHours = this.getMaxAgeHours(source);
+    if (!(maxAgeHours > 0) || !database.isDbConnected()) {
+      return null;
+    }
+
+    try {
+      const doc = await ProfileSnapshotModel.findOne({
+        source,
+        profileKey,
+        fetchedAt: { $gte: new Date(now.getTime() - maxAgeHours * 60 * 60 * 1000) }
+      }).sort({ fetchedAt: -1 }).lean();
+
+      return doc ? this.toProfileSnapshot(doc) : null;
+    } catch (error) {
+      this.logStoreError('getFreshSnapshot', source, error);
+      return null;
+    }
+  }
+
+  async getSnapshot(id: string): Promise<ProfileSnapshot | null> {
+    if (!database.isDbConnected() || !/^[0-9a-fA-F]{24}$/.test(id)) {
+      return null;
+    }
+
+    try {
+      const doc = await ProfileSnapshotModel.findById(id).lean();
+      return doc ? this.toProfileSnapshot(doc) : null;
+    } catch (error) {
+      this.logStoreError('getSnapshot', undefined, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a freshly fetched profile; returns null when it could not be stored
+   */
+  async saveSnapshot(source: ProfileSnapshotSource, profileKey: string, payload: unknown): Promise<ProfileSnapshot | null> {
+    if (!database.isDbConnected()) {
+      return null;
+    }
+
+    try {
+      const doc = await ProfileSnapshotModel.create({ source, profileKey, payload, fetchedAt: new Date() });
+      return this.toProfileSnapshot(doc.toObject());
+    } catch (error) {
+      this.logStoreError('saveSnapshot', source, error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace a snapshot's payload with one that only adds data, such as activity of further
+   * repositories; fetchedAt is kept, so the snapshot does not look newer than its profile
+   */
+  async extendSnapshot(id: string, payload: unknown): Promise<void> {
+    if (!database.isDbConnected()) {
+      return;
+    }
+
+    try {
+      await ProfileSnapshotModel.updateOne({ _id: id }, { $set: { payload } });
+    } catch (error) {
+      this.logStoreError('extendSnapshot', undefined, error);
+    }
+  }
+
+  private logStoreError(operation: string, source: ProfileSnapshotSource | undefined, error: unknown): void {
+    logger.warn('Profile snapshot store unavailable', {
+      service: 'profileSnapshot',
+      operation,
+      source,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Convert MongoDB document to ProfileSnapshot interface
+   */
+  private toProfileSnapshot(doc: any): ProfileSnapshot {
+    return {
+      id: doc._id.toString(),
+      source: doc.source,
+      profileKey: doc.profileKey,
+      payload: doc.payload,
+      fetchedAt: doc.fetchedAt,
+    };
+  }
+}
+
+export const profileSnapshotService = new ProfileSnapshotService();
@@ -0,0 +1,404 @@
+// Prompt Template Management Service
+import { Types } from 'mongoose';
+import { PromptTemplateModel } from '../models/schemas';
+import { PromptTemplate, PromptTemplateKind, PromptTemplateSelection } from '../models/interfaces';
+import { database, DatabaseError, handleMongoError } from '../utils/database';
+
+export interface CreatePromptTemplateRequest {
+  kind: PromptTemplateKind;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  body: string;
+}
+
+export interface CreatePromptTemplateVersionRequest {
+  name?: string;
+  description?: string;
+  systemPrompt?: string;
+  body: string;
+}
+
+export interface PromptTemplateFilters {
+  kind?: PromptTemplateKind;
+  templateId?: string;
+  active?: boolean;
+}
+
+/**
+ * Placeholders each kind of template may use, e.g. {{jobProfile.title}}
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateKind, string[]> = {
+  'resume-analysis': [
+    'jobProfile.title',
+    'jobProfile.description',
+    'jobProfile.requiredSkills',
+    'jobProfile.experienceLevel',
+    'resumeText',
+    'resumeSummary',
+  ],
+  'interview-analysis': [
+    'jobProfile.title',
+    'jobProfile.description',
+    'jobProfile.requiredSkills',
+    'jobProfile.experienceLevel',
+    'jobProfile.interviewQuestions',
+    'interviewSession.duration',
+    'interviewSession.callQuality',
+    'transcript',
+  ],
+};
+
+const RESUME_ANALYSIS_BODY = `
+Please analyze the following resume against the job requirements and provide a structured assessment.
+
+JOB PROFILE:
+Title: {{jobProfile.title}}
+Description: {{jobProfile.description}}
+Required Skills: {{jobProfile.requiredSkills}}
+Experience Level: {{jobProfile.experienceLevel}}
+{{resumeSummary}}
+RESUME TEXT:
+{{resumeText}}
+
+Please provide your analysis in the following JSON format:
+{
+  "relevanceScore": <number between 0-100>,
+  "skillsMatch": {
+    "matched": ["skill1", "skill2", ...],
+    "missing": ["skill3", "skill4", ...]
+  },
+  "experienceAssessment": "<detailed assessment of candidate's experience relevance>",
+  "reasoning": "<detailed explanation of the score and assessment>",
+  "confidence": <number between 0-100 indicating confidence in the analysis>
+}
+
+ANALYSIS GUIDELINES:
+1. Relevance Score (0-100): Overall match between candidate and job requirements
+2. Skills Match: Identify which required skills are demonstrated vs missing
+3. Experience Assessment: Evaluate years of experience, role progression, and relevance
+4. Reasoning: Provide clear justification for scores and recommendations
+5. Confidence: Rate your confidence in the analysis based on resume quality and clarity
+
+Focus on:
+- Technical skills alignment
+- Experience level appropriateness
+- Industry/domain relevance
+- Career progression indicators
+- Education alignment (if specified)
+
+Respond ONLY with the JSON object, no additional text.
+`;
+
+const INTERVIEW_ANALYSIS_BODY = `
+INTERVIEW TRANSCRIPT ANALYSIS REQUEST
+
+JOB PROFILE:
+- Title: {{jobProfile.title}}
+- Required Skills: {{jobProfile.requiredSkills}}
+- Experience Level: {{jobProfile.experienceLevel}}
+- Description: {{jobProfile.description}}
+
+INTERVIEW DETAILS:
+- Duration: {{interviewSession.duration}}
+- Call Quality: {{interviewSession.callQuality}}
+- Interview Questions: {{jobProfile.interviewQuestions}}
+
+TRANSCRIPT:
+{{transcript}}
+
+ANALYSIS REQUIREMENTS:
+Please analyze this interview transcript and provide a comprehensive evaluation in the following JSON format:
+
+{
+  "performanceScore": [0-100 overall interview performance],
+  "communicationScore": [0-100 communication clarity and professionalism],
+  "technicalScore": [0-100 technical knowledge and competency],
+  "competencyScores": {
+    [For each required skill, provide a score 0-100]
+  },
+  "needsManualReview": [true/false - flag if transcript quality is poor or responses are unclear],
+  "detailedFeedback": {
+    "strengths": ["List of candidate strengths observed"],
+    "weaknesses": ["List of areas for improvement"],
+    "recommendations": ["Specific recommendations for hiring decision"]
+  },
+  "responseAnalysis": [
+    {
+      "question": "Question asked",
+      "response": "Candidate's response summary",
+      "score": [0-100],
+      "feedback": "Specific feedback on this response"
+    }
+  ],
+  "overallAssessment": "Comprehensive summary of the candidate's interview performance",
+  "confidence": [0-100 confidence in this analysis based on transcript quality and response clarity]
+}
+
+EVALUATION CRITERIA:
+1. Technical Accuracy: How well does the candidate demonstrate knowledge of required skills?
+2. Communication Skills: Clarity, professionalism, and ability to articulate thoughts
+3. Problem-Solving: Approach to challenges and technical questions
+4. Experience Relevance: How well their experience aligns with job requirements
+5. Cultural Fit: Professional demeanor and communication style
+6. Response Quality: Depth and thoughtfulness of answers
+
+SCORING GUIDELINES:
+- 90-100: Exceptional performance, strong hire recommendation
+- 80-89: Good performance, hire recommendation
+- 70-79: Adequate performance, maybe hire
+- 60-69: Below expectations, likely no hire
+- 0-59: Poor performance, no hire
+
+Please ensure your response is valid JSON format and includes all required fields.
+`;
+
+/**
+ * Version 1 of the default template for each kind. Used until another version is stored and activated,
+ * and whenever the database is unavailable.
+ */
+export const BUILTIN_PROMPT_TEMPLATES: Record<PromptTemplateKind, PromptTemplate> = {
+  'resume-analysis': {
+    templateId: 'resume-analysis',
+    version: 1,
+    kind: 'resume-analysis',
+    name: 'Resume analysis',
+    description: 'Built-in resume analysis prompt',
+    systemPrompt: 'You are an expert HR analyst specializing in resume evaluation and candidate assessment.',
+    body: RESUME_ANALYSIS_BODY,
+    active: true,
+    createdAt: new Date(0),
+  },
+  'interview-analysis': {
+    templateId: 'interview-analysis',
+    version: 1,
+    kind: 'interview-analysis',
+    name: 'Interview analysis',
+    description: 'Built-in interview transcript analysis prompt',
+    systemPrompt: 'You are an expert HR analyst specializing in interview evaluation and candidate assessment. You analyze interview transcripts to evaluate candidates against job requirements.',
+    body: INTERVIEW_ANALYSIS_BODY,
+    active: true,
+    createdAt: new Date(0),
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Replace {{path.to.value}} placeholders. Missing values render as empty text.
+ */
+export function renderPromptTemplate(body: string, variables: Record<string, unknown>): string {
+  return body.replace(PLACEHOLDER, (_, path: string) => {
+    const value = path.split('.').reduce<any>((scope, key) => scope?.[key], variables);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Placeholders in a template body that the kind does not provide
+ */
+export function findUnknownVariables(kind: PromptTemplateKind, body: string): string[] {
+  const known = PROMPT_TEMPLATE_VARIABLES[kind];
+  const used = Array.from(body.matchAll(PLACEHOLDER), match => match[1]!);
+  return Array.from(new Set(used.filter(name => !known.includes(name))));
+}
+
+export class PromptTemplateService {
+  /**
+   * List template versions, newest first within each template. Built-in versions that were
+   * never stored are included.
+   */
+  async listTemplates(filters: PromptTemplateFilters = {}): Promise<PromptTemplate[]> {
+    try {
+      const query: any = {};
+      if (filters.kind) query.kind = filters.kind;
+      if (filters.templateId) query.templateId = filters.templateId;
+
+      const docs = await PromptTemplateModel.find(query).sort({ templateId: 1, version: -1 }).lean();
+      const templates = await this.withBuiltins(docs.map(doc => this.toPromptTemplate(doc)), filters);
+
+      return filters.active === undefined ? templates : templates.filter(t => t.active === filters.active);
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Get a specific version of a template, or its active version
+   */
+  async getTemplate(templateId: string, version?: number): Promise<PromptTemplate | null> {
+    try {
+      const doc = version !== undefined
+        ? await PromptTemplateModel.findOne({ templateId, version }).lean()
+        : await PromptTemplateModel.findOne({ templateId, active: true }).sort({ activatedAt: -1 }).lean();
+
+      return doc ? this.toPromptTemplate(doc) : this.getBuiltinTemplate(templateId, version);
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Create a template. Its first version is active straight away.
+   */
+  async createTemplate(data: CreatePromptTemplateRequest): Promise<PromptTemplate> {
+    this.validateVariables(data.kind, data.body);
+
+    try {
+      const template = new PromptTemplateModel({
+        ...data,
+        templateId: new Types.ObjectId().toString(),
+        version: 1,
+        active: true,
+        createdAt: new Date(),
+        activatedAt: new Date()
+      });
+
+      return this.toPromptTemplate((await template.save()).toObject());
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Add a version to a template. Unset fields are copied from the latest version.
+   * The new version is inactive until activated.
+   */
+  async createVersion(templateId: string, data: CreatePromptTemplateVersionRequest): Promise<PromptTemplate | null> {
+    const [latest] = await this.listTemplates({ templateId });
+    if (!latest) {
+      return null;
+    }
+
+    this.validateVariables(latest.kind, data.body);
+
+    try {
+      const template = new PromptTemplateModel({
+        templateId,
+        version: latest.version + 1,
+        kind: latest.kind,
+        name: data.name ?? latest.name,
+        description: data.description ?? latest.description,
+        systemPrompt: data.systemPrompt ?? latest.systemPrompt,
+        body: data.body,
+        active: false,
+        createdAt: new Date()
+      });
+
+      return this.toPromptTemplate((await template.save()).toObject());
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Make a version the one used by job profiles that do not pin a version
+   */
+  async activateVersion(templateId: string, version: number): Promise<PromptTemplate | null> {
+    try {
+      let template = await PromptTemplateModel.findOne({ templateId, version });
+      if (!template) {
+        // Going back to a built-in version stores it, so it can be marked active
+        const builtin = this.getBuiltinTemplate(templateId, version);
+        if (!builtin) {
+          return null;
+        }
+        template = new PromptTemplateModel(builtin);
+      }
+
+      template.active = true;
+      template.activatedAt = new Date();
+      await template.save();
+
+      // Activate first and deactivate after, so there is never a moment without an active version
+      await PromptTemplateModel.updateMany(
+        { templateId, version: { $ne: version } },
+        { $set: { active: false } }
+      );
+
+      return this.toPromptTemplate(template.toObject());
+    } catch (error) {
+      throw handleMongoError(error);
+    }
+  }
+
+  /**
+   * Template an analysis should use: the job profile's selection, or the active default for the kind
+   */
+  async resolveTemplate(kind: PromptTemplateKind, selection?: PromptTemplateSelection): Promise<PromptTemplate> {
+    const templateId = selection?.templateId ?? kind;
+    const template = database.isDbConnected()
+      ? await this.getTemplate(templateId, selection?.version)
+      : this.getBuiltinTemplate(templateId, selection?.version);
+
+    if (!template) {
+      const version = selection?.version !== undefined ? ` version ${selection.version}` : '';
+      throw new Error(`Prompt template not found: ${templateId}${version}`);
+    }
+    if (template.kind !== kind) {
+      throw new Error(`Prompt template ${templateId} is for ${template.kind}, not ${kind}`);
+    }
+
+    return template;
+  }
+
+  getBuiltinTemplate(templateId: string, version?: number): PromptTemplate | null {
+    const builtin = BUILTIN_PROMPT_TEMPLATES[templateId as PromptTemplateKind];
+    if (!builtin || (version !== undefined && version !== builtin.version)) {
+      return null;
+    }
+    return { ...builtin };
+  }
+
+  /**
+   * Add built-in versions that are not stored. A built-in version is active unless a stored version is.
+   */
+  private async withBuiltins(templates: PromptTemplate[], filters: PromptTemplateFilters): Promise<PromptTemplate[]> {
+    const result = [...templates];
+
+    for (const builtin of Object.values(BUILTIN_PROMPT_TEMPLATES)) {
+      if ((filters.kind && builtin.kind !== filters.kind) ||
+          (filters.templateId && builtin.templateId !== filters.templateId) ||
+          templates.some(t => t.templateId === builtin.templateId && t.version === builtin.version)) {
+        continue;
+      }
+
+      const storedActive = await PromptTemplateModel.exists({ templateId: builtin.templateId, active: true });
+      result.push({ ...builtin, active: !storedActive });
+    }
+
+    return result.sort((a, b) => a.templateId.localeCompare(b.templateId) || b.version - a.version);
+  }
+
+  private validateVariables(kind: PromptTemplateKind, body: string): void {
+    const unknown = findUnknownVariables(kind, body);
+    if (unknown.length > 0) {
+      throw new DatabaseError(
+        `Unknown template variables for ${kind}: ${unknown.join(', ')}`,
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+  }
+
+  /**
+   * Convert MongoDB document to PromptTemplate interface
+   */
+  private toPromptTemplate(doc: any): PromptTemplate {
+    return {
+      templateId: doc.templateId,
+      version: doc.version,
+      kind: doc.kind,
+      name: doc.name,
+      ...(doc.description && { description: doc.description }),
+      systemPrompt: doc.systemPrompt,
+      body: doc.body,
+      active: Boolean(doc.active),
+      createdAt: doc.createdAt,
+      ...(doc.activatedAt && { activatedAt: doc.activatedAt }),
+    };
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService();
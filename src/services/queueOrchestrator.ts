@@ -1,12 +1,31 @@
-import { queueManager, QUEUE_NAMES } from '../queues';
+import { queueManager, QUEUE_NAMES, STAGE_QUEUES } from '../queues';
+import {
+  PipelineStage,
+  PIPELINE_STAGES,
+  STAGE_PRIORITIES,
+  getRootStages,
+  getPipelineJobId,
+  withoutReusedStages
+} from '../queues/pipeline';
 import { JobData, ProcessingBatch, Candidate } from '../models/interfaces';
+import { CandidateModel } from '../models/schemas';
+import { Types } from 'mongoose';
+import { database } from '../utils/database';
 import { logger } from '../utils/logger';
+import { aiCostService } from './aiCostService';
+import { profileRefreshService } from './profileRefreshService';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface BatchProcessingOptions {
+  aiBudgetUsd?: number; // AI spend limit of this batch; overrides the job profile's
+  forceReanalysis?: boolean; // Bypass cached AI analysis results
+}
+
 export class QueueOrchestrator {
   async processCandidateBatch(
     candidateIds: string[],
-    jobProfileId: string
+    jobProfileId: string,
+    options: BatchProcessingOptions = {}
   ): Promise<ProcessingBatch> {
     const batchId = uuidv4();
     
@@ -17,6 +36,10 @@ export class QueueOrchestrator {
         candidateCount: candidateIds.length,
       });
 
+      if (options.aiBudgetUsd !== undefined) {
+        await aiCostService.setBatchBudget(batchId, jobProfileId, options.aiBudgetUsd);
+      }
+
       // Create processing batch record
       const batch: ProcessingBatch = {
         id: batchId,
@@ -29,19 +52,28 @@ export class QueueOrchestrator {
         candidateIds,
       };
 
-      // Schedule jobs for each candidate through the processing pipeline
+      // Schedule the first stage for each candidate; later stages are chained as earlier ones settle
       const jobs = [];
+      const candidateStages = await this.getCandidateStages(candidateIds);
 
       for (const candidateId of candidateIds) {
-        // Create jobs for each stage of the pipeline
-        const stageJobs = this.createPipelineJobs(candidateId, jobProfileId, batchId);
+        const stageJobs = this.createPipelineJobs(
+          candidateId,
+          jobProfileId,
+          batchId,
+          candidateStages.get(candidateId) || PIPELINE_STAGES,
+          options.forceReanalysis ? { forceReanalysis: true } : undefined
+        );
         jobs.push(...stageJobs);
       }
 
+      // Ranked once the whole batch is scored
+      await queueManager.expectScoringJobs(batchId, candidateIds.length);
+
       // Add all jobs to their respective queues
       await queueManager.addBatchJobs(jobs);
 
-      logger.info(`Batch processing initiated with ${jobs.length} total jobs`, {
+      logger.info(`Batch processing initiated with ${jobs.length} initial jobs`, {
         batchId,
         totalJobs: jobs.length,
         candidateCount: candidateIds.length,
@@ -58,50 +90,55 @@ export class QueueOrchestrator {
     }
   }
 
+  /**
+   * Pipeline stages of candidates that skip some: repeat applicants whose LinkedIn or GitHub
+   * analysis was copied from an earlier application when they were ingested
+   */
+  private async getCandidateStages(candidateIds: string[]): Promise<Map<string, PipelineStage[]>> {
+    const stages = new Map<string, PipelineStage[]>();
+    const storedIds = candidateIds.filter(id => Types.ObjectId.isValid(id));
+    if (!database.isDbConnected() || storedIds.length === 0) {
+      return stages;
+    }
+
+    const docs = await CandidateModel.find({ _id: { $in: storedIds }, duplicateOf: { $exists: true } })
+      .select('linkedInAnalysis.reusedFromCandidateId githubAnalysis.reusedFromCandidateId')
+      .lean();
+    for (const doc of docs) {
+      const remaining = withoutReusedStages(PIPELINE_STAGES, doc as Candidate);
+      if (remaining.length < PIPELINE_STAGES.length) {
+        stages.set(doc._id.toString(), remaining);
+      }
+    }
+
+    return stages;
+  }
+
+  /**
+   * Create the root jobs of a pipeline run. Each job carries the stages of the run so that
+   * the queue manager can enqueue successors once their dependencies settle; metadata is
+   * carried along with them.
+   */
   private createPipelineJobs(
     candidateId: string,
     jobProfileId: string,
-    batchId: string
+    batchId: string,
+    stages: PipelineStage[] = PIPELINE_STAGES,
+    metadata?: Record<string, any>
   ): Array<{ queueName: string; jobData: JobData; options?: any }> {
-    const baseJobData = {
-      candidateId,
-      jobProfileId,
-      batchId,
-    };
-
-    // Define the processing pipeline with dependencies
-    return [
-      {
-        queueName: QUEUE_NAMES.RESUME_PROCESSING,
-        jobData: { ...baseJobData, stage: 'resume' as const, priority: 10 },
-        options: { delay: 0 },
-      },
-      {
-        queueName: QUEUE_NAMES.AI_ANALYSIS,
-        jobData: { ...baseJobData, stage: 'ai-analysis' as const, priority: 8 },
-        options: { delay: 5000 }, // Wait 5 seconds after resume processing
-      },
-      {
-        queueName: QUEUE_NAMES.LINKEDIN_ANALYSIS,
-        jobData: { ...baseJobData, stage: 'linkedin' as const, priority: 6 },
-        options: { delay: 10000 }, // Wait 10 seconds
-      },
-      {
-        queueName: QUEUE_NAMES.GITHUB_ANALYSIS,
-        jobData: { ...baseJobData, stage: 'github' as const, priority: 6 },
-        options: { delay: 10000 }, // Wait 10 seconds (parallel with LinkedIn)
-      },
-      {
-        queueName: QUEUE_NAMES.INTERVIEW_PROCESSING,
-        jobData: { ...baseJobData, stage: 'interview' as const, priority: 4 },
-        options: { delay: 30000 }, // Wait 30 seconds for other analyses to complete
-      },
-      {
-        queueName: QUEUE_NAMES.SCORING,
-        jobData: { ...baseJobData, stage: 'scoring' as const, priority: 2 },
-        options: { delay: 60000 }, // Wait 1 minute for all analyses to complete
+    return getRootStages(stages).map(stage => ({
+      queueName: STAGE_QUEUES[stage],
+      jobData: {
+        candidateId,
+        jobProfileId,
+        batchId,
+        stage,
+        priority: STAGE_PRIORITIES[stage],
+        pipelineStages: stages,
+        ...(metadata && { metadata }),
       },
-    ];
+      options: { jobId: getPipelineJobId(batchId, candidateId, stage) },
+    }));
   }
 
   async processIndividualCandidate(
@@ -119,23 +156,21 @@ export class QueueOrchestrator {
         batchId,
       });
 
-      const allStages = ['resume', 'ai-analysis', 'linkedin', 'github', 'interview', 'scoring'];
-      const startIndex = allStages.indexOf(startFromStage);
+      const startIndex = PIPELINE_STAGES.indexOf(startFromStage);
       
       if (startIndex === -1) {
         throw new Error(`Invalid start stage: ${startFromStage}`);
       }
 
-      const stagesToProcess = allStages.slice(startIndex);
-      const jobs = this.createPipelineJobs(candidateId, jobProfileId, batchId)
-        .filter(job => stagesToProcess.includes(job.jobData.stage));
+      const stagesToProcess = PIPELINE_STAGES.slice(startIndex);
+      const jobs = this.createPipelineJobs(candidateId, jobProfileId, batchId, stagesToProcess);
 
       await queueManager.addBatchJobs(jobs);
 
       logger.info(`Individual candidate processing initiated`, {
         candidateId,
         jobProfileId,
-        stagesCount: jobs.length,
+        stagesCount: stagesToProcess.length,
         batchId,
       });
 
@@ -153,7 +188,8 @@ export class QueueOrchestrator {
   async retryFailedCandidateStage(
     candidateId: string,
     jobProfileId: string,
-    stage: 'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring'
+    stage: 'resume' | 'ai-analysis' | 'linkedin' | 'github' | 'interview' | 'scoring',
+    options: { forceReanalysis?: boolean } = {}
   ): Promise<string> {
     const batchId = uuidv4();
     
@@ -172,6 +208,7 @@ export class QueueOrchestrator {
         batchId,
         stage,
         priority: 10, // High priority for retries
+        ...(options.forceReanalysis && { metadata: { forceReanalysis: true } }),
       };
 
       await queueManager.addJob(queueName, jobData);
@@ -193,17 +230,58 @@ export class QueueOrchestrator {
     }
   }
 
-  private getQueueNameForStage(stage: string): string {
-    const stageToQueue: { [key: string]: string } = {
-      'resume': QUEUE_NAMES.RESUME_PROCESSING,
-      'ai-analysis': QUEUE_NAMES.AI_ANALYSIS,
-      'linkedin': QUEUE_NAMES.LINKEDIN_ANALYSIS,
-      'github': QUEUE_NAMES.GITHUB_ANALYSIS,
-      'interview': QUEUE_NAMES.INTERVIEW_PROCESSING,
-      'scoring': QUEUE_NAMES.SCORING,
-    };
+  /**
+   * Re-score the candidates scored against a job profile after its scoring fields changed. Each
+   * scoring job first recomputes the candidate's LinkedIn and GitHub analyses from their stored
+   * profiles; the profile is re-ranked once all of them settle. Returns null when there is
+   * nothing to re-score or the queues are not running.
+   */
+  async rescoreJobProfile(jobProfileId: string): Promise<{ batchId: string; candidates: number } | null> {
+    if (!queueManager.isReady()) {
+      logger.warn('Queues are not running; job profile candidates were not re-scored', { jobProfileId });
+      return null;
+    }
+
+    const candidateIds = await profileRefreshService.getScoredCandidateIds(jobProfileId);
+    if (candidateIds.length === 0) {
+      return null;
+    }
+
+    const batchId = uuidv4();
+    const jobs = candidateIds.flatMap(candidateId =>
+      this.createPipelineJobs(candidateId, jobProfileId, batchId, ['scoring'], { reanalyzeProfiles: true })
+    );
+
+    await queueManager.expectScoringJobs(batchId, candidateIds.length);
+    await queueManager.addBatchJobs(jobs);
 
-    const queueName = stageToQueue[stage];
+    logger.info(`Re-scoring ${candidateIds.length} candidate(s) after a job profile change`, {
+      batchId,
+      jobProfileId,
+      candidateCount: candidateIds.length,
+    });
+
+    return { batchId, candidates: candidateIds.length };
+  }
+
+  /**
+   * Requeue the AI analysis jobs a batch parked when it reached its budget. Raise or clear the
+   * limit first, or the jobs park again.
+   */
+  async resumeBudgetPausedJobs(batchId: string): Promise<number> {
+    const jobs = await aiCostService.takePausedJobs(batchId);
+
+    for (const jobData of jobs) {
+      await queueManager.requeuePipelineJob(jobData);
+    }
+
+    logger.info(`Resumed ${jobs.length} AI analysis job(s) paused by the batch budget`, { batchId });
+
+    return jobs.length;
+  }
+
+  private getQueueNameForStage(stage: string): string {
+    const queueName = STAGE_QUEUES[stage as PipelineStage];
     if (!queueName) {
       throw new Error(`Unknown stage: ${stage}`);
     }
@@ -8,7 +8,8 @@ import {
   LinkedInAnalysis,
   GitHubAnalysis,
   InterviewSession,
-  InterviewAnalysisResult
+  InterviewAnalysisResult,
+  EvidenceQuote
 } from '../models/interfaces';
 import * as path from 'path';
 import { promises as fs } from 'fs';
@@ -218,9 +219,9 @@ export class ReportGenerationService {
     // CSV headers
     const headers = [
       'Candidate ID', 'Resume File', 'Email', 'Phone', 'LinkedIn URL', 'GitHub URL',
-      'Processing Stage', 'Composite Score', 'Resume Score', 'LinkedIn Score', 
+      'Years Experience', 'Highest Degree', 'Processing Stage', 'Composite Score', 'Resume Score', 'LinkedIn Score', 
       'GitHub Score', 'Interview Score', 'Recommendation', 'AI Provider',
-      'Skills Matched', 'Skills Missing', 'Interview Status', 'Call Quality', 'Created At'
+      'Skills Matched', 'Skills Missing', 'Interview Status', 'Call Quality', 'Prompt Injection Suspected', 'Created At'
     ];
 
     // Convert data to CSV format
@@ -238,6 +239,8 @@ export class ReportGenerationService {
         this.escapeCsvValue(candidate.resumeData.contactInfo.phone || ''),
         this.escapeCsvValue(candidate.resumeData.contactInfo.linkedInUrl || ''),
         this.escapeCsvValue(candidate.resumeData.contactInfo.githubUrl || ''),
+        candidate.resumeData.sections?.totalYearsExperience ?? '',
+        this.escapeCsvValue(candidate.resumeData.sections?.highestDegreeLevel || ''),
         this.escapeCsvValue(candidate.processingStage),
         candidate.finalScore?.compositeScore || 0,
         candidate.finalScore?.stageScores.resumeAnalysis || 0,
@@ -250,6 +253,7 @@ export class ReportGenerationService {
         this.escapeCsvValue(candidate.aiAnalysis?.skillsMatch.missing.join(', ') || ''),
         this.escapeCsvValue(candidate.interviewSession?.status || 'not-scheduled'),
         this.escapeCsvValue(candidate.interviewSession?.callQuality || ''),
+        candidate.promptInjectionSuspected ? 'yes' : 'no',
         this.escapeCsvValue(candidate.createdAt.toISOString())
       ];
 
@@ -322,12 +326,21 @@ export class ReportGenerationService {
         .skills-list { display: flex; flex-wrap: wrap; gap: 5px; }
         .skill-tag { background: #007bff; color: white; padding: 3px 8px; border-radius: 3px; font-size: 12px; }
         .skill-missing { background: #dc3545; }
+        .evidence-list { margin: 0; padding-left: 20px; }
+        .evidence-list li { margin-bottom: 8px; }
+        .evidence-excerpt { color: #555; font-size: 13px; }
+        .evidence-excerpt mark { background: #fff3cd; color: #333; padding: 0 2px; }
+        .discrepancy-list li { margin-bottom: 5px; }
+        .discrepancy-high { color: #dc3545; }
+        .discrepancy-medium { color: #856404; }
         .recommendation { padding: 15px; border-radius: 5px; font-weight: bold; text-align: center; }
         .rec-strong-hire { background: #d4edda; color: #155724; }
         .rec-hire { background: #d1ecf1; color: #0c5460; }
         .rec-maybe { background: #fff3cd; color: #856404; }
         .rec-no-hire { background: #f8d7da; color: #721c24; }
         .incomplete-section { background: #f8f9fa; border: 1px dashed #ddd; padding: 15px; text-align: center; color: #666; }
+        .warning-section { background: #f8d7da; border: 1px solid #f5c6cb; color: #721c24; padding: 15px; border-radius: 5px; }
+        .warning-section h2 { color: #721c24; border-bottom-color: #f5c6cb; }
       </style>
     </head>
     <body>
@@ -337,6 +350,8 @@ export class ReportGenerationService {
         <div>Generated: ${report.reportGeneratedAt.toLocaleString()}</div>
       </div>
 
+      ${this.generatePromptInjectionSection(candidate, interviewAnalysis)}
+
       <div class="section">
         <h2>Candidate Information</h2>
         <div class="info-grid">
@@ -350,6 +365,9 @@ export class ReportGenerationService {
             <div class="info-item">
               <span class="info-label">Phone:</span> ${candidate.resumeData.contactInfo.phone || 'Not provided'}
             </div>
+            <div class="info-item">
+              <span class="info-label">Experience:</span> ${candidate.resumeData.sections ? `${candidate.resumeData.sections.totalYearsExperience} years` : 'Not parsed'}
+            </div>
           </div>
           <div>
             <div class="info-item">
@@ -361,6 +379,9 @@ export class ReportGenerationService {
             <div class="info-item">
               <span class="info-label">Processing Stage:</span> ${candidate.processingStage}
             </div>
+            <div class="info-item">
+              <span class="info-label">Highest Degree:</span> ${candidate.resumeData.sections?.highestDegreeLevel || 'Not provided'}
+            </div>
           </div>
         </div>
       </div>
@@ -448,6 +469,7 @@ export class ReportGenerationService {
         .score-high { color: #28a745; font-weight: bold; }
         .score-medium { color: #ffc107; font-weight: bold; }
         .score-low { color: #dc3545; font-weight: bold; }
+        .injection-flag { color: #dc3545; font-size: 0.85em; font-weight: bold; }
       </style>
     </head>
     <body>
@@ -501,7 +523,10 @@ export class ReportGenerationService {
             ${summary.topCandidates.map((candidate, index) => `
               <tr>
                 <td>${index + 1}</td>
-                <td>${candidate.resumeData.fileName}</td>
+                <td>
+                  ${candidate.resumeData.fileName}
+                  ${candidate.promptInjectionSuspected ? '<div class="injection-flag">Prompt injection suspected</div>' : ''}
+                </td>
                 <td>${candidate.resumeData.contactInfo.email || 'N/A'}</td>
                 <td class="${this.getScoreClass(candidate.finalScore?.compositeScore || 0)}">
                   ${candidate.finalScore?.compositeScore?.toFixed(1) || 'N/A'}
@@ -635,10 +660,72 @@ export class ReportGenerationService {
         
         <h3>Analysis Reasoning</h3>
         <p>${analysis.reasoning}</p>
+        ${this.generateEvidenceSection(candidate)}
       </div>
     `;
   }
 
+  /**
+   * Warning for a candidate whose resume or interview transcript seems to try to steer the AI analysis
+   */
+  private generatePromptInjectionSection(candidate: Candidate, interviewAnalysis?: InterviewAnalysisResult): string {
+    const findings = [
+      ...(candidate.resumeData.promptInjection?.findings ?? []).map(finding => ({ source: 'Resume', finding })),
+      ...(interviewAnalysis?.promptInjection?.findings ?? []).map(finding => ({ source: 'Interview', finding })),
+    ];
+    if (!candidate.promptInjectionSuspected && findings.length === 0) {
+      return '';
+    }
+
+    return `
+      <div class="section warning-section">
+        <h2>Prompt Injection Suspected</h2>
+        <p>Content supplied by this candidate appears to try to influence the AI analysis. Review the AI scores against the documents before relying on them.</p>
+        <ul>
+          ${findings.map(({ source, finding }) => `<li><strong>${source}:</strong> ${finding.detail}${finding.excerpt ? ` &mdash; <em>${this.escapeHtml(finding.excerpt)}</em>` : ''}</li>`).join('')}
+        </ul>
+      </div>
+    `;
+  }
+
+  /**
+   * Resume excerpts behind the matched skills and experience claims, with the quote highlighted
+   */
+  private generateEvidenceSection(candidate: Candidate): string {
+    const evidence = candidate.aiAnalysis?.evidence;
+    if (!evidence || evidence.skills.length + evidence.experienceClaims.length === 0) {
+      return '';
+    }
+
+    const text = candidate.resumeData.extractedText;
+    const excerpt = (quote: EvidenceQuote): string => {
+      const before = text.slice(Math.max(0, quote.start - 60), quote.start);
+      const after = text.slice(quote.end, quote.end + 60);
+      return `<div class="evidence-excerpt">&hellip;${this.escapeHtml(before)}<mark>${this.escapeHtml(text.slice(quote.start, quote.end))}</mark>${this.escapeHtml(after)}&hellip;</div>`;
+    };
+    const list = (entries: Array<{ label: string; quotes: EvidenceQuote[] }>): string => `
+        <ul class="evidence-list">
+          ${entries.map(entry => `<li><strong>${this.escapeHtml(entry.label)}</strong>${entry.quotes.map(excerpt).join('')}</li>`).join('')}
+        </ul>`;
+
+    return `
+        <h3>Resume Evidence</h3>
+        ${evidence.skills.length > 0 ? `<strong>Matched Skills:</strong>${list(evidence.skills.map(e => ({ label: e.skill, quotes: e.quotes })))}` : ''}
+        ${evidence.experienceClaims.length > 0 ? `<strong>Experience:</strong>${list(evidence.experienceClaims.map(e => ({ label: e.claim, quotes: e.quotes })))}` : ''}
+    `;
+  }
+
+  /**
+   * Escape candidate-supplied text for use in report HTML
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   private generateLinkedInSection(candidate: Candidate): string {
     if (!candidate.linkedInAnalysis) {
       return `
@@ -686,10 +773,37 @@ export class ReportGenerationService {
         <ul>
           ${analysis.credibilityIndicators.map(indicator => `<li>${indicator}</li>`).join('')}
         </ul>
+        ${this.generateConsistencySection(analysis)}
       </div>
     `;
   }
 
+  /**
+   * Discrepancies between the resume and LinkedIn work history, most severe first
+   */
+  private generateConsistencySection(analysis: LinkedInAnalysis): string {
+    const consistency = analysis.consistency;
+    if (!consistency) {
+      return '';
+    }
+
+    const severityOrder = { high: 0, medium: 1, low: 2 };
+    const discrepancies = [...consistency.discrepancies].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+    return `
+        <h3>Resume Consistency</h3>
+        <div class="info-item">
+          <span class="info-label">Consistency Score:</span>
+          <span class="${this.getScoreClass(consistency.score)}">${consistency.score}/100</span>
+          (${consistency.comparedEmployers} resume employer${consistency.comparedEmployers === 1 ? '' : 's'} compared)
+        </div>
+        ${discrepancies.length === 0
+          ? '<div class="info-item">The resume work history matches LinkedIn</div>'
+          : `<ul class="discrepancy-list">
+          ${discrepancies.map(discrepancy => `<li class="discrepancy-${discrepancy.severity}"><strong>${discrepancy.severity.toUpperCase()}</strong> ${this.escapeHtml(discrepancy.detail)}</li>`).join('')}
+        </ul>`}
+    `;
+  }
+
   private generateGitHubSection(candidate: Candidate): string {
     if (!candidate.githubAnalysis) {
       return `
@@ -0,0 +1,163 @@
+import { JobProfile } from '../models/interfaces';
+import { estimateTokens } from './llmProviderRegistry';
+import { wrapUntrustedContent } from './promptInjection';
+import { RawAnalysisEvidence } from './resumeEvidence';
+
+/**
+ * Facts the extraction pass finds in one chunk of a long resume; matches RESUME_CHUNK_SCHEMA
+ */
+export interface ResumeChunkFindings {
+  skills: string[];
+  experience: string[];
+  education: string[];
+  certifications: string[];
+  other: string[];
+  evidence?: RawAnalysisEvidence; // Quotes from the chunk for its skills and experience entries
+}
+
+/**
+ * The findings of every chunk as the scoring pass is given them, and their quotes
+ */
+export interface MergedChunkFindings {
+  text: string;
+  evidence?: RawAnalysisEvidence; // Unset when no chunk returned any
+}
+
+/**
+ * Split resume text into chunks of at most chunkTokens (estimated). Paragraphs are kept together
+ * where they fit, then lines; only a single line longer than a chunk is cut mid-text.
+ */
+export function chunkResumeText(text: string, chunkTokens: number): string[] {
+  const maxChars = Math.max(1, chunkTokens * 4);
+  const units: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (estimateTokens(paragraph) <= chunkTokens) {
+      units.push(paragraph);
+      continue;
+    }
+    for (const line of paragraph.split('\n').map(l => l.trim()).filter(Boolean)) {
+      for (let start = 0; start < line.length; start += maxChars) {
+        units.push(line.slice(start, start + maxChars));
+      }
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    const joined = current ? `${current}\n\n${unit}` : unit;
+    if (current && estimateTokens(joined) > chunkTokens) {
+      chunks.push(current);
+      current = unit;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Prompt for the extraction pass over one chunk. It collects facts by section without scoring,
+ * since a chunk alone says little about the whole candidate.
+ */
+export function buildChunkExtractionPrompt(chunk: string, index: number, total: number, jobProfile: JobProfile): string {
+  return `
+You are reading part ${index + 1} of ${total} of a long resume, for the role of ${jobProfile.title} (required skills: ${jobProfile.requiredSkills.join(', ')}).
+
+Extract the facts in this part only; do not score the candidate. Use an empty list for anything this part does not cover.
+- skills: technologies, tools and skills the candidate has used
+- experience: each role or project as "title at organization (period): main responsibilities and achievements"
+- education: degrees with institution and year
+- certifications: certifications and licenses
+- other: publications, awards and anything else relevant to the role
+
+Also include "evidence", with quotes from this part for each skill and experience entry:
+"evidence": {
+  "skills": [{ "skill": "<an entry from skills>", "quotes": ["<exact text copied from this part>", ...] }, ...],
+  "experienceClaims": [{ "claim": "<an entry from experience>", "quotes": ["<exact text copied from this part>", ...] }, ...]
+}
+Quotes must be copied character for character from the resume part, one short phrase or sentence each. Do not paraphrase; quotes that do not appear in the resume are discarded.
+
+RESUME PART ${index + 1} OF ${total}:
+${wrapUntrustedContent('resume', chunk)}
+
+Respond ONLY with a JSON object with the lists skills, experience, education, certifications and other, and evidence.
+`;
+}
+
+/**
+ * Merge the findings of every chunk, without duplicates, into the text the scoring pass is given
+ * in place of the full resume. Quotes for the same skill or entry in several chunks are combined.
+ */
+export function mergeChunkFindings(findings: ResumeChunkFindings[]): MergedChunkFindings {
+  const merge = (section: Exclude<keyof ResumeChunkFindings, 'evidence'>): string[] => {
+    const seen = new Set<string>();
+    const merged: string[] = [];
+    for (const entry of findings.flatMap(f => f[section])) {
+      const key = entry.trim().toLowerCase();
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        merged.push(entry.trim());
+      }
+    }
+    return merged;
+  };
+
+  const list = (heading: string, entries: string[]): string =>
+    `${heading}:\n${entries.length > 0 ? entries.map(entry => `- ${entry}`).join('\n') : '- none found'}`;
+  const skills = merge('skills');
+
+  const text = [
+    `The resume was too long to include in full. These facts were extracted from all ${findings.length} parts of it:`,
+    `Skills: ${skills.length > 0 ? skills.join(', ') : 'none found'}`,
+    list('Experience', merge('experience')),
+    list('Education', merge('education')),
+    list('Certifications', merge('certifications')),
+    list('Other', merge('other')),
+  ].join('\n\n');
+
+  const withEvidence = findings.filter(f => f.evidence);
+  if (withEvidence.length === 0) {
+    return { text };
+  }
+
+  return {
+    text,
+    evidence: {
+      skills: mergeQuotes(withEvidence.flatMap(f => f.evidence!.skills), entry => entry.skill)
+        .map(([skill, quotes]) => ({ skill, quotes })),
+      experienceClaims: mergeQuotes(withEvidence.flatMap(f => f.evidence!.experienceClaims), entry => entry.claim)
+        .map(([claim, quotes]) => ({ claim, quotes })),
+    },
+  };
+}
+
+/**
+ * Group evidence entries by their label, case-insensitively, keeping each quote once
+ */
+function mergeQuotes<T extends { quotes: string[] }>(entries: T[], label: (entry: T) => string): Array<[string, string[]]> {
+  const merged = new Map<string, [string, string[]]>();
+  for (const entry of entries) {
+    const key = label(entry).trim().toLowerCase();
+    if (!key) {
+      continue;
+    }
+    let group = merged.get(key);
+    if (!group) {
+      group = [label(entry).trim(), []];
+      merged.set(key, group);
+    }
+    const quotes = group[1];
+    for (const quote of entry.quotes) {
+      if (!quotes.includes(quote)) {
+        quotes.push(quote);
+      }
+    }
+  }
+  return [...merged.values()];
+}
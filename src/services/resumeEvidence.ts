@@ -0,0 +1,126 @@
+import { AIAnalysisEvidence, EvidenceQuote } from '../models/interfaces';
+
+/**
+ * Evidence as the provider returns it: quotes without offsets, which may not be verbatim
+ */
+export interface RawAnalysisEvidence {
+  skills: Array<{ skill: string; quotes: string[] }>;
+  experienceClaims: Array<{ claim: string; quotes: string[] }>;
+}
+
+export interface EvidenceHighlight extends EvidenceQuote {
+  kind: 'skill' | 'experience';
+  label: string; // The skill or claim the quote supports
+}
+
+// Quotes shorter than this match too easily to prove anything
+const MIN_QUOTE_LENGTH = 3;
+
+/**
+ * Appended to the resume analysis prompt so that any template asks for evidence
+ */
+export const EVIDENCE_INSTRUCTIONS = `
+EVIDENCE:
+In the same JSON object, also include "evidence" to show where the resume supports your assessment:
+"evidence": {
+  "skills": [{ "skill": "<a matched skill>", "quotes": ["<exact text copied from the resume>", ...] }, ...],
+  "experienceClaims": [{ "claim": "<a claim made in experienceAssessment>", "quotes": ["<exact text copied from the resume>", ...] }, ...]
+}
+Quotes must be copied character for character from the RESUME TEXT, one short phrase or sentence each. Do not paraphrase; quotes that do not appear in the resume are discarded.
+`;
+
+/**
+ * Lowercased text with whitespace runs collapsed, and the offset in the original text of each character
+ */
+function normalize(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i]!)) {
+      pendingSpace = normalized.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      normalized += ' ';
+      offsets.push(i - 1);
+      pendingSpace = false;
+    }
+    normalized += text[i]!.toLowerCase();
+    offsets.push(i);
+  }
+
+  return { normalized, offsets };
+}
+
+/**
+ * Find a quote in the resume text. Exact matches are preferred; otherwise case and whitespace
+ * differences are tolerated. Returns null when the quote does not appear.
+ */
+export function locateQuote(text: string, quote: string, normalizedText = normalize(text)): EvidenceQuote | null {
+  const trimmed = quote.trim();
+  if (trimmed.length < MIN_QUOTE_LENGTH) {
+    return null;
+  }
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) {
+    return { quote: trimmed, start: exact, end: exact + trimmed.length };
+  }
+
+  const needle = normalize(trimmed).normalized;
+  const index = normalizedText.normalized.indexOf(needle);
+  if (index === -1) {
+    return null;
+  }
+
+  const start = normalizedText.offsets[index]!;
+  const end = normalizedText.offsets[index + needle.length - 1]! + 1;
+  return { quote: text.slice(start, end), start, end };
+}
+
+/**
+ * Attach offsets into the resume text to every quote, dropping quotes that do not appear in it
+ * and entries left without any quote
+ */
+export function resolveEvidence(raw: RawAnalysisEvidence, text: string): AIAnalysisEvidence {
+  const normalizedText = normalize(text);
+  let rejectedQuotes = 0;
+
+  const locate = (quotes: string[]): EvidenceQuote[] => {
+    const located: EvidenceQuote[] = [];
+    for (const quote of quotes) {
+      const match = locateQuote(text, quote, normalizedText);
+      if (!match) {
+        rejectedQuotes++;
+      } else if (!located.some(q => q.start === match.start && q.end === match.end)) {
+        located.push(match);
+      }
+    }
+    return located;
+  };
+
+  const skills = raw.skills
+    .map(entry => ({ skill: entry.skill, quotes: locate(entry.quotes) }))
+    .filter(entry => entry.quotes.length > 0);
+  const experienceClaims = raw.experienceClaims
+    .map(entry => ({ claim: entry.claim, quotes: locate(entry.quotes) }))
+    .filter(entry => entry.quotes.length > 0);
+
+  return { skills, experienceClaims, rejectedQuotes };
+}
+
+/**
+ * Every evidence quote as a highlight of the resume text, in reading order
+ */
+export function buildEvidenceHighlights(evidence: AIAnalysisEvidence): EvidenceHighlight[] {
+  return [
+    ...evidence.skills.flatMap(entry =>
+      entry.quotes.map(quote => ({ ...quote, kind: 'skill' as const, label: entry.skill }))
+    ),
+    ...evidence.experienceClaims.flatMap(entry =>
+      entry.quotes.map(quote => ({ ...quote, kind: 'experience' as const, label: entry.claim }))
+    ),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+}
@@ -1,8 +1,22 @@
 import pdfParse from 'pdf-parse';
 import { ResumeData } from '../models/interfaces';
 import { v4 as uuidv4 } from 'uuid';
+import { textExtractorRegistry, TextExtractionResult } from './textExtractionService';
+import { OcrPageResult, OcrService, ocrService } from './ocrService';
+import { resumeSectionParser } from './resumeSectionParser';
+import { config } from '../utils/config';
+import { extractPhoneNumber } from '../utils/phoneNumber';
+import { sanitizeUntrustedText, screenUntrustedText } from './promptInjection';
+
+// Below this many non-whitespace characters a resume is treated as having no usable text
+const MIN_TEXT_CHARACTERS = 50;
 
 export class ResumeProcessingService {
+  private ocr: OcrService;
+
+  constructor(ocr: OcrService = ocrService) {
+    this.ocr = ocr;
+  }
   
   /**
    * Extract text content from PDF buffer
@@ -18,9 +32,17 @@ export class ResumeProcessingService {
   }
 
   /**
-   * Parse contact information from extracted text
+   * Extract text from any supported resume format, picking the extractor by extension or MIME type
    */
-  parseContactInfo(text: string): ResumeData['contactInfo'] {
+  async extractText(fileBuffer: Buffer, fileName: string, mimeType?: string): Promise<TextExtractionResult> {
+    return textExtractorRegistry.extract(fileBuffer, fileName, mimeType);
+  }
+
+  /**
+   * Parse contact information from extracted text.
+   * Phone numbers without a country code are read in defaultPhoneRegion (e.g. the job profile's region).
+   */
+  parseContactInfo(text: string, defaultPhoneRegion?: string): ResumeData['contactInfo'] {
     const contactInfo: ResumeData['contactInfo'] = {
       projectUrls: []
     };
@@ -32,11 +54,14 @@ export class ResumeProcessingService {
       contactInfo.email = emailMatch[0];
     }
 
-    // Phone number regex patterns (various formats)
-    const phoneRegex = /(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/g;
-    const phoneMatch = text.match(phoneRegex);
-    if (phoneMatch && phoneMatch.length > 0) {
-      contactInfo.phone = phoneMatch[0];
+    // International phone numbers, normalized to E.164
+    const phoneNumber = extractPhoneNumber(text, defaultPhoneRegion);
+    if (phoneNumber) {
+      contactInfo.phone = phoneNumber.raw;
+      contactInfo.phoneE164 = phoneNumber.e164;
+      if (phoneNumber.country) {
+        contactInfo.phoneCountry = phoneNumber.country;
+      }
     }
 
     // LinkedIn URL regex
@@ -71,8 +96,10 @@ export class ResumeProcessingService {
    * Process a single resume file
    */
   async processSingleResume(
-    pdfBuffer: Buffer, 
-    fileName: string
+    fileBuffer: Buffer, 
+    fileName: string,
+    mimeType?: string,
+    defaultPhoneRegion?: string
   ): Promise<ResumeData> {
     const resumeData: ResumeData = {
       id: uuidv4(),
@@ -84,11 +111,30 @@ export class ResumeProcessingService {
     };
 
     try {
-      // Extract text from PDF
-      resumeData.extractedText = await this.extractTextFromPDF(pdfBuffer, fileName);
+      // Extract text with the extractor registered for this file type
+      const { text, extractor, hiddenText, pages } = await this.extractText(fileBuffer, fileName, mimeType);
+      resumeData.extractedText = text;
+      resumeData.extractorUsed = extractor;
+      if (hiddenText) {
+        resumeData.hiddenText = hiddenText;
+      }
+
+      if (extractor === 'pdf') {
+        // Scanned pages carry no text layer, whether the whole PDF is a scan or only some pages are
+        await this.applyOcrFallback(resumeData, fileBuffer, pages);
+      } else if (!this.hasUsableText(text)) {
+        this.flagForManualReview(resumeData, 'No text could be extracted from the file');
+      }
       
       // Parse contact information
-      resumeData.contactInfo = this.parseContactInfo(resumeData.extractedText);
+      resumeData.contactInfo = this.parseContactInfo(resumeData.extractedText, defaultPhoneRegion);
+
+      // Parse work history, education and skills so downstream stages need not re-read the text.
+      // Text hidden from readers is left out, as it is from AI prompts.
+      resumeData.sections = resumeSectionParser.parse(sanitizeUntrustedText(resumeData.extractedText, resumeData.hiddenText));
+
+      // Look for attempts to steer the AI analysis before the text reaches any prompt
+      resumeData.promptInjection = screenUntrustedText(resumeData.extractedText, resumeData.hiddenText);
       
       resumeData.processingStatus = 'completed';
     } catch (error) {
@@ -99,4 +145,109 @@ export class ResumeProcessingService {
 
     return resumeData;
   }
-}
\ No newline at end of file
+
+  /**
+   * Fill in PDF pages without a text layer with OCR output, flagging results too unreliable to score automatically.
+   * Only the pages without text are read when the page text is known; otherwise the whole PDF is, if it has no text.
+   */
+  private async applyOcrFallback(resumeData: ResumeData, fileBuffer: Buffer, pageTexts?: string[]): Promise<void> {
+    const textLayerUsable = this.hasUsableText(resumeData.extractedText);
+    const pagesWithoutText = (pageTexts || []).flatMap((pageText, index) => this.hasUsableText(pageText) ? [] : [index]);
+    if (textLayerUsable && pagesWithoutText.length === 0) {
+      return;
+    }
+
+    try {
+      const pageResult = pageTexts && pagesWithoutText.length > 0
+        ? await this.ocr.recognizePdfPages(fileBuffer, resumeData.fileName, pagesWithoutText)
+        : null;
+
+      if (pageResult && (textLayerUsable || pageResult.pagesProcessed > 0)) {
+        this.mergeOcrPages(resumeData, pageTexts!, pageResult.pages, textLayerUsable);
+        return;
+      }
+      if (!textLayerUsable) {
+        await this.applyDocumentOcr(resumeData, fileBuffer);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      resumeData.extractionErrors = [...(resumeData.extractionErrors || []), `OCR failed: ${errorMessage}`];
+      if (!textLayerUsable) {
+        this.flagForManualReview(resumeData, 'PDF has no text layer and OCR failed');
+      }
+    }
+  }
+
+  /**
+   * Put OCR text in place of the pages it was read from. When the text layer is usable on its own,
+   * only confidently read pages are added, so photos and logos do not add noise or hold the resume back.
+   */
+  private mergeOcrPages(
+    resumeData: ResumeData,
+    pageTexts: string[],
+    ocrPages: Map<number, OcrPageResult>,
+    textLayerUsable: boolean
+  ): void {
+    const merged = new Map(Array.from(ocrPages).filter(([index, page]) =>
+      page.text.trim().length > (pageTexts[index] || '').trim().length &&
+      (!textLayerUsable || (this.hasUsableText(page.text) && page.confidence >= config.processing.ocrMinConfidence))
+    ));
+    if (merged.size === 0 && textLayerUsable) {
+      return;
+    }
+
+    const ocrText = Array.from(merged.values());
+    const ocrLength = ocrText.reduce((sum, page) => sum + page.text.trim().length, 0);
+    const confidence = ocrLength > 0
+      ? ocrText.reduce((sum, page) => sum + page.confidence * page.text.trim().length, 0) / ocrLength
+      : 0;
+
+    resumeData.ocrUsed = true;
+    resumeData.ocrConfidence = Math.round(confidence * 10) / 10;
+    resumeData.extractedText = pageTexts
+      .map((pageText, index) => (merged.get(index)?.text ?? pageText).trim())
+      .filter(Boolean)
+      .join('\n\n');
+
+    this.flagUnreliableOcr(resumeData, resumeData.extractedText, resumeData.ocrConfidence);
+  }
+
+  /**
+   * Replace missing PDF text with OCR output of all its page images
+   */
+  private async applyDocumentOcr(resumeData: ResumeData, fileBuffer: Buffer): Promise<void> {
+    const ocrResult = await this.ocr.recognizePdf(fileBuffer, resumeData.fileName);
+    if (!ocrResult) {
+      this.flagForManualReview(resumeData, 'PDF has no text layer and no page images that could be read');
+      return;
+    }
+
+    resumeData.ocrUsed = true;
+    resumeData.ocrConfidence = ocrResult.confidence;
+    if (ocrResult.text.trim().length > resumeData.extractedText.trim().length) {
+      resumeData.extractedText = ocrResult.text;
+    }
+
+    this.flagUnreliableOcr(resumeData, ocrResult.text, ocrResult.confidence);
+  }
+
+  private flagUnreliableOcr(resumeData: ResumeData, text: string, confidence: number): void {
+    if (!this.hasUsableText(text)) {
+      this.flagForManualReview(resumeData, 'OCR found no readable text in the scanned pages');
+    } else if (confidence < config.processing.ocrMinConfidence) {
+      this.flagForManualReview(
+        resumeData,
+        `OCR confidence ${confidence}% is below the ${config.processing.ocrMinConfidence}% threshold`
+      );
+    }
+  }
+
+  private hasUsableText(text: string): boolean {
+    return text.replace(/\s/g, '').length >= MIN_TEXT_CHARACTERS;
+  }
+
+  private flagForManualReview(resumeData: ResumeData, reason: string): void {
+    resumeData.requiresManualReview = true;
+    resumeData.manualReviewReason = reason;
+  }
+}
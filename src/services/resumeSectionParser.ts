@@ -0,0 +1,411 @@
+import {
+  DegreeLevel,
+  EducationEntry,
+  ResumeSections,
+  WorkExperience,
+} from '../models/interfaces';
+
+type SectionName = 'experience' | 'education' | 'skills' | 'certifications' | 'other';
+
+// Headings are matched against the whole (short) line, case-insensitively
+const SECTION_HEADINGS: Array<{ section: SectionName; pattern: RegExp }> = [
+  {
+    section: 'experience',
+    pattern: /^((professional|work|relevant|employment|career)\s+)?(experience|history)$|^employment( history)?$|^work$/,
+  },
+  { section: 'education', pattern: /^(education|academic background|academics|education and training|qualifications)$/ },
+  {
+    section: 'skills',
+    pattern: /^((technical|core|key|professional)\s+)?(skills|competencies|skill set|skillset)$|^(technologies|tech stack|tools and technologies|expertise)$/,
+  },
+  { section: 'certifications', pattern: /^(licenses and )?(certifications?|certificates)( and licenses)?$/ },
+  {
+    section: 'other',
+    pattern: /^(summary|professional summary|profile|about me|objective|career objective|projects|personal projects|publications|awards|honors|achievements|interests|hobbies|languages|references|volunteer( experience)?|volunteering|contact|contact information|activities|leadership)$/,
+  },
+];
+
+const MONTHS: { [prefix: string]: number } = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}|\\d{4})`;
+const DATE_RANGE_REGEX = new RegExp(
+  `\\b(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|present|current|now|today|ongoing)\\b`,
+  'i'
+);
+
+const BULLET_REGEX = /^\s*[•·▪●◦‣■□➢►*-]\s*/;
+const HEADER_SEPARATOR_REGEX = /\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/i;
+
+const TITLE_KEYWORDS = /\b(engineer|developer|programmer|manager|director|lead|analyst|consultant|designer|architect|intern|scientist|specialist|administrator|officer|head|vp|vice president|president|coordinator|associate|assistant|technician|founder|owner|researcher|teacher|instructor|accountant|recruiter|representative|executive|advisor|strategist|editor|writer)\b/i;
+const COMPANY_KEYWORDS = /\b(inc|llc|ltd|limited|corp|corporation|company|co|gmbh|ag|plc|technologies|technology|labs|group|solutions|systems|software|university|bank|agency|studios?|partners|consulting)\b\.?/i;
+const INSTITUTION_KEYWORDS = /\b(university|college|institute|school|academy|polytechnic|universidad|universität|école)\b/i;
+
+const DEGREE_PATTERNS: Array<{ level: DegreeLevel; pattern: RegExp }> = [
+  { level: 'doctorate', pattern: /\b(ph\.?\s?d|doctor of|doctorate|d\.phil)\b/i },
+  { level: 'doctorate', pattern: /\b(PhD|DPhil|EdD)\b/ },
+  { level: 'master', pattern: /\bmaster'?s?\b/i },
+  { level: 'master', pattern: /\b(M\.?Sc?|M\.A|MBA|M\.?Eng|M\.?Tech|MPH|MFA)\b\.?/ },
+  { level: 'bachelor', pattern: /\bbachelor'?s?\b|\bundergraduate degree\b/i },
+  { level: 'bachelor', pattern: /\b(B\.?Sc?|B\.A|BA|B\.?Eng|B\.?Tech|BBA|BFA)\b\.?/ },
+  { level: 'associate', pattern: /\bassociate'?s?\s+(degree|of)\b/i },
+  { level: 'associate', pattern: /\b(A\.A\.S?|AAS)\b/ },
+  { level: 'high-school', pattern: /\b(high school|secondary school|GED)\b/i },
+];
+
+const DEGREE_RANK: { [level in DegreeLevel]: number } = {
+  'high-school': 1,
+  associate: 2,
+  bachelor: 3,
+  master: 4,
+  doctorate: 5,
+};
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_REGEX, '').trim();
+}
+
+/**
+ * Normalize a resume date to YYYY-MM, or YYYY when no month is given
+ */
+export function parseResumeDate(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+
+  const monthName = text.match(new RegExp(`^(${MONTH_PATTERN})\\s+(\\d{4})$`, 'i'));
+  if (monthName?.[1] && monthName[2]) {
+    const month = MONTHS[monthName[1].slice(0, 3)];
+    return month ? `${monthName[2]}-${String(month).padStart(2, '0')}` : monthName[2];
+  }
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/) || text.match(/^(\d{4})-(\d{2})$/);
+  if (numeric?.[1] && numeric[2]) {
+    const [year, month] = numeric[1].length === 4 ? [numeric[1], numeric[2]] : [numeric[2], numeric[1]];
+    const monthNumber = parseInt(month, 10);
+    return monthNumber >= 1 && monthNumber <= 12 ? `${year}-${String(monthNumber).padStart(2, '0')}` : year;
+  }
+
+  return /^\d{4}$/.test(text) ? text : undefined;
+}
+
+/**
+ * Convert a parsed date into a month index; year-only dates count from January
+ */
+function toMonthIndex(date: string): number {
+  const [year, month] = date.split('-');
+  return parseInt(year || '0', 10) * 12 + (month ? parseInt(month, 10) - 1 : 0);
+}
+
+/**
+ * Months a role covers as [start, end) month indexes, lasting at least a month. Current roles run
+ * through referenceMonth; month-precision end dates are inclusive.
+ */
+export function toEmploymentInterval(
+  startDate: string,
+  endDate: string | undefined,
+  referenceMonth: number
+): { start: number; end: number } {
+  const start = toMonthIndex(startDate);
+  let end: number;
+  if (!endDate) {
+    end = referenceMonth + 1;
+  } else if (endDate.includes('-')) {
+    end = toMonthIndex(endDate) + 1;
+  } else {
+    end = toMonthIndex(endDate);
+  }
+  return { start, end: Math.max(end, start + 1) };
+}
+
+/**
+ * Months covered by any of the intervals, counting overlaps once
+ */
+export function countCoveredMonths(intervals: Array<{ start: number; end: number }>): number {
+  let totalMonths = 0;
+  let coveredUntil = -Infinity;
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(interval.start, coveredUntil);
+    if (interval.end > start) {
+      totalMonths += interval.end - start;
+      coveredUntil = interval.end;
+    }
+  }
+  return totalMonths;
+}
+
+function splitHeader(text: string): string[] {
+  return text
+    .split(HEADER_SEPARATOR_REGEX)
+    .map(part => part.replace(/^[\s()[\]|:,-]+|[\s()[\]|:,-]+$/g, ''))
+    .filter(part => part.length > 0);
+}
+
+export class ResumeSectionParser {
+  /**
+   * Parse resume text into structured sections. Total experience is measured up to referenceDate for current roles.
+   */
+  parse(text: string, referenceDate: Date = new Date()): ResumeSections {
+    const sections = this.splitSections(text);
+    const workHistory = this.parseWorkHistory(sections.experience);
+    const education = this.parseEducation(sections.education);
+
+    const result: ResumeSections = {
+      workHistory,
+      education,
+      skills: this.parseSkills(sections.skills),
+      certifications: this.parseCertifications(sections.certifications),
+      totalYearsExperience: this.calculateTotalYears(workHistory, referenceDate),
+    };
+
+    const highestDegreeLevel = education
+      .map(entry => entry.degreeLevel)
+      .filter((level): level is DegreeLevel => !!level)
+      .sort((a, b) => DEGREE_RANK[b] - DEGREE_RANK[a])[0];
+    if (highestDegreeLevel) {
+      result.highestDegreeLevel = highestDegreeLevel;
+    }
+
+    return result;
+  }
+
+  /**
+   * Degree levels at or above the given minimum
+   */
+  getDegreeLevelsAtLeast(minimum: DegreeLevel): DegreeLevel[] {
+    return (Object.keys(DEGREE_RANK) as DegreeLevel[]).filter(level => DEGREE_RANK[level] >= DEGREE_RANK[minimum]);
+  }
+
+  private splitSections(text: string): { [section in SectionName]: string[] } {
+    const sections: { [section in SectionName]: string[] } = {
+      experience: [],
+      education: [],
+      skills: [],
+      certifications: [],
+      other: [],
+    };
+    let current: SectionName = 'other';
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) {
+        // Blank lines separate entries within a section
+        sections[current].push('');
+        continue;
+      }
+
+      const heading = this.matchHeading(line);
+      if (heading?.remainder) {
+        // Inline headings ("Technologies: React, Node.js") file their content without leaving the current section
+        if (heading.section === 'other') {
+          sections[current].push(line);
+        } else {
+          sections[heading.section].push(heading.remainder);
+        }
+        continue;
+      }
+      if (heading) {
+        current = heading.section;
+        continue;
+      }
+
+      sections[current].push(line);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Recognise a section heading, including inline forms such as "Skills: Python, Go"
+   */
+  private matchHeading(line: string): { section: SectionName; remainder?: string } | null {
+    const colonIndex = line.indexOf(':');
+    const label = colonIndex > 0 ? line.slice(0, colonIndex) : line;
+    const normalized = label
+      .replace(/^[#=*_\s-]+|[#=*_\s-]+$/g, '')
+      .replace(/\s*&\s*/g, ' and ')
+      .replace(/\s+/g, ' ')
+      .toLowerCase();
+
+    if (!normalized || normalized.length > 40 || normalized.split(' ').length > 4) {
+      return null;
+    }
+
+    const match = SECTION_HEADINGS.find(heading => heading.pattern.test(normalized));
+    if (!match) {
+      return null;
+    }
+
+    const remainder = colonIndex > 0 ? line.slice(colonIndex + 1).trim() : '';
+    return remainder ? { section: match.section, remainder } : { section: match.section };
+  }
+
+  private parseWorkHistory(lines: string[]): WorkExperience[] {
+    const entries: WorkExperience[] = [];
+    let current: WorkExperience | null = null;
+    // Plain lines seen since the last bullet: either the current role's description or the next role's header
+    let pending: string[] = [];
+
+    for (const line of lines) {
+      if (!line) {
+        continue;
+      }
+
+      const range = line.match(DATE_RANGE_REGEX);
+      if (range && range[1] && range[2]) {
+        // At most two plain lines directly above a date line belong to the new role's header
+        const headerLines = pending.slice(-2);
+        if (current) {
+          current.bullets.push(...pending.slice(0, pending.length - headerLines.length));
+        }
+        pending = [];
+
+        const remainder = line.replace(range[0], ' ');
+        current = this.buildWorkEntry([...headerLines, remainder], range[1], range[2]);
+        entries.push(current);
+        continue;
+      }
+
+      if (current && BULLET_REGEX.test(line)) {
+        current.bullets.push(...pending, stripBullet(line));
+        pending = [];
+        continue;
+      }
+
+      pending.push(stripBullet(line));
+    }
+
+    if (current) {
+      current.bullets.push(...pending);
+    }
+
+    return entries.filter(entry => entry.title || entry.company);
+  }
+
+  private buildWorkEntry(headerLines: string[], start: string, end: string): WorkExperience {
+    const parts = headerLines.flatMap(splitHeader);
+    const titleIndex = Math.max(0, parts.findIndex(part => TITLE_KEYWORDS.test(part)));
+    const title = parts[titleIndex] || '';
+    const others = parts.filter((_, index) => index !== titleIndex);
+    const company = others.find(part => COMPANY_KEYWORDS.test(part)) || others[0];
+
+    const isCurrent = /^(present|current|now|today|ongoing)$/i.test(end.trim());
+    const entry: WorkExperience = { title, isCurrent, bullets: [] };
+    const startDate = parseResumeDate(start);
+    const endDate = isCurrent ? undefined : parseResumeDate(end);
+
+    if (company) {
+      entry.company = company;
+    }
+    if (startDate) {
+      entry.startDate = startDate;
+    }
+    if (endDate) {
+      entry.endDate = endDate;
+    }
+    return entry;
+  }
+
+  private parseEducation(lines: string[]): EducationEntry[] {
+    const entries: EducationEntry[] = [];
+    let current: EducationEntry | null = null;
+
+    for (const rawLine of lines) {
+      if (!rawLine) {
+        // A blank line closes the entry
+        current = null;
+        continue;
+      }
+
+      const line = stripBullet(rawLine);
+      const degreeMatch = DEGREE_PATTERNS.find(degree => degree.pattern.test(line));
+      const isInstitution = INSTITUTION_KEYWORDS.test(line);
+
+      // Start a new entry when this line repeats a field the current entry already has
+      if (!current || (degreeMatch && current.degreeLevel) || (isInstitution && !degreeMatch && current.institution)) {
+        current = {};
+        entries.push(current);
+      }
+
+      if (degreeMatch && !current.degreeLevel) {
+        current.degreeLevel = degreeMatch.level;
+        const parts = splitHeader(line.replace(/\b(19|20)\d{2}\b/g, ''));
+        const degree = parts.find(part => DEGREE_PATTERNS.some(pattern => pattern.pattern.test(part))) || parts[0];
+        if (degree) {
+          current.degree = degree;
+        }
+        // "Master of Science in Computer Science" names the field after "in"; "Bachelor of Engineering" after "of"
+        const fieldPattern = (preposition: string) => new RegExp(
+          `\\b${preposition}\\s+([A-Z][A-Za-z&.\\s]+?)(?=\\s*(?:,|\\(|\\||–|—|\\s-\\s|\\bfrom\\b|\\bat\\b|\\d|$))`
+        );
+        const field = line.match(fieldPattern('in')) || line.match(fieldPattern('of'));
+        if (field?.[1] && !/^(science|arts)$/i.test(field[1].trim())) {
+          current.fieldOfStudy = field[1].trim();
+        }
+      }
+
+      if (isInstitution && !current.institution) {
+        const institution = splitHeader(line.replace(/\b(19|20)\d{2}\b/g, ''))
+          .find(part => INSTITUTION_KEYWORDS.test(part));
+        if (institution) {
+          current.institution = institution;
+        }
+      }
+
+      const years = (line.match(/\b(19[5-9]\d|20\d{2})\b/g) || []).map(year => parseInt(year, 10));
+      if (years.length > 0) {
+        current.graduationYear = Math.max(current.graduationYear || 0, ...years);
+      }
+    }
+
+    return entries.filter(entry => entry.degreeLevel || entry.institution);
+  }
+
+  private parseSkills(lines: string[]): string[] {
+    const skills: string[] = [];
+    const seen = new Set<string>();
+
+    for (const rawLine of lines) {
+      if (!rawLine) {
+        continue;
+      }
+
+      // Drop category labels such as "Languages: Python, Go"
+      const line = stripBullet(rawLine).replace(/^[A-Za-z &/]{2,30}:\s*/, '');
+      for (const item of line.split(/[,;|•·▪●]|\s{2,}|\s-\s|\s\/\s/)) {
+        const skill = stripBullet(item).replace(/\.$/, '').trim();
+        const key = skill.toLowerCase();
+        if (skill.length === 0 || skill.length > 50 || /^\d+$/.test(skill) || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        skills.push(skill);
+      }
+    }
+
+    return skills;
+  }
+
+  private parseCertifications(lines: string[]): string[] {
+    return lines
+      .filter(line => line.length > 0)
+      .flatMap(line => stripBullet(line).split(/\s*;\s*/))
+      .map(certification => certification.trim())
+      .filter(certification => certification.length > 0 && certification.length <= 120);
+  }
+
+  /**
+   * Sum employment time in years, counting overlapping roles once
+   */
+  private calculateTotalYears(workHistory: WorkExperience[], referenceDate: Date): number {
+    const referenceMonth = referenceDate.getFullYear() * 12 + referenceDate.getMonth();
+    const intervals = workHistory
+      .filter(entry => entry.startDate && (entry.endDate || entry.isCurrent))
+      .map(entry => toEmploymentInterval(entry.startDate!, entry.isCurrent ? undefined : entry.endDate, referenceMonth))
+      .filter(interval => interval.start <= referenceMonth);
+
+    return Math.round((countCoveredMonths(intervals) / 12) * 10) / 10;
+  }
+}
+
+export const resumeSectionParser = new ResumeSectionParser();
@@ -0,0 +1,158 @@
+import { LLMRequest } from './llmProviderRegistry';
+import { RESUME_ANALYSIS_SCHEMA, RESUME_CHUNK_SCHEMA } from './aiResponseSchema';
+import { ResumeChunkFindings } from './resumeChunking';
+
+// Scores of a required skill the transcript does or does not mention
+const MENTIONED_SKILL_SCORE = 75;
+const UNMENTIONED_SKILL_SCORE = 35;
+// Texts shorter than this are too thin to assess with confidence
+const MIN_ASSESSABLE_WORDS = 100;
+
+const RULE_BASED_NOTE = 'Rule-based keyword assessment, not a model judgement';
+
+function untrustedContent(prompt: string, tag: string): string | undefined {
+  return new RegExp(`<untrusted_${tag}>\\n([\\s\\S]*?)\\n</untrusted_${tag}>`).exec(prompt)?.[1];
+}
+
+function requiredSkills(prompt: string): string[] {
+  const list = /required skills:\s*([^\n)]*)/i.exec(prompt)?.[1] || '';
+  return list.split(',').map(skill => skill.trim()).filter(Boolean);
+}
+
+function skillPattern(skill: string): RegExp {
+  return new RegExp(`(?<!\\w)${skill.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!\\w)`, 'i');
+}
+
+function lines(text: string): string[] {
+  return text.split('\n').map(line => line.replace(/^[\s\-*•]+/, '').trim()).filter(Boolean);
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Years of experience the text states ("6 years"), or else the span of the years it mentions
+ */
+function yearsOfExperience(text: string): number {
+  const stated = Array.from(text.matchAll(/(\d{1,2})\+?\s*years?\b/gi), match => parseInt(match[1]!, 10));
+  if (stated.length > 0) {
+    return Math.max(...stated);
+  }
+  const years = Array.from(text.matchAll(/\b(?:19|20)\d{2}\b/g), match => parseInt(match[0], 10));
+  return years.length > 1 ? Math.min(40, Math.max(...years) - Math.min(...years)) : 0;
+}
+
+function analyzeResume(prompt: string): Record<string, unknown> {
+  const resume = untrustedContent(prompt, 'resume');
+  const text = [untrustedContent(prompt, 'resume_summary'), resume ?? untrustedContent(prompt, 'resume_findings')]
+    .filter(Boolean).join('\n');
+  const skills = requiredSkills(prompt);
+  const matched = skills.filter(skill => skillPattern(skill).test(text));
+  const missing = skills.filter(skill => !matched.includes(skill));
+  const years = yearsOfExperience(text);
+  const coverage = skills.length > 0 ? matched.length / skills.length : 0.5;
+  const experienceClaim = years > 0 ? `About ${years} years of experience` : 'No length of experience stated';
+
+  const result: Record<string, unknown> = {
+    relevanceScore: Math.min(100, Math.round(coverage * 70 + Math.min(years, 10) * 3)),
+    skillsMatch: { matched, missing },
+    experienceAssessment: `${experienceClaim}; mentions ${matched.length} of ${skills.length} required skills`,
+    reasoning: `${RULE_BASED_NOTE}. Matched: ${matched.join(', ') || 'none'}. Missing: ${missing.join(', ') || 'none'}.`,
+    confidence: wordCount(text) < MIN_ASSESSABLE_WORDS ? 40 : 60,
+  };
+
+  // Quotes are whole lines of the resume, so they are found verbatim
+  if (resume && prompt.includes('EVIDENCE:')) {
+    const resumeLines = resume.split('\n').map(line => line.trim()).filter(Boolean);
+    const quoteFor = (pattern: RegExp): string[] => {
+      const line = resumeLines.find(l => pattern.test(l));
+      return line ? [line] : [];
+    };
+    const experienceQuotes = years > 0 ? quoteFor(/\d+\+?\s*years?\b|\b(?:19|20)\d{2}\b/i) : [];
+    result.evidence = {
+      skills: matched.map(skill => ({ skill, quotes: quoteFor(skillPattern(skill)) })),
+      experienceClaims: experienceQuotes.length > 0 ? [{ claim: experienceClaim, quotes: experienceQuotes }] : [],
+    };
+  }
+
+  return result;
+}
+
+function extractFindings(prompt: string): ResumeChunkFindings {
+  const chunk = untrustedContent(prompt, 'resume') || '';
+  const chunkLines = lines(chunk);
+  const education = chunkLines.filter(line => /\b(?:university|college|bachelor'?s?|master'?s?|ph\.?d|degree|b\.?sc|m\.?sc)\b/i.test(line));
+  const certifications = chunkLines.filter(line => /certifi|licen[cs]e/i.test(line));
+
+  const skills = requiredSkills(prompt).filter(skill => skillPattern(skill).test(chunk));
+  const experience = chunkLines.filter(line =>
+    /\b(?:19|20)\d{2}\b/.test(line) && !education.includes(line) && !certifications.includes(line));
+
+  return {
+    skills,
+    experience,
+    education,
+    certifications,
+    other: chunkLines.filter(line => /\b(?:award|publication|published|patent)/i.test(line)),
+    // As for the whole resume, quotes are lines of the chunk
+    evidence: {
+      skills: skills.map(skill => {
+        const line = chunkLines.find(l => skillPattern(skill).test(l));
+        return { skill, quotes: line ? [line] : [] };
+      }),
+      experienceClaims: experience.map(line => ({ claim: line, quotes: [line] })),
+    },
+  };
+}
+
+function analyzeInterview(prompt: string): Record<string, unknown> {
+  const transcript = untrustedContent(prompt, 'transcript') || '';
+  const skills = requiredSkills(prompt);
+  const discussed = skills.filter(skill => skillPattern(skill).test(transcript));
+  const words = wordCount(transcript);
+
+  const competencyScores = Object.fromEntries(skills.map(skill =>
+    [skill, discussed.includes(skill) ? MENTIONED_SKILL_SCORE : UNMENTIONED_SKILL_SCORE]));
+  const technicalScore = skills.length > 0
+    ? Math.round(Object.values(competencyScores).reduce((sum, score) => sum + score, 0) / skills.length)
+    : 50;
+  const communicationScore = words >= 3 * MIN_ASSESSABLE_WORDS ? 75 : words >= MIN_ASSESSABLE_WORDS ? 60 : 40;
+
+  return {
+    performanceScore: Math.round(technicalScore * 0.6 + communicationScore * 0.4),
+    communicationScore,
+    technicalScore,
+    competencyScores,
+    needsManualReview: words < MIN_ASSESSABLE_WORDS,
+    detailedFeedback: {
+      strengths: discussed.map(skill => `Discussed ${skill}`),
+      weaknesses: skills.filter(skill => !discussed.includes(skill)).map(skill => `Did not discuss ${skill}`),
+      recommendations: ['Confirm the assessment with a reviewer'],
+    },
+    responseAnalysis: [],
+    overallAssessment: `${RULE_BASED_NOTE}: the candidate discussed ${discussed.length} of ${skills.length} required skills in ${words} words.`,
+    confidence: words < MIN_ASSESSABLE_WORDS ? 30 : 50,
+  };
+}
+
+/**
+ * Plausible answer to the resume analysis, resume chunk and interview analysis prompts, scored by the
+ * overlap between the required skills and the untrusted content of the prompt. Deterministic and
+ * offline; used by the 'rule-based' provider for demos and end-to-end tests.
+ */
+export function ruleBasedResponse(request: LLMRequest): string {
+  const { prompt, responseSchema } = request;
+
+  if (responseSchema?.name === RESUME_CHUNK_SCHEMA.name) {
+    return JSON.stringify(extractFindings(prompt));
+  }
+  if (responseSchema?.name === RESUME_ANALYSIS_SCHEMA.name || prompt.includes('<untrusted_resume')) {
+    return JSON.stringify(analyzeResume(prompt));
+  }
+  if (prompt.includes('<untrusted_transcript>')) {
+    return JSON.stringify(analyzeInterview(prompt));
+  }
+  // Not an analysis prompt, e.g. a connectivity test
+  return '{}';
+}
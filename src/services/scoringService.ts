@@ -3,9 +3,11 @@ import {
   Candidate, 
   JobProfile, 
   AIAnalysisResult, 
+  CompanyCatalogMatch,
   LinkedInAnalysis, 
   GitHubAnalysis, 
-  InterviewAnalysisResult 
+  InterviewSession,
+  ResumeSections
 } from '../models/interfaces';
 import { DatabaseError } from '../utils/database';
 
@@ -38,6 +40,7 @@ export interface ScoringBreakdown {
       rawScore: number;
       weight: number;
       weightedScore: number;
+      companyMatches?: CompanyCatalogMatch[]; // Company catalog entries behind the company quality points
     };
     githubAnalysis: {
       rawScore: number;
@@ -73,7 +76,7 @@ export class ScoringService {
       const usedThresholds = thresholds || this.defaultThresholds;
       const breakdown = this.calculateScoringBreakdown(candidate, jobProfile);
       const recommendation = this.generateRecommendation(breakdown.compositeScore, usedThresholds);
-      const reasoning = this.generateReasoning(breakdown, recommendation);
+      const reasoning = this.generateReasoning(breakdown, recommendation, candidate.resumeData.sections);
 
       return {
         candidateId: candidate.id,
@@ -140,7 +143,10 @@ export class ScoringService {
         linkedInAnalysis: {
           rawScore: linkedInScore,
           weight: weights.linkedInAnalysis,
-          weightedScore: linkedInContribution
+          weightedScore: linkedInContribution,
+          ...(candidate.linkedInAnalysis?.experience.companyMatches && {
+            companyMatches: candidate.linkedInAnalysis.experience.companyMatches
+          })
         },
         githubAnalysis: {
           rawScore: githubScore,
@@ -244,16 +250,14 @@ export class ScoringService {
     return githubAnalysis.technicalScore;
   }
 
-  private extractInterviewScore(interviewSession?: any, missingStages?: string[]): number {
-    // Note: This assumes interview analysis results are attached to the session
-    // In a real implementation, you might need to fetch the InterviewAnalysisResult separately
+  private extractInterviewScore(interviewSession?: InterviewSession, missingStages?: string[]): number {
+    // The stored InterviewAnalysisResult is attached to the session before scoring
     if (!interviewSession || !interviewSession.analysisResult) {
       missingStages?.push('interviewPerformance');
       return 0;
     }
     
-    const analysis = interviewSession.analysisResult as InterviewAnalysisResult;
-    return analysis.performanceScore;
+    return interviewSession.analysisResult.performanceScore;
   }
 
   private calculateAvailableWeight(
@@ -295,7 +299,8 @@ export class ScoringService {
 
   private generateReasoning(
     breakdown: ScoringBreakdown,
-    recommendation: string
+    recommendation: string,
+    sections?: ResumeSections
   ): string {
     const { stageContributions, compositeScore, missingStages } = breakdown;
     
@@ -320,6 +325,12 @@ export class ScoringService {
     if (missingStages.length > 0) {
       reasoning += `Missing analysis: ${missingStages.map(this.formatStageName).join(', ')}. `;
     }
+
+    // Structured resume facts, when the resume could be parsed into sections
+    if (sections && sections.workHistory.length > 0) {
+      reasoning += `Resume lists ${sections.totalYearsExperience} years of experience across ${sections.workHistory.length} role(s)`;
+      reasoning += sections.highestDegreeLevel ? `; highest degree: ${sections.highestDegreeLevel}. ` : '. ';
+    }
     
     // Add recommendation context
     switch (recommendation) {
@@ -0,0 +1,702 @@
+import * as path from 'path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+
+/**
+ * Text of a document along with the parts of it a reader would not see
+ */
+export interface ExtractedDocument {
+  text: string;
+  hiddenText: string[];
+  pages?: string[]; // Text of each page, for paged formats
+}
+
+export interface TextExtractor {
+  name: string;
+  mimeTypes: string[];
+  extensions: string[]; // Lower-case, including the leading dot
+  extract(buffer: Buffer, fileName: string): Promise<string | ExtractedDocument>;
+}
+
+export interface TextExtractionResult {
+  text: string;
+  extractor: string;
+  hiddenText?: string[]; // Set by extractors that can tell hidden text apart, when there is any
+  pages?: string[]; // Text of each page, set by extractors of paged formats
+}
+
+// Generic MIME types browsers send when they don't know better; resolution falls back to the extension
+const GENERIC_MIME_TYPES = ['application/octet-stream', 'binary/octet-stream', 'application/zip'];
+
+const HTML_ENTITIES: { [entity: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  bull: '•',
+  middot: '·',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+};
+
+/**
+ * Decode named and numeric XML/HTML entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1]?.toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Collapse runs of blank space while keeping paragraph breaks
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeTextBuffer(buffer: Buffer): string {
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Node has no UTF-16BE decoder; swap to little-endian first
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return swapped.toString('utf16le');
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf8');
+  }
+  return buffer.toString('utf8');
+}
+
+// pdf.js operator codes (OPS) used to follow the graphics state while text and shapes are drawn
+const PDF_OPS = {
+  save: 10,
+  restore: 11,
+  transform: 12,
+  moveTo: 13,
+  lineTo: 14,
+  curveTo: 15,
+  curveTo2: 16,
+  curveTo3: 17,
+  rectangle: 19,
+  stroke: 20,
+  closeStroke: 21,
+  fill: 22,
+  eoFill: 23,
+  fillStroke: 24,
+  eoFillStroke: 25,
+  closeFillStroke: 26,
+  closeEOFillStroke: 27,
+  endPath: 28,
+  beginText: 31,
+  setLeading: 36,
+  setFont: 37,
+  setTextRenderingMode: 38,
+  moveText: 40,
+  setLeadingMoveText: 41,
+  setTextMatrix: 42,
+  nextLine: 43,
+  showText: 44,
+  setFillRGBColor: 59,
+  paintFormXObjectBegin: 74,
+  paintFormXObjectEnd: 75,
+  constructPath: 91,
+};
+
+// Coordinates each path operator takes from constructPath's argument list
+const PATH_ARGUMENT_COUNTS: Record<number, number> = {
+  [PDF_OPS.moveTo]: 2,
+  [PDF_OPS.lineTo]: 2,
+  [PDF_OPS.curveTo]: 6,
+  [PDF_OPS.curveTo2]: 4,
+  [PDF_OPS.curveTo3]: 4,
+  [PDF_OPS.rectangle]: 4,
+};
+const FILL_OPS = new Set([
+  PDF_OPS.fill, PDF_OPS.eoFill, PDF_OPS.fillStroke, PDF_OPS.eoFillStroke, PDF_OPS.closeFillStroke, PDF_OPS.closeEOFillStroke,
+]);
+
+// Text smaller than this (in points) cannot be read on the page
+const MIN_READABLE_FONT_SIZE = 3;
+// Fill colours with no channel further than this from the background's are invisible against it
+const MAX_INVISIBLE_CONTRAST = 10;
+const WHITE = [255, 255, 255];
+
+type PdfMatrix = [number, number, number, number, number, number];
+
+const IDENTITY: PdfMatrix = [1, 0, 0, 1, 0, 0];
+
+interface PdfTextState {
+  fill: number[];
+  renderingMode: number;
+  fontSize: number;
+  leading: number;
+  ctm: PdfMatrix;
+}
+
+// A filled rectangle on the page, in page coordinates
+interface PdfFilledArea {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  fill: number[];
+}
+
+/**
+ * The matrix m applied first, then base (as pdf.js Util.transform)
+ */
+function multiplyMatrix(base: PdfMatrix, m: PdfMatrix): PdfMatrix {
+  return [
+    base[0] * m[0] + base[2] * m[1],
+    base[1] * m[0] + base[3] * m[1],
+    base[0] * m[2] + base[2] * m[3],
+    base[1] * m[2] + base[3] * m[3],
+    base[0] * m[4] + base[2] * m[5] + base[4],
+    base[1] * m[4] + base[3] * m[5] + base[5],
+  ];
+}
+
+function applyMatrix(m: PdfMatrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Collect the text a PDF page draws in a way a reader cannot see: in the colour of what is behind
+ * it, the invisible rendering modes (3 and 7) or a font too small to read. The background is the
+ * last filled rectangle under the start of the text, or the white page; other shapes are ignored.
+ */
+function collectHiddenPdfText(operatorList: { fnArray: number[]; argsArray: any[] }): string[] {
+  const hidden: string[] = [];
+  const stack: PdfTextState[] = [];
+  const filledAreas: PdfFilledArea[] = [];
+  let pendingRectangles: PdfFilledArea[] = [];
+  let state: PdfTextState = { fill: [0, 0, 0], renderingMode: 0, fontSize: 12, leading: 0, ctm: IDENTITY };
+  let lineMatrix: PdfMatrix = IDENTITY;
+  let textMatrix: PdfMatrix = IDENTITY;
+
+  const moveText = (tx: number, ty: number) => {
+    lineMatrix = multiplyMatrix(lineMatrix, [1, 0, 0, 1, tx, ty]);
+    textMatrix = lineMatrix;
+  };
+
+  const backgroundAt = (x: number, y: number): number[] => {
+    for (let i = filledAreas.length - 1; i >= 0; i--) {
+      const area = filledAreas[i]!;
+      if (x >= area.x0 && x <= area.x1 && y >= area.y0 && y <= area.y1) {
+        return area.fill;
+      }
+    }
+    return WHITE;
+  };
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index];
+    switch (fn) {
+      case PDF_OPS.save:
+        stack.push({ ...state });
+        break;
+      case PDF_OPS.restore:
+        state = stack.pop() ?? state;
+        break;
+      case PDF_OPS.transform:
+        state.ctm = multiplyMatrix(state.ctm, args as PdfMatrix);
+        break;
+      case PDF_OPS.paintFormXObjectBegin:
+        stack.push({ ...state });
+        if (Array.isArray(args[0]) && args[0].length === 6) {
+          state.ctm = multiplyMatrix(state.ctm, args[0] as PdfMatrix);
+        }
+        break;
+      case PDF_OPS.paintFormXObjectEnd:
+        state = stack.pop() ?? state;
+        break;
+      case PDF_OPS.constructPath: {
+        const [ops, coordinates] = args as [number[], number[]];
+        let offset = 0;
+        for (const op of ops) {
+          if (op === PDF_OPS.rectangle) {
+            const [x, y, width, height] = coordinates.slice(offset, offset + 4) as [number, number, number, number];
+            const corners = [applyMatrix(state.ctm, x, y), applyMatrix(state.ctm, x + width, y + height)];
+            pendingRectangles.push({
+              x0: Math.min(corners[0]![0], corners[1]![0]),
+              y0: Math.min(corners[0]![1], corners[1]![1]),
+              x1: Math.max(corners[0]![0], corners[1]![0]),
+              y1: Math.max(corners[0]![1], corners[1]![1]),
+              fill: state.fill,
+            });
+          }
+          offset += PATH_ARGUMENT_COUNTS[op] ?? 0;
+        }
+        break;
+      }
+      case PDF_OPS.stroke:
+      case PDF_OPS.closeStroke:
+      case PDF_OPS.endPath:
+        pendingRectangles = [];
+        break;
+      case PDF_OPS.beginText:
+        lineMatrix = IDENTITY;
+        textMatrix = IDENTITY;
+        break;
+      case PDF_OPS.setLeading:
+        state.leading = args[0];
+        break;
+      case PDF_OPS.setFont:
+        state.fontSize = Math.abs(args[1]);
+        break;
+      case PDF_OPS.setTextRenderingMode:
+        state.renderingMode = args[0];
+        break;
+      case PDF_OPS.moveText:
+        moveText(args[0], args[1]);
+        break;
+      case PDF_OPS.setLeadingMoveText:
+        state.leading = -args[1];
+        moveText(args[0], args[1]);
+        break;
+      case PDF_OPS.nextLine:
+        moveText(0, -state.leading);
+        break;
+      case PDF_OPS.setTextMatrix:
+        lineMatrix = args as PdfMatrix;
+        textMatrix = lineMatrix;
+        break;
+      case PDF_OPS.setFillRGBColor:
+        state.fill = [args[0], args[1], args[2]];
+        break;
+      case PDF_OPS.showText: {
+        const [x, y] = applyMatrix(state.ctm, textMatrix[4], textMatrix[5]);
+        const background = backgroundAt(x, y);
+        const invisible = state.renderingMode === 3 || state.renderingMode === 7 ||
+          state.fill.every((channel, i) => Math.abs(channel - background[i]!) <= MAX_INVISIBLE_CONTRAST) ||
+          state.fontSize * Math.hypot(textMatrix[0], textMatrix[1]) < MIN_READABLE_FONT_SIZE;
+        if (invisible) {
+          const text = (args[0] as any[]).map(glyph => (typeof glyph === 'object' && glyph ? glyph.unicode : '')).join('');
+          if (text.trim()) {
+            hidden.push(text);
+          }
+        }
+        break;
+      }
+      default:
+        if (FILL_OPS.has(fn)) {
+          filledAreas.push(...pendingRectangles);
+          pendingRectangles = [];
+        }
+    }
+  });
+
+  return hidden;
+}
+
+export const pdfExtractor: TextExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const hiddenText: string[] = [];
+    const pages: string[] = [];
+
+    // Same page text as pdf-parse's default renderer, plus the text drawn hidden on the page
+    const data = await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        hiddenText.push(...collectHiddenPdfText(await pageData.getOperatorList()));
+
+        const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        let lastY = 0;
+        let text = '';
+        for (const item of textContent.items) {
+          text += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+          lastY = item.transform[5];
+        }
+        pages[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+
+    // Pages pdf-parse could not render have no text
+    return { text: data.text, hiddenText, pages: Array.from({ length: data.numrender }, (_, index) => pages[index] ?? '') };
+  },
+};
+
+export const docxExtractor: TextExtractor = {
+  name: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  async extract(buffer: Buffer): Promise<string> {
+    const result = await mammoth.extractRawText({ buffer });
+    return normalizeWhitespace(result.value);
+  },
+};
+
+export const odtExtractor: TextExtractor = {
+  name: 'odt',
+  mimeTypes: ['application/vnd.oasis.opendocument.text'],
+  extensions: ['.odt'],
+  async extract(buffer: Buffer): Promise<string> {
+    const zip = await JSZip.loadAsync(buffer);
+    const content = zip.file('content.xml');
+    if (!content) {
+      throw new Error('ODT archive has no content.xml');
+    }
+
+    const xml = await content.async('string');
+    // Whitespace in ODF markup is insignificant; spacing is encoded with text:s, text:tab and text:line-break
+    const body = xml.replace(/^[\s\S]*?<office:body[^>]*>/, '').replace(/\s+/g, ' ');
+
+    const text = body
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_match, count?: string) => ' '.repeat(count ? parseInt(count, 10) : 1))
+      .replace(/<\/text:(?:p|h)>/g, '\n')
+      .replace(/<text:list-item[^>]*>/g, '\n• ')
+      .replace(/<[^>]+>/g, '');
+
+    return normalizeWhitespace(decodeEntities(text));
+  },
+};
+
+export const htmlExtractor: TextExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  async extract(buffer: Buffer): Promise<string> {
+    const html = decodeTextBuffer(buffer);
+
+    const text = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|head|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|h[1-6]|li|tr|section|article|header|footer|table|ul|ol)>/gi, '\n')
+      .replace(/<\/t[dh]>/gi, '\t')
+      .replace(/<[^>]+>/g, '');
+
+    return normalizeWhitespace(decodeEntities(text));
+  },
+};
+
+// RTF groups whose content is formatting metadata rather than document text
+const RTF_IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'header', 'footer', 'headerl', 'headerr',
+  'footerl', 'footerr', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'generator',
+  'latentstyles', 'themedata', 'colorschememapping', 'datastore', 'xmlnstbl', 'object', 'fldinst',
+]);
+
+/**
+ * Convert RTF markup to plain text
+ */
+export function rtfToText(rtf: string): string {
+  const output: string[] = [];
+  // Each group remembers whether it is skipped and how many characters follow a \uN escape
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let i = 0;
+
+  while (i < rtf.length) {
+    const char = rtf[i]!;
+
+    if (char === '{') {
+      stack.push({ skip, unicodeSkip });
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      const state = stack.pop();
+      if (state) {
+        skip = state.skip;
+        unicodeSkip = state.unicodeSkip;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = rtf[i + 1];
+
+      if (next === undefined) {
+        break;
+      }
+
+      if (next === '\\' || next === '{' || next === '}') {
+        if (!skip) output.push(next);
+        i += 2;
+        continue;
+      }
+
+      if (next === '*') {
+        // Unknown destinations marked with \* are ignorable by definition
+        skip = true;
+        i += 2;
+        continue;
+      }
+
+      if (next === "'") {
+        const hex = rtf.substr(i + 2, 2);
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!skip) {
+          output.push(Buffer.from([parseInt(hex, 16)]).toString('latin1'));
+        }
+        i += 4;
+        continue;
+      }
+
+      if (next === '\n' || next === '\r') {
+        if (!skip) output.push('\n');
+        i += 2;
+        continue;
+      }
+
+      const controlMatch = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+      if (!controlMatch) {
+        // Control symbol such as \~ (non-breaking space) or \- (optional hyphen)
+        if (!skip && next === '~') output.push(' ');
+        i += 2;
+        continue;
+      }
+
+      const word = controlMatch[1]!;
+      const param = controlMatch[2] !== undefined ? parseInt(controlMatch[2], 10) : undefined;
+      i += 1 + controlMatch[0].length;
+
+      if (RTF_IGNORED_DESTINATIONS.has(word)) {
+        skip = true;
+        continue;
+      }
+
+      if (skip) {
+        continue;
+      }
+
+      switch (word) {
+        case 'par':
+        case 'line':
+        case 'sect':
+        case 'page':
+        case 'row':
+          output.push('\n');
+          break;
+        case 'tab':
+        case 'cell':
+          output.push('\t');
+          break;
+        case 'bullet':
+          output.push('•');
+          break;
+        case 'emdash':
+          output.push('—');
+          break;
+        case 'endash':
+          output.push('–');
+          break;
+        case 'lquote':
+        case 'rquote':
+          output.push("'");
+          break;
+        case 'ldblquote':
+        case 'rdblquote':
+          output.push('"');
+          break;
+        case 'uc':
+          unicodeSkip = param ?? 1;
+          break;
+        case 'u':
+          if (param !== undefined) {
+            output.push(String.fromCharCode(param < 0 ? param + 65536 : param));
+            pendingSkip = unicodeSkip;
+          }
+          break;
+      }
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (pendingSkip > 0) {
+      pendingSkip--;
+    } else if (!skip) {
+      output.push(char);
+    }
+    i++;
+  }
+
+  return normalizeWhitespace(output.join(''));
+}
+
+export const rtfExtractor: TextExtractor = {
+  name: 'rtf',
+  mimeTypes: ['application/rtf', 'text/rtf', 'application/x-rtf', 'text/richtext'],
+  extensions: ['.rtf'],
+  async extract(buffer: Buffer): Promise<string> {
+    return rtfToText(buffer.toString('latin1'));
+  },
+};
+
+export const plainTextExtractor: TextExtractor = {
+  name: 'text',
+  mimeTypes: ['text/plain', 'text/markdown'],
+  extensions: ['.txt', '.text', '.md'],
+  async extract(buffer: Buffer): Promise<string> {
+    return normalizeWhitespace(decodeTextBuffer(buffer));
+  },
+};
+
+/**
+ * Legacy .doc files are frequently RTF, HTML or DOCX saved under a .doc name.
+ * Those are routed to the matching extractor; genuine Word 97-2003 binaries fall back
+ * to recovering printable text runs, which is lossy but enough for screening.
+ */
+export const legacyDocExtractor: TextExtractor = {
+  name: 'doc',
+  mimeTypes: ['application/msword'],
+  extensions: ['.doc'],
+  async extract(buffer: Buffer, fileName: string): Promise<string | ExtractedDocument> {
+    const head = buffer.subarray(0, 512).toString('latin1');
+
+    if (head.startsWith('{\\rtf')) {
+      return rtfExtractor.extract(buffer, fileName);
+    }
+    if (head.startsWith('PK')) {
+      return docxExtractor.extract(buffer, fileName);
+    }
+    if (/<html|<!doctype html/i.test(head)) {
+      return htmlExtractor.extract(buffer, fileName);
+    }
+
+    // Word 97+ stores text as UTF-16LE or as single-byte runs; keep whichever recovers more
+    const minRunLength = 4;
+    const utf16Runs = buffer.toString('utf16le').match(new RegExp(`[\\x20-\\x7e\\u00a0-\\u024f\\r\\n\\t]{${minRunLength},}`, 'g')) || [];
+    const latin1Runs = buffer.toString('latin1').match(new RegExp(`[\\x20-\\x7e\\r\\n\\t]{${minRunLength},}`, 'g')) || [];
+    const utf16Text = utf16Runs.join('\n');
+    const latin1Text = latin1Runs.join('\n');
+
+    const text = normalizeWhitespace(utf16Text.length >= latin1Text.length ? utf16Text : latin1Text);
+    if (!text) {
+      throw new Error('No readable text found in legacy Word document');
+    }
+    return text;
+  },
+};
+
+export class TextExtractorRegistry {
+  private extractors: TextExtractor[] = [];
+
+  /**
+   * Register an extractor. Later registrations take precedence for the same MIME type or extension.
+   */
+  register(extractor: TextExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  /**
+   * Find the extractor for a file, by extension first and then by MIME type
+   */
+  resolve(fileName: string, mimeType?: string): TextExtractor | null {
+    const extension = path.extname(fileName).toLowerCase();
+    const normalizedMimeType = mimeType?.split(';')[0]?.trim().toLowerCase();
+
+    const byExtension = extension
+      ? this.extractors.find(extractor => extractor.extensions.includes(extension))
+      : undefined;
+    if (byExtension) {
+      return byExtension;
+    }
+
+    if (normalizedMimeType && !GENERIC_MIME_TYPES.includes(normalizedMimeType)) {
+      return this.extractors.find(extractor => extractor.mimeTypes.includes(normalizedMimeType)) || null;
+    }
+
+    return null;
+  }
+
+  isSupported(fileName: string, mimeType?: string): boolean {
+    return this.resolve(fileName, mimeType) !== null;
+  }
+
+  /**
+   * Whether a file's MIME type is acceptable for upload: either a supported type
+   * or a generic one (resolution then relies on the extension)
+   */
+  isAcceptedMimeType(mimeType: string): boolean {
+    const normalizedMimeType = mimeType.split(';')[0]?.trim().toLowerCase() || '';
+    return GENERIC_MIME_TYPES.includes(normalizedMimeType) ||
+      this.extractors.some(extractor => extractor.mimeTypes.includes(normalizedMimeType));
+  }
+
+  async extract(buffer: Buffer, fileName: string, mimeType?: string): Promise<TextExtractionResult> {
+    const extractor = this.resolve(fileName, mimeType);
+    if (!extractor) {
+      throw new Error(`Unsupported file type for ${fileName}`);
+    }
+
+    try {
+      const extracted = await extractor.extract(buffer, fileName);
+      if (typeof extracted === 'string') {
+        return { text: extracted, extractor: extractor.name };
+      }
+      return {
+        text: extracted.text,
+        extractor: extractor.name,
+        ...(extracted.hiddenText.length > 0 && { hiddenText: extracted.hiddenText }),
+        ...(extracted.pages && { pages: extracted.pages }),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to extract text from ${extractor.name.toUpperCase()} ${fileName}: ${errorMessage}`);
+    }
+  }
+
+  getSupportedExtensions(): string[] {
+    return Array.from(new Set(this.extractors.flatMap(extractor => extractor.extensions))).sort();
+  }
+
+  getSupportedMimeTypes(): string[] {
+    return Array.from(new Set(this.extractors.flatMap(extractor => extractor.mimeTypes))).sort();
+  }
+}
+
+export function createDefaultExtractorRegistry(): TextExtractorRegistry {
+  const registry = new TextExtractorRegistry();
+  [
+    plainTextExtractor,
+    htmlExtractor,
+    rtfExtractor,
+    odtExtractor,
+    legacyDocExtractor,
+    docxExtractor,
+    pdfExtractor,
+  ].forEach(extractor => registry.register(extractor));
+  return registry;
+}
+
+export const textExtractorRegistry = createDefaultExtractorRegistry();
@@ -2,6 +2,7 @@ import axios, { AxiosResponse } from 'axios';
 import { config } from '../utils/config';
 import { InterviewSession, JobProfile, Candidate } from '../models/interfaces';
 import { logger } from '../utils/logger';
+import { isValidPhoneNumber, normalizePhoneNumber } from '../utils/phoneNumber';
 import { monitoringService } from './monitoringService';
 import { errorRecoveryService } from './errorRecoveryService';
 
@@ -92,7 +93,7 @@ export class VAPIInterviewService {
       throw new Error(error);
     }
 
-    if (!phoneNumber || !this.isValidPhoneNumber(phoneNumber)) {
+    if (!phoneNumber || !this.isValidPhoneNumber(phoneNumber, jobProfile.phoneRegion)) {
       const error = 'Invalid or missing phone number';
       logger.error(error, undefined, {
         service: 'vapiInterview',
@@ -468,7 +469,7 @@ export class VAPIInterviewService {
     const firstMessage = "Hello! This is an AI assistant calling regarding your job application. Do you have a few minutes to discuss the position?";
 
     return {
-      phoneNumber: this.formatPhoneNumber(phoneNumber),
+      phoneNumber: this.formatPhoneNumber(phoneNumber, jobProfile.phoneRegion),
       assistant: {
         model: {
           provider: 'openai',
@@ -640,23 +641,13 @@ Remember: You're representing the company, so maintain professionalism while bei
   /**
    * Helper methods
    */
-  private isValidPhoneNumber(phoneNumber: string): boolean {
-    // Basic phone number validation (US format)
-    const phoneRegex = /^\+?1?[-.\s]?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})$/;
-    return phoneRegex.test(phoneNumber.replace(/\s/g, ''));
+  private isValidPhoneNumber(phoneNumber: string, phoneRegion?: string): boolean {
+    return isValidPhoneNumber(phoneNumber, phoneRegion);
   }
 
-  private formatPhoneNumber(phoneNumber: string): string {
+  private formatPhoneNumber(phoneNumber: string, phoneRegion?: string): string {
     // Format to E.164 format for VAPI
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    
-    if (cleaned.length === 10) {
-      return `+1${cleaned}`;
-    } else if (cleaned.length === 11 && cleaned.startsWith('1')) {
-      return `+${cleaned}`;
-    } else {
-      return phoneNumber; // Return as-is if format is unclear
-    }
+    return normalizePhoneNumber(phoneNumber, phoneRegion)?.e164 || phoneNumber; // Return as-is if format is unclear
   }
 
   private delay(ms: number): Promise<void> {
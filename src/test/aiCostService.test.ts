@@ -0,0 +1,78 @@
+import { AICostService, UsageMeter, priceTokens } from '../services/aiCostService';
+import { AIBatchBudgetModel, AIUsageRecordModel } from '../models/schemas';
+import { config } from '../utils/config';
+import { database } from '../utils/database';
+import { JobProfile } from '../models/interfaces';
+
+describe('AI Cost Accounting', () => {
+  test('should price tokens with the rate table and charge nothing for unlisted providers', () => {
+    expect(priceTokens('openai', { inputTokens: 1000, outputTokens: 500 }))
+      .toBeCloseTo((1000 * config.aiCosts.pricing.openai!.inputPerMillion + 500 * config.aiCosts.pricing.openai!.outputPerMillion) / 1e6);
+    expect(priceTokens('claude', { inputTokens: 2_000_000, outputTokens: 0 })).toBe(2 * config.aiCosts.pricing.claude!.inputPerMillion);
+    expect(priceTokens('mock', { inputTokens: 2_000_000, outputTokens: 1_000_000 })).toBe(0);
+  });
+
+  test('should add up calls per provider, counting calls without reported usage', () => {
+    const meter = new UsageMeter();
+    meter.add('claude', { inputTokens: 1_000_000, outputTokens: 100_000 });
+    meter.add('claude', { inputTokens: 500_000, outputTokens: 0 });
+    meter.add('local');
+
+    const usage = meter.toUsage();
+
+    expect(usage).toMatchObject({ inputTokens: 1_500_000, outputTokens: 100_000, calls: 3 });
+    expect(usage.providers).toEqual([
+      { provider: 'claude', inputTokens: 1_500_000, outputTokens: 100_000, calls: 2, costUsd: priceTokens('claude', usage) },
+      { provider: 'local', inputTokens: 0, outputTokens: 0, calls: 1, costUsd: 0 },
+    ]);
+    expect(usage.costUsd).toBe(usage.providers[0]!.costUsd);
+  });
+
+  test('should not pause batches when spend cannot be recorded', async () => {
+    const jobProfile = { id: 'job-123', aiBatchBudgetUsd: 0 } as JobProfile;
+
+    await expect(new AICostService().isBatchOverBudget('batch-1', jobProfile)).resolves.toBe(false);
+  });
+
+  describe('batch spend', () => {
+    const jobProfile = { id: 'job-123', aiBatchBudgetUsd: 1 } as JobProfile;
+
+    beforeEach(() => {
+      jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should add recorded spend to the running total of the batch', async () => {
+      jest.spyOn(AIUsageRecordModel, 'insertMany').mockResolvedValue([] as never);
+      const update = jest.spyOn(AIBatchBudgetModel, 'updateOne').mockResolvedValue({} as never);
+      const meter = new UsageMeter();
+      meter.add('claude', { inputTokens: 100_000, outputTokens: 10_000 });
+      const usage = meter.toUsage();
+
+      await new AICostService().recordUsage(usage, { candidateId: 'c1', jobProfileId: 'job-123', batchId: 'batch-1', analysisType: 'resume-analysis' });
+
+      expect(update).toHaveBeenCalledWith(
+        { batchId: 'batch-1' },
+        { $inc: { spentUsd: usage.costUsd }, $setOnInsert: { jobProfileId: 'job-123' } },
+        { upsert: true }
+      );
+    });
+
+    test('should compare the running total against the limit without aggregating usage records', async () => {
+      const aggregate = jest.spyOn(AIUsageRecordModel, 'aggregate');
+      const findOne = jest.spyOn(AIBatchBudgetModel, 'findOne')
+        .mockReturnValueOnce({ lean: async () => ({ batchId: 'batch-1', spentUsd: 0.4, paused: false }) } as never)
+        .mockReturnValueOnce({ lean: async () => ({ batchId: 'batch-1', spentUsd: 1.2, paused: false }) } as never);
+      const service = new AICostService();
+
+      await expect(service.isBatchOverBudget('batch-1', jobProfile)).resolves.toBe(false);
+      await expect(service.isBatchOverBudget('batch-1', jobProfile)).resolves.toBe(true);
+
+      expect(findOne).toHaveBeenCalledTimes(2);
+      expect(aggregate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -94,10 +94,10 @@ describe('API Endpoints', () => {
   });
 
   describe('Resume Upload Routes', () => {
-    it('should reject non-PDF files', async () => {
+    it('should reject unsupported file types', async () => {
       const response = await request(app)
         .post('/api/resumes/upload-single')
-        .attach('resume', Buffer.from('not a pdf'), 'test.txt')
+        .attach('resume', Buffer.from('not a resume'), 'test.exe')
         .expect(400);
 
       expect(response.body.success).toBe(false);
@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import * as tar from 'tar-stream';
+import JSZip from 'jszip';
+import { ArchiveExtractionService, ArchiveExtractionError, UncompressedSizeBudget } from '../services/archiveExtractionService';
+import { ResumeFile } from '../services/batchProcessingService';
+
+// Collects each entry in memory, as the tests inspect their content
+async function toResumeFile(fileName: string, content: Readable): Promise<ResumeFile> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(chunk as Buffer);
+  }
+  return { fileName, buffer: Buffer.concat(chunks) };
+}
+
+async function buildZip(entries: { [name: string]: string }): Promise<Buffer> {
+  const zip = new JSZip();
+  Object.entries(entries).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+async function buildTarGz(entries: Array<{ name: string; content?: string; type?: 'file' | 'symlink' | 'directory' }>): Promise<Buffer> {
+  const pack = tar.pack();
+  const chunks: Buffer[] = [];
+  const packed = new Promise<void>((resolve, reject) => {
+    pack.on('data', chunk => chunks.push(chunk as Buffer));
+    pack.on('end', () => resolve());
+    pack.on('error', reject);
+  });
+
+  entries.forEach(({ name, content, type = 'file' }) => {
+    if (type === 'symlink') {
+      pack.entry({ name, type, linkname: '/etc/passwd' });
+    } else if (type === 'directory') {
+      pack.entry({ name, type });
+    } else {
+      pack.entry({ name }, content || '');
+    }
+  });
+  pack.finalize();
+
+  await packed;
+  return zlib.gzipSync(Buffer.concat(chunks));
+}
+
+describe('Archive Extraction Service', () => {
+  let service: ArchiveExtractionService;
+
+  beforeEach(() => {
+    service = new ArchiveExtractionService({ maxEntries: 20, maxUncompressedSize: 1024 * 1024, maxEntrySize: 64 * 1024 });
+  });
+
+  test('should recognise archives by extension', () => {
+    expect(service.isArchive('resumes.zip')).toBe(true);
+    expect(service.isArchive('resumes.TAR.GZ')).toBe(true);
+    expect(service.isArchive('resumes.tgz')).toBe(true);
+    expect(service.isArchive('resume.pdf')).toBe(false);
+    expect(service.isAcceptedMimeType('application/x-zip-compressed')).toBe(true);
+  });
+
+  test('should expand supported resumes from a ZIP archive, including nested folders', async () => {
+    const buffer = await buildZip({
+      'jane.txt': 'Jane Doe\njane@example.com',
+      'engineering/john.html': '<p>John Smith</p>',
+    });
+
+    const result = await service.extract(buffer, 'batch.zip', toResumeFile);
+
+    expect(result.files.map(file => file.fileName).sort())
+      .toEqual(['batch.zip/engineering/john.html', 'batch.zip/jane.txt']);
+    expect(result.files.find(file => file.fileName === 'batch.zip/jane.txt')?.buffer.toString())
+      .toBe('Jane Doe\njane@example.com');
+    expect(result.skipped).toEqual([]);
+  });
+
+  test('should report unsupported, nested and oversized entries and ignore OS metadata', async () => {
+    const buffer = await buildZip({
+      'jane.txt': 'Jane Doe',
+      'setup.exe': 'MZ',
+      'more.zip': 'PK',
+      'huge.txt': 'x'.repeat(65 * 1024),
+      'empty.txt': '',
+      '__MACOSX/._jane.txt': 'metadata',
+      '.DS_Store': 'metadata',
+    });
+
+    const result = await service.extract(buffer, 'batch.zip', toResumeFile);
+    const reasons = Object.fromEntries(result.skipped.map(entry => [entry.entryName, entry.reason]));
+
+    expect(result.files.map(file => file.fileName)).toEqual(['batch.zip/jane.txt']);
+    expect(reasons).toEqual({
+      'setup.exe': 'Unsupported file type .exe',
+      'more.zip': 'Nested archives are not supported',
+      'huge.txt': 'File exceeds the 64KB per-file limit',
+      'empty.txt': 'Empty file',
+    });
+  });
+
+  test('should skip entries that escape the archive root', async () => {
+    const buffer = await buildTarGz([
+      { name: '../../etc/cron.d/evil.txt', content: 'evil' },
+      { name: '/abs/path.txt', content: 'evil' },
+      { name: 'safe/jane.txt', content: 'Jane Doe' },
+    ]);
+
+    const result = await service.extract(buffer, 'batch.tar.gz', toResumeFile);
+
+    expect(result.files.map(file => file.fileName)).toEqual(['batch.tar.gz/safe/jane.txt']);
+    expect(result.skipped.map(entry => entry.reason)).toEqual([
+      'Unsafe path outside the archive root',
+      'Unsafe path outside the archive root',
+    ]);
+  });
+
+  test('should expand .tar.gz archives and skip links', async () => {
+    const buffer = await buildTarGz([
+      { name: 'resumes', type: 'directory' },
+      { name: 'resumes/jane.txt', content: 'Jane Doe' },
+      { name: 'resumes/passwd.txt', type: 'symlink' },
+      { name: 'resumes/notes.csv', content: 'a,b' },
+      { name: 'resumes/john.md', content: '# John Smith' },
+    ]);
+
+    const result = await service.extract(buffer, 'batch.tgz', toResumeFile);
+
+    expect(result.files.map(file => file.fileName)).toEqual(['batch.tgz/resumes/jane.txt', 'batch.tgz/resumes/john.md']);
+    expect(result.files[1]?.buffer.toString()).toBe('# John Smith');
+    expect(result.skipped).toEqual([
+      { archiveName: 'batch.tgz', entryName: 'resumes/passwd.txt', reason: 'Links and special files are not supported' },
+      { archiveName: 'batch.tgz', entryName: 'resumes/notes.csv', reason: 'Unsupported file type .csv' },
+    ]);
+  });
+
+  test('should reject archives over the entry count limit', async () => {
+    const entries: { [name: string]: string } = {};
+    for (let i = 0; i < 21; i++) {
+      entries[`resume-${i}.txt`] = `Candidate ${i}`;
+    }
+
+    await expect(service.extract(await buildZip(entries), 'batch.zip', toResumeFile))
+      .rejects.toThrow('Archive batch.zip has 21 entries (limit 20)');
+  });
+
+  test('should reject archives over the total uncompressed size limit', async () => {
+    const limited = new ArchiveExtractionService({ maxEntries: 20, maxUncompressedSize: 100 * 1024, maxEntrySize: 64 * 1024 });
+    const buffer = await buildTarGz([
+      { name: 'a.txt', content: 'a'.repeat(60 * 1024) },
+      { name: 'b.txt', content: 'b'.repeat(60 * 1024) },
+    ]);
+
+    await expect(limited.extract(buffer, 'batch.tar.gz', toResumeFile)).rejects.toThrow('uncompressed size limit');
+  });
+
+  test('should read archives from disk', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+    const zipPath = path.join(dir, 'batch.zip');
+    const tarPath = path.join(dir, 'batch.tgz');
+    await fs.writeFile(zipPath, await buildZip({ 'jane.txt': 'Jane Doe' }));
+    await fs.writeFile(tarPath, await buildTarGz([{ name: 'john.txt', content: 'John Smith' }]));
+
+    try {
+      const zip = await service.extract(zipPath, 'batch.zip', toResumeFile);
+      const tarGz = await service.extract(tarPath, 'batch.tgz', toResumeFile);
+
+      expect(zip.files.map(file => file.buffer.toString())).toEqual(['Jane Doe']);
+      expect(tarGz.files.map(file => file.buffer.toString())).toEqual(['John Smith']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should reject an upload whose archives together exceed the uncompressed size budget', async () => {
+    const budget = new UncompressedSizeBudget(100 * 1024);
+    const first = await buildZip({ 'a.txt': 'a'.repeat(60 * 1024) });
+    const second = await buildTarGz([{ name: 'b.txt', content: 'b'.repeat(60 * 1024) }]);
+
+    await expect(service.extract(first, 'first.zip', toResumeFile, budget)).resolves.toBeDefined();
+    await expect(service.extract(second, 'second.tgz', toResumeFile, budget))
+      .rejects.toThrow('The uploaded archives exceed the 100KB combined uncompressed size limit');
+  });
+
+  test('should reject corrupt archives', async () => {
+    const extraction = service.extract(Buffer.from('not an archive'), 'batch.zip', toResumeFile);
+
+    await expect(extraction).rejects.toBeInstanceOf(ArchiveExtractionError);
+    await expect(service.extract(Buffer.from('not an archive'), 'batch.tar.gz', toResumeFile))
+      .rejects.toThrow('Failed to read archive batch.tar.gz');
+  });
+});
@@ -0,0 +1,190 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { BatchProcessingService } from '../services/batchProcessingService';
+import { BatchStagingService } from '../services/batchStagingService';
+import { duplicateDetectionService } from '../services/duplicateDetectionService';
+import { CandidateModel, ProcessingBatchModel } from '../models/schemas';
+import { database } from '../utils/database';
+import { Candidate, ProcessingBatch } from '../models/interfaces';
+
+describe('Resumable Batch Processing', () => {
+  let stagingDir: string;
+  let staging: BatchStagingService;
+  let batchProcessor: BatchProcessingService;
+
+  beforeEach(async () => {
+    stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-staging-'));
+    staging = new BatchStagingService(stagingDir);
+    batchProcessor = new BatchProcessingService(duplicateDetectionService, staging);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  });
+
+  const resumes = ['Alice Example\nalice@example.com', 'Bob Example\nbob@example.com', 'Carol Example\ncarol@example.com']
+    .map((text, i) => ({ buffer: Buffer.from(text), fileName: `resume-${i}.txt`, mimeType: 'text/plain' }));
+
+  test('should stage uploads on disk under the batch ID', async () => {
+    const batchId = batchProcessor.createBatchId();
+    const staged = await staging.stageFiles(batchId, resumes);
+
+    expect(staged.map(file => file.fileName)).toEqual(['resume-0.txt', 'resume-1.txt', 'resume-2.txt']);
+    expect(staged[2]!.path).toBe(path.join(stagingDir, batchId, '2'));
+    expect((await staging.readFile(staged[1]!)).toString()).toContain('bob@example.com');
+    await expect(staging.stageFiles('../escape', resumes)).rejects.toThrow('Invalid batch ID');
+  });
+
+  test('should stream archive entries into the batch directory after the loose files', async () => {
+    const batchId = batchProcessor.createBatchId();
+    const zip = new JSZip();
+    zip.file('jane.txt', 'Jane Doe\njane@example.com');
+    zip.file('notes.csv', 'a,b');
+    const archivePath = path.join(stagingDir, 'upload.zip');
+    await fs.writeFile(archivePath, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+    const archive = { path: archivePath, originalname: 'upload.zip' } as Express.Multer.File;
+
+    const { files, skipped } = await staging.stageArchive(batchId, archive, 2);
+
+    expect(files).toEqual([{ fileName: 'upload.zip/jane.txt', path: path.join(stagingDir, batchId, '2') }]);
+    expect((await staging.readFile(files[0]!)).toString()).toBe('Jane Doe\njane@example.com');
+    expect(skipped.map(entry => entry.entryName)).toEqual(['notes.csv']);
+  });
+
+  test('should resume an interrupted batch from the first unprocessed file', async () => {
+    const batchId = batchProcessor.createBatchId();
+    const interrupted: ProcessingBatch = {
+      id: batchId,
+      jobProfileId: 'job-profile',
+      totalCandidates: 3,
+      processedCandidates: 1,
+      failedCandidates: 0,
+      status: 'processing',
+      startedAt: new Date(),
+      candidateIds: ['first-candidate'],
+      stagedFiles: await staging.stageFiles(batchId, resumes),
+      nextFileIndex: 1
+    };
+    const processedFiles = new Set<string>();
+    batchProcessor.on('progress', progress => {
+      if (progress.currentFile) processedFiles.add(progress.currentFile);
+    });
+
+    const batch = await batchProcessor.resumeBatch(interrupted);
+
+    expect([...processedFiles]).toEqual(['resume-1.txt', 'resume-2.txt']);
+    expect(batch.status).toBe('completed');
+    expect(batch.processedCandidates).toBe(3);
+    expect(batch.nextFileIndex).toBe(3);
+    expect(batch.candidateIds).toHaveLength(3);
+    expect(batch.candidateIds[0]).toBe('first-candidate');
+    await expect(fs.access(path.join(stagingDir, batchId))).rejects.toThrow();
+  });
+
+  test('should report candidates stored before a restart and append only new ones to the batch', async () => {
+    const batchId = batchProcessor.createBatchId();
+    const firstCandidateId = '66f0c0ffee0000000000abcd';
+    const storedFirst = {
+      _id: firstCandidateId,
+      personId: firstCandidateId,
+      resumeData: { id: 'resume-0', fileName: 'resume-0.txt', extractedText: resumes[0]!.buffer.toString(), contactInfo: { projectUrls: [] }, processingStatus: 'completed' },
+      processingStage: 'resume',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    jest.spyOn(CandidateModel, 'create').mockResolvedValue({} as never);
+    const lookup = { sort: () => lookup, limit: () => lookup, lean: async () => [storedFirst] };
+    const find = jest.spyOn(CandidateModel, 'find').mockReturnValue(lookup as never);
+    jest.spyOn(CandidateModel, 'findOne').mockReturnValue({ lean: async () => null } as never);
+    const updateBatch = jest.spyOn(ProcessingBatchModel, 'updateOne').mockResolvedValue({} as never);
+    const completed = new Promise<Candidate[]>(resolve => {
+      batchProcessor.on('completed', ({ candidates }) => resolve(candidates));
+    });
+
+    const batch = await batchProcessor.resumeBatch({
+      id: batchId,
+      jobProfileId: 'job-profile',
+      totalCandidates: 3,
+      processedCandidates: 1,
+      failedCandidates: 0,
+      status: 'processing',
+      startedAt: new Date(),
+      candidateIds: [firstCandidateId],
+      stagedFiles: await staging.stageFiles(batchId, resumes),
+      nextFileIndex: 1
+    });
+
+    const candidates = await completed;
+    expect(find).toHaveBeenCalledWith({ _id: { $in: [firstCandidateId] } });
+    expect(candidates.map(candidate => candidate.id)).toEqual(batch.candidateIds);
+    expect(candidates[0]).toMatchObject({ id: firstCandidateId, resumeData: { fileName: 'resume-0.txt' } });
+
+    const updates = updateBatch.mock.calls.map(call => (call as unknown[])[1] as any);
+    const fileUpdates = updates.filter(update => update.$push);
+    expect(fileUpdates.map(update => update.$push)).toEqual([
+      { candidateIds: batch.candidateIds[1] },
+      { candidateIds: batch.candidateIds[2] },
+    ]);
+    expect(fileUpdates[1].$set).toMatchObject({ processedCandidates: 3, nextFileIndex: 3 });
+    expect(updates.some(update => 'candidateIds' in (update.$set || {}))).toBe(false);
+  });
+
+  test('should not store a file again whose candidate was stored before the restart recorded it', async () => {
+    const batchId = batchProcessor.createBatchId();
+    const firstCandidateId = '66f0c0ffee0000000000abcd';
+    const unrecordedId = '66f0c0ffee0000000000abce';
+    const stored = (id: string, fileName: string) => ({
+      _id: id,
+      batchId,
+      resumeData: { id: fileName, fileName, extractedText: '', contactInfo: { projectUrls: [] }, processingStatus: 'completed' },
+      processingStage: 'resume',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+    const create = jest.spyOn(CandidateModel, 'create').mockResolvedValue({} as never);
+    const lookup = { sort: () => lookup, limit: () => lookup, lean: async () => [stored(firstCandidateId, 'resume-0.txt')] };
+    jest.spyOn(CandidateModel, 'find').mockReturnValue(lookup as never);
+    const findOne = jest.spyOn(CandidateModel, 'findOne').mockReturnValue({ lean: async () => stored(unrecordedId, 'resume-1.txt') } as never);
+    jest.spyOn(ProcessingBatchModel, 'updateOne').mockResolvedValue({} as never);
+
+    const batch = await batchProcessor.resumeBatch({
+      id: batchId,
+      jobProfileId: 'job-profile',
+      totalCandidates: 3,
+      processedCandidates: 1,
+      failedCandidates: 0,
+      status: 'processing',
+      startedAt: new Date(),
+      candidateIds: [firstCandidateId],
+      stagedFiles: await staging.stageFiles(batchId, resumes),
+      nextFileIndex: 1
+    });
+
+    expect(findOne).toHaveBeenCalledTimes(1);
+    expect(findOne).toHaveBeenCalledWith({ batchId, 'resumeData.fileName': 'resume-1.txt', _id: { $nin: [firstCandidateId] } });
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      batchId,
+      resumeData: expect.objectContaining({ fileName: 'resume-2.txt' }),
+    }));
+    expect(batch.candidateIds.slice(0, 2)).toEqual([firstCandidateId, unrecordedId]);
+    expect(batch.candidateIds).toHaveLength(3);
+    expect(batch.processedCandidates).toBe(3);
+  });
+
+  test('should stop a cancelled batch and discard its staged files', async () => {
+    batchProcessor.once('progress', progress => batchProcessor.cancelBatch(progress.batchId));
+
+    const batch = await batchProcessor.processBatch(resumes, 'job-profile');
+
+    expect(batch.status).toBe('failed');
+    expect(batch.nextFileIndex).toBeLessThan(resumes.length);
+    expect(await batchProcessor.loadBatchProgress(batch.id)).toBeNull();
+    await expect(fs.access(path.join(stagingDir, batch.id))).rejects.toThrow();
+  });
+});
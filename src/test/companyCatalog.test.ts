@@ -0,0 +1,89 @@
+import { LinkedInAnalysisService } from '../services/linkedInAnalysisService';
+import { JsonLinkedInDataSource } from '../services/linkedInDataSources';
+import { companyCatalogService, matchCompany, parseCompanyCatalogCsv } from '../services/companyCatalogService';
+import { CompanyCatalogEntry, JobProfile } from '../models/interfaces';
+
+describe('Company Catalog', () => {
+  const entry = (id: string, name: string, tier: CompanyCatalogEntry['tier'], aliases: string[] = [], industry?: string): CompanyCatalogEntry =>
+    ({ id, name, aliases, tier, ...(industry && { industry }), createdAt: new Date(), updatedAt: new Date() });
+  const catalog = [
+    entry('c1', 'Initech', 'top-tier', ['Initech Payments'], 'Fintech'),
+    entry('c2', 'Meta Platforms', 'top-tier', ['Meta', 'Facebook']),
+    entry('c3', 'Globex Corporation', 'standard', [], 'Manufacturing'),
+  ];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should match employers by name, alias, typo or a longer name', () => {
+    expect(matchCompany('Facebook, Inc.', catalog)).toMatchObject({ entry: { id: 'c2' }, matchedName: 'Facebook', similarity: 1 });
+    expect(matchCompany('Initec', catalog)).toMatchObject({ entry: { id: 'c1' }, matchedName: 'Initech' });
+    expect(matchCompany('Globex Research Labs', catalog)).toMatchObject({ entry: { id: 'c3' }, similarity: 0.9 });
+    expect(matchCompany('Metaview', catalog)).toBeNull();
+    expect(matchCompany('Umbrella', catalog)).toBeNull();
+  });
+
+  test('should read catalog CSV and report invalid rows by line', () => {
+    const { entries, errors } = parseCompanyCatalogCsv([
+      'Name,Aliases,Tier,Industry,Size',
+      '"Initech, Inc.",Initech Payments;Initrode,top-tier,Fintech,large',
+      'Globex,,standard,,',
+      ',,standard,,',
+      'Hooli,,unicorn,Tech,',
+      'Umbrella,,tech-focused,,huge',
+    ].join('\r\n'));
+
+    expect(entries).toEqual([
+      { line: 2, entry: { name: 'Initech, Inc.', tier: 'top-tier', aliases: ['Initech Payments', 'Initrode'], industry: 'Fintech', size: 'large' } },
+      { line: 3, entry: { name: 'Globex', tier: 'standard', aliases: [] } },
+    ]);
+    expect(errors.map(error => error.line)).toEqual([4, 5, 6]);
+    expect(parseCompanyCatalogCsv('company,rating\nAcme,5').errors).toEqual([{ line: 1, message: 'Missing required columns: name, tier' }]);
+  });
+
+  test('should rate catalog employers by the job profile tier points and preferred industries', async () => {
+    jest.spyOn(companyCatalogService, 'getCatalogEntries').mockResolvedValue(catalog);
+    const jobProfile: JobProfile = {
+      id: 'job-123',
+      title: 'Backend Engineer',
+      description: 'Payments platform',
+      requiredSkills: ['Go'],
+      experienceLevel: 'Senior',
+      scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+      interviewQuestions: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const profile = Buffer.from(JSON.stringify({
+      profile: { firstName: 'Jane', headline: 'Engineer' },
+      experience: [
+        { title: 'Engineer', company: 'Initech Payments Ltd', duration: '3 yrs' },
+        { title: 'Engineer', company: 'Umbrella Software', duration: '2 yrs' },
+      ],
+    }));
+    const attachment = { format: 'json' as const, content: profile, uploadedAt: new Date() };
+    const service = new LinkedInAnalysisService([new JsonLinkedInDataSource()]);
+    const analyze = (settings?: JobProfile['companyQualitySettings']) => service.analyzeLinkedInProfile(
+      'candidate-123', undefined, { ...jobProfile, ...(settings && { companyQualitySettings: settings }) }, attachment);
+
+    const byDefault = await analyze();
+    const lowerTier = await analyze({ tierScores: { 'top-tier': 5 } });
+    const preferred = await analyze({ tierScores: { 'top-tier': 5 }, preferredIndustries: ['fintech'] });
+
+    expect(byDefault.experience.companyQuality).toBe('top-tier');
+    expect(byDefault.experience.companyMatches).toEqual([{
+      company: 'Initech Payments Ltd',
+      catalogId: 'c1',
+      catalogName: 'Initech',
+      matchedName: 'Initech Payments',
+      similarity: 1,
+      tier: 'top-tier',
+      industry: 'Fintech',
+      preferredIndustry: false,
+    }]);
+    expect(lowerTier.professionalScore).toBe(byDefault.professionalScore - 10);
+    expect(preferred.experience.companyMatches![0]!.preferredIndustry).toBe(true);
+    expect(preferred.professionalScore).toBe(byDefault.professionalScore - 5);
+  });
+});
@@ -0,0 +1,189 @@
+import { BatchProcessingService } from '../services/batchProcessingService';
+import { DuplicateDetectionService, computeTextFingerprint, fingerprintDistance } from '../services/duplicateDetectionService';
+import { CandidateModel, ProcessingBatchModel } from '../models/schemas';
+import { database } from '../utils/database';
+import { Candidate, GitHubAnalysis, ResumeData } from '../models/interfaces';
+
+const EXPERIENCE = `Senior backend engineer with eight years of experience building payment platforms.
+Led the migration of billing services from a monolith to event driven services on Kafka and Node.js.
+Designed idempotent ledger APIs processing two million transactions per day with strict audit requirements.
+Mentored a team of five engineers and introduced contract testing across twelve services.
+Reduced infrastructure costs by a third through autoscaling and query tuning on PostgreSQL.`;
+
+function resume(contactInfo: Partial<ResumeData['contactInfo']>, extractedText = EXPERIENCE): ResumeData {
+  return {
+    id: 'resume',
+    fileName: 'resume.pdf',
+    extractedText,
+    contactInfo: { projectUrls: [], ...contactInfo },
+    processingStatus: 'completed'
+  };
+}
+
+function candidate(id: string, resumeData: ResumeData, extra: Partial<Candidate> = {}): Candidate {
+  return {
+    id,
+    resumeData,
+    processingStage: 'resume',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    ...extra
+  };
+}
+
+function githubAnalysis(candidateId: string, analyzedAt?: Date): GitHubAnalysis {
+  return {
+    candidateId,
+    profileStats: { publicRepos: 12, followers: 30, contributionStreak: 5, totalCommits: 400 },
+    technicalScore: 72,
+    projectAuthenticity: { resumeProjects: [] },
+    skillsEvidence: ['TypeScript'],
+    ...(analyzedAt && { analyzedAt })
+  };
+}
+
+describe('Duplicate Detection Service', () => {
+  const service = new DuplicateDetectionService();
+
+  test('should normalize contact identifiers', () => {
+    const identity = service.buildIdentity(resume({
+      email: 'Jane.Doe+jobs@GoogleMail.com',
+      phone: '(555) 123-4567',
+      linkedInUrl: 'https://www.linkedin.com/in/Jane-Doe/',
+      githubUrl: 'github.com/JaneDoe'
+    }));
+
+    expect(identity).toMatchObject({
+      email: 'janedoe@gmail.com',
+      phone: '+15551234567',
+      linkedInHandle: 'jane-doe',
+      githubHandle: 'janedoe'
+    });
+    expect(identity.fingerprintBands).toHaveLength(4);
+  });
+
+  test('should give lightly edited resumes nearby fingerprints and different resumes distant ones', () => {
+    const original = computeTextFingerprint(EXPERIENCE)!;
+    const edited = computeTextFingerprint(EXPERIENCE.replace('five engineers', 'six engineers'))!;
+    const unrelated = computeTextFingerprint(
+      EXPERIENCE.split(' ').reverse().join(' ').replace(/payment/g, 'graphics').replace(/billing/g, 'rendering')
+    )!;
+
+    expect(fingerprintDistance(original, edited)).toBeLessThanOrEqual(3);
+    expect(fingerprintDistance(original, unrelated)).toBeGreaterThan(3);
+    expect(computeTextFingerprint('Too short to fingerprint')).toBeUndefined();
+  });
+
+  test('should report every identifier two applications share', () => {
+    const a = service.buildIdentity(resume({ email: 'jane@example.com', githubUrl: 'https://github.com/janedoe' }));
+    const b = service.buildIdentity(resume({ email: 'JANE@example.com', githubUrl: 'https://github.com/jdoe' }));
+
+    expect(service.matchIdentities(a, b)).toEqual({ matchedOn: ['email', 'text'], textSimilarity: 1 });
+    expect(service.matchIdentities(
+      service.buildIdentity(resume({ email: 'jane@example.com' }, 'short')),
+      service.buildIdentity(resume({ email: 'john@example.com' }, 'short'))
+    )).toBeNull();
+  });
+
+  describe('linkAtIngestion', () => {
+    test('should make a first-time applicant their own person record', async () => {
+      const applicant = candidate('c1', resume({ email: 'jane@example.com' }));
+
+      expect(await service.linkAtIngestion(applicant)).toBeNull();
+      expect(applicant.personId).toBe('c1');
+      expect(applicant.duplicateOf).toBeUndefined();
+    });
+
+    test('should link a repeat applicant to the earliest matching application', async () => {
+      const first = candidate('c1', resume({ email: 'jane@example.com' }), { personId: 'c1', createdAt: new Date('2024-01-01') });
+      const second = candidate('c2', resume({ phone: '+15551234567' }, 'other'), { personId: 'c1', createdAt: new Date('2024-02-01') });
+      const repeat = candidate('c3', resume({ email: 'jane@example.com', phone: '555-123-4567' }, 'short'));
+
+      const match = await service.linkAtIngestion(repeat, [second, first]);
+
+      expect(match?.candidate.id).toBe('c1');
+      expect(repeat.personId).toBe('c1');
+      expect(repeat.duplicateOf).toMatchObject({ candidateId: 'c1', matchedOn: ['email'], linkedBy: 'ingestion' });
+    });
+
+    test('should reuse a fresh GitHub analysis for the same handle but not a stale one', async () => {
+      const fresh = candidate('c1', resume({ githubUrl: 'https://github.com/janedoe' }), {
+        personId: 'c1',
+        githubAnalysis: githubAnalysis('c1', new Date())
+      });
+      const repeat = candidate('c2', resume({ githubUrl: 'https://github.com/JaneDoe' }));
+
+      await service.linkAtIngestion(repeat, [fresh]);
+
+      expect(repeat.githubAnalysis).toMatchObject({ candidateId: 'c2', technicalScore: 72, reusedFromCandidateId: 'c1' });
+
+      const stale = candidate('c1', resume({ githubUrl: 'https://github.com/janedoe' }), {
+        personId: 'c1',
+        githubAnalysis: githubAnalysis('c1', new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))
+      });
+      const later = candidate('c3', resume({ githubUrl: 'https://github.com/janedoe' }));
+
+      await service.linkAtIngestion(later, [stale]);
+
+      expect(later.personId).toBe('c1');
+      expect(later.githubAnalysis).toBeUndefined();
+    });
+  });
+
+  test('should count repeat applicants within a batch', async () => {
+    const batchProcessor = new BatchProcessingService(service);
+    const completed = new Promise<Candidate[]>(resolve => {
+      batchProcessor.on('completed', ({ candidates }) => resolve(candidates));
+    });
+
+    const batch = await batchProcessor.processBatch([
+      { buffer: Buffer.from(`Jane Doe\njane@example.com\n${EXPERIENCE}`), fileName: 'jane.txt' },
+      { buffer: Buffer.from(`John Smith\njohn@example.com\nFrontend developer focused on accessible design systems and React.`), fileName: 'john.txt' },
+      { buffer: Buffer.from(`Jane Doe\nJane@Example.com\n${EXPERIENCE}\nUpdated for 2024`), fileName: 'jane-v2.txt' },
+    ], 'job-profile');
+
+    const [jane, john, janeAgain] = await completed;
+    expect(batch.duplicateCandidates).toBe(1);
+    expect(janeAgain!.personId).toBe(jane!.id);
+    expect(janeAgain!.duplicateOf?.matchedOn).toContain('email');
+    expect(john!.personId).toBe(john!.id);
+  });
+
+  describe('with a database', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should store each candidate with its identity and link repeat applicants through the store', async () => {
+      const stored: any[] = [];
+      jest.spyOn(database, 'isDbConnected').mockReturnValue(true);
+      jest.spyOn(ProcessingBatchModel, 'create').mockResolvedValue({} as never);
+      jest.spyOn(ProcessingBatchModel, 'updateOne').mockResolvedValue({} as never);
+      jest.spyOn(CandidateModel, 'create').mockImplementation((async (doc: any) => {
+        stored.push(doc);
+        return doc;
+      }) as never);
+      // Only the stored applications are known: each file is stored before the next one is checked
+      const lookup = { sort: () => lookup, limit: () => lookup, lean: async () => stored.map(doc => ({ ...doc })) };
+      jest.spyOn(CandidateModel, 'find').mockReturnValue(lookup as never);
+      const batchProcessor = new BatchProcessingService(service);
+
+      const batch = await batchProcessor.processBatch([
+        { buffer: Buffer.from(`Jane Doe\njane@example.com\n${EXPERIENCE}`), fileName: 'jane.txt' },
+        { buffer: Buffer.from(`Jane Doe\nJane@Example.com\n${EXPERIENCE}\nUpdated for 2024`), fileName: 'jane-v2.txt' },
+      ], 'job-profile');
+
+      expect(batch.duplicateCandidates).toBe(1);
+      expect(stored).toHaveLength(2);
+      const [jane, janeAgain] = stored;
+      expect(batch.candidateIds).toEqual([jane._id, janeAgain._id]);
+      expect(jane._id).toMatch(/^[0-9a-f]{24}$/);
+      expect(jane).toMatchObject({ personId: jane._id, identity: { email: 'jane@example.com' } });
+      expect(janeAgain).toMatchObject({
+        personId: jane._id,
+        identity: { email: 'jane@example.com' },
+        duplicateOf: { candidateId: jane._id, linkedBy: 'ingestion' },
+      });
+    });
+  });
+});
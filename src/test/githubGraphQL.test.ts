@@ -0,0 +1,212 @@
+import axios from 'axios';
+import { GitHubAnalysisService } from '../services/githubAnalysisService';
+import { GitHubGraphQLFetcher } from '../services/githubGraphQLFetcher';
+import { JobProfile } from '../models/interfaces';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('GitHub GraphQL fetch', () => {
+  const jobProfile: JobProfile = {
+    id: 'job-123',
+    title: 'Backend Engineer',
+    description: 'Payments platform',
+    requiredSkills: ['TypeScript', 'Go'],
+    experienceLevel: 'Senior',
+    scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+    interviewQuestions: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  const repository = (name: string, languages: string[]) => ({
+    databaseId: name.length,
+    name,
+    nameWithOwner: `jroe/${name}`,
+    description: null,
+    isPrivate: false,
+    url: `https://github.com/jroe/${name}`,
+    diskUsage: 2000,
+    stargazerCount: 12,
+    forkCount: 3,
+    createdAt: '2022-01-01T00:00:00Z',
+    updatedAt: '2024-09-01T00:00:00Z',
+    pushedAt: '2024-09-01T00:00:00Z',
+    watchers: { totalCount: 12 },
+    issues: { totalCount: 1 },
+    primaryLanguage: { name: languages[0] },
+    languages: { nodes: languages.map(name => ({ name })) },
+    defaultBranchRef: { name: 'main' },
+  });
+
+  const profileResponse = (rateLimit: { cost: number; remaining: number }) => ({
+    data: {
+      data: {
+        user: {
+          login: 'jroe',
+          databaseId: 42,
+          name: 'Jane Roe',
+          company: null,
+          websiteUrl: null,
+          location: 'Leeds',
+          email: '',
+          bio: null,
+          createdAt: '2018-01-01T00:00:00Z',
+          updatedAt: '2024-09-01T00:00:00Z',
+          followers: { totalCount: 40 },
+          following: { totalCount: 5 },
+          gists: { totalCount: 0 },
+          repositories: {
+            totalCount: 2,
+            nodes: [repository('ledger', ['TypeScript', 'Go']), repository('dotfiles', ['Shell'])],
+          },
+          pinnedItems: { nodes: [{ nameWithOwner: 'jroe/ledger' }] },
+          contributionsCollection: {
+            totalCommitContributions: 250,
+            contributionCalendar: {
+              totalContributions: 310,
+              weeks: [{
+                contributionDays: [
+                  { date: '2024-09-25', contributionCount: 4 },
+                  { date: '2024-09-26', contributionCount: 0 },
+                  { date: '2024-09-27', contributionCount: 2 },
+                  { date: '2024-09-28', contributionCount: 1 },
+                  { date: '2024-09-29', contributionCount: 6 },
+                  // Today, with nothing yet
+                  { date: '2024-09-30', contributionCount: 0 },
+                ],
+              }],
+            },
+          },
+        },
+        rateLimit: { ...rateLimit, resetAt },
+      },
+    },
+  });
+
+  const commit = (oid: string, message: string, email: string, date: string) => ({
+    oid,
+    message,
+    author: { name: email, email, date, user: { login: 'jroe' } },
+    committer: { name: email, email, date, user: null },
+  });
+
+  const createService = () => {
+    const service = new GitHubAnalysisService(new GitHubGraphQLFetcher('test-github-token'));
+    (service as any).token = 'test-github-token';
+    return service;
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('should fetch the profile and resume project activity in two GraphQL requests', async () => {
+    mockedAxios.post
+      .mockResolvedValueOnce(profileResponse({ cost: 1, remaining: 4990 }))
+      .mockResolvedValueOnce({
+        data: {
+          data: {
+            r0: {
+              refs: { nodes: [
+                { name: 'main', target: { oid: 'a' }, branchProtectionRule: { id: 'rule' } },
+                { name: 'develop', target: { oid: 'b' }, branchProtectionRule: null },
+              ] },
+              defaultBranchRef: { target: { history: { nodes: [
+                commit('c1', 'Add double-entry posting for refunds', 'jane@example.com', '2024-06-01T10:00:00Z'),
+                commit('c2', 'Reconcile settlement files nightly', 'sam@example.com', '2024-06-03T10:00:00Z'),
+              ] } } },
+            },
+            // Not readable: GitHub returns null with an error for it
+            r1: null,
+            rateLimit: { cost: 1, remaining: 4989, resetAt },
+          },
+          errors: [{ type: 'NOT_FOUND', message: "Could not resolve to a Repository with the name 'jroe/dotfiles'." }],
+        },
+      });
+
+    const analysis = await createService().analyzeGitHubProfile(
+      'candidate-123', 'https://github.com/jroe', jobProfile, ['https://github.com/jroe/ledger', 'https://github.com/jroe/dotfiles']);
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+    expect(mockedAxios.post.mock.calls[0]![0]).toBe('https://api.github.com/graphql');
+    expect(mockedAxios.post.mock.calls[1]![1]).toMatchObject({
+      variables: { owner0: 'jroe', name0: 'ledger', owner1: 'jroe', name1: 'dotfiles' },
+    });
+
+    // Three days in a row before today, which has no contributions yet
+    expect(analysis.profileStats.contributionStreak).toBe(3);
+    expect(analysis.profileStats.publicRepos).toBe(2);
+    expect(analysis.profileStats.totalCommits).toBeGreaterThanOrEqual(250);
+    expect(analysis.skillsEvidence).toEqual(expect.arrayContaining([
+      '1 repositories using go',
+      'Pinned typescript repositories: ledger',
+    ]));
+    expect(analysis.projectAuthenticity.resumeProjects).toEqual([
+      expect.objectContaining({ commitHistory: 2, branchingPattern: 'git-flow' }),
+      expect.objectContaining({ commitHistory: 0, branchingPattern: 'analysis-failed' }),
+    ]);
+  });
+
+  test('should use REST when the GraphQL rate limit cannot cover the query', async () => {
+    mockedAxios.post.mockResolvedValueOnce(profileResponse({ cost: 2, remaining: 1 }));
+    mockedAxios.get.mockImplementation(async (url: string) => ({
+      headers: {},
+      data: url.endsWith('/users/jroe')
+        ? { login: 'jroe', id: 42, public_repos: 0, public_gists: 0, followers: 3, following: 1, created_at: '2018-01-01T00:00:00Z', updated_at: '2024-09-01T00:00:00Z' }
+        : [],
+    }));
+    const service = createService();
+
+    await service.analyzeGitHubProfile('candidate-123', 'https://github.com/jroe', jobProfile);
+    const analysis = await service.analyzeGitHubProfile('candidate-123', 'https://github.com/jroe', jobProfile);
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    expect(mockedAxios.get.mock.calls.map(call => call[0])).toEqual([
+      'https://api.github.com/users/jroe',
+      'https://api.github.com/users/jroe/repos?sort=updated&per_page=100',
+      'https://api.github.com/users/jroe/events?per_page=100',
+    ]);
+    expect(analysis.profileStats).toMatchObject({ followers: 3, contributionStreak: 0 });
+  });
+
+  test('should fall back to REST when the GraphQL query fails', async () => {
+    mockedAxios.post.mockResolvedValueOnce({
+      data: { data: null, errors: [{ type: 'RATE_LIMITED', message: 'API rate limit exceeded' }] },
+    });
+    mockedAxios.get.mockResolvedValue({ headers: {}, data: [] });
+
+    await createService().analyzeGitHubProfile('candidate-123', 'https://github.com/jroe', jobProfile);
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+  });
+
+  test('should not look up over REST a user GraphQL reports as not found', async () => {
+    mockedAxios.post.mockResolvedValueOnce({
+      data: {
+        data: { user: null, rateLimit: { cost: 1, remaining: 4990, resetAt } },
+        errors: [{ type: 'NOT_FOUND', message: "Could not resolve to a User with the login of 'jroe'." }],
+      },
+    });
+
+    const analysis = await createService().analyzeGitHubProfile('candidate-123', 'https://github.com/jroe', jobProfile);
+
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+    expect(analysis.skillsEvidence).toEqual(['Analysis failed: GitHub profile not found or is private']);
+  });
+
+  test('should estimate the cost of repository activity by the number of repositories', async () => {
+    const repositories = (count: number) =>
+      Array.from({ length: count }, (_, index) => ({ owner: 'jroe', repo: `project-${index}` }));
+    mockedAxios.post.mockResolvedValue({ data: { data: { rateLimit: { cost: 2, remaining: 5, resetAt } } } });
+    const fetcher = new GitHubGraphQLFetcher('test-github-token');
+
+    await fetcher.fetchRepositoryActivity(repositories(2));
+
+    await expect(fetcher.fetchRepositoryActivity(repositories(6))).rejects.toMatchObject({ type: 'RATE_LIMITED' });
+    await fetcher.fetchRepositoryActivity(repositories(4));
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -3,8 +3,12 @@ import request from 'supertest';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import { database } from '../utils/database';
 import { redis } from '../utils/redis';
+import { config } from '../utils/config';
 import app from '../index';
 
+// Offline: resumes and transcripts are assessed by the rule-based provider instead of a hosted one
+config.aiProviders.fallbackOrder = ['rule-based'];
+
 // Test data
 const testJobProfile = {
   title: 'Senior Software Engineer',
@@ -8,6 +8,8 @@ jest.mock('../utils/config', () => ({
       gemini: { apiKey: 'test-gemini-key' },
       openai: { apiKey: 'test-openai-key' },
       claude: { apiKey: 'test-claude-key' },
+      local: { model: 'llama3', apiKey: 'local' },
+      fallbackOrder: ['gemini', 'openai', 'claude'],
     },
   },
 }));
@@ -1,4 +1,5 @@
 import { jobProfileService, CreateJobProfileRequest } from '../services/jobProfileService';
+import { JobProfile } from '../models/interfaces';
 
 describe('Job Profile Service', () => {
   test('should validate scoring weights sum to 100', () => {
@@ -6,4 +7,18 @@ describe('Job Profile Service', () => {
     // The actual job profile tests would require database setup
     expect(true).toBe(true);
   });
+
+  test('should report only the changed fields scoring depends on', () => {
+    const before = {
+      id: 'job-123',
+      title: 'Backend Engineer',
+      description: 'Build APIs',
+      requiredSkills: ['Node.js'],
+      scoringWeights: { resumeAnalysis: 40, linkedInAnalysis: 20, githubAnalysis: 20, interviewPerformance: 20 },
+    } as JobProfile;
+
+    expect(jobProfileService.getScoringChanges(before, { ...before, description: 'Build and run APIs' })).toEqual([]);
+    expect(jobProfileService.getScoringChanges(before, { ...before, requiredSkills: ['Node.js', 'MongoDB'] }))
+      .toEqual(['requiredSkills']);
+  });
 });
\ No newline at end of file
@@ -12,6 +12,7 @@ jest.mock('../utils/config', () => ({
     linkedIn: {
       scraperApiKey: 'test-api-key',
       baseUrl: 'https://api.test-linkedin-scraper.com',
+      dataSources: ['scraper'],
     },
   },
 }));
@@ -0,0 +1,128 @@
+import { LinkedInAnalysisService } from '../services/linkedInAnalysisService';
+import {
+  JsonLinkedInDataSource,
+  LinkedInDataSource,
+  LinkedInProfileImportError,
+  parseLinkedInPdfExport,
+  parseLinkedInProfileJson,
+  PdfExportLinkedInDataSource
+} from '../services/linkedInDataSources';
+import { JobProfile, LinkedInProfileAttachment } from '../models/interfaces';
+
+// Text of a "Save to PDF" export as the PDF extractor returns it
+const PDF_EXPORT_TEXT = `
+Contact
+jane.roe@example.com
+www.linkedin.com/in/janeroe (LinkedIn)
+Top Skills
+Node.js
+MongoDB
+Kubernetes
+Certifications
+AWS Certified Developer
+Jane Roe
+Staff Engineer at Acme
+Berlin, Germany
+Summary
+Backend engineer focused on distributed systems.
+Experience
+Acme
+5 years 2 months
+Staff Engineer
+January 2022 - Present (2 years 9 months)
+Berlin, Germany
+Leads the platform team building Node.js services.
+Senior Engineer
+September 2019 - December 2021 (2 years 4 months)
+Beta Software
+Software Engineer
+June 2016 - August 2019 (3 years 3 months)
+Page 1 of 2
+Education
+State University
+Bachelor of Science - BS, Computer Science · (2012 - 2016)
+Page 2 of 2
+`;
+
+describe('LinkedIn Data Sources', () => {
+  const jobProfile: JobProfile = {
+    id: 'job-123',
+    title: 'Staff Engineer',
+    description: 'Platform team lead',
+    requiredSkills: ['Node.js', 'Kubernetes'],
+    experienceLevel: 'Senior',
+    scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+    interviewQuestions: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const attach = (format: LinkedInProfileAttachment['format'], content: string): LinkedInProfileAttachment =>
+    ({ format, content: Buffer.from(content), uploadedAt: new Date() });
+
+  test('should read profile, roles, education and top skills from a PDF export', () => {
+    const profile = parseLinkedInPdfExport(PDF_EXPORT_TEXT);
+
+    expect(profile.profile).toEqual({
+      firstName: 'Jane',
+      lastName: 'Roe',
+      headline: 'Staff Engineer at Acme',
+      location: 'Berlin, Germany',
+      summary: 'Backend engineer focused on distributed systems.',
+      profileUrl: 'https://www.linkedin.com/in/janeroe',
+    });
+    expect(profile.experience!.map(role => [role.title, role.company, role.duration])).toEqual([
+      ['Staff Engineer', 'Acme', '2 years 9 months'],
+      ['Senior Engineer', 'Acme', '2 years 4 months'],
+      ['Software Engineer', 'Beta Software', '3 years 3 months'],
+    ]);
+    expect(profile.experience![0]!.description).toContain('Leads the platform team');
+    expect(profile.education).toEqual([
+      { school: 'State University', degree: 'Bachelor of Science - BS', field: 'Computer Science', startYear: 2012, endYear: 2016 },
+    ]);
+    expect(profile.skills).toEqual([{ name: 'Node.js' }, { name: 'MongoDB' }, { name: 'Kubernetes' }]);
+  });
+
+  test('should reject files that are not a LinkedIn export or a valid JSON profile', async () => {
+    expect(() => parseLinkedInPdfExport('Jane Roe\nCurriculum Vitae\nSkills: Go')).toThrow(LinkedInProfileImportError);
+    await expect(new PdfExportLinkedInDataSource().fetchProfile({ attachment: attach('pdf-export', 'not a pdf') }))
+      .rejects.toThrow('The LinkedIn PDF export could not be read');
+    expect(() => parseLinkedInProfileJson('{"profile":')).toThrow('not valid JSON');
+    expect(() => parseLinkedInProfileJson('{"profile":{},"experience":[{"title":"Engineer"}]}'))
+      .toThrow(expect.objectContaining({
+        errors: ["/experience/0 must have required property 'company'", "/experience/0 must have required property 'duration'"],
+      }));
+  });
+
+  test('should fall back to the attached profile when the scraper fails and record the source used', async () => {
+    const scraper: LinkedInDataSource = {
+      name: 'scraper',
+      unavailableReason: () => null,
+      fetchProfile: jest.fn().mockRejectedValue(new Error('Scraper unavailable')),
+    };
+    const service = new LinkedInAnalysisService([scraper, new PdfExportLinkedInDataSource(), new JsonLinkedInDataSource()]);
+    const json = JSON.stringify({
+      profile: { firstName: 'Jane', headline: 'Staff Engineer', connections: 300 },
+      experience: [{ title: 'Staff Engineer', company: 'Acme', duration: '2 yrs 9 mos', description: 'Node.js platform' }],
+      skills: [{ name: 'Node.js', endorsements: 12 }],
+    });
+
+    const analysis = await service.analyzeLinkedInProfile('candidate-123', 'https://www.linkedin.com/in/janeroe', jobProfile, attach('json', json));
+
+    expect(scraper.fetchProfile).toHaveBeenCalled();
+    expect(analysis.profileAccessible).toBe(true);
+    expect(analysis.dataSource).toBe('json');
+    expect(analysis.experience.relevantRoles).toBe(1);
+    expect(analysis.network).toEqual({ connections: 300, endorsements: 12 });
+  });
+
+  test('should explain why no source could provide a profile', async () => {
+    const service = new LinkedInAnalysisService([new PdfExportLinkedInDataSource(), new JsonLinkedInDataSource()]);
+
+    const analysis = await service.analyzeLinkedInProfile('candidate-123', undefined, jobProfile);
+
+    expect(analysis.profileAccessible).toBe(false);
+    expect(analysis.credibilityIndicators).toEqual([
+      'Analysis failed: No LinkedIn PDF export attached; No LinkedIn JSON profile attached',
+    ]);
+  });
+});
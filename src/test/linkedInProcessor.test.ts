@@ -0,0 +1,59 @@
+import { Job } from 'bull';
+import { linkedInProcessor } from '../queues/processors/linkedInProcessor';
+import { candidateService } from '../services/candidateService';
+import { jobProfileService } from '../services/jobProfileService';
+import { linkedInAnalysisService } from '../services/linkedInAnalysisService';
+import { CandidateModel } from '../models/schemas';
+import { JobData, JobProfile, LinkedInAnalysis, LinkedInProfileAttachment } from '../models/interfaces';
+
+describe('linkedInProcessor', () => {
+  const jobData: JobData = {
+    candidateId: '66f0c0ffee0000000000abcd',
+    jobProfileId: 'job-123',
+    batchId: 'batch-1',
+    stage: 'linkedin',
+    priority: 2,
+  };
+  const job = { id: 'job-1', data: jobData, progress: jest.fn() } as unknown as Job<JobData>;
+  const jobProfile = { id: 'job-123', title: 'Backend Engineer' } as JobProfile;
+  const attachment: LinkedInProfileAttachment = { format: 'pdf-export', content: Buffer.from('%PDF'), uploadedAt: new Date() };
+  const resumeData = { contactInfo: { linkedInUrl: 'https://www.linkedin.com/in/jane-roe', projectUrls: [] } };
+  const analysis = { candidateId: jobData.candidateId, profileAccessible: true, professionalScore: 74 } as LinkedInAnalysis;
+
+  const findCandidate = (candidate: unknown) => {
+    const select = jest.fn().mockResolvedValue(candidate);
+    jest.spyOn(CandidateModel, 'findById').mockReturnValue({ select } as never);
+    return select;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(jobProfileService, 'getJobProfileById').mockResolvedValue(jobProfile);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should analyze the profile from the resume URL or the attachment and save the analysis', async () => {
+    const select = findCandidate({ resumeData, linkedInProfileAttachment: attachment });
+    const analyze = jest.spyOn(linkedInAnalysisService, 'analyzeLinkedInProfile').mockResolvedValue(analysis);
+    const save = jest.spyOn(candidateService, 'saveLinkedInAnalysis').mockResolvedValue();
+
+    await expect(linkedInProcessor(job)).resolves.toBe(analysis);
+
+    expect(select).toHaveBeenCalledWith('+linkedInProfileAttachment');
+    expect(analyze).toHaveBeenCalledWith(
+      jobData.candidateId, 'https://www.linkedin.com/in/jane-roe', jobProfile, attachment, resumeData);
+    expect(save).toHaveBeenCalledWith(jobData.candidateId, analysis);
+  });
+
+  test('should fail when the candidate does not exist', async () => {
+    findCandidate(null);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const analyze = jest.spyOn(linkedInAnalysisService, 'analyzeLinkedInProfile');
+
+    await expect(linkedInProcessor(job)).rejects.toThrow(`Candidate ${jobData.candidateId} not found`);
+
+    expect(analyze).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIAnalysisService } from '../services/aiAnalysisService';
+import { InterviewAnalysisService } from '../services/interviewAnalysisService';
+import { createDefaultProviderRegistry, LLMProviderRegistry, MockLLMProvider } from '../services/llmProviderRegistry';
+import { applyLLMFixtureMode, LLMFixtureStore, MissingLLMFixtureError } from '../services/llmFixtures';
+import { ruleBasedResponse } from '../services/ruleBasedLLMResponse';
+import { InterviewSession, JobProfile, ResumeData } from '../models/interfaces';
+import { config } from '../utils/config';
+
+describe('LLM Fixtures and Rule-Based Provider', () => {
+  const jobProfile: JobProfile = {
+    id: 'job-123',
+    title: 'Backend Engineer',
+    description: 'Builds APIs and data pipelines',
+    requiredSkills: ['Node.js', 'MongoDB', 'Kubernetes'],
+    experienceLevel: 'Senior',
+    scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+    interviewQuestions: ['How do you design a REST API?'],
+    aiProviderSettings: { fallbackOrder: ['first', 'second'], maxRetries: 1 },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const resumeData: ResumeData = {
+    id: 'resume-123',
+    fileName: 'jane_roe.pdf',
+    extractedText: 'Jane Roe\nSenior Engineer at Acme (2016-2024)\n8 years building Node.js services on MongoDB\nBSc Computer Science, State University',
+    contactInfo: { projectUrls: [] },
+    processingStatus: 'completed',
+  };
+  const interviewSession: InterviewSession = {
+    candidateId: 'candidate-123',
+    jobProfileId: 'job-123',
+    vapiCallId: 'vapi-call-123',
+    scheduledAt: new Date(),
+    status: 'completed',
+    transcript: 'Interviewer: How do you design a REST API?\nCandidate: I start from the resources, then build it in Node.js with MongoDB behind it.',
+    duration: 900,
+    callQuality: 'excellent',
+    retryCount: 0,
+  };
+
+  let fixturesDir: string;
+  let calls: number;
+
+  const registryWith = (respond: () => string): LLMProviderRegistry => {
+    const registry = createDefaultProviderRegistry();
+    registry.register('first', () => new MockLLMProvider('first', request => {
+      calls++;
+      return respond() || ruleBasedResponse(request);
+    }));
+    registry.register('second', () => new MockLLMProvider('second', ruleBasedResponse));
+    return registry;
+  };
+
+  beforeEach(async () => {
+    fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixtures-'));
+    calls = 0;
+  });
+
+  afterEach(async () => {
+    await fs.rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  test('should replay recorded resume and interview analyses without calling the provider', async () => {
+    const store = new LLMFixtureStore(fixturesDir);
+    const recording = applyLLMFixtureMode(registryWith(() => ''), 'record', store, ['first']);
+    const recorded = await new AIAnalysisService(recording).analyzeResume('candidate-123', resumeData, jobProfile);
+    const recordedInterview = await new InterviewAnalysisService(recording)
+      .analyzeTranscript('candidate-123', interviewSession, jobProfile);
+
+    const replaying = applyLLMFixtureMode(registryWith(() => { throw new Error('provider called'); }), 'replay', store, ['first']);
+    const replayed = await new AIAnalysisService(replaying).analyzeResume('candidate-123', resumeData, jobProfile);
+    const replayedInterview = await new InterviewAnalysisService(replaying)
+      .analyzeTranscript('candidate-123', interviewSession, jobProfile);
+
+    expect(calls).toBe(2);
+    expect(await fs.readdir(path.join(fixturesDir, 'first'))).toHaveLength(2);
+    expect(replayed.provider).toBe('first');
+    expect(replayed.relevanceScore).toBe(recorded.relevanceScore);
+    expect(replayed.usage).toEqual(recorded.usage);
+    expect(replayedInterview.performanceScore).toBe(recordedInterview.performanceScore);
+  });
+
+  test('should analyze a resume and a transcript from the fixtures in src/test/fixtures/llm', async () => {
+    // AI_FIXTURE_MODE=record with GEMINI_API_KEY set records them again, after a prompt change
+    const mode = config.aiProviders.fixtures.mode === 'record' ? 'record' : 'replay';
+    const registry = applyLLMFixtureMode(
+      createDefaultProviderRegistry(), mode, new LLMFixtureStore(path.join(__dirname, 'fixtures', 'llm')), ['gemini']);
+    const geminiProfile = { ...jobProfile, aiProviderSettings: { fallbackOrder: ['gemini'], maxRetries: 1 } };
+
+    const analysis = await new AIAnalysisService(registry).analyzeResume('candidate-123', resumeData, geminiProfile);
+    const interview = await new InterviewAnalysisService(registry).analyzeTranscript('candidate-123', interviewSession, geminiProfile);
+
+    expect(analysis.provider).toBe('gemini');
+    expect(analysis.skillsMatch.missing).toEqual(['Kubernetes']);
+    expect(analysis.evidence!.rejectedQuotes).toBe(0);
+    expect(analysis.usage!.calls).toBe(1);
+    expect(interview.provider).toBe('gemini');
+    expect(Object.keys(interview.competencyScores)).toEqual(jobProfile.requiredSkills);
+  });
+
+  test('should fail over to the next provider when no recording matches the prompt', async () => {
+    const store = new LLMFixtureStore(fixturesDir);
+    const replaying = applyLLMFixtureMode(registryWith(() => ''), 'replay', store, ['first']);
+
+    await expect(replaying.get('first').complete({ prompt: 'Unrecorded', maxTokens: 10, temperature: 0 }))
+      .rejects.toThrow(MissingLLMFixtureError);
+    const result = await new AIAnalysisService(replaying).analyzeResume('candidate-123', resumeData, jobProfile);
+
+    expect(calls).toBe(0);
+    expect(result.provider).toBe('second');
+  });
+
+  test('should score a resume by its overlap with the required skills, citing resume lines', async () => {
+    const result = await new AIAnalysisService(registryWith(() => ''))
+      .analyzeResume('candidate-123', resumeData, { ...jobProfile, aiProviderSettings: { fallbackOrder: ['rule-based'] } });
+
+    expect(result.skillsMatch).toEqual({ matched: ['Node.js', 'MongoDB'], missing: ['Kubernetes'] });
+    expect(result.relevanceScore).toBe(71);
+    expect(result.experienceAssessment).toContain('About 8 years of experience');
+    expect(result.evidence!.rejectedQuotes).toBe(0);
+    expect(result.evidence!.skills[0]!.quotes[0]!.quote).toBe('8 years building Node.js services on MongoDB');
+  });
+
+  test('should assess a transcript by the required skills it discusses', async () => {
+    const result = await new InterviewAnalysisService(registryWith(() => ''))
+      .analyzeTranscript('candidate-123', interviewSession, { ...jobProfile, aiProviderSettings: { fallbackOrder: ['rule-based'] } });
+
+    expect(result.competencyScores).toEqual({ 'Node.js': 75, 'MongoDB': 75, 'Kubernetes': 35 });
+    expect(result.detailedFeedback.weaknesses).toEqual(['Did not discuss Kubernetes']);
+    expect(result.needsManualReview).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { LLMProviderRegistry, MockLLMProvider, createDefaultProviderRegistry } from '../services/llmProviderRegistry';
+import { AIAnalysisService } from '../services/aiAnalysisService';
+import { JobProfile, ResumeData } from '../models/interfaces';
+
+const jobProfile: JobProfile = {
+  id: 'job-123',
+  title: 'Backend Engineer',
+  description: 'Build APIs',
+  requiredSkills: ['Node.js', 'MongoDB'],
+  experienceLevel: 'Mid',
+  scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 25, githubAnalysis: 25, interviewPerformance: 25 },
+  interviewQuestions: ['Tell me about a recent project'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const resumeData: ResumeData = {
+  id: 'resume-123',
+  fileName: 'resume.txt',
+  extractedText: 'Backend engineer with Node.js and MongoDB experience',
+  contactInfo: { projectUrls: [] },
+  processingStatus: 'completed',
+};
+
+const analysis = JSON.stringify({
+  relevanceScore: 80,
+  skillsMatch: { matched: ['Node.js', 'MongoDB'], missing: [] },
+  experienceAssessment: 'Relevant backend experience',
+  reasoning: 'Matches the required skills',
+  confidence: 70,
+});
+
+describe('LLM Provider Registry', () => {
+  test('should register the built-in providers and only register local when configured', () => {
+    const names = createDefaultProviderRegistry().getProviderNames();
+
+    expect(names).toEqual(expect.arrayContaining(['gemini', 'openai', 'claude', 'mock']));
+    expect(names).not.toContain('local');
+  });
+
+  test('should resolve the environment fallback order with provider defaults', () => {
+    const providerConfigs = createDefaultProviderRegistry().resolveProviderConfigs(30000);
+
+    expect(providerConfigs).toEqual([
+      { name: 'gemini', maxRetries: 3, timeout: 30000 },
+      { name: 'openai', maxRetries: 2, timeout: 30000 },
+      { name: 'claude', maxRetries: 1, timeout: 30000 },
+    ]);
+  });
+
+  test('should let job profile settings override the order, retries and timeout and skip unknown providers', () => {
+    const registry = createDefaultProviderRegistry();
+
+    expect(registry.resolveProviderConfigs(30000, { fallbackOrder: ['unknown', 'mock', 'claude'], maxRetries: 2, timeout: 5000 }))
+      .toEqual([
+        { name: 'mock', maxRetries: 2, timeout: 5000 },
+        { name: 'claude', maxRetries: 2, timeout: 5000 },
+      ]);
+    expect(() => registry.resolveProviderConfigs(30000, { fallbackOrder: ['unknown'] }))
+      .toThrow('None of the configured AI providers are registered: unknown');
+    expect(() => registry.get('unknown')).toThrow('Unknown AI provider: unknown');
+  });
+
+  test('should create providers once, on first use', () => {
+    const registry = new LLMProviderRegistry();
+    const create = jest.fn(() => new MockLLMProvider('offline'));
+    registry.register('offline', create);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(registry.get('offline')).toBe(registry.get('offline'));
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  test('should analyze resumes with registered providers, falling back in order', async () => {
+    const registry = createDefaultProviderRegistry();
+    const prompts: string[] = [];
+    registry.register('broken', () => new MockLLMProvider('broken', () => { throw new Error('connection refused'); }));
+    registry.register('offline', () => new MockLLMProvider('offline', request => {
+      prompts.push(request.prompt);
+      return analysis;
+    }));
+
+    const service = new AIAnalysisService(registry);
+    const result = await service.analyzeResume('candidate-123', resumeData, {
+      ...jobProfile,
+      aiProviderSettings: { fallbackOrder: ['broken', 'offline'], maxRetries: 1 },
+    });
+
+    expect(result).toMatchObject({ provider: 'offline', relevanceScore: 80, confidence: 70 });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('Backend Engineer');
+  });
+
+  test('should return a neutral zero-confidence result from the default mock provider', async () => {
+    const registry = createDefaultProviderRegistry();
+    const service = new AIAnalysisService(registry);
+
+    const result = await service.analyzeResume('candidate-123', resumeData, {
+      ...jobProfile,
+      aiProviderSettings: { fallbackOrder: ['mock'] },
+    });
+
+    expect(result).toMatchObject({ provider: 'mock', relevanceScore: 0, confidence: 0 });
+    expect(await registry.testProviders(['mock'])).toEqual({ mock: true });
+  });
+});
@@ -0,0 +1,301 @@
+import * as zlib from 'zlib';
+import { OcrEngine, OcrPageResult, OcrService, extractPdfImages, extractPdfPageImages } from '../services/ocrService';
+import { ResumeProcessingService } from '../services/resumeProcessingService';
+
+interface TestImage {
+  width: number;
+  height: number;
+  dictionary: string;
+  data: Buffer;
+}
+
+function buildImagePdf(images: TestImage[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  parts.push(Buffer.from('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n'));
+  images.forEach((image, index) => {
+    parts.push(Buffer.from(
+      `${index + 3} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `${image.dictionary} /Length ${image.data.length} >>\nstream\n`
+    ));
+    parts.push(image.data);
+    parts.push(Buffer.from('\nendstream\nendobj\n'));
+  });
+  parts.push(Buffer.from('%%EOF\n'));
+  return Buffer.concat(parts);
+}
+
+/**
+ * A PDF with a page tree; each page draws its images through its own (or, with inheritResources, the parent's) resources
+ */
+function buildPagedPdf(pages: TestImage[][], inheritResources = false): Buffer {
+  const parts: string[] = [];
+  const firstPage = 3;
+  let nextImage = firstPage + pages.length;
+  const xObjects = (images: TestImage[]) => images.map(() => `/Im${nextImage} ${nextImage++} 0 R`).join(' ');
+
+  const pageImages = pages.map(images => xObjects(images));
+  const pagesResources = inheritResources ? ` /Resources << /XObject << ${pageImages.join(' ')} >> >>` : '';
+  parts.push('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  parts.push(`2 0 obj\n<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPage + index} 0 R`).join(' ')}] /Count ${pages.length}${pagesResources} >>\nendobj\n`);
+  pageImages.forEach((images, index) => {
+    const resources = inheritResources ? '' : ` /Resources << /ProcSet [/PDF /ImageB] /XObject << ${images} >> >>`;
+    parts.push(`${firstPage + index} 0 obj\n<< /Type /Page /Parent 2 0 R${resources} >>\nendobj\n`);
+  });
+
+  const body: Buffer[] = [Buffer.from(`%PDF-1.4\n${parts.join('')}`)];
+  let objectNumber = firstPage + pages.length;
+  for (const image of pages.flat()) {
+    body.push(Buffer.from(
+      `${objectNumber++} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `${image.dictionary} /Length ${image.data.length} >>\nstream\n`
+    ));
+    body.push(image.data, Buffer.from('\nendstream\nendobj\n'));
+  }
+  body.push(Buffer.from('%%EOF\n'));
+  return Buffer.concat(body);
+}
+
+function grayImage(width: number, height: number, value: number): TestImage {
+  return {
+    width,
+    height,
+    dictionary: '/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode',
+    data: zlib.deflateSync(Buffer.alloc(width * height, value)),
+  };
+}
+
+class FakeOcrEngine implements OcrEngine {
+  images: Buffer[] = [];
+
+  constructor(private pages: OcrPageResult[]) {}
+
+  async recognize(image: Buffer): Promise<OcrPageResult> {
+    this.images.push(image);
+    return this.pages[this.images.length - 1] || { text: '', confidence: 0 };
+  }
+
+  async terminate(): Promise<void> {}
+}
+
+const SCANNED_TEXT = 'Jane Doe\nSenior Software Engineer at Acme Corp 2018-2024\njane@example.com';
+
+describe('OCR Fallback', () => {
+  describe('PDF image extraction', () => {
+    test('should convert Flate-compressed grayscale scans to PGM', () => {
+      const images = extractPdfImages(buildImagePdf([grayImage(300, 400, 200)]));
+
+      expect(images).toHaveLength(1);
+      const header = 'P5\n300 400\n255\n';
+      expect(images[0]!.subarray(0, header.length).toString()).toBe(header);
+      expect(images[0]!.length).toBe(header.length + 300 * 400);
+      expect(images[0]![header.length]).toBe(200);
+    });
+
+    test('should pass JPEG scans through unchanged', () => {
+      const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+      const images = extractPdfImages(buildImagePdf([{
+        width: 1200,
+        height: 1600,
+        dictionary: '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+        data: jpeg,
+      }]));
+
+      expect(images).toEqual([jpeg]);
+    });
+
+    test('should invert 1-bit scans into PBM and undo PNG predictors', () => {
+      // One row per PNG "Up" filter byte, all rows black (0) in PDF terms
+      const width = 256;
+      const height = 200;
+      const rows = Buffer.concat(Array.from({ length: height }, () => Buffer.concat([Buffer.from([2]), Buffer.alloc(width / 8)])));
+      const images = extractPdfImages(buildImagePdf([{
+        width,
+        height,
+        dictionary: '/ColorSpace /DeviceGray /BitsPerComponent 1 /Filter /FlateDecode /DecodeParms << /Predictor 15 /Columns 256 >>',
+        data: zlib.deflateSync(rows),
+      }]));
+
+      const header = `P4\n${width} ${height}\n`;
+      expect(images[0]!.subarray(0, header.length).toString()).toBe(header);
+      expect(images[0]!.length).toBe(header.length + (width / 8) * height);
+      expect(images[0]![header.length]).toBe(0xff);
+    });
+
+    test('should skip logo-sized images and undecodable filters', () => {
+      const images = extractPdfImages(buildImagePdf([
+        grayImage(64, 64, 0),
+        {
+          width: 1200,
+          height: 1600,
+          dictionary: '/ColorSpace /DeviceGray /BitsPerComponent 1 /Filter /CCITTFaxDecode',
+          data: Buffer.from([0x00, 0x01]),
+        },
+      ]));
+
+      expect(images).toEqual([]);
+    });
+
+    test('should not inflate image data beyond the size its dictionary declares', () => {
+      const image = grayImage(300, 400, 0);
+      const images = extractPdfImages(buildImagePdf([{ ...image, data: zlib.deflateSync(Buffer.alloc(300 * 400 * 3)) }]));
+
+      expect(images).toEqual([]);
+    });
+
+    test('should only decode the images of the requested pages', () => {
+      const pdf = buildPagedPdf([[grayImage(300, 400, 10)], [grayImage(300, 400, 20)], [grayImage(300, 400, 30)]]);
+
+      const pages = extractPdfPageImages(pdf, [1]);
+
+      expect(pages?.map(images => images.length)).toEqual([0, 1, 0]);
+      const image = pages![1]![0]!;
+      expect(image[image.length - 1]).toBe(20);
+    });
+
+    test('should group page images by page', () => {
+      const pdf = buildPagedPdf([[], [grayImage(300, 400, 10)], [grayImage(300, 400, 20), grayImage(64, 64, 0)]]);
+
+      const pages = extractPdfPageImages(pdf);
+
+      expect(pages?.map(images => images.length)).toEqual([0, 1, 1]);
+      const image = pages![2]![0]!;
+      expect(image[image.length - 1]).toBe(20);
+    });
+
+    test('should read resources inherited from the page tree', () => {
+      const pages = extractPdfPageImages(buildPagedPdf([[grayImage(300, 400, 10)]], true));
+
+      expect(pages?.map(images => images.length)).toEqual([1]);
+    });
+
+    test('should not group images when the PDF has no readable page tree', () => {
+      expect(extractPdfPageImages(buildImagePdf([grayImage(300, 400, 200)]))).toBeNull();
+    });
+  });
+
+  describe('Resume processing', () => {
+    const scannedPdf = buildImagePdf([grayImage(300, 400, 255), grayImage(300, 400, 255)]);
+
+    function createProcessor(pages: OcrPageResult[], extractedText = ''): { processor: ResumeProcessingService; engine: FakeOcrEngine } {
+      const engine = new FakeOcrEngine(pages);
+      const processor = new ResumeProcessingService(new OcrService(engine));
+      jest.spyOn(processor, 'extractText').mockResolvedValue({ text: extractedText, extractor: 'pdf' });
+      return { processor, engine };
+    }
+
+    test('should use OCR text for image-only PDFs', async () => {
+      const { processor, engine } = createProcessor([
+        { text: SCANNED_TEXT, confidence: 91 },
+        { text: 'Python, TypeScript, AWS', confidence: 85 },
+      ]);
+
+      const resumeData = await processor.processSingleResume(scannedPdf, 'scan.pdf');
+
+      expect(engine.images).toHaveLength(2);
+      expect(resumeData.processingStatus).toBe('completed');
+      expect(resumeData.ocrUsed).toBe(true);
+      expect(resumeData.ocrConfidence).toBeGreaterThan(85);
+      expect(resumeData.ocrConfidence).toBeLessThan(91);
+      expect(resumeData.extractedText).toBe(`${SCANNED_TEXT}\n\nPython, TypeScript, AWS`);
+      expect(resumeData.contactInfo.email).toBe('jane@example.com');
+      expect(resumeData.requiresManualReview).toBeUndefined();
+    });
+
+    test('should flag low-confidence OCR for manual review', async () => {
+      const { processor } = createProcessor([{ text: SCANNED_TEXT, confidence: 42 }]);
+
+      const resumeData = await processor.processSingleResume(scannedPdf, 'scan.pdf');
+
+      expect(resumeData.ocrUsed).toBe(true);
+      expect(resumeData.ocrConfidence).toBe(42);
+      expect(resumeData.requiresManualReview).toBe(true);
+      expect(resumeData.manualReviewReason).toContain('OCR confidence 42%');
+    });
+
+    test('should flag PDFs with neither text nor readable page images', async () => {
+      const { processor, engine } = createProcessor([]);
+
+      const resumeData = await processor.processSingleResume(buildImagePdf([]), 'blank.pdf');
+
+      expect(engine.images).toHaveLength(0);
+      expect(resumeData.ocrUsed).toBeUndefined();
+      expect(resumeData.requiresManualReview).toBe(true);
+    });
+
+    test('should not run OCR when the PDF has a text layer', async () => {
+      const { processor, engine } = createProcessor([], SCANNED_TEXT);
+
+      const resumeData = await processor.processSingleResume(scannedPdf, 'resume.pdf');
+
+      expect(engine.images).toHaveLength(0);
+      expect(resumeData.ocrUsed).toBeUndefined();
+      expect(resumeData.requiresManualReview).toBeUndefined();
+    });
+
+    describe('with text on some pages', () => {
+      const COVER_PAGE = 'Jane Doe - Cover letter\nI am applying for the Senior Engineer role at Acme Corp.';
+      const mixedPdf = buildPagedPdf([[], [grayImage(300, 400, 255)]]);
+
+      function createMixedProcessor(page: OcrPageResult) {
+        const engine = new FakeOcrEngine([page]);
+        const processor = new ResumeProcessingService(new OcrService(engine));
+        jest.spyOn(processor, 'extractText').mockResolvedValue({
+          text: `\n\n${COVER_PAGE}\n\n`,
+          extractor: 'pdf',
+          pages: [COVER_PAGE, ''],
+        });
+        return { processor, engine };
+      }
+
+      test('should OCR only the scanned pages and keep them in page order', async () => {
+        const { processor, engine } = createMixedProcessor({ text: SCANNED_TEXT, confidence: 88 });
+
+        const resumeData = await processor.processSingleResume(mixedPdf, 'mixed.pdf');
+
+        expect(engine.images).toHaveLength(1);
+        expect(resumeData.ocrUsed).toBe(true);
+        expect(resumeData.ocrConfidence).toBe(88);
+        expect(resumeData.extractedText).toBe(`${COVER_PAGE}\n\n${SCANNED_TEXT}`);
+        expect(resumeData.contactInfo.email).toBe('jane@example.com');
+        expect(resumeData.requiresManualReview).toBeUndefined();
+      });
+
+      test('should leave out unreadable page images without flagging the resume', async () => {
+        const { processor } = createMixedProcessor({ text: 'll| ~~ /\\ ,, jJ ll| ~~ /\\ ,, jJ ll| ~~ /\\ ,, jJ ll| ~~', confidence: 23 });
+
+        const resumeData = await processor.processSingleResume(mixedPdf, 'photo.pdf');
+
+        expect(resumeData.ocrUsed).toBeUndefined();
+        expect(resumeData.extractedText).toBe(`\n\n${COVER_PAGE}\n\n`);
+        expect(resumeData.requiresManualReview).toBeUndefined();
+      });
+
+      test('should flag a scan whose only text layer is a page number', async () => {
+        const engine = new FakeOcrEngine([{ text: SCANNED_TEXT, confidence: 41 }, { text: 'Python, TypeScript', confidence: 45 }]);
+        const processor = new ResumeProcessingService(new OcrService(engine));
+        jest.spyOn(processor, 'extractText').mockResolvedValue({ text: '\n\n1\n\n2', extractor: 'pdf', pages: ['1', '2'] });
+
+        const resumeData = await processor.processSingleResume(
+          buildPagedPdf([[grayImage(300, 400, 255)], [grayImage(300, 400, 255)]]), 'scan.pdf');
+
+        expect(engine.images).toHaveLength(2);
+        expect(resumeData.extractedText).toBe(`${SCANNED_TEXT}\n\nPython, TypeScript`);
+        expect(resumeData.requiresManualReview).toBe(true);
+        expect(resumeData.manualReviewReason).toContain('below the 60% threshold');
+      });
+    });
+
+    test('should record OCR failures and flag the resume', async () => {
+      const engine = new FakeOcrEngine([]);
+      jest.spyOn(engine, 'recognize').mockRejectedValue(new Error('worker crashed'));
+      const processor = new ResumeProcessingService(new OcrService(engine));
+      jest.spyOn(processor, 'extractText').mockResolvedValue({ text: '', extractor: 'pdf' });
+
+      const resumeData = await processor.processSingleResume(scannedPdf, 'scan.pdf');
+
+      expect(resumeData.processingStatus).toBe('completed');
+      expect(resumeData.extractionErrors).toEqual(['OCR failed: worker crashed']);
+      expect(resumeData.requiresManualReview).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { extractPhoneNumber, isSupportedPhoneRegion, isValidPhoneNumber, normalizePhoneNumber } from '../utils/phoneNumber';
+import { ResumeProcessingService } from '../services/resumeProcessingService';
+
+describe('Phone Number Utilities', () => {
+  describe('normalizePhoneNumber', () => {
+    test('should normalize international numbers to E.164 and detect the country', () => {
+      expect(normalizePhoneNumber('+44 20 7946 0958')).toEqual({ raw: '+44 20 7946 0958', e164: '+442079460958', country: 'GB' });
+      expect(normalizePhoneNumber('+91 98765 43210')).toMatchObject({ e164: '+919876543210', country: 'IN' });
+      expect(normalizePhoneNumber('+49 30 12345678')).toMatchObject({ e164: '+493012345678', country: 'DE' });
+    });
+
+    test('should read numbers without a country code in the default region', () => {
+      expect(normalizePhoneNumber('(555) 123-4567')).toMatchObject({ e164: '+15551234567', country: 'US' });
+      expect(normalizePhoneNumber('98765 43210', 'IN')).toMatchObject({ e164: '+919876543210', country: 'IN' });
+      expect(normalizePhoneNumber('030 12345678', 'de')).toMatchObject({ e164: '+493012345678', country: 'DE' });
+    });
+
+    test('should reject strings that cannot be phone numbers', () => {
+      ['', '123', 'abc-def-ghij', '555-123'].forEach(input => {
+        expect(normalizePhoneNumber(input)).toBeNull();
+        expect(isValidPhoneNumber(input)).toBe(false);
+      });
+    });
+
+    test('should only treat numbers in assigned ranges as valid', () => {
+      expect(isValidPhoneNumber('+44 20 7946 0958')).toBe(true);
+      expect(isValidPhoneNumber('213-373-4253')).toBe(true);
+      expect(isValidPhoneNumber('98765 43210', 'IN')).toBe(true);
+      // Possible, so still normalized, but 555 is not an assigned area code
+      expect(isValidPhoneNumber('(555) 123-4567')).toBe(false);
+    });
+  });
+
+  describe('extractPhoneNumber', () => {
+    test('should find the first phone number in resume text', () => {
+      const text = 'Priya Sharma\nBengaluru | +91 98765 43210 | priya@example.com\nSoftware Engineer, 2019 - 2023';
+
+      expect(extractPhoneNumber(text)).toEqual({ raw: '+91 98765 43210', e164: '+919876543210', country: 'IN' });
+    });
+
+    test('should find numbers outside the assigned ranges', () => {
+      expect(extractPhoneNumber('Call me on (555) 123-4567 after 5pm')).toEqual({ raw: '(555) 123-4567', e164: '+15551234567', country: 'US' });
+    });
+
+    test('should not mistake date ranges for phone numbers', () => {
+      expect(extractPhoneNumber('Engineer at Acme, 2015 - 2019\nAnalyst, 01/2012 - 12/2014')).toBeNull();
+    });
+  });
+
+  test('should only accept ISO 3166-1 alpha-2 regions with numbering rules', () => {
+    expect(isSupportedPhoneRegion('GB')).toBe(true);
+    expect(isSupportedPhoneRegion('gb')).toBe(false);
+    expect(isSupportedPhoneRegion('XX')).toBe(false);
+    expect(isSupportedPhoneRegion('GBR')).toBe(false);
+  });
+
+  describe('Resume contact parsing', () => {
+    const resumeProcessor = new ResumeProcessingService();
+
+    test('should record the E.164 number and country alongside the number as written', () => {
+      const contactInfo = resumeProcessor.parseContactInfo('Jean Dupont - 01 23 45 67 89 - jean@example.fr', 'FR');
+
+      expect(contactInfo.phone).toBe('01 23 45 67 89');
+      expect(contactInfo.phoneE164).toBe('+33123456789');
+      expect(contactInfo.phoneCountry).toBe('FR');
+    });
+
+    test('should prefer an explicit country code over the default region', () => {
+      const contactInfo = resumeProcessor.parseContactInfo('Mobile: +44 7400 123456', 'US');
+
+      expect(contactInfo.phoneE164).toBe('+447400123456');
+      expect(contactInfo.phoneCountry).toBe('GB');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { LinkedInAnalysisService } from '../services/linkedInAnalysisService';
+import { JsonLinkedInDataSource } from '../services/linkedInDataSources';
+import { checkProfileConsistency } from '../services/profileConsistency';
+import { JobProfile, ResumeData, WorkExperience } from '../models/interfaces';
+
+describe('Resume and LinkedIn Consistency', () => {
+  const referenceDate = new Date('2024-10-15');
+  const linkedInExperience = [
+    { title: 'Staff Engineer', company: 'Acme', duration: '2 years 10 months', startDate: 'January 2022', endDate: 'Present' },
+    { title: 'Senior Engineer', company: 'Acme', duration: '2 years 4 months', startDate: 'September 2019', endDate: 'December 2021' },
+    { title: 'Software Engineer', company: 'Beta Software', duration: '3 years 3 months', startDate: 'June 2016', endDate: 'August 2019' },
+  ];
+  const role = (title: string, company: string, startDate: string, endDate?: string): WorkExperience =>
+    ({ title, company, startDate, ...(endDate && { endDate }), isCurrent: !endDate, bullets: [] });
+
+  test('should find nothing to flag when the resume agrees with LinkedIn', () => {
+    const consistency = checkProfileConsistency([
+      role('Staff Engineer', 'Acme Inc.', '2022-01'),
+      role('Sr. Engineer', 'Acme Inc.', '2019-09', '2021-12'),
+      // Year-only dates covering a little less than LinkedIn's months
+      role('Software Engineer', 'Beta Software', '2016', '2019'),
+    ], linkedInExperience, referenceDate);
+
+    expect(consistency).toEqual({ score: 100, comparedEmployers: 2, discrepancies: [] });
+  });
+
+  test('should flag missing employers, inflated tenure and more senior titles', () => {
+    const consistency = checkProfileConsistency([
+      role('Director of Engineering', 'Acme', '2018-01'),
+      role('Data Analyst', 'Beta Software', '2016-06', '2019-08'),
+      role('Engineer', 'Gamma Labs', '2014', '2016'),
+    ], linkedInExperience, referenceDate)!;
+
+    expect(consistency.comparedEmployers).toBe(3);
+    expect(consistency.discrepancies).toEqual([
+      expect.objectContaining({
+        type: 'inflated-tenure',
+        severity: 'high',
+        company: 'Acme',
+        resumeValue: '6 years 10 months',
+        linkedInValue: '5 years 2 months',
+      }),
+      expect.objectContaining({
+        type: 'title-mismatch',
+        severity: 'high',
+        company: 'Acme',
+        resumeValue: 'Director of Engineering',
+        linkedInValue: 'Staff Engineer, Senior Engineer',
+      }),
+      expect.objectContaining({ type: 'title-mismatch', severity: 'low', company: 'Beta Software' }),
+      expect.objectContaining({ type: 'missing-employer', severity: 'high', company: 'Gamma Labs', resumeValue: '2 years' }),
+    ]);
+    expect(consistency.score).toBe(5);
+  });
+
+  test('should not compare when either side lists no employers', () => {
+    expect(checkProfileConsistency([{ title: 'Engineer', isCurrent: true, bullets: [] }], linkedInExperience)).toBeUndefined();
+    expect(checkProfileConsistency([role('Engineer', 'Acme', '2020-01')], [])).toBeUndefined();
+  });
+
+  test('should lower the professional score by the discrepancies with the resume', async () => {
+    const jobProfile: JobProfile = {
+      id: 'job-123',
+      title: 'Engineering Director',
+      description: 'Leads the platform organisation',
+      requiredSkills: ['Node.js'],
+      experienceLevel: 'Senior',
+      scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+      interviewQuestions: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const resumeData: ResumeData = {
+      id: 'resume-123',
+      fileName: 'jane_roe.pdf',
+      // Not yet parsed into sections
+      extractedText: 'Jane Roe\n\nExperience\nDirector of Engineering, Acme Inc\nJan 2015 - Dec 2021\n- Led the platform organisation',
+      contactInfo: { projectUrls: [] },
+      processingStatus: 'completed',
+    };
+    const profile = Buffer.from(JSON.stringify({
+      profile: { firstName: 'Jane', headline: 'Senior Engineer at Acme', connections: 250 },
+      experience: [{ title: 'Senior Engineer', company: 'Acme', duration: '2 yrs 4 mos', startDate: '2019-09', endDate: '2021-12' }],
+    }));
+    const service = new LinkedInAnalysisService([new JsonLinkedInDataSource()]);
+    const attachment = { format: 'json' as const, content: profile, uploadedAt: new Date() };
+
+    const withoutResume = await service.analyzeLinkedInProfile('candidate-123', undefined, jobProfile, attachment);
+    const withResume = await service.analyzeLinkedInProfile('candidate-123', undefined, jobProfile, attachment, resumeData);
+
+    expect(withoutResume.consistency).toBeUndefined();
+    expect(withResume.consistency!.discrepancies.map(d => `${d.type}:${d.severity}`))
+      .toEqual(['inflated-tenure:high', 'title-mismatch:high']);
+    expect(withResume.consistency!.score).toBe(40);
+    expect(withResume.professionalScore).toBe(withoutResume.professionalScore - 12);
+  });
+});
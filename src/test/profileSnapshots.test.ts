@@ -0,0 +1,177 @@
+import { LinkedInAnalysisService, LinkedInProfileData } from '../services/linkedInAnalysisService';
+import { LinkedInDataSource } from '../services/linkedInDataSources';
+import { GitHubAnalysisService, GitHubProfileData } from '../services/githubAnalysisService';
+import { normalizeLinkedInProfileKey, profileSnapshotService } from '../services/profileSnapshotService';
+import { JobProfile, ProfileSnapshot } from '../models/interfaces';
+
+describe('Profile Snapshots', () => {
+  const jobProfile: JobProfile = {
+    id: 'job-123',
+    title: 'Backend Engineer',
+    description: 'Payments platform',
+    requiredSkills: ['TypeScript', 'Node.js'],
+    experienceLevel: 'Senior',
+    scoringWeights: { resumeAnalysis: 25, linkedInAnalysis: 20, githubAnalysis: 25, interviewPerformance: 30 },
+    interviewQuestions: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const fetchedAt = new Date('2024-10-01T09:00:00Z');
+  const snapshot = (source: ProfileSnapshot['source'], payload: unknown): ProfileSnapshot =>
+    ({ id: '66f0c0ffee0000000000abcd', source, profileKey: 'key', payload, fetchedAt });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LinkedIn', () => {
+    const linkedInUrl = 'https://www.linkedin.com/in/jane-roe/';
+    const profile: LinkedInProfileData = {
+      profile: { firstName: 'Jane', headline: 'Backend Engineer', connections: 320 },
+      experience: [{ title: 'Backend Engineer', company: 'Initech', duration: '3 yrs' }],
+    };
+    const scraper = (): LinkedInDataSource & { fetchProfile: jest.Mock } => ({
+      name: 'scraper',
+      unavailableReason: () => null,
+      fetchProfile: jest.fn().mockResolvedValue(profile),
+    });
+
+    test('should key profiles by their URL without scheme, www or trailing slash', () => {
+      expect(normalizeLinkedInProfileKey(linkedInUrl)).toBe('linkedin.com/in/jane-roe');
+      expect(normalizeLinkedInProfileKey('http://LinkedIn.com/in/Jane-Roe?trk=abc')).toBe('linkedin.com/in/jane-roe');
+    });
+
+    test('should reuse a fresh snapshot instead of scraping, unless refreshing', async () => {
+      const source = scraper();
+      const service = new LinkedInAnalysisService([source]);
+      const getFresh = jest.spyOn(profileSnapshotService, 'getFreshSnapshot').mockResolvedValue(snapshot('linkedin', profile));
+      const save = jest.spyOn(profileSnapshotService, 'saveSnapshot')
+        .mockResolvedValue({ ...snapshot('linkedin', profile), id: '66f0c0ffee0000000000beef' });
+
+      const reused = await service.analyzeLinkedInProfile('candidate-123', linkedInUrl, jobProfile);
+      const refreshed = await service.analyzeLinkedInProfile('candidate-123', linkedInUrl, jobProfile, undefined, undefined, { refresh: true });
+
+      expect(getFresh).toHaveBeenCalledTimes(1);
+      expect(getFresh).toHaveBeenCalledWith('linkedin', 'linkedin.com/in/jane-roe');
+      expect(source.fetchProfile).toHaveBeenCalledTimes(1);
+      expect(save).toHaveBeenCalledWith('linkedin', 'linkedin.com/in/jane-roe', profile);
+      expect(reused.snapshot).toEqual({ id: '66f0c0ffee0000000000abcd', fetchedAt, reused: true });
+      expect(refreshed.snapshot).toEqual({ id: '66f0c0ffee0000000000beef', fetchedAt, reused: false });
+      expect(refreshed.professionalScore).toBe(reused.professionalScore);
+    });
+
+    test('should analyze a stored snapshot without any data source', async () => {
+      const source = scraper();
+      const service = new LinkedInAnalysisService([source]);
+      jest.spyOn(profileSnapshotService, 'getSnapshot').mockImplementation(async id =>
+        id === '66f0c0ffee0000000000abcd' ? snapshot('linkedin', profile) : null);
+
+      const analysis = await service.analyzeLinkedInProfile(
+        'candidate-123', undefined, jobProfile, undefined, undefined, { snapshotId: '66f0c0ffee0000000000abcd' });
+      const missing = await service.analyzeLinkedInProfile(
+        'candidate-123', undefined, jobProfile, undefined, undefined, { snapshotId: '66f0c0ffee0000000000ffff' });
+
+      expect(source.fetchProfile).not.toHaveBeenCalled();
+      expect(analysis.profileAccessible).toBe(true);
+      expect(analysis.dataSource).toBe('scraper');
+      expect(analysis.snapshot).toEqual({ id: '66f0c0ffee0000000000abcd', fetchedAt, reused: true });
+      expect(missing.profileAccessible).toBe(false);
+      expect(missing.credibilityIndicators).toEqual(['Analysis failed: LinkedIn profile snapshot not found']);
+    });
+  });
+
+  describe('GitHub', () => {
+    const commit = (message: string, email: string, date: string) => ({
+      sha: message,
+      commit: {
+        author: { name: email, email, date },
+        committer: { name: email, email, date },
+        message,
+      },
+    });
+    const repository = (name: string) => ({
+      id: name.length,
+      name,
+      full_name: `jroe/${name}`,
+      private: false,
+      html_url: `https://github.com/jroe/${name}`,
+      clone_url: `https://github.com/jroe/${name}.git`,
+      language: 'TypeScript',
+      size: 2000,
+      stargazers_count: 12,
+      watchers_count: 12,
+      forks_count: 3,
+      open_issues_count: 1,
+      created_at: '2022-01-01T00:00:00Z',
+      updated_at: '2024-09-01T00:00:00Z',
+      pushed_at: '2024-09-01T00:00:00Z',
+      default_branch: 'main',
+    });
+    const profileData = (): GitHubProfileData => ({
+      profile: {
+        login: 'jroe',
+        id: 42,
+        public_repos: 2,
+        public_gists: 0,
+        followers: 40,
+        following: 5,
+        created_at: '2018-01-01T00:00:00Z',
+        updated_at: '2024-09-01T00:00:00Z',
+      },
+      repositories: [repository('ledger'), repository('payments-api')],
+      events: [],
+      repositoryActivity: {
+        'jroe/ledger': {
+          commits: [
+            commit('Add double-entry posting for refunds', 'jane@example.com', '2024-06-01T10:00:00Z'),
+            commit('Reconcile settlement files nightly', 'sam@example.com', '2024-06-03T10:00:00Z'),
+            commit('Handle currency rounding in ledger totals', 'jane@example.com', '2024-06-09T10:00:00Z'),
+            commit('Document the posting rules', 'jane@example.com', '2024-06-12T10:00:00Z'),
+            commit('Initial commit', 'jane@example.com', '2024-05-30T10:00:00Z'),
+          ],
+          branches: [{ name: 'main', commit: { sha: 'a' }, protected: true }, { name: 'develop', commit: { sha: 'b' }, protected: false }],
+        },
+      },
+    });
+    const projectUrls = ['https://github.com/jroe/ledger', 'https://github.com/jroe/payments-api'];
+
+    test('should rate resume projects from the activity stored in the snapshot', async () => {
+      const service = new GitHubAnalysisService();
+      const request = jest.spyOn(service as any, 'makeGitHubRequest');
+      jest.spyOn(profileSnapshotService, 'getSnapshot').mockResolvedValue(snapshot('github', profileData()));
+
+      const analysis = await service.analyzeGitHubProfile(
+        'candidate-123', 'https://github.com/jroe', jobProfile, projectUrls, { snapshotId: '66f0c0ffee0000000000abcd' });
+
+      expect(request).not.toHaveBeenCalled();
+      expect(analysis.snapshot).toEqual({ id: '66f0c0ffee0000000000abcd', fetchedAt, reused: true });
+      expect(analysis.projectAuthenticity.resumeProjects).toEqual([
+        { url: projectUrls[0], isAuthentic: true, commitHistory: 5, branchingPattern: 'git-flow', codeQuality: expect.any(String) },
+        // Its activity was never fetched, so it cannot be rated
+        { url: projectUrls[1], isAuthentic: false, commitHistory: 0, branchingPattern: 'analysis-failed', codeQuality: expect.any(String) },
+      ]);
+    });
+
+    test('should fetch only the project activity a fresh snapshot lacks', async () => {
+      const service = new GitHubAnalysisService(null);
+      (service as any).token = 'test-github-token';
+      const stored = snapshot('github', profileData());
+      jest.spyOn(profileSnapshotService, 'getFreshSnapshot').mockResolvedValue(stored);
+      const extend = jest.spyOn(profileSnapshotService, 'extendSnapshot').mockResolvedValue();
+      const request = jest.spyOn(service as any, 'makeGitHubRequest').mockImplementation(async (endpoint: any) =>
+        endpoint.endsWith('/branches') ? [{ name: 'main', commit: { sha: 'c' }, protected: false }] : []);
+
+      const analysis = await service.analyzeGitHubProfile('candidate-123', 'https://github.com/jroe', jobProfile, projectUrls);
+
+      expect(request.mock.calls.map(call => call[0])).toEqual([
+        '/repos/jroe/payments-api/commits?per_page=100',
+        '/repos/jroe/payments-api/branches',
+      ]);
+      expect(extend).toHaveBeenCalledWith(stored.id, expect.objectContaining({
+        repositoryActivity: expect.objectContaining({ 'jroe/payments-api': { commits: [], branches: [expect.any(Object)] } }),
+      }));
+      expect(analysis.snapshot).toEqual({ id: stored.id, fetchedAt, reused: true });
+      expect(analysis.projectAuthenticity.resumeProjects[1]).toMatchObject({ commitHistory: 0, branchingPattern: 'single-branch' });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  PromptTemplateService,
+  findUnknownVariables,
+  renderPromptTemplate
+} from '../services/promptTemplateService';
+import { DatabaseError } from '../utils/database';
+
+describe('Prompt Templates', () => {
+  const service = new PromptTemplateService();
+
+  test('should render nested variables and leave missing ones empty', () => {
+    const rendered = renderPromptTemplate('Role: {{ jobProfile.title }} ({{jobProfile.level}})\n{{resumeText}}', {
+      jobProfile: { title: 'Backend Engineer' },
+      resumeText: 'Eight years of Node.js',
+    });
+
+    expect(rendered).toBe('Role: Backend Engineer ()\nEight years of Node.js');
+  });
+
+  test('should report variables the kind does not provide', () => {
+    expect(findUnknownVariables('resume-analysis', '{{jobProfile.title}} {{transcript}} {{salary}} {{salary}}'))
+      .toEqual(['transcript', 'salary']);
+    expect(findUnknownVariables('interview-analysis', '{{transcript}} {{interviewSession.callQuality}}')).toEqual([]);
+  });
+
+  test('should reject a template using unknown variables before saving it', async () => {
+    const creation = service.createTemplate({
+      kind: 'resume-analysis',
+      name: 'Strict rubric',
+      systemPrompt: 'You are a strict reviewer.',
+      body: 'Score {{resumeText}} for {{jobProfile.salary}}',
+    });
+
+    await expect(creation).rejects.toBeInstanceOf(DatabaseError);
+    await expect(creation).rejects.toThrow('Unknown template variables for resume-analysis: jobProfile.salary');
+  });
+
+  test('should resolve the built-in template when no database is connected', async () => {
+    const template = await service.resolveTemplate('resume-analysis');
+
+    expect(template).toMatchObject({ templateId: 'resume-analysis', version: 1, active: true });
+    expect(findUnknownVariables('resume-analysis', template.body)).toEqual([]);
+    await expect(service.resolveTemplate('resume-analysis', { templateId: 'resume-analysis', version: 2 }))
+      .rejects.toThrow('Prompt template not found: resume-analysis version 2');
+    await expect(service.resolveTemplate('resume-analysis', { templateId: 'interview-analysis' }))
+      .rejects.toThrow('Prompt template interview-analysis is for interview-analysis, not resume-analysis');
+  });
+});
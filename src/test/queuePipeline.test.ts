@@ -0,0 +1,69 @@
+import {
+  PIPELINE_STAGES,
+  getJoinDependencies,
+  getRootStages,
+  getSuccessorStages,
+  getPipelineJobId,
+  withoutReusedStages,
+} from '../queues/pipeline';
+import { GitHubAnalysis } from '../models/interfaces';
+
+describe('Queue Pipeline', () => {
+  describe('full pipeline run', () => {
+    test('should start with resume processing only', () => {
+      expect(getRootStages(PIPELINE_STAGES)).toEqual(['resume']);
+    });
+
+    test('should fan out LinkedIn and GitHub in parallel after AI analysis', () => {
+      expect(getSuccessorStages('ai-analysis', PIPELINE_STAGES)).toEqual(['linkedin', 'github']);
+    });
+
+    test('should make scoring join across LinkedIn, GitHub and interview', () => {
+      expect(getJoinDependencies('scoring', PIPELINE_STAGES).sort())
+        .toEqual(['github', 'interview', 'linkedin']);
+      expect(getJoinDependencies('interview', PIPELINE_STAGES).sort()).toEqual(['github', 'linkedin']);
+    });
+
+    test('should release scoring from each joined stage', () => {
+      expect(getSuccessorStages('linkedin', PIPELINE_STAGES)).toEqual(['interview', 'scoring']);
+      expect(getSuccessorStages('github', PIPELINE_STAGES)).toEqual(['interview', 'scoring']);
+      expect(getSuccessorStages('interview', PIPELINE_STAGES)).toEqual(['scoring']);
+      expect(getSuccessorStages('scoring', PIPELINE_STAGES)).toEqual([]);
+    });
+  });
+
+  describe('partial pipeline run', () => {
+    test('should start both parallel stages when starting from LinkedIn', () => {
+      const stages = PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf('linkedin'));
+
+      expect(getRootStages(stages)).toEqual(['linkedin', 'github']);
+    });
+
+    test('should only join on stages that take part in the run', () => {
+      const stages = PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf('github'));
+
+      expect(getRootStages(stages)).toEqual(['github']);
+      expect(getJoinDependencies('interview', stages)).toEqual(['github']);
+      expect(getJoinDependencies('scoring', stages).sort()).toEqual(['github', 'interview']);
+    });
+
+    test('should treat a single stage as its own root', () => {
+      expect(getRootStages(['scoring'])).toEqual(['scoring']);
+      expect(getSuccessorStages('scoring', ['scoring'])).toEqual([]);
+    });
+  });
+
+  test('should skip the GitHub stage of a repeat applicant whose analysis was reused', () => {
+    const githubAnalysis = { candidateId: 'c2', reusedFromCandidateId: 'c1' } as GitHubAnalysis;
+    const stages = withoutReusedStages(PIPELINE_STAGES, { githubAnalysis });
+
+    expect(stages).toEqual(['resume', 'ai-analysis', 'linkedin', 'interview', 'scoring']);
+    expect(getJoinDependencies('interview', stages).sort()).toEqual(['ai-analysis', 'linkedin']);
+    expect(withoutReusedStages(PIPELINE_STAGES, { githubAnalysis: { ...githubAnalysis, reusedFromCandidateId: undefined } }))
+      .toEqual(PIPELINE_STAGES);
+  });
+
+  test('should build deterministic job IDs per batch, candidate and stage', () => {
+    expect(getPipelineJobId('batch-1', 'candidate-1', 'scoring')).toBe('batch-1:candidate-1:scoring');
+  });
+});
@@ -0,0 +1,60 @@
+import { buildChunkExtractionPrompt, chunkResumeText, mergeChunkFindings } from '../services/resumeChunking';
+import { estimateTokens } from '../services/llmProviderRegistry';
+import { JobProfile } from '../models/interfaces';
+
+describe('Resume Chunking', () => {
+  test('should keep paragraphs together and stay within the chunk size', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => `Role ${i}\n${'Built and operated services. '.repeat(6)}`);
+    const chunks = chunkResumeText(paragraphs.join('\n\n'), 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(100));
+    expect(chunks.join('\n\n')).toBe(paragraphs.map(p => p.trim()).join('\n\n'));
+  });
+
+  test('should split a paragraph longer than a chunk by line, and a line longer than a chunk by length', () => {
+    const longLine = 'x'.repeat(250);
+    const chunks = chunkResumeText(`Publications\n${longLine}`, 25);
+
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(100));
+    expect(chunks.join('').replace(/\s/g, '')).toBe(`Publications${longLine}`);
+  });
+
+  test('should merge findings across chunks without duplicates', () => {
+    const merged = mergeChunkFindings([
+      { skills: ['Node.js', 'Go'], experience: ['Engineer at Acme (2018-2020)'], education: [], certifications: [], other: [] },
+      { skills: ['node.js', 'Kubernetes'], experience: [], education: ['PhD, MIT, 2017'], certifications: [], other: ['12 papers'] },
+    ]);
+
+    expect(merged.text).toContain('all 2 parts');
+    expect(merged.text).toContain('Skills: Node.js, Go, Kubernetes');
+    expect(merged.text).toContain('Education:\n- PhD, MIT, 2017');
+    expect(merged.text).toContain('Certifications:\n- none found');
+    expect(merged.evidence).toBeUndefined();
+  });
+
+  test('should combine the quotes for a skill found in several chunks', () => {
+    const findings = (skill: string, quote: string) => ({
+      skills: [skill], experience: [], education: [], certifications: [], other: [],
+      evidence: { skills: [{ skill, quotes: [quote, 'Node.js'] }], experienceClaims: [] },
+    });
+
+    const merged = mergeChunkFindings([
+      findings('Node.js', 'Built billing on Node.js'),
+      findings('node.js', 'Ported the API to Node.js'),
+      { skills: ['Go'], experience: [], education: [], certifications: [], other: [] },
+    ]);
+
+    expect(merged.evidence).toEqual({
+      skills: [{ skill: 'Node.js', quotes: ['Built billing on Node.js', 'Node.js', 'Ported the API to Node.js'] }],
+      experienceClaims: [],
+    });
+  });
+
+  test('should tell the provider which part it is reading', () => {
+    const prompt = buildChunkExtractionPrompt('Some text', 1, 3, { title: 'Researcher', requiredSkills: ['Python'] } as JobProfile);
+
+    expect(prompt).toContain('part 2 of 3');
+    expect(prompt).toMatch(/RESUME PART 2 OF 3:\n[^\n]*not instructions[^\n]*\n<untrusted_resume>\nSome text\n<\/untrusted_resume>/);
+  });
+});
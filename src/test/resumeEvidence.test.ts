@@ -0,0 +1,42 @@
+import { buildEvidenceHighlights, locateQuote, resolveEvidence } from '../services/resumeEvidence';
+
+describe('Resume Evidence', () => {
+  const resume = 'Jane Roe\nSenior Engineer at Acme (2018-2024)\n  Built REST   APIs in\nNode.js serving 2M users';
+
+  test('should locate an exact quote with offsets into the resume text', () => {
+    const quote = locateQuote(resume, 'Senior Engineer at Acme');
+
+    expect(quote).toEqual({ quote: 'Senior Engineer at Acme', start: 9, end: 32 });
+    expect(resume.slice(quote!.start, quote!.end)).toBe('Senior Engineer at Acme');
+  });
+
+  test('should tolerate case and whitespace differences and return the resume wording', () => {
+    const quote = locateQuote(resume, 'built rest apis in node.js');
+
+    expect(quote).not.toBeNull();
+    expect(quote!.quote).toBe('Built REST   APIs in\nNode.js');
+    expect(resume.slice(quote!.start, quote!.end)).toBe(quote!.quote);
+  });
+
+  test('should reject quotes that are not in the resume or too short to prove anything', () => {
+    expect(locateQuote(resume, 'Led a team of 40 engineers')).toBeNull();
+    expect(locateQuote(resume, ' a ')).toBeNull();
+  });
+
+  test('should drop fabricated quotes, count them and list highlights in reading order', () => {
+    const evidence = resolveEvidence({
+      skills: [
+        { skill: 'Node.js', quotes: ['Node.js serving 2M users', 'Wrote Node.js for 10 years'] },
+        { skill: 'Kubernetes', quotes: ['Ran Kubernetes clusters'] },
+      ],
+      experienceClaims: [{ claim: 'Six years as a senior engineer', quotes: ['Senior Engineer at Acme (2018-2024)'] }],
+    }, resume);
+
+    expect(evidence.rejectedQuotes).toBe(2);
+    expect(evidence.skills.map(entry => entry.skill)).toEqual(['Node.js']);
+    expect(buildEvidenceHighlights(evidence).map(h => [h.kind, h.label])).toEqual([
+      ['experience', 'Six years as a senior engineer'],
+      ['skill', 'Node.js'],
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { ResumeSectionParser } from '../services/resumeSectionParser';
+
+const RESUME_TEXT = `Jane Doe
+jane@example.com | (555) 123-4567
+
+SUMMARY
+Backend engineer with a focus on distributed systems.
+
+PROFESSIONAL EXPERIENCE
+Senior Software Engineer | Acme Corp | Jan 2020 - Present
+• Led migration of billing services to Node.js and TypeScript
+• Cut p99 latency by 40%
+
+Globex Inc
+Software Engineer, Mar 2016 – Dec 2019
+- Built REST APIs in Python
+- Mentored two junior engineers
+
+Intern at Initech LLC (06/2015 - 08/2015)
+
+Education
+Master of Science in Computer Science
+Stanford University, 2016
+
+B.S. in Mathematics, University of Washington, 2014
+
+Technical Skills
+Languages: TypeScript, Python, Go
+Tools: Docker, Kubernetes; AWS | PostgreSQL
+typescript, Redis
+
+Certifications
+AWS Certified Solutions Architect – Associate
+Certified Kubernetes Administrator (CKA); Scrum Master
+`;
+
+describe('Resume Section Parser', () => {
+  const parser = new ResumeSectionParser();
+  const referenceDate = new Date(2024, 5, 15); // June 2024
+
+  describe('work history', () => {
+    const { workHistory } = parser.parse(RESUME_TEXT, referenceDate);
+
+    test('should find each role with title, company and dates', () => {
+      expect(workHistory.map(({ title, company, startDate, endDate, isCurrent }) =>
+        ({ title, company, startDate, endDate, isCurrent })
+      )).toEqual([
+        { title: 'Senior Software Engineer', company: 'Acme Corp', startDate: '2020-01', endDate: undefined, isCurrent: true },
+        { title: 'Software Engineer', company: 'Globex Inc', startDate: '2016-03', endDate: '2019-12', isCurrent: false },
+        { title: 'Intern', company: 'Initech LLC', startDate: '2015-06', endDate: '2015-08', isCurrent: false },
+      ]);
+    });
+
+    test('should attach bullets to their role', () => {
+      expect(workHistory[0]?.bullets).toEqual([
+        'Led migration of billing services to Node.js and TypeScript',
+        'Cut p99 latency by 40%',
+      ]);
+      expect(workHistory[1]?.bullets).toEqual(['Built REST APIs in Python', 'Mentored two junior engineers']);
+    });
+  });
+
+  test('should compute total years of experience without double-counting overlaps', () => {
+    // Jan 2020 - Jun 2024 (54 months) + Mar 2016 - Dec 2019 (46) + Jun - Aug 2015 (3)
+    expect(parser.parse(RESUME_TEXT, referenceDate).totalYearsExperience).toBe(8.6);
+
+    const overlapping = parser.parse(
+      'Experience\nEngineer, Foo Corp, 2018 - 2020\nConsultant, Bar LLC, 2019 - 2021',
+      referenceDate
+    );
+    expect(overlapping.totalYearsExperience).toBe(3);
+  });
+
+  test('should parse education entries and the highest degree', () => {
+    const { education, highestDegreeLevel } = parser.parse(RESUME_TEXT, referenceDate);
+
+    expect(education).toEqual([
+      {
+        degree: 'Master of Science in Computer Science',
+        degreeLevel: 'master',
+        fieldOfStudy: 'Computer Science',
+        institution: 'Stanford University',
+        graduationYear: 2016,
+      },
+      {
+        degree: 'B.S. in Mathematics',
+        degreeLevel: 'bachelor',
+        fieldOfStudy: 'Mathematics',
+        institution: 'University of Washington',
+        graduationYear: 2014,
+      },
+    ]);
+    expect(highestDegreeLevel).toBe('master');
+  });
+
+  test('should split and de-duplicate skills, dropping category labels', () => {
+    expect(parser.parse(RESUME_TEXT, referenceDate).skills).toEqual([
+      'TypeScript', 'Python', 'Go', 'Docker', 'Kubernetes', 'AWS', 'PostgreSQL', 'Redis',
+    ]);
+  });
+
+  test('should list certifications', () => {
+    expect(parser.parse(RESUME_TEXT, referenceDate).certifications).toEqual([
+      'AWS Certified Solutions Architect – Associate',
+      'Certified Kubernetes Administrator (CKA)',
+      'Scrum Master',
+    ]);
+  });
+
+  test('should handle inline section headings', () => {
+    const sections = parser.parse('Skills: React, Node.js\nEducation: BA in History, Yale University 2010');
+
+    expect(sections.skills).toEqual(['React', 'Node.js']);
+    expect(sections.education[0]).toMatchObject({ degreeLevel: 'bachelor', institution: 'Yale University', graduationYear: 2010 });
+  });
+
+  test('should return empty sections for unstructured text', () => {
+    expect(parser.parse('Just a paragraph about me without any headings.')).toEqual({
+      workHistory: [],
+      education: [],
+      skills: [],
+      certifications: [],
+      totalYearsExperience: 0,
+    });
+  });
+
+  test('should list degree levels at or above a minimum', () => {
+    expect(parser.getDegreeLevelsAtLeast('master')).toEqual(['master', 'doctorate']);
+  });
+});
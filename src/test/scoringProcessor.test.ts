@@ -0,0 +1,283 @@
+import { Job } from 'bull';
+import { queueManager } from '../queues';
+import { scoringProcessor } from '../queues/processors/scoringProcessor';
+import { aiAnalysisProcessor } from '../queues/processors/aiAnalysisProcessor';
+import { aiAnalysisService, AIAnalysisFailedError } from '../services/aiAnalysisService';
+import { aiCostService } from '../services/aiCostService';
+import { candidateService } from '../services/candidateService';
+import { jobProfileService } from '../services/jobProfileService';
+import { profileRefreshService } from '../services/profileRefreshService';
+import { queueOrchestrator } from '../services/queueOrchestrator';
+import { ScoringService } from '../services/scoringService';
+import { CandidateModel } from '../models/schemas';
+import { redisClient } from '../utils/redis';
+import { Candidate, CandidateScore, JobData, JobProfile } from '../models/interfaces';
+
+jest.mock('../utils/redis', () => ({
+  redisClient: {
+    set: jest.fn(),
+    decr: jest.fn(),
+    del: jest.fn(),
+    sadd: jest.fn(),
+    scard: jest.fn(),
+    expire: jest.fn(),
+  },
+}));
+
+const mockedRedis = redisClient as jest.Mocked<typeof redisClient>;
+
+describe('Scoring', () => {
+  const score: CandidateScore = {
+    candidateId: '66f0c0ffee0000000000abcd',
+    jobProfileId: 'job-123',
+    compositeScore: 72,
+    stageScores: { resumeAnalysis: 80, linkedInAnalysis: 70, githubAnalysis: 60, interviewPerformance: 0 },
+    appliedWeights: { resumeAnalysis: 40, linkedInAnalysis: 30, githubAnalysis: 30, interviewPerformance: 0 },
+    rank: 0,
+    recommendation: 'hire',
+    reasoning: 'Strong backend experience',
+  };
+  const jobData = (overrides: Partial<JobData> = {}): JobData => ({
+    candidateId: score.candidateId,
+    jobProfileId: 'job-123',
+    batchId: 'batch-1',
+    stage: 'scoring',
+    priority: 2,
+    ...overrides,
+  });
+  const job = (data: JobData) => ({ id: 'job-1', data, progress: jest.fn() }) as unknown as Job<JobData>;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('scoringProcessor', () => {
+    const candidate = (requiresManualReview = false) => ({
+      id: score.candidateId,
+      resumeData: { requiresManualReview, manualReviewReason: requiresManualReview ? 'Low OCR confidence' : undefined },
+    }) as unknown as Candidate;
+
+    beforeEach(() => {
+      jest.spyOn(jobProfileService, 'getJobProfileById').mockResolvedValue({ id: 'job-123' } as JobProfile);
+      jest.spyOn(ScoringService.prototype, 'calculateCandidateScore').mockResolvedValue(score);
+    });
+
+    test('should save the score and re-rank a standalone scoring job', async () => {
+      jest.spyOn(candidateService, 'getCandidateById').mockResolvedValue(candidate());
+      const save = jest.spyOn(candidateService, 'saveCandidateScore').mockResolvedValue();
+      const rank = jest.spyOn(candidateService, 'updateRankings').mockResolvedValue(3);
+
+      await expect(scoringProcessor(job(jobData()))).resolves.toBe(score);
+
+      expect(save).toHaveBeenCalledWith(score.candidateId, score);
+      expect(rank).toHaveBeenCalledWith('job-123');
+    });
+
+    test('should leave re-ranking of a pipeline run to the queue manager', async () => {
+      jest.spyOn(candidateService, 'getCandidateById').mockResolvedValue(candidate());
+      const save = jest.spyOn(candidateService, 'saveCandidateScore').mockResolvedValue();
+      const rank = jest.spyOn(candidateService, 'updateRankings').mockResolvedValue(0);
+
+      await scoringProcessor(job(jobData({ pipelineStages: ['resume', 'ai-analysis', 'scoring'] })));
+
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(rank).not.toHaveBeenCalled();
+    });
+
+    test('should reanalyze the stored profiles before re-scoring for a changed job profile', async () => {
+      const reloaded = { ...candidate(), linkedInAnalysis: { overallScore: 90 } } as unknown as Candidate;
+      const load = jest.spyOn(candidateService, 'getCandidateById')
+        .mockResolvedValueOnce(candidate())
+        .mockResolvedValueOnce(reloaded);
+      const reanalyze = jest.spyOn(profileRefreshService, 'reanalyzeCandidate').mockResolvedValue(true);
+      jest.spyOn(candidateService, 'saveCandidateScore').mockResolvedValue();
+      jest.spyOn(candidateService, 'updateRankings').mockResolvedValue(0);
+
+      await scoringProcessor(job(jobData({ pipelineStages: ['scoring'], metadata: { reanalyzeProfiles: true } })));
+
+      expect(reanalyze).toHaveBeenCalledWith(score.candidateId, { id: 'job-123' });
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(ScoringService.prototype.calculateCandidateScore).toHaveBeenCalledWith(reloaded, { id: 'job-123' });
+    });
+
+    test('should not score a resume that requires manual review', async () => {
+      jest.spyOn(candidateService, 'getCandidateById').mockResolvedValue(candidate(true));
+      const save = jest.spyOn(candidateService, 'saveCandidateScore');
+
+      await expect(scoringProcessor(job(jobData()))).resolves.toEqual({ skipped: true, reason: 'Low OCR confidence' });
+
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failed AI analysis', () => {
+    const failedHandler = () => {
+      const queue = { name: 'ai-analysis', on: jest.fn() };
+      (queueManager as any).setupQueueEventListeners(queue);
+      return queue.on.mock.calls.find(([event]) => event === 'failed')![1] as (job: Job, err: Error) => void;
+    };
+
+    test('should flag the candidate, skip scoring and leave it out of the ranking', async () => {
+      const pipelineStages = ['resume', 'ai-analysis', 'scoring'] as JobData['pipelineStages'];
+      const candidateData = { id: score.candidateId, resumeData: {} } as unknown as Candidate;
+      jest.spyOn(candidateService, 'getCandidateById').mockResolvedValue(candidateData);
+      jest.spyOn(jobProfileService, 'getJobProfileById').mockResolvedValue({ id: 'job-123' } as JobProfile);
+      jest.spyOn(aiCostService, 'isBatchOverBudget').mockResolvedValue(false);
+      jest.spyOn(aiAnalysisService, 'analyzeResume').mockRejectedValue(
+        new AIAnalysisFailedError('No AI provider produced a valid analysis', {} as never)
+      );
+      const mark = jest.spyOn(candidateService, 'markAIAnalysisFailed').mockResolvedValue();
+      const advance = jest.spyOn(queueManager as any, 'advancePipeline').mockResolvedValue(undefined as never);
+      const analysisJob = {
+        ...job(jobData({ stage: 'ai-analysis', pipelineStages })),
+        attemptsMade: 1,
+        opts: { attempts: 3 },
+        discard: jest.fn(),
+        isDiscarded: () => analysisJob.discard.mock.calls.length > 0,
+      };
+
+      await expect(aiAnalysisProcessor(analysisJob as unknown as Job<JobData>)).rejects.toThrow(AIAnalysisFailedError);
+      expect(mark).toHaveBeenCalledWith(score.candidateId, 'No AI provider produced a valid analysis');
+      expect(analysisJob.discard).toHaveBeenCalled();
+
+      // Not retried, so its first failure is final and releases the rest of the pipeline
+      failedHandler()(analysisJob as unknown as Job, new Error('No AI provider produced a valid analysis'));
+      expect(advance).toHaveBeenCalledWith(analysisJob, 'failed');
+
+      jest.spyOn(candidateService, 'getCandidateById').mockResolvedValue({
+        ...candidateData,
+        processingStage: 'analysis-failed',
+        analysisFailureReason: 'No AI provider produced a valid analysis',
+      } as Candidate);
+      const calculate = jest.spyOn(ScoringService.prototype, 'calculateCandidateScore');
+      const save = jest.spyOn(candidateService, 'saveCandidateScore');
+
+      await expect(scoringProcessor(job(jobData({ pipelineStages })))).resolves.toEqual({
+        skipped: true,
+        reason: 'No AI provider produced a valid analysis',
+      });
+      expect(calculate).not.toHaveBeenCalled();
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    test('should wait for the retries of other failures', () => {
+      const advance = jest.spyOn(queueManager as any, 'advancePipeline').mockResolvedValue(undefined as never);
+      const retriedJob = { ...job(jobData({ stage: 'ai-analysis' })), attemptsMade: 1, opts: { attempts: 3 }, isDiscarded: () => false };
+
+      failedHandler()(retriedJob as unknown as Job, new Error('socket hang up'));
+
+      expect(advance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('score persistence', () => {
+    test('should store the score with a provisional rank and mark the candidate completed', async () => {
+      const count = jest.spyOn(CandidateModel, 'countDocuments').mockResolvedValue(4 as never);
+      const update = jest.spyOn(CandidateModel, 'updateOne').mockResolvedValue({ matchedCount: 1 } as never);
+
+      await candidateService.saveCandidateScore(score.candidateId, score);
+
+      expect(count).toHaveBeenCalledWith(expect.objectContaining({ 'finalScore.compositeScore': { $gt: 72 } }));
+      expect(update).toHaveBeenCalledWith(
+        { _id: score.candidateId },
+        { $set: expect.objectContaining({ finalScore: { ...score, rank: 5 }, processingStage: 'completed' }) }
+      );
+    });
+
+    test('should fail when the candidate does not exist', async () => {
+      jest.spyOn(CandidateModel, 'countDocuments').mockResolvedValue(0 as never);
+      jest.spyOn(CandidateModel, 'updateOne').mockResolvedValue({ matchedCount: 0 } as never);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(candidateService.saveCandidateScore(score.candidateId, score)).rejects.toThrow('Failed to save candidate score');
+    });
+
+    test('should only write ranks that changed', async () => {
+      const lean = jest.fn().mockResolvedValue([
+        { _id: 'a', finalScore: { compositeScore: 90, rank: 1 } },
+        { _id: 'b', finalScore: { compositeScore: 80, rank: 1 } },
+        { _id: 'c', finalScore: { compositeScore: 70, rank: 3 } },
+      ]);
+      const chain = { select: () => chain, sort: () => chain, lean };
+      jest.spyOn(CandidateModel, 'find').mockReturnValue(chain as never);
+      const bulkWrite = jest.spyOn(CandidateModel, 'bulkWrite').mockResolvedValue({} as never);
+
+      await expect(candidateService.updateRankings('job-123')).resolves.toBe(1);
+
+      expect(bulkWrite).toHaveBeenCalledWith([
+        { updateOne: { filter: { _id: 'b' }, update: { $set: { 'finalScore.rank': 2 } } } },
+      ]);
+    });
+  });
+
+  describe('job profile re-scoring', () => {
+    beforeEach(() => {
+      jest.spyOn(queueManager, 'isReady').mockReturnValue(true);
+    });
+
+    test('should enqueue a reanalyzing scoring job for each scored candidate', async () => {
+      jest.spyOn(profileRefreshService, 'getScoredCandidateIds').mockResolvedValue(['a', 'b']);
+      const expectCount = jest.spyOn(queueManager, 'expectScoringJobs').mockResolvedValue();
+      const add = jest.spyOn(queueManager, 'addBatchJobs').mockResolvedValue([]);
+
+      const rescore = await queueOrchestrator.rescoreJobProfile('job-123');
+
+      expect(rescore).toEqual({ batchId: expect.any(String), candidates: 2 });
+      expect(expectCount).toHaveBeenCalledWith(rescore?.batchId, 2);
+      expect(add).toHaveBeenCalledWith(['a', 'b'].map(candidateId => expect.objectContaining({
+        queueName: 'scoring',
+        jobData: expect.objectContaining({
+          candidateId,
+          stage: 'scoring',
+          pipelineStages: ['scoring'],
+          metadata: { reanalyzeProfiles: true },
+        }),
+      })));
+    });
+
+    test('should not enqueue anything without scored candidates', async () => {
+      jest.spyOn(profileRefreshService, 'getScoredCandidateIds').mockResolvedValue([]);
+      const add = jest.spyOn(queueManager, 'addBatchJobs');
+
+      await expect(queueOrchestrator.rescoreJobProfile('job-123')).resolves.toBeNull();
+
+      expect(add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('batch re-ranking', () => {
+    const settle = (data: JobData) => (queueManager as any).advancePipeline(job(data), 'completed');
+
+    beforeEach(() => {
+      (queueManager as any).isInitialized = true;
+    });
+
+    afterAll(() => {
+      (queueManager as any).isInitialized = false;
+    });
+
+    test('should re-rank once, after the last scoring job of a batch settles', async () => {
+      const rank = jest.spyOn(candidateService, 'updateRankings').mockResolvedValue(2);
+      mockedRedis.decr.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+      const data = jobData({ pipelineStages: ['resume', 'ai-analysis', 'scoring'] });
+
+      await settle(data);
+      expect(rank).not.toHaveBeenCalled();
+
+      await settle(data);
+      expect(rank).toHaveBeenCalledTimes(1);
+      expect(rank).toHaveBeenCalledWith('job-123');
+      expect(mockedRedis.del).toHaveBeenCalledWith('pipeline:scoring:pending:batch-1');
+    });
+
+    test('should re-rank right away for runs without an expected count', async () => {
+      const rank = jest.spyOn(candidateService, 'updateRankings').mockResolvedValue(0);
+      mockedRedis.decr.mockResolvedValueOnce(-1);
+
+      await settle(jobData({ pipelineStages: ['scoring'] }));
+
+      expect(rank).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -40,7 +40,7 @@ describe('VAPIInterviewService', () => {
         fileName: 'john-doe-resume.pdf',
         extractedText: 'Experienced software engineer with 5 years in full-stack development...',
         contactInfo: {
-          phone: '+1-555-123-4567',
+          phone: '+1-213-373-4253',
           email: 'john.doe@example.com',
           linkedInUrl: 'https://linkedin.com/in/johndoe',
           githubUrl: 'https://github.com/johndoe',
@@ -97,7 +97,7 @@ describe('VAPIInterviewService', () => {
       const mockVAPIResponse = {
         id: 'vapi-call-789',
         status: 'queued',
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
       };
 
       mockedAxios.post.mockResolvedValueOnce({
@@ -108,7 +108,7 @@ describe('VAPIInterviewService', () => {
       const result = await vapiService.scheduleInterview(
         mockCandidate,
         mockJobProfile,
-        '+1-555-123-4567'
+        '+1-213-373-4253'
       );
 
       expect(result).toEqual({
@@ -124,7 +124,7 @@ describe('VAPIInterviewService', () => {
       expect(mockedAxios.post).toHaveBeenCalledWith(
         'https://api.vapi.ai/call',
         expect.objectContaining({
-          phoneNumber: '+15551234567',
+          phoneNumber: '+12133734253',
           assistant: expect.objectContaining({
             model: {
               provider: 'openai',
@@ -174,7 +174,7 @@ describe('VAPIInterviewService', () => {
       mockedAxios.post.mockRejectedValueOnce(axiosError);
 
       await expect(
-        vapiService.scheduleInterview(mockCandidate, mockJobProfile, '+1-555-123-4567')
+        vapiService.scheduleInterview(mockCandidate, mockJobProfile, '+1-213-373-4253')
       ).rejects.toThrow('Invalid call request: Invalid request');
     });
 
@@ -201,7 +201,7 @@ describe('VAPIInterviewService', () => {
       const result = await vapiService.scheduleInterview(
         mockCandidate,
         mockJobProfile,
-        '+1-555-123-4567'
+        '+1-213-373-4253'
       );
 
       expect(result.vapiCallId).toBe('vapi-call-789');
@@ -216,7 +216,7 @@ describe('VAPIInterviewService', () => {
       const mockCallData = {
         id: 'vapi-call-789',
         status: 'completed',
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
         startedAt: '2024-01-01T10:00:00Z',
         endedAt: '2024-01-01T10:15:00Z',
         duration: 900,
@@ -265,7 +265,7 @@ describe('VAPIInterviewService', () => {
       const mockCallData = {
         id: 'vapi-call-789',
         status: 'ended' as const,
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
         duration: 900,
         transcript: 'Interview transcript here. This is a longer transcript that should be over 100 characters to meet the quality threshold for excellent call quality assessment. The candidate discussed their experience with various technologies and provided detailed answers to all questions.',
         endedReason: 'customer-ended-call' as const,
@@ -296,7 +296,7 @@ describe('VAPIInterviewService', () => {
       const mockCallData = {
         id: 'vapi-call-789',
         status: 'ended' as const,
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
         duration: 0,
         endedReason: 'no-answer' as const,
       };
@@ -323,7 +323,7 @@ describe('VAPIInterviewService', () => {
       const mockVAPIResponse = {
         id: 'vapi-call-retry-999',
         status: 'queued',
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
       };
 
       mockedAxios.post.mockResolvedValueOnce({
@@ -335,7 +335,7 @@ describe('VAPIInterviewService', () => {
         mockSession,
         mockCandidate,
         mockJobProfile,
-        '+1-555-123-4567'
+        '+1-213-373-4253'
       );
 
       expect(result).toEqual({
@@ -361,7 +361,7 @@ describe('VAPIInterviewService', () => {
       };
 
       await expect(
-        vapiService.retryInterview(mockSession, mockCandidate, mockJobProfile, '+1-555-123-4567')
+        vapiService.retryInterview(mockSession, mockCandidate, mockJobProfile, '+1-213-373-4253')
       ).rejects.toThrow('Maximum retry attempts reached for interview');
 
       expect(mockedAxios.post).not.toHaveBeenCalled();
@@ -376,7 +376,7 @@ describe('VAPIInterviewService', () => {
           call: {
             id: 'vapi-call-789',
             status: 'in-progress' as const,
-            phoneNumber: '+15551234567',
+            phoneNumber: '+12133734253',
           },
           timestamp: '2024-01-01T10:00:00Z',
         },
@@ -401,7 +401,7 @@ describe('VAPIInterviewService', () => {
           call: {
             id: 'vapi-call-789',
             status: 'ended' as const,
-            phoneNumber: '+15551234567',
+            phoneNumber: '+12133734253',
             duration: 900,
             endedReason: 'customer-ended-call' as const,
           },
@@ -491,16 +491,16 @@ describe('VAPIInterviewService', () => {
   describe('phone number validation and formatting', () => {
     it('should format US phone numbers correctly', async () => {
       const testCases = [
-        { input: '555-123-4567', expected: '+15551234567' },
-        { input: '(555) 123-4567', expected: '+15551234567' },
-        { input: '1-555-123-4567', expected: '+15551234567' },
-        { input: '+1-555-123-4567', expected: '+15551234567' },
+        { input: '213-373-4253', expected: '+12133734253' },
+        { input: '(213) 373-4253', expected: '+12133734253' },
+        { input: '1-213-373-4253', expected: '+12133734253' },
+        { input: '+1-213-373-4253', expected: '+12133734253' },
       ];
 
       const mockVAPIResponse = {
         id: 'vapi-call-test',
         status: 'queued',
-        phoneNumber: '+15551234567',
+        phoneNumber: '+12133734253',
       };
 
       for (const testCase of testCases) {
@@ -524,7 +524,8 @@ describe('VAPIInterviewService', () => {
     });
 
     it('should reject invalid phone numbers', async () => {
-      const invalidNumbers = ['123', 'abc-def-ghij', '555-123', ''];
+      // The last is a possible number, but 555 is not an assigned area code
+      const invalidNumbers = ['123', 'abc-def-ghij', '555-123', '', '+1 555-123-4567'];
 
       for (const invalidNumber of invalidNumbers) {
         await expect(
@@ -549,7 +550,7 @@ describe('VAPIInterviewService', () => {
         status: 200,
       });
 
-      await vapiService.scheduleInterview(mockCandidate, seniorJobProfile, '+1-555-123-4567');
+      await vapiService.scheduleInterview(mockCandidate, seniorJobProfile, '+1-213-373-4253');
 
       const callArgs = mockedAxios.post.mock.calls[0];
       if (callArgs && callArgs[1]) {
@@ -573,7 +574,7 @@ describe('VAPIInterviewService', () => {
         status: 200,
       });
 
-      await vapiService.scheduleInterview(mockCandidate, entryJobProfile, '+1-555-123-4567');
+      await vapiService.scheduleInterview(mockCandidate, entryJobProfile, '+1-213-373-4253');
 
       const callArgs = mockedAxios.post.mock.calls[0];
       if (callArgs && callArgs[1]) {
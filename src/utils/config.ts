@@ -1,4 +1,6 @@
 import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { AIProviderPricing, ConsensusSettings, LinkedInDataSourceName, LLMFixtureMode } from '../models/interfaces';
 
 // Load environment variables
 dotenv.config();
@@ -20,20 +22,49 @@ export interface Config {
   aiProviders: {
     gemini: {
       apiKey: string;
+      model: string;
     };
     openai: {
       apiKey: string;
+      model: string;
     };
     claude: {
       apiKey: string;
+      model: string;
     };
+    local: {
+      baseUrl?: string | undefined; // OpenAI-compatible endpoint, e.g. Ollama or llama.cpp server
+      model: string;
+      apiKey: string;
+      structuredOutput: boolean; // Request tool calls; needs a model with tool support
+    };
+    fallbackOrder: string[];
+    maxRetries?: number | undefined; // Overrides each provider's default attempt count
+    timeout?: number | undefined; // Overrides each service's default per-attempt timeout (ms)
+    consensus: ConsensusSettings;
+    chunking: {
+      maxResumeTokens: number; // Longer resumes are analyzed in chunks
+      chunkTokens: number; // Target size of each chunk
+    };
+    fixtures: {
+      mode: LLMFixtureMode; // Record provider answers to dir, or replay them offline
+      dir: string;
+    };
+  };
+  aiCosts: {
+    pricing: { [provider: string]: AIProviderPricing }; // USD per million tokens; unlisted providers cost nothing
+    batchBudgetUsd?: number | undefined; // Default AI spend limit per batch; unlimited when unset
   };
   linkedIn: {
     scraperApiKey: string;
     baseUrl: string;
+    dataSources: LinkedInDataSourceName[]; // Tried in order until one provides the profile
+    snapshotMaxAgeHours: number; // Scraped profiles younger than this are reused instead of scraped again
   };
   github: {
     token: string;
+    snapshotMaxAgeHours: number; // Fetched profiles younger than this are reused instead of fetched again
+    useGraphQL: boolean; // Fetch profiles through the GraphQL API, falling back to REST
   };
   vapi: {
     apiKey: string;
@@ -53,9 +84,55 @@ export interface Config {
     maxBatchSize: number;
     maxRetries: number;
     processingTimeout: number;
+    maxArchiveSize: number;
+    maxArchiveEntries: number;
+    maxArchiveUncompressedSize: number;
+    maxUploadUncompressedSize: number; // Bytes across all archives of one batch upload
+    ocrMinConfidence: number;
+    ocrLangPath?: string | undefined;
+    defaultPhoneRegion: string;
+    analysisReuseMaxAgeDays: number;
+    batchStagingDir: string;
   };
 }
 
+/**
+ * Parse "gemini:1,openai:2" into { gemini: 1, openai: 2 }
+ */
+function parseProviderWeights(value: string | undefined): { [provider: string]: number } {
+  const weights: { [provider: string]: number } = {};
+  for (const entry of (value || '').split(',')) {
+    const [provider, weight] = entry.split(':').map(part => part.trim());
+    if (provider && weight && !isNaN(parseFloat(weight))) {
+      weights[provider] = parseFloat(weight);
+    }
+  }
+  return weights;
+}
+
+// List prices of the default models, USD per million tokens
+const DEFAULT_AI_PRICING: { [provider: string]: AIProviderPricing } = {
+  gemini: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  openai: { inputPerMillion: 30, outputPerMillion: 60 },
+  claude: { inputPerMillion: 3, outputPerMillion: 15 },
+};
+
+/**
+ * Merge AI_PRICING, e.g. {"openai":{"inputPerMillion":2.5,"outputPerMillion":10}}, over the default rate table
+ */
+function parseAIPricing(value: string | undefined): { [provider: string]: AIProviderPricing } {
+  if (!value) {
+    return { ...DEFAULT_AI_PRICING };
+  }
+
+  try {
+    return { ...DEFAULT_AI_PRICING, ...JSON.parse(value) };
+  } catch {
+    console.warn('Ignoring AI_PRICING: not valid JSON');
+    return { ...DEFAULT_AI_PRICING };
+  }
+}
+
 const config: Config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
@@ -73,20 +150,63 @@ const config: Config = {
   aiProviders: {
     gemini: {
       apiKey: process.env.GEMINI_API_KEY || '',
+      model: process.env.GEMINI_MODEL || 'gemini-pro',
     },
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
+      model: process.env.OPENAI_MODEL || 'gpt-4',
     },
     claude: {
       apiKey: process.env.CLAUDE_API_KEY || '',
+      model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
+    },
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL,
+      model: process.env.LOCAL_LLM_MODEL || 'llama3',
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+      structuredOutput: process.env.LOCAL_LLM_STRUCTURED_OUTPUT === 'true',
     },
+    fallbackOrder: (process.env.AI_PROVIDER_ORDER || 'gemini,openai,claude')
+      .split(',').map(name => name.trim()).filter(Boolean),
+    maxRetries: process.env.AI_PROVIDER_MAX_RETRIES ? parseInt(process.env.AI_PROVIDER_MAX_RETRIES, 10) : undefined,
+    timeout: process.env.AI_PROVIDER_TIMEOUT_MS ? parseInt(process.env.AI_PROVIDER_TIMEOUT_MS, 10) : undefined,
+    consensus: {
+      enabled: process.env.AI_CONSENSUS_ENABLED === 'true',
+      providers: (process.env.AI_CONSENSUS_PROVIDERS || 'gemini,openai,claude')
+        .split(',').map(name => name.trim()).filter(Boolean),
+      aggregation: process.env.AI_CONSENSUS_AGGREGATION === 'weighted-mean' ? 'weighted-mean' : 'median',
+      weights: parseProviderWeights(process.env.AI_CONSENSUS_WEIGHTS),
+      skillsMerge: process.env.AI_CONSENSUS_SKILLS_MERGE === 'intersection' ? 'intersection' : 'union',
+      maxSpread: parseFloat(process.env.AI_CONSENSUS_MAX_SPREAD || '20'),
+      minRelevanceScore: parseFloat(process.env.AI_CONSENSUS_MIN_SCORE || '70'),
+    },
+    chunking: {
+      maxResumeTokens: parseInt(process.env.AI_MAX_RESUME_TOKENS || '4000', 10),
+      chunkTokens: parseInt(process.env.AI_RESUME_CHUNK_TOKENS || '3000', 10),
+    },
+    fixtures: {
+      mode: process.env.AI_FIXTURE_MODE === 'record' || process.env.AI_FIXTURE_MODE === 'replay'
+        ? process.env.AI_FIXTURE_MODE
+        : 'off',
+      dir: process.env.AI_FIXTURE_DIR || path.join(process.cwd(), 'src', 'test', 'fixtures', 'llm'),
+    },
+  },
+  aiCosts: {
+    pricing: parseAIPricing(process.env.AI_PRICING),
+    batchBudgetUsd: process.env.AI_BATCH_BUDGET_USD ? parseFloat(process.env.AI_BATCH_BUDGET_USD) : undefined,
   },
   linkedIn: {
     scraperApiKey: process.env.LINKEDIN_SCRAPER_API_KEY || '',
     baseUrl: process.env.LINKEDIN_SCRAPER_BASE_URL || 'https://api.linkedin-scraper.com',
+    dataSources: (process.env.LINKEDIN_DATA_SOURCES || 'scraper,pdf-export,json')
+      .split(',').map(name => name.trim())
+      .filter((name): name is LinkedInDataSourceName => ['scraper', 'pdf-export', 'json'].includes(name)),
+    snapshotMaxAgeHours: parseFloat(process.env.LINKEDIN_SNAPSHOT_MAX_AGE_HOURS || '168'),
   },
   github: {
     token: process.env.GITHUB_TOKEN || '',
+    snapshotMaxAgeHours: parseFloat(process.env.GITHUB_SNAPSHOT_MAX_AGE_HOURS || '24'),
+    useGraphQL: process.env.GITHUB_USE_GRAPHQL !== 'false',
   },
   vapi: {
     apiKey: process.env.VAPI_API_KEY || '',
@@ -106,6 +226,15 @@ const config: Config = {
     maxBatchSize: parseInt(process.env.MAX_BATCH_SIZE || '100', 10),
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
     processingTimeout: parseInt(process.env.PROCESSING_TIMEOUT || '300000', 10),
+    maxArchiveSize: parseInt(process.env.MAX_ARCHIVE_SIZE || String(100 * 1024 * 1024), 10),
+    maxArchiveEntries: parseInt(process.env.MAX_ARCHIVE_ENTRIES || '10000', 10),
+    maxArchiveUncompressedSize: parseInt(process.env.MAX_ARCHIVE_UNCOMPRESSED_SIZE || String(1024 * 1024 * 1024), 10),
+    maxUploadUncompressedSize: parseInt(process.env.MAX_UPLOAD_UNCOMPRESSED_SIZE || String(2 * 1024 * 1024 * 1024), 10),
+    ocrMinConfidence: parseFloat(process.env.OCR_MIN_CONFIDENCE || '60'),
+    ocrLangPath: process.env.OCR_LANG_PATH,
+    defaultPhoneRegion: (process.env.DEFAULT_PHONE_REGION || 'US').toUpperCase(),
+    analysisReuseMaxAgeDays: parseInt(process.env.ANALYSIS_REUSE_MAX_AGE_DAYS || '30', 10),
+    batchStagingDir: process.env.BATCH_STAGING_DIR || path.join(process.cwd(), 'uploads', 'staging'),
   },
 };
 
@@ -378,6 +378,38 @@ export class DatabaseConnection {
           collection: 'candidates',
           field: { processingStage: 1, 'finalScore.jobProfileId': 1, createdAt: -1 },
           name: 'processingStage_compound_1'
+        },
+        {
+          collection: 'interviewanalysisresults',
+          field: { candidateId: 1, interviewSessionId: 1 },
+          options: { unique: true },
+          name: 'candidateId_1_interviewSessionId_1'
+        },
+        {
+          collection: 'prompttemplates',
+          field: { templateId: 1, version: 1 },
+          options: { unique: true },
+          name: 'templateId_1_version_1'
+        },
+        {
+          collection: 'prompttemplates',
+          field: { kind: 1, templateId: 1, active: 1 },
+          name: 'kind_1_templateId_1_active_1'
+        },
+        {
+          collection: 'aiusagerecords',
+          field: { batchId: 1, day: 1 },
+          name: 'batchId_1_day_1'
+        },
+        {
+          collection: 'aiusagerecords',
+          field: { jobProfileId: 1, day: 1 },
+          name: 'jobProfileId_1_day_1'
+        },
+        {
+          collection: 'aiusagerecords',
+          field: { day: 1 },
+          name: 'day_1'
         }
       ];
 
@@ -410,7 +442,15 @@ export class DatabaseConnection {
         { collection: 'candidates', field: { 'githubAnalysis.technicalScore': -1 }, name: 'githubAnalysis.technicalScore_-1' },
         { collection: 'candidates', field: { 'githubAnalysis.profileStats.publicRepos': -1 }, name: 'githubAnalysis.publicRepos_-1' },
         { collection: 'candidates', field: { 'interviewSession.status': 1 }, name: 'interviewSession.status_1' },
-        { collection: 'candidates', field: { 'interviewSession.scheduledAt': -1 }, name: 'interviewSession.scheduledAt_-1' }
+        { collection: 'candidates', field: { 'interviewSession.scheduledAt': -1 }, name: 'interviewSession.scheduledAt_-1' },
+        { collection: 'candidates', field: { 'resumeData.sections.totalYearsExperience': -1 }, name: 'resumeData.sections.totalYearsExperience_-1' },
+        { collection: 'candidates', field: { 'resumeData.sections.highestDegreeLevel': 1 }, name: 'resumeData.sections.highestDegreeLevel_1' },
+        // Duplicate applicant lookups
+        { collection: 'candidates', field: { 'identity.email': 1 }, name: 'identity.email_1' },
+        { collection: 'candidates', field: { 'identity.phone': 1 }, name: 'identity.phone_1' },
+        { collection: 'candidates', field: { 'identity.linkedInHandle': 1 }, name: 'identity.linkedInHandle_1' },
+        { collection: 'candidates', field: { 'identity.githubHandle': 1 }, name: 'identity.githubHandle_1' },
+        { collection: 'candidates', field: { 'identity.fingerprintBands': 1 }, name: 'identity.fingerprintBands_1' }
       ];
 
       for (const indexConfig of analysisIndexes) {
@@ -467,7 +507,8 @@ export class DatabaseConnection {
           name: 'resume_text_search'
         },
         { collection: 'candidates', field: { updatedAt: -1 as const }, name: 'updatedAt_-1' },
-        { collection: 'candidates', field: { createdAt: -1 as const, processingStage: 1 as const }, name: 'createdAt_processingStage_compound' }
+        { collection: 'candidates', field: { createdAt: -1 as const, processingStage: 1 as const }, name: 'createdAt_processingStage_compound' },
+        { collection: 'profilesnapshots', field: { source: 1 as const, profileKey: 1 as const, fetchedAt: -1 as const }, name: 'source_profileKey_fetchedAt_compound' }
       ];
 
       for (const indexConfig of miscIndexes) {
@@ -0,0 +1,95 @@
+import {
+  CountryCode,
+  PhoneNumber,
+  findPhoneNumbersInText,
+  getCountryCallingCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString
+} from 'libphonenumber-js/max';
+import { config } from './config';
+
+// Employment date ranges such as "2012 - 12/2014" have a possible phone number's digit count
+const DATE_RANGE_PATTERN = /^(?:\d{1,2}\/)?(?:19|20)\d{2}\s*[-–—]\s*(?:\d{1,2}\/)?(?:19|20)\d{2}$/;
+
+export interface NormalizedPhoneNumber {
+  raw: string; // As written in the source text
+  e164: string; // e.g. +442079460958
+  country?: string; // ISO 3166-1 alpha-2, when it can be determined
+}
+
+/**
+ * Whether a region is an ISO 3166-1 alpha-2 code with known phone numbering rules
+ */
+export function isSupportedPhoneRegion(region: string): boolean {
+  return /^[A-Z]{2}$/.test(region) && isSupportedCountry(region);
+}
+
+/**
+ * Resolve the region used for numbers written without a country code.
+ * Falls back to DEFAULT_PHONE_REGION when the given region is missing or unknown.
+ */
+function resolveRegion(defaultRegion?: string): CountryCode | undefined {
+  const region = (defaultRegion || config.processing.defaultPhoneRegion || '').toUpperCase();
+  return isSupportedPhoneRegion(region) ? region as CountryCode : undefined;
+}
+
+function toNormalized(phoneNumber: PhoneNumber, raw: string, region?: CountryCode): NormalizedPhoneNumber {
+  // Numbers outside the assigned ranges (e.g. 555 numbers) still carry a calling code;
+  // attribute them to the default region when the calling codes agree
+  let country: string | undefined = phoneNumber.country;
+  if (!country && region && getCountryCallingCode(region) === phoneNumber.countryCallingCode) {
+    country = region;
+  }
+
+  return {
+    raw,
+    e164: phoneNumber.number,
+    ...(country && { country })
+  };
+}
+
+/**
+ * Parse a single phone number and normalize it to E.164.
+ * Returns null when the input cannot be a phone number in the given (or default) region.
+ */
+export function normalizePhoneNumber(input: string, defaultRegion?: string): NormalizedPhoneNumber | null {
+  if (!input || !input.trim()) {
+    return null;
+  }
+
+  const region = resolveRegion(defaultRegion);
+  const phoneNumber = parsePhoneNumberFromString(input.trim(), region);
+  if (!phoneNumber || !phoneNumber.isPossible()) {
+    return null;
+  }
+
+  return toNormalized(phoneNumber, input.trim(), region);
+}
+
+/**
+ * Find the first phone number in free text such as a resume
+ */
+export function extractPhoneNumber(text: string, defaultRegion?: string): NormalizedPhoneNumber | null {
+  const region = resolveRegion(defaultRegion);
+  // Extended search keeps numbers outside the assigned ranges, such as 555 numbers, which are dropped by default
+  for (const match of findPhoneNumbersInText(text, { defaultCountry: region, extended: true })) {
+    const raw = text.slice(match.startsAt, match.endsAt);
+    if (!DATE_RANGE_PATTERN.test(raw)) {
+      return toNormalized(match.number, raw, region);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a number is assigned in its region's numbering plan and so can be called.
+ * Stricter than normalizePhoneNumber, which accepts any number of a possible length.
+ */
+export function isValidPhoneNumber(input: string, defaultRegion?: string): boolean {
+  if (!input || !input.trim()) {
+    return false;
+  }
+
+  return parsePhoneNumberFromString(input.trim(), resolveRegion(defaultRegion))?.isValid() === true;
+}
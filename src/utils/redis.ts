@@ -181,6 +181,16 @@ class RedisConnectionManager {
     return await client.decr(key);
   }
 
+  async sadd(key: string, member: string): Promise<number> {
+    const client = this.getClient();
+    return await client.sAdd(key, member);
+  }
+
+  async scard(key: string): Promise<number> {
+    const client = this.getClient();
+    return await client.sCard(key);
+  }
+
   async expire(key: string, seconds: number): Promise<boolean> {
     const client = this.getClient();
     const result = await client.expire(key, seconds);